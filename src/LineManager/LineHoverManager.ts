@@ -1,12 +1,12 @@
 import * as vscode from 'vscode';
 import { DocumentManager } from '../core/DocumentManager';
 import { JsonMessageUtils } from '../utils/JsonMessageUtils';
-import { MainCompletionProvider } from '../core/MainCompletionProvider';
 import { ColorCode, FormatCode, StyleCode, LINE_BREAK, OBFUSCATED_SYMBOL } from '../utils/JsonMessageUtils';
 import { DataLoader } from '../core/DataLoader';
-import { CommandsInfo } from '../core/CommandCompletionProvider';
+import { ParsedCommand, ParsedNode } from '../core/CommandParser';
 import { MinecraftUtils } from '../utils/MinecraftUtils';
 import { FileLineIdleSearchProcessor } from '../core/FileLineIdleSearchProcessor';
+import { BlockDataValues, BlockNameMap } from '../utils/EnumLib';
 // 引入与LinePreviewManager一致的类型定义
 
 
@@ -30,17 +30,22 @@ export class LineHoverManager {
         position: vscode.Position,
         token: vscode.CancellationToken
     ): vscode.ProviderResult<vscode.Hover> {
+        const parsed = DocumentManager.getInstance().getParsedLine(document, position.line);
+        // 方块数据值说明不受 JSON 预览开关影响
+        const blockDataHover = this.provideBlockDataHover(parsed, position.character);
+        if (blockDataHover) {
+            return blockDataHover;
+        }
         if (DataLoader.getConfig()['json-message-hover-preview'] === false) { return; }
-        const originCommands = DocumentManager.getInstance().getCommandSegments(document, position.line);
-        const commands = MainCompletionProvider.instance.findActiveCommand(originCommands);
-        if (commands.currentCommands[0] === 'tellraw' || commands.currentCommands[0] === 'title') {
-            return this.provideJsonMessageHover(document, position, commands);
+        const command = parsed.innermost;
+        if (command.name === 'tellraw' || command.name === 'title') {
+            return this.provideJsonMessageHover(command);
         }
-        if (commands.currentCommands[0] === 'function') {
-            return this.provideFunctionHover(document, position, commands);
+        if (command.name === 'function') {
+            return this.provideFunctionHover(command);
         }
-        if (commands.currentCommands[0] === 'scoreboard') {
-            return this.provideScoreboardHover(document, position, commands);
+        if (command.name === 'scoreboard') {
+            return this.provideScoreboardHover(parsed.nodeAt(position.character));
         }
 
 
@@ -154,16 +159,10 @@ export class LineHoverManager {
         );
     }
 
-    private provideFunctionHover(
-        document: vscode.TextDocument,
-        position: vscode.Position,
-        commands: CommandsInfo
-    ): vscode.Hover {
-        // 1. 前置校验：仅处理 "function 函数名" 格式的命令（至少2个片段：命令名+函数名）
-        if (!commands.currentCommands ||
-            commands.currentCommands[0] !== 'function' ||
-            commands.currentCommands.length < 2
-        ) {
+    private provideFunctionHover(command: ParsedCommand): vscode.Hover {
+        // 1. 前置校验：仅处理 "function 函数名" 格式的命令（需已输入函数名）
+        const functionNode = command.getArgument('function');
+        if (!functionNode?.value) {
             return new vscode.Hover(""); // 不符合格式，返回空Hover
         }
 
@@ -171,7 +170,7 @@ export class LineHoverManager {
             if (!FileLineIdleSearchProcessor.isScanCompleted) { return new vscode.Hover("⚠️ 函数索引未完成，请稍后再试");}
             // 2. 获取目标函数的引用缓存（referencedFunctions：URI → 行号数组）
             // 注：假设 getFunctionRefferences 返回的是该函数被引用的所有位置（Map<vscode.Uri, number[]>）
-            const functionReferences = DocumentManager.getInstance().getFunctionRefferences(commands.currentCommands[1]);
+            const functionReferences = DocumentManager.getInstance().getFunctionRefferences(functionNode.value);
 
             // 3. 处理缓存为空的情况
             if (!functionReferences || functionReferences.size === 0) {
@@ -234,14 +233,14 @@ export class LineHoverManager {
         }
     }
 
-    private provideJsonMessageHover(document: vscode.TextDocument, position: vscode.Position, commands: CommandsInfo): vscode.Hover {
-        if (!commands.currentCommands || !["tellraw", "title"].includes(commands.currentCommands[0])) {
+    private provideJsonMessageHover(command: ParsedCommand): vscode.Hover {
+        const jsonNode = command.getArgumentsByType('json')[0];
+        if (!jsonNode) {
             return new vscode.Hover("");
         }
 
         try {
-            const jsonIndex = commands.currentCommands[0] === 'tellraw' ? 2 : 3;
-            const jsonObj = JSON.parse(commands.currentCommands[jsonIndex]);
+            const jsonObj = JSON.parse(jsonNode.value);
             const components = Array.isArray(jsonObj) ? jsonObj : [jsonObj];
             const normalizedComponents = JsonMessageUtils.getInstance().normalizeComponents(components);
 
@@ -256,20 +255,14 @@ export class LineHoverManager {
         }
     }
 
-    private provideScoreboardHover(document: vscode.TextDocument, position: vscode.Position, commands: CommandsInfo): vscode.Hover {
+    private provideScoreboardHover(node: ParsedNode | undefined): vscode.Hover {
         const markdown = new vscode.MarkdownString();
-        if (commands.currentCommands.length <= 4) {
-            return new vscode.Hover("");
-        }
-        // 获取当前光标所在文本
-        const select =  document.getText(document.getWordRangeAtPosition(position));
-        // 获取光标所在文本可能在的命令commands索引中
-        const index = this.caculateIndexInCommands(commands.currentCommands, select);
-        if (index === undefined) {
+        // 仅处理光标位于计分板目标参数上的情况
+        if (!node || node.type !== 'objective') {
             return new vscode.Hover("");
         }
         // 尝试获取记分板定义函数uri
-        const scoreboard = FileLineIdleSearchProcessor.SCOREBOARDS.get(commands.currentCommands[index]);
+        const scoreboard = FileLineIdleSearchProcessor.SCOREBOARDS.get(node.value);
         if (!scoreboard) {
             return new vscode.Hover("");
         }
@@ -279,9 +272,34 @@ export class LineHoverManager {
         return new vscode.Hover(markdown);
     }
 
-    private caculateIndexInCommands(commands: string[], part: string): number {
-        // 如果part包含在
-        return commands.findIndex(cmd => cmd.includes(part));
+    /**
+     * 光标位于方块数据值参数上时，显示该数据值的含义及方块的全部数据值
+     * @param parsed 整行解析树
+     * @param column 光标列号
+     * @returns 悬停提示（不在数据值上或方块未收录时返回undefined）
+     */
+    private provideBlockDataHover(parsed: ParsedCommand, column: number): vscode.Hover | undefined {
+        const pair = parsed.chain()
+            .flatMap(command => command.getBlockDataPairs())
+            .find(([, dataNode]) => dataNode.start <= column && column <= dataNode.end);
+        if (!pair) { return undefined; }
+
+        const [blockNode, dataNode] = pair;
+        const values = BlockDataValues.get(blockNode.value);
+        if (!values) { return undefined; }
+
+        const blockId = blockNode.value.replace(/^minecraft:/, '');
+        const markdown = new vscode.MarkdownString();
+        markdown.appendMarkdown(`### 🧱 ${BlockNameMap.getDescription(blockId)} \`${blockId}\`\n`);
+        const desc = values[dataNode.value];
+        markdown.appendMarkdown(desc
+            ? `数据值 **${dataNode.value}**：${desc}\n\n`
+            : `数据值 **${dataNode.value}** ${dataNode.value === '-1' ? '匹配任意数据值' : '无效'}\n\n`);
+        markdown.appendMarkdown('| 数据值 | 含义 |\n|---|---|\n');
+        Object.entries(values).forEach(([value, meaning]) => {
+            markdown.appendMarkdown(`| ${value} | ${meaning} |\n`);
+        });
+        return new vscode.Hover(markdown);
     }
 
     dispose() {
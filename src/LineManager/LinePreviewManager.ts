@@ -1,5 +1,4 @@
 import * as vscode from 'vscode';
-import { MainCompletionProvider } from '../core/MainCompletionProvider';
 import { DocumentManager } from '../core/DocumentManager';
 import { JsonMessageUtils } from '../utils/JsonMessageUtils';
 import { ColorCode, StyleCode, FormatCode, LINE_BREAK, OBFUSCATED_SYMBOL } from '../utils/JsonMessageUtils';
@@ -10,6 +9,16 @@ import { DataLoader } from '../core/DataLoader';
  */
 const DEBOUNCE_DELAY = 100;
 
+/**
+ * 纯文本消息命令（消息中的 @ 选择器与 § 格式代码会被渲染）
+ */
+const PLAIN_TEXT_COMMANDS = ['say', 'tell', 'msg', 'w', 'me'];
+
+/**
+ * 消息中的选择器提及（如 @p、@a[tag=x]）
+ */
+const SELECTOR_MENTION_REGEX = /@[aeprs](\[[^\]]*\])?/g;
+
 /**
  * 样式化文本片段接口
  * 用于表示具有特定格式的文本段落
@@ -58,7 +67,7 @@ interface StyledFragment {
 
 /**
  * 行预览管理器类
- * 负责在编辑器中实时预览tellraw和title命令的显示效果
+ * 负责在编辑器中实时预览tellraw、title及纯文本消息命令的显示效果
  */
 export class LinePreviewManager implements vscode.Disposable {
     /**
@@ -162,27 +171,28 @@ export class LinePreviewManager implements vscode.Disposable {
         // 获取光标所在行的信息
         const cursorLine = editor.selection.active.line;
 
-        // 使用主补全提供者解析命令
-        const commands = DocumentManager.getInstance().getCommandSegments(editor.document, cursorLine);
-        if (commands.length === 0) { return; }
-
-        // 查找当前活跃的命令
-        const activeCommand = MainCompletionProvider.instance.findActiveCommand(commands);
+        // 获取该行命令解析树，取最内层的活跃命令
+        const parsed = DocumentManager.getInstance().getParsedLine(editor.document, cursorLine);
+        const activeCommand = parsed.innermost;
 
-        // 检查是否为支持的命令(tellraw或title)
-        if (!this.isSupportedCommand(activeCommand.currentCommands[0])) {
+        // 检查是否为支持的命令(tellraw、title或纯文本消息命令)
+        if (!this.isSupportedCommand(activeCommand.name)) {
             return;
         }
 
-        let jsonPart = '';
-        // 根据命令类型提取JSON部分
-        if (activeCommand.currentCommands[0] === 'tellraw' && activeCommand.currentCommands.length > 2) {
-            jsonPart = activeCommand.currentCommands[2];
-        }
-        else if (activeCommand.currentCommands[0] === 'title' && activeCommand.currentCommands.length > 3) {
-            jsonPart = activeCommand.currentCommands[3];
+        // 纯文本消息：直接渲染选择器提及与格式代码
+        if (PLAIN_TEXT_COMMANDS.includes(activeCommand.name)) {
+            const textNode = activeCommand.getArgumentsByType('text')[0];
+            if (!textNode?.value) { return; }
+            const styledFragments = this.parseFormatCodes(this.splitSelectorMentions(textNode.value));
+            this.applyComponentDecorations(editor, cursorLine, styledFragments);
+            return;
         }
-        else { return; }
+
+        // 提取JSON文本参数
+        const jsonNode = activeCommand.getArgumentsByType('json')[0];
+        if (!jsonNode) { return; }
+        const jsonPart = jsonNode.value;
 
         // 如果没有JSON部分，显示警告装饰
         if (!jsonPart) {
@@ -209,7 +219,29 @@ export class LinePreviewManager implements vscode.Disposable {
      * @returns 是否为支持的命令
      */
     private isSupportedCommand(command: string): boolean {
-        return command === 'tellraw' || command === 'title';
+        return command === 'tellraw' || command === 'title' || PLAIN_TEXT_COMMANDS.includes(command);
+    }
+
+    /**
+     * 拆分纯文本消息中的选择器提及
+     * 选择器在游戏中会被替换为实体名称，预览时以青色标出
+     * @param message 消息文本
+     * @returns 文本组件数组
+     */
+    private splitSelectorMentions(message: string): Array<{ text: string, color?: string }> {
+        const components: Array<{ text: string, color?: string }> = [];
+        let lastIndex = 0;
+        for (const match of message.matchAll(SELECTOR_MENTION_REGEX)) {
+            if (match.index! > lastIndex) {
+                components.push({ text: message.substring(lastIndex, match.index) });
+            }
+            components.push({ text: match[0], color: 'aqua' });
+            lastIndex = match.index! + match[0].length;
+        }
+        if (lastIndex < message.length) {
+            components.push({ text: message.substring(lastIndex) });
+        }
+        return components;
     }
 
     /**
@@ -1,38 +1,34 @@
 import * as vscode from "vscode";
 import { MinecraftCommandCompletionProvider } from "../core/CommandCompletionProvider";
+import { ParsedCommand } from "../core/CommandParser";
 import { DataLoader } from "../core/DataLoader";
 
 export class AdvancementCompletionProvider extends MinecraftCommandCompletionProvider {
-    public provideCommandCompletions(commands: string[],lineCommands: string[], document: vscode.TextDocument, position: vscode.Position): vscode.CompletionItem[] {    
+    public provideCommandCompletions(command: ParsedCommand, document: vscode.TextDocument, position: vscode.Position): vscode.CompletionItem[] {    
         
-        if (commands.length === 2) {
+        const active = command.active;
+        if (!active) { return []; }
+        if (command.previous === command.nodes[0]) {
             return [
                 this.createCompletionItem('grant', '授予', 'grant '),
                 this.createCompletionItem('revoke', '撤销', 'revoke '),
                 this.createCompletionItem('test', '检测', 'test '),
             ];
         }
-        if (commands.length === 3) {
-            return this.createSelectorArgumentsCompletion(commands[2], true);
+        if (active.name === 'target') {
+            return this.createSelectorArgumentsCompletion(active.value, true);
         }
-        if (commands.length === 4) {
-            if (["grant","revoke"].includes(commands[1])) {
-                return [
-                    this.createCompletionItem('only',"仅",'only ',true),
-                    this.createCompletionItem('from',"DFS递归移除本目录以及下游目录进度",'from ',true),
-                    this.createCompletionItem('through',"递归移除本目录所处所有上下游目录进度",'through ',true),
-                    this.createCompletionItem('everything',"移除所有进度",'everything ',true),
-                ];
-            }
-            if (commands[1] === "test") {
-                return this.createAdvancementCompletion(commands[3],document,position);
-            }
-        }
-        if (commands.length === 5 && ['grant', 'revoke'].includes(commands[1])) {
-            return this.createAdvancementCompletion(commands[4],document,position);
+        if (active.name === 'advancement') {
+            return this.createAdvancementCompletion(active.value,document,position);
         }
-        if (commands.length === 5 && "test" === commands[1]) {
-            return [];
+        // grant/revoke 的目标之后只能接模式字面量
+        if (active.kind !== 'argument' && command.previous?.name === 'target') {
+            return [
+                this.createCompletionItem('only',"仅",'only ',true),
+                this.createCompletionItem('from',"DFS递归移除本目录以及下游目录进度",'from ',true),
+                this.createCompletionItem('through',"递归移除本目录所处所有上下游目录进度",'through ',true),
+                this.createCompletionItem('everything',"移除所有进度",'everything ',true),
+            ];
         }
 
 
@@ -1,20 +1,26 @@
 import * as vscode from "vscode";
 import { MinecraftCommandCompletionProvider } from "../core/CommandCompletionProvider";
+import { ParsedCommand } from "../core/CommandParser";
 
 
 
 export class BlockdataCompletionProvider extends MinecraftCommandCompletionProvider {
-    public provideCommandCompletions(commands: string[]): vscode.CompletionItem[] {
+    public provideCommandCompletions(
+        command: ParsedCommand,
+        document: vscode.TextDocument,
+        position: vscode.Position
+    ): vscode.CompletionItem[] {
 
-    switch (commands.length) {
-            case 2:
-            case 3:
-            case 4:
+    const active = command.active;
+    switch (active?.name) {
+            case 'x':
+            case 'y':
+            case 'z':
                 // 处理坐标参数的自动补全
                 return this.createCoordinateCompletions(true);
-            case 5:
-                // 处理数据标签参数的自动补全
-            return [this.createCompletionItem("{}", "原始json文本","{${1:}}",false)];
+            case 'dataTag':
+                // 处理数据标签参数的自动补全（方块未知，提供常用方块实体字段）
+                return this.createNBTCompletion(active.value, { kind: 'blockEntity' }, position);
 }
 
 
@@ -1,23 +1,36 @@
 import * as vscode from "vscode";
 import { MinecraftCommandCompletionProvider } from "../core/CommandCompletionProvider";
+import { ParsedCommand } from "../core/CommandParser";
 import { ItemNameMap } from "../utils/EnumLib";
 
 
 export class ClearCompletionProvider extends MinecraftCommandCompletionProvider {
-    public provideCommandCompletions(commands: string[]): vscode.CompletionItem[] {
+    public provideCommandCompletions(
+        command: ParsedCommand,
+        document: vscode.TextDocument,
+        position: vscode.Position
+    ): vscode.CompletionItem[] {
 
         
-        if (commands.length === 2) {
-            return this.createSelectorArgumentsCompletion(commands[1], false);
-        }
-        if (commands.length === 3) {
-            const completionItems: vscode.CompletionItem[] = [];
-            for (const [item, name] of Object.entries(ItemNameMap.all)) {
+        const active = command.active;
+        const item = command.getArgument('item')?.value ?? '';
+        switch (active?.name) {
+            case 'target':
+                return this.createSelectorArgumentsCompletion(active.value, false);
+            case 'item': {
+                const completionItems: vscode.CompletionItem[] = [];
+                for (const [item, name] of Object.entries(ItemNameMap.all)) {
 
-                completionItems.push(this.createCompletionItem(item, name, item + ' ', true, vscode.CompletionItemKind.Class));
+                    completionItems.push(this.createCompletionItem(item, name, item + ' ', true, vscode.CompletionItemKind.Class));
+                }
+                return completionItems;
             }
-            return completionItems;
-
+            case 'data':
+                return this.createItemDataCompletion(item, true);
+            case 'maxCount':
+                return [this.createCompletionItem("<maxCount>", "最多清除数量（-1 为全部，0 只检测不清除）", "-1 ", true, vscode.CompletionItemKind.Value)];
+            case 'dataTag':
+                return this.createNBTCompletion(active.value, { kind: 'itemTag', id: item }, position);
         }
 
 
@@ -0,0 +1,63 @@
+import * as vscode from "vscode";
+import { MinecraftCommandCompletionProvider } from "../core/CommandCompletionProvider";
+import { ParsedCommand } from "../core/CommandParser";
+
+/**
+ * Clone命令补全提供者
+ *
+ * 命令语法：
+ * /clone <x1> <y1> <z1> <x2> <y2> <z2> <x> <y> <z> [maskMode] [cloneMode]
+ * /clone <x1> <y1> <z1> <x2> <y2> <z2> <x> <y> <z> filtered <cloneMode> <方块> [数据值]
+ *
+ * 参数说明：
+ * - x1~z2: 源区域的两个对角（体积不超过 32768 个方块）
+ * - x y z: 目标区域的最小角
+ * - maskMode: replace（默认）| masked | filtered
+ * - cloneMode: force | move | normal（默认）
+ */
+export class CloneCompletionProvider extends MinecraftCommandCompletionProvider {
+    public provideCommandCompletions(command: ParsedCommand): vscode.CompletionItem[] {
+        const active = command.active;
+        if (active?.kind === 'argument') {
+            switch (active.type) {
+                case 'coordinate':
+                    // 处理三组坐标参数的自动补全
+                    return this.createCoordinateCompletions(true);
+                case 'block':
+                    // filtered 模式下的过滤方块
+                    return this.createBlockCompletion();
+                case 'integer':
+                    // filtered 模式下的过滤方块数据值
+                    return [this.createCompletionItem(
+                        "<数据值>",
+                        "data",
+                        "",
+                        true,
+                        vscode.CompletionItemKind.Value
+                    )];
+                default:
+                    return [];
+            }
+        }
+        // 遮罩模式与复制模式只能接字面量，按前一个节点判断位置
+        const filtered = command.previous?.name === 'filtered';
+        switch (command.previous?.name) {
+            case 'zDest':
+                return [
+                    this.createCompletionItem('replace', '复制全部方块（默认）', 'replace ', true, vscode.CompletionItemKind.Value),
+                    this.createCompletionItem('masked', '只复制非空气方块', 'masked ', true, vscode.CompletionItemKind.Value),
+                    this.createCompletionItem('filtered', '只复制指定方块', 'filtered ', true, vscode.CompletionItemKind.Value)
+                ];
+            case 'replace':
+            case 'masked':
+            case 'filtered':
+                return [
+                    this.createCompletionItem('normal', '普通复制（默认）', 'normal ', filtered, vscode.CompletionItemKind.Value),
+                    this.createCompletionItem('force', '强制复制（允许源与目标区域重叠）', 'force ', filtered, vscode.CompletionItemKind.Value),
+                    this.createCompletionItem('move', '移动（复制后源区域替换为空气）', 'move ', filtered, vscode.CompletionItemKind.Value)
+                ];
+            default:
+                return [];
+        }
+    }
+}
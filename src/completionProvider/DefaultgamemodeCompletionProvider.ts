@@ -1,5 +1,6 @@
 import * as vscode from 'vscode';
 import { MinecraftCommandCompletionProvider } from "../core/CommandCompletionProvider";
+import { ParsedCommand } from "../core/CommandParser";
 
 /**
  * Defaultgamemode命令补全提供者
@@ -19,20 +20,18 @@ export class DefaultgamemodeCompletionProvider extends MinecraftCommandCompletio
 
     /**
      * 提供defaultgamemode命令的补全项
-     * @param commands 已解析的命令片段数组
-     * @param lineCommands 行内命令片段
+     * @param command 当前命令的解析树
      * @param document 当前文档
      * @param position 光标位置
      * @returns 补全项数组
      */
     public provideCommandCompletions(
-        commands: string[],
-        lineCommands: string[],
+        command: ParsedCommand,
         document: vscode.TextDocument,
         position: vscode.Position
     ): vscode.CompletionItem[] {
         // defaultgamemode命令只需要一个参数：游戏模式
-        if (commands.length === 2) {
+        if (command.active?.name === 'mode') {
             return [
                 // 生存模式选项
                 this.createCompletionItem(
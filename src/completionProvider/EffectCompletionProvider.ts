@@ -1,17 +1,18 @@
 import * as vscode from "vscode";
 import { MinecraftCommandCompletionProvider } from "../core/CommandCompletionProvider";
+import { ParsedCommand } from "../core/CommandParser";
 
 export class EffectCompletionProvider extends MinecraftCommandCompletionProvider {
-    public provideCommandCompletions(commands: string[]): vscode.CompletionItem[] {
+    public provideCommandCompletions(command: ParsedCommand): vscode.CompletionItem[] {
         
-        
-        if (commands.length === 2) {
-            if (commands[1].includes("@")) {
+        const active = command.active;
+        if (active?.name === 'target') {
+            if (active.value.includes("@")) {
                 return [];
             }
             return this.createSelectorCompletion();
         }
-        if (commands.length === 3) {
+        if (active?.name === 'effect') {
             return [
                 this.createCompletionItem("absorption", "伤害吸收", "absorption ", true, vscode.CompletionItemKind.Class),
                 this.createCompletionItem('blindness', '失明', 'blindness ', true, vscode.CompletionItemKind.Class),
@@ -44,10 +45,10 @@ export class EffectCompletionProvider extends MinecraftCommandCompletionProvider
             ];
 
         }
-        if (commands.length === 4) {
+        if (active?.name === 'seconds') {
             return [this.createCompletionItem("<value>", "持续时间", "", true, vscode.CompletionItemKind.Constant)];
         }
-        if (commands.length === 5) {
+        if (active?.name === 'amplifier') {
             return [this.createCompletionItem("<value>", "效果等级[从0开始计数]", "", true, vscode.CompletionItemKind.Constant)];
         }
 
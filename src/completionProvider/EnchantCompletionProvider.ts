@@ -0,0 +1,45 @@
+import * as vscode from "vscode";
+import { MinecraftCommandCompletionProvider } from "../core/CommandCompletionProvider";
+import { ParsedCommand } from "../core/CommandParser";
+import { Enchantments } from "../utils/EnumLib";
+
+/**
+ * Enchant命令补全提供者
+ *
+ * 命令语法：
+ * /enchant <玩家> <附魔ID> [等级]
+ *
+ * 参数说明：
+ * - 附魔ID: 数字ID或名称（如 16 或 sharpness）
+ * - 等级: 1 至该附魔的最高等级
+ */
+export class EnchantCompletionProvider extends MinecraftCommandCompletionProvider {
+    public provideCommandCompletions(command: ParsedCommand): vscode.CompletionItem[] {
+        const active = command.active;
+        switch (active?.name) {
+            case 'target':
+                return this.createSelectorArgumentsCompletion(active.value, false);
+            case 'enchantment':
+                return Enchantments.all.map(enchantment =>
+                    this.createCompletionItem(
+                        enchantment.name,
+                        `${enchantment.desc}（ID ${enchantment.id}，最高 ${enchantment.maxLevel} 级）`,
+                        enchantment.name + MinecraftCommandCompletionProvider.global_sufiix,
+                        true,
+                        vscode.CompletionItemKind.EnumMember
+                    )
+                );
+            case 'level': {
+                const enchantment = Enchantments.find(command.getArgument('enchantment')?.value ?? '');
+                if (!enchantment) { return []; }
+                const levels: vscode.CompletionItem[] = [];
+                for (let level = 1; level <= enchantment.maxLevel; level++) {
+                    levels.push(this.createCompletionItem(`${level}`, `${enchantment.desc} ${level} 级`, `${level}`, false, vscode.CompletionItemKind.Value));
+                }
+                return levels;
+            }
+            default:
+                return [];
+        }
+    }
+}
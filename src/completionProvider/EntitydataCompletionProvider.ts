@@ -1,19 +1,23 @@
 import * as vscode from "vscode";
 import { MinecraftCommandCompletionProvider } from "../core/CommandCompletionProvider";
-import { NBTUtils } from "../utils/NBTUtils";
+import { ParsedCommand } from "../core/CommandParser";
+import { NBTSchemas } from "../utils/NBTSchema";
 
 
 
 export class EntitydataCompletionProvider extends MinecraftCommandCompletionProvider {
-    public provideCommandCompletions(commands: string[]): vscode.CompletionItem[] {
+    public provideCommandCompletions(
+        command: ParsedCommand,
+        document: vscode.TextDocument,
+        position: vscode.Position
+    ): vscode.CompletionItem[] {
 
-    switch (commands.length) {
-            case 2:
-                return this.createSelectorArgumentsCompletion(commands[1], true);
-            case 3:
-                if (commands[2].startsWith("{")) {
-                    return NBTUtils.provideEntityNBTCompletions(this.createCompletionItem);
-                }
+    const active = command.active;
+    switch (active?.name) {
+            case 'target':
+                return this.createSelectorArgumentsCompletion(active.value, true);
+            case 'dataTag':
+                return this.createNBTCompletion(active.value, { kind: 'entity', id: NBTSchemas.targetEntityType(command.getArgument('target')?.value ?? '') }, position);
 }
 
 
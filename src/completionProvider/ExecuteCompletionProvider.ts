@@ -1,22 +1,45 @@
 import { MinecraftCommandCompletionProvider } from "../core/CommandCompletionProvider";
+import { ParsedCommand } from "../core/CommandParser";
 import * as vscode from "vscode";
 
-
+/**
+ * Execute命令补全提供者
+ *
+ * 命令语法：
+ * /execute <实体> <x> <y> <z> <子命令>
+ * /execute <实体> <x> <y> <z> detect <x> <y> <z> <方块> <数据值> <子命令>
+ *
+ * 子命令本身由对应命令的补全提供者处理，这里只补全 execute 自身的参数
+ * （坐标之后的 detect 关键字与子命令名由基类按语法树一并补全）
+ */
 export class ExecuteCompletionProvider extends MinecraftCommandCompletionProvider {
-    public provideCommandCompletions(commands: string[]): vscode.CompletionItem[] {
-        
-        // console.log(commands);
-        if (commands.length === 2 && commands[1] === '') {
+    public provideCommandCompletions(command: ParsedCommand): vscode.CompletionItem[] {
+
+        const active = command.active;
+        if (active?.name === 'target' && active.value === '') {
             return [
                 this.createCompletionItem("@ ~ ~ ~", "Snippet", "@${1|a,e,s,p,r|} ${2:~} ${3:~} ${4:~}",true, vscode.CompletionItemKind.Snippet)
             ];
         }
-        if (commands.length === 2) {
-            return this.createSelectorArgumentsCompletion(commands[1], false);
-        }
 
-        return [];
+        switch (active?.name) {
+            case 'target':
+                return this.createSelectorArgumentsCompletion(active.value, false);
+            case 'xDetect':
+            case 'yDetect':
+            case 'zDetect':
+                // detect 检测坐标
+                return this.createCoordinateCompletions(true);
+            case 'block':
+                // detect 方块ID
+                return this.createBlockCompletion();
+            case 'data':
+                // detect 方块数据值（按方块列出数据值含义，-1 匹配任意数据值）
+                return this.createBlockDataCompletion(command.getArgument('block')?.value ?? '', true, true);
+            default:
+                return [];
+        }
     }
 
 
-}
\ No newline at end of file
+}
@@ -1,28 +1,29 @@
 import * as vscode from "vscode";
 import { MinecraftCommandCompletionProvider } from "../core/CommandCompletionProvider";
+import { ParsedCommand } from "../core/CommandParser";
 
 export class FillCompletionProvider extends MinecraftCommandCompletionProvider {
 
 
-    public provideCommandCompletions(commands: string[]): vscode.CompletionItem[] {
+    public provideCommandCompletions(
+        command: ParsedCommand,
+        document: vscode.TextDocument,
+        position: vscode.Position
+    ): vscode.CompletionItem[] {
         
-        if (commands.length <= 7) {
+        const active = command.active;
+        const block = command.getArgument('block')?.value ?? '';
+        if (active?.type === 'coordinate') {
             return this.createCoordinateCompletions();
         }
-        if (commands.length === 8) {
-            return this.createItemCompletion();
+        if (active?.name === 'block') {
+            return this.createBlockCompletion();
         }
-        if (commands.length === 9) {
-            return [this.createCompletionItem(
-                "<数据值>",
-                "data",
-                "",
-                true,
-                vscode.CompletionItemKind.Value,
-
-            )];
+        if (active?.name === 'data') {
+            return this.createBlockDataCompletion(block);
         }
-        if (commands.length === 10) {
+        // 填充模式只能接字面量，按前一个节点判断位置
+        if (active?.kind !== 'argument' && command.previous?.name === 'data') {
             //  destroy, hollow, keep, outline, replace
             return [this.createCompletionItem(
                 "destroy",
@@ -64,6 +65,9 @@ export class FillCompletionProvider extends MinecraftCommandCompletionProvider {
 
             ];
         }
+        if (active?.name === 'dataTag') {
+            return this.createNBTCompletion(active.value, { kind: 'blockEntity', id: block }, position);
+        }
         return [];
         
     }
@@ -1,32 +1,31 @@
 import { MinecraftCommandCompletionProvider } from "../core/CommandCompletionProvider";
+import { ParsedCommand } from "../core/CommandParser";
 import * as vscode from "vscode";
 import { DataLoader } from "../core/DataLoader";
 
 export class FunctionCompletionProvider extends MinecraftCommandCompletionProvider {
     /**
      * 提供命令补全
-     * @param commands 已解析的命令片段数组
+     * @param command 当前命令的解析树
      * @param document 当前文档
      * @param position 光标位置
      * @returns 补全项数组
      */
     public provideCommandCompletions(
-        commands: string[],
-        lineCommands: string[],
+        command: ParsedCommand,
         document: vscode.TextDocument,
         position: vscode.Position
     ): vscode.CompletionItem[] {
-        // 根据命令片段长度提供不同的补全逻辑
-        switch (commands.length) {
-            case 2:
-                return this.provideFunctionPathCompletions(commands[1], document, position);
-            case 3:
-                return this.provideConditionCompletions();
-            case 4:
-                return this.createSelectorArgumentsCompletion(commands[3],true);
-            default:
-                return [];
+        // 根据正在输入的参数提供不同的补全逻辑
+        const active = command.active;
+        switch (active?.name) {
+            case 'function':
+                return this.provideFunctionPathCompletions(active.value, document, position);
+            case 'condition':
+                return this.createSelectorArgumentsCompletion(active.value,true);
         }
+        // 函数之后只能接 if/unless
+        return command.previous?.name === 'function' ? this.provideConditionCompletions() : [];
     }
 
     /**
@@ -1,24 +1,35 @@
 import * as vscode from "vscode";
 import { MinecraftCommandCompletionProvider } from "../core/CommandCompletionProvider";
+import { ParsedCommand } from "../core/CommandParser";
+
+/** 游戏模式及其说明（含数字与缩写形式） */
+const GAMEMODES: [string, string][] = [
+    ["survival", "生存模式"],
+    ["creative", "创造模式"],
+    ["adventure", "冒险模式"],
+    ["spectator", "旁观模式"],
+    ["0", "生存模式"],
+    ["1", "创造模式"],
+    ["2", "冒险模式"],
+    ["3", "旁观模式"],
+    ["s", "生存模式（缩写）"],
+    ["c", "创造模式（缩写）"],
+    ["a", "冒险模式（缩写）"],
+    ["sp", "旁观模式（缩写）"]
+];
 
 export class GamemodeCompletionProvider extends MinecraftCommandCompletionProvider {
-    public provideCommandCompletions(commands: string[]): vscode.CompletionItem[] {
+    public provideCommandCompletions(command: ParsedCommand): vscode.CompletionItem[] {
         
-        if (commands.length === 2) {
-            return this.createSelectorArgumentsCompletion(commands[1], true, " ");
+        // /gamemode <模式> [玩家]
+        const active = command.active;
+        if (active?.name === 'mode') {
+            return GAMEMODES.map(([mode, desc]) =>
+                this.createCompletionItem(mode, desc, mode + MinecraftCommandCompletionProvider.global_sufiix, true)
+            );
         }
-        if (commands.length === 3) {
-            return [
-                this.createCompletionItem("survival", "生存模式","survival", false),
-                this.createCompletionItem("creative", "创造模式","creative" ,false),
-                this.createCompletionItem("adventure", "冒险模式","adventure",false),
-                this.createCompletionItem("spectator", "旁观模式","spectator",false),
-                this.createCompletionItem("0", "生存模式","0",false),
-                this.createCompletionItem("1", "创造模式","1",false),
-                this.createCompletionItem("2", "冒险模式","2",false),
-                this.createCompletionItem("3", "旁观模式","3",false),
-
-            ];
+        if (active?.name === 'target') {
+            return this.createSelectorArgumentsCompletion(active.value, false);
         }
 
 
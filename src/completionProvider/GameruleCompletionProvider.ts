@@ -1,5 +1,6 @@
 import * as vscode from 'vscode';
 import { MinecraftCommandCompletionProvider } from "../core/CommandCompletionProvider";
+import { ParsedCommand } from "../core/CommandParser";
 
 /**
  * Gamerule命令补全提供者
@@ -45,26 +46,24 @@ export class GameruleCompletionProvider extends MinecraftCommandCompletionProvid
 
     /**
      * 提供gamerule命令的补全项
-     * @param commands 已解析的命令片段数组
-     * @param lineCommands 行内命令片段
+     * @param command 当前命令的解析树
      * @param document 当前文档
      * @param position 光标位置
      * @returns 补全项数组
      */
     public provideCommandCompletions(
-        commands: string[],
-        lineCommands: string[],
+        command: ParsedCommand,
         document: vscode.TextDocument,
         position: vscode.Position
     ): vscode.CompletionItem[] {
-        switch (commands.length) {
-            case 2:
+        switch (command.active?.name) {
+            case 'rule':
                 // 第二个参数是游戏规则名称
                 return this.createGameruleCompletions();
             
-            case 3:
+            case 'value': {
                 // 第三个参数是游戏规则的值
-                const ruleName = commands[1];
+                const ruleName = command.getArgument('rule')?.value;
                 const rule = GameruleCompletionProvider.GAMERULES.find(r => r.name === ruleName);
                 
                 if (rule) {
@@ -124,6 +123,7 @@ export class GameruleCompletionProvider extends MinecraftCommandCompletionProvid
                         vscode.CompletionItemKind.Value
                     )
                 ];
+            }
                 
             default:
                 return [];
@@ -1,24 +1,30 @@
 import * as vscode from "vscode";
 import { MinecraftCommandCompletionProvider } from "../core/CommandCompletionProvider";
+import { ParsedCommand } from "../core/CommandParser";
 
 export class GiveCompletionProvider extends MinecraftCommandCompletionProvider {
 
 
-    public provideCommandCompletions(commands: string[]): vscode.CompletionItem[] {
+    public provideCommandCompletions(
+        command: ParsedCommand,
+        document: vscode.TextDocument,
+        position: vscode.Position
+    ): vscode.CompletionItem[] {
 
         
-        if (commands.length === 2) {
-            // console.log(commands);
-            return this.createSelectorArgumentsCompletion(commands[1], false);
-        }
-        if (commands.length === 3) {
-            return this.createItemCompletion();
-        }
-        if (commands.length === 4) {
-            return [this.createCompletionItem("<数量>", "count" , "1", true, vscode.CompletionItemKind.Value)];
-        }
-        if (commands.length === 5) {
-            return [this.createCompletionItem("<数据值>", "data" , "0", true, vscode.CompletionItemKind.Value)];
+        const active = command.active;
+        const item = command.getArgument('item')?.value ?? '';
+        switch (active?.name) {
+            case 'target':
+                return this.createSelectorArgumentsCompletion(active.value, false);
+            case 'item':
+                return this.createItemCompletion();
+            case 'amount':
+                return this.createItemAmountCompletion(item);
+            case 'data':
+                return this.createItemDataCompletion(item);
+            case 'dataTag':
+                return this.createNBTCompletion(active.value, { kind: 'itemTag', id: item }, position);
         }
 
         return [];
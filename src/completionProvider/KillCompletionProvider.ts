@@ -1,11 +1,13 @@
 import * as vscode from 'vscode';
 import { MinecraftCommandCompletionProvider } from '../core/CommandCompletionProvider';
+import { ParsedCommand } from '../core/CommandParser';
 
 export class KillCompletionProvider extends MinecraftCommandCompletionProvider {
-    public provideCommandCompletions(commands: string[]): vscode.CompletionItem[] {
+    public provideCommandCompletions(command: ParsedCommand): vscode.CompletionItem[] {
         
-        if (commands.length === 2) {
-            return this.createSelectorArgumentsCompletion(commands[1], false);
+        const active = command.active;
+        if (active?.name === 'target') {
+            return this.createSelectorArgumentsCompletion(active.value, false);
         }
         return [];
     }
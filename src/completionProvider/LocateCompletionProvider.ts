@@ -0,0 +1,21 @@
+import * as vscode from "vscode";
+import { MinecraftCommandCompletionProvider } from "../core/CommandCompletionProvider";
+import { ParsedCommand } from "../core/CommandParser";
+import { StructureNames } from "../utils/EnumLib";
+
+/**
+ * Locate命令补全提供者
+ *
+ * 命令语法：
+ * /locate <结构>
+ */
+export class LocateCompletionProvider extends MinecraftCommandCompletionProvider {
+    public provideCommandCompletions(command: ParsedCommand): vscode.CompletionItem[] {
+        if (command.active?.name === 'structure') {
+            return StructureNames.all.map(structure =>
+                this.createCompletionItem(structure.name, structure.desc, structure.name, false, vscode.CompletionItemKind.EnumMember)
+            );
+        }
+        return [];
+    }
+}
@@ -0,0 +1,19 @@
+import * as vscode from 'vscode';
+import { MinecraftCommandCompletionProvider } from '../core/CommandCompletionProvider';
+import { ParsedCommand } from '../core/CommandParser';
+
+/**
+ * Me命令补全提供者
+ *
+ * 命令语法：
+ * /me <动作>
+ */
+export class MeCompletionProvider extends MinecraftCommandCompletionProvider {
+    public provideCommandCompletions(command: ParsedCommand): vscode.CompletionItem[] {
+        const active = command.active;
+        if (active?.name === 'action') {
+            return this.createMentionCompletion(active.value);
+        }
+        return [];
+    }
+}
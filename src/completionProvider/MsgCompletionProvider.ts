@@ -0,0 +1,6 @@
+import { TellCompletionProvider } from './TellCompletionProvider';
+
+/**
+ * msg命令补全提供者（tell 的别名）
+ */
+export class MsgCompletionProvider extends TellCompletionProvider { }
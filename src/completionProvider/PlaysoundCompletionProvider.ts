@@ -0,0 +1,44 @@
+import * as vscode from "vscode";
+import { MinecraftCommandCompletionProvider } from "../core/CommandCompletionProvider";
+import { ParsedCommand } from "../core/CommandParser";
+
+/**
+ * Playsound命令补全提供者
+ *
+ * 命令语法：
+ * /playsound <音效> <来源> <玩家> [x] [y] [z] [音量] [音调] [最小音量]
+ *
+ * 参数说明：
+ * - 音量: 不小于 0.0，大于 1.0 时扩大可听范围（默认 1.0）
+ * - 音调: 0.0~2.0，小于 0.5 时按 0.5 处理（默认 1.0）
+ * - 最小音量: 0.0~1.0，超出可听范围的玩家听到的音量
+ */
+export class PlaysoundCompletionProvider extends MinecraftCommandCompletionProvider {
+    public provideCommandCompletions(
+        command: ParsedCommand,
+        document: vscode.TextDocument,
+        position: vscode.Position
+    ): vscode.CompletionItem[] {
+        const active = command.active;
+        switch (active?.name) {
+            case 'sound':
+                return this.createSoundCompletion(document, position, active.value);
+            case 'source':
+                return this.createSoundSourceCompletion(true);
+            case 'target':
+                return this.createSelectorArgumentsCompletion(active.value, false);
+            case 'x':
+            case 'y':
+            case 'z':
+                return this.createCoordinateCompletions(true);
+            case 'volume':
+                return [this.createCompletionItem("<音量>", "不小于 0.0（默认 1.0，大于 1.0 时扩大可听范围）", "1.0 ", true, vscode.CompletionItemKind.Value)];
+            case 'pitch':
+                return [this.createCompletionItem("<音调>", "0.0~2.0（默认 1.0，小于 0.5 时按 0.5 处理）", "1.0 ", true, vscode.CompletionItemKind.Value)];
+            case 'minimumVolume':
+                return [this.createCompletionItem("<最小音量>", "0.0~1.0（可听范围外玩家听到的音量）", "0.0", false, vscode.CompletionItemKind.Value)];
+            default:
+                return [];
+        }
+    }
+}
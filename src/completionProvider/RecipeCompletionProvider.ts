@@ -0,0 +1,36 @@
+import * as vscode from "vscode";
+import { MinecraftCommandCompletionProvider } from "../core/CommandCompletionProvider";
+import { ParsedCommand } from "../core/CommandParser";
+import { RecipeNames } from "../utils/EnumLib";
+
+/**
+ * Recipe命令补全提供者
+ *
+ * 命令语法：
+ * /recipe <give|take> <玩家> <配方|*>
+ */
+export class RecipeCompletionProvider extends MinecraftCommandCompletionProvider {
+    public provideCommandCompletions(command: ParsedCommand): vscode.CompletionItem[] {
+        const active = command.active;
+        if (!active) { return []; }
+        if (command.previous === command.nodes[0]) {
+            return [
+                this.createCompletionItem('give', '解锁配方', 'give ', true, vscode.CompletionItemKind.Keyword),
+                this.createCompletionItem('take', '移除配方', 'take ', true, vscode.CompletionItemKind.Keyword)
+            ];
+        }
+        switch (active.name) {
+            case 'target':
+                return this.createSelectorArgumentsCompletion(active.value, false);
+            case 'recipe':
+                return [
+                    this.createCompletionItem('*', '全部配方', '*', false, vscode.CompletionItemKind.Constant),
+                    ...RecipeNames.all.map(recipe =>
+                        this.createCompletionItem(recipe.name, recipe.desc, recipe.name, false, vscode.CompletionItemKind.Class)
+                    )
+                ];
+            default:
+                return [];
+        }
+    }
+}
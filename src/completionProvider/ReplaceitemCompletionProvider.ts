@@ -1,5 +1,6 @@
 import * as vscode from "vscode";
 import { MinecraftCommandCompletionProvider } from "../core/CommandCompletionProvider";
+import { ParsedCommand } from "../core/CommandParser";
 
 /**
  * Replaceitem命令补全提供者
@@ -26,165 +27,69 @@ export class ReplaceitemCompletionProvider extends MinecraftCommandCompletionPro
 
     /**
      * 提供replaceitem命令的补全项
-     * @param commands 已解析的命令片段数组
-     * @param lineCommands 行内命令片段
+     * @param command 当前命令的解析树
      * @param document 当前文档
      * @param position 光标位置
      * @returns 补全项数组
      */
     public provideCommandCompletions(
-        commands: string[],
-        lineCommands: string[],
+        command: ParsedCommand,
         document: vscode.TextDocument,
         position: vscode.Position
     ): vscode.CompletionItem[] {
-        switch (commands.length) {
-            case 2:
-                // 第二个参数是操作类型：entity 或 block
-                return [
-                    this.createCompletionItem(
-                        'entity', 
-                        '操作实体', 
-                        'entity ', 
-                        true, 
-                        vscode.CompletionItemKind.Keyword
-                    ),
-                    this.createCompletionItem(
-                        'block', 
-                        '操作方块', 
-                        'block ', 
-                        true, 
-                        vscode.CompletionItemKind.Keyword
-                    )
-                ];
-            
-            case 3:
-                // 根据操作类型提供不同的补全
-                if (commands[1] === 'entity') {
-                    // 第三个参数是目标实体（玩家或实体选择器）
-                    return this.createSelectorArgumentsCompletion(commands[2], true);
-                } else if (commands[1] === 'block') {
-                    // 第三个参数是方块的x坐标
-                    return this.createCoordinateCompletions();
-                }
-                break;
-                
-            case 4:
-                // 根据操作类型提供不同的补全
-                if (commands[1] === 'entity') {
-                    // 第四个参数是实体的槽位
-                    return this.createEntitySlotCompletion();
-                } else if (commands[1] === 'block') {
-                    // 第四个参数是方块的y坐标
-                    return this.createCoordinateCompletions();
-                }
-                break;
-                
-            case 5:
-                // 根据操作类型提供不同的补全
-                if (commands[1] === 'entity') {
-                    // 第五个参数是物品ID
-                    return this.createItemCompletion();
-                } else if (commands[1] === 'block') {
-                    // 第五个参数是方块的z坐标
-                    return this.createCoordinateCompletions();
-                }
-                break;
-                
-            case 6:
-                // 根据操作类型提供不同的补全
-                if (commands[1] === 'entity') {
-                    // 第六个参数是物品数量（可选）
-                    return [
-                        this.createCompletionItem(
-                            '<count>', 
-                            '物品数量', 
-                            '', 
-                            true, 
-                            vscode.CompletionItemKind.Value
-                        )
-                    ];
-                } else if (commands[1] === 'block') {
-                    // 第六个参数是方块的槽位
-                    return this.createBlockSlotCompletion();
-                }
-                break;
-                
-            case 7:
-                // 根据操作类型提供不同的补全
-                if (commands[1] === 'entity') {
-                    // 第七个参数是物品数据值（可选）
-                    return [
-                        this.createCompletionItem(
-                            '<data>', 
-                            '物品数据值', 
-                            '', 
-                            true, 
-                            vscode.CompletionItemKind.Value
-                        )
-                    ];
-                } else if (commands[1] === 'block') {
-                    // 第七个参数是物品ID
-                    return this.createItemCompletion();
-                }
-                break;
-                
-            case 8:
-                // 根据操作类型提供不同的补全
-                if (commands[1] === 'entity') {
-                    // 第八个参数是物品NBT标签（可选）
-                    return [
-                        this.createCompletionItem(
-                            '<dataTag>', 
-                            '物品NBT标签', 
-                            '', 
-                            true, 
-                            vscode.CompletionItemKind.Value
-                        )
-                    ];
-                } else if (commands[1] === 'block') {
-                    // 第八个参数是物品数量（可选）
-                    return [
-                        this.createCompletionItem(
-                            '<count>', 
-                            '物品数量', 
-                            '', 
-                            true, 
-                            vscode.CompletionItemKind.Value
-                        )
-                    ];
-                }
-                break;
-                
-            case 9:
-                // block操作的第九个参数是物品数据值（可选）
-                if (commands[1] === 'block') {
-                    return [
-                        this.createCompletionItem(
-                            '<data>', 
-                            '物品数据值', 
-                            '', 
-                            true, 
-                            vscode.CompletionItemKind.Value
-                        )
-                    ];
-                }
-                break;
-                
-            case 10:
-                // block操作的第十个参数是物品NBT标签（可选）
-                if (commands[1] === 'block') {
-                    return [
-                        this.createCompletionItem(
-                            '<dataTag>', 
-                            '物品NBT标签', 
-                            '', 
-                            true, 
-                            vscode.CompletionItemKind.Value
-                        )
-                    ];
-                }
-                break;
+        if (command.previous === command.nodes[0]) {
+            // 第二个参数是操作类型：entity 或 block
+            return [
+                this.createCompletionItem(
+                    'entity', 
+                    '操作实体', 
+                    'entity ', 
+                    true, 
+                    vscode.CompletionItemKind.Keyword
+                ),
+                this.createCompletionItem(
+                    'block', 
+                    '操作方块', 
+                    'block ', 
+                    true, 
+                    vscode.CompletionItemKind.Keyword
+                )
+            ];
+        }
+
+        const active = command.active;
+        const item = command.getArgument('item')?.value ?? '';
+        switch (active?.name) {
+            case 'target':
+                // 目标实体（玩家或实体选择器）
+                return this.createSelectorArgumentsCompletion(active.value, true);
+
+            case 'x':
+            case 'y':
+            case 'z':
+                // 方块坐标
+                return this.createCoordinateCompletions();
+
+            case 'slot':
+                // 实体与方块可用的槽位不同
+                return command.matches('replaceitem', 'entity')
+                    ? this.createEntitySlotCompletion()
+                    : this.createBlockSlotCompletion();
+
+            case 'item':
+                return this.createItemCompletion();
+
+            case 'amount':
+                // 物品数量（可选）
+                return this.createItemAmountCompletion(item);
+
+            case 'data':
+                // 物品数据值（可选）
+                return this.createItemDataCompletion(item);
+
+            case 'dataTag':
+                // 物品NBT标签（可选）
+                return this.createNBTCompletion(active.value, { kind: 'itemTag', id: item }, position);
         }
         
         return [];
@@ -1,11 +1,15 @@
 import * as vscode from 'vscode';
 import { MinecraftCommandCompletionProvider } from '../core/CommandCompletionProvider';
+import { ParsedCommand } from '../core/CommandParser';
 
 export class SayCompletionProvider extends MinecraftCommandCompletionProvider {
 
 
-    public provideCommandCompletions(commands: string[]): vscode.CompletionItem[] {
-        
+    public provideCommandCompletions(command: ParsedCommand): vscode.CompletionItem[] {
+        const active = command.active;
+        if (active?.name === 'message') {
+            return this.createMentionCompletion(active.value);
+        }
         return [];
     }
-}
\ No newline at end of file
+}
@@ -1,9 +1,11 @@
 import { MinecraftCommandCompletionProvider } from "../core/CommandCompletionProvider";
+import { ParsedCommand } from "../core/CommandParser";
 import { DataLoader } from "../core/DataLoader";
 import * as vscode from "vscode";
 import { ItemNameMap, MinecraftStats } from "../utils/EnumLib";
 import { MinecraftStatsDetail } from "../utils/EnumLib";
 import { FileLineIdleSearchProcessor } from "../core/FileLineIdleSearchProcessor";
+import { NBTSchemas } from "../utils/NBTSchema";
 
 // 常量定义 - 提取重复使用的命令和操作符
 const PRIMARY_SUB_COMMANDS = [
@@ -53,9 +55,59 @@ const TAG_OPERATIONS = [
     { name: 'remove', desc: '删除标签', insertText: 'remove' }
 ];
 
+const TEAM_OPERATIONS = [
+    { name: 'add', desc: '添加队伍', insertText: 'add' },
+    { name: 'remove', desc: '移除队伍', insertText: 'remove' },
+    { name: 'empty', desc: '清空队伍成员', insertText: 'empty' },
+    { name: 'join', desc: '加入队伍', insertText: 'join' },
+    { name: 'leave', desc: '离开队伍', insertText: 'leave' },
+    { name: 'list', desc: '列出队伍', insertText: 'list' },
+    { name: 'option', desc: '设置队伍选项', insertText: 'option' }
+];
+
+const BOOLEAN_VALUES = [
+    { name: 'true', desc: '开启' },
+    { name: 'false', desc: '关闭' }
+];
+
+const VISIBILITY_VALUES = [
+    { name: 'always', desc: '始终显示' },
+    { name: 'never', desc: '从不显示' },
+    { name: 'hideForOtherTeams', desc: '对其他队伍隐藏' },
+    { name: 'hideForOwnTeam', desc: '对本队隐藏' }
+];
+
+const TEAM_OPTIONS = [
+    {
+        name: 'color', desc: '队伍颜色', values: [
+            { name: 'black', desc: '黑色' }, { name: 'dark_blue', desc: '深蓝色' },
+            { name: 'dark_green', desc: '深绿色' }, { name: 'dark_aqua', desc: '湖蓝色' },
+            { name: 'dark_red', desc: '深红色' }, { name: 'dark_purple', desc: '紫色' },
+            { name: 'gold', desc: '金色' }, { name: 'gray', desc: '灰色' },
+            { name: 'dark_gray', desc: '深灰色' }, { name: 'blue', desc: '蓝色' },
+            { name: 'green', desc: '绿色' }, { name: 'aqua', desc: '天蓝色' },
+            { name: 'red', desc: '红色' }, { name: 'light_purple', desc: '粉红色' },
+            { name: 'yellow', desc: '黄色' }, { name: 'white', desc: '白色' },
+            { name: 'reset', desc: '重置为默认颜色' }
+        ]
+    },
+    { name: 'friendlyfire', desc: '是否允许队友互相伤害', values: BOOLEAN_VALUES },
+    { name: 'seeFriendlyInvisibles', desc: '是否可以看见隐身的队友', values: BOOLEAN_VALUES },
+    { name: 'nametagVisibility', desc: '名称标签可见性', values: VISIBILITY_VALUES },
+    { name: 'deathMessageVisibility', desc: '死亡消息可见性', values: VISIBILITY_VALUES },
+    {
+        name: 'collisionRule', desc: '实体碰撞规则', values: [
+            { name: 'always', desc: '始终碰撞' },
+            { name: 'never', desc: '从不碰撞' },
+            { name: 'pushOtherTeams', desc: '仅与其他队伍碰撞' },
+            { name: 'pushOwnTeam', desc: '仅与本队碰撞' }
+        ]
+    }
+];
+
 const DATA_OPTIONS = [
     { name: 'SelectedItem', desc: '玩家手持物品', insertText: '{SelectedItem:{${1:}}}', kind: vscode.CompletionItemKind.Variable },
-    { name: 'SelectedItemSlot', desc: '玩家选择快捷栏槽位', insertText: '{SelectedItemSlot:{${1:}}}', kind: vscode.CompletionItemKind.Variable },
+    { name: 'SelectedItemSlot', desc: '玩家选择快捷栏槽位', insertText: '{SelectedItemSlot:${1:0}}', kind: vscode.CompletionItemKind.Variable },
     { name: 'Inventory', desc: '玩家背包', insertText: '{Inventory:[{${1:}}]}', kind: vscode.CompletionItemKind.Variable },
     { name: '背包含tag物品', desc: '', insertText: '{Inventory:[{tag:{Tags:[${1:}]}}]}', kind: vscode.CompletionItemKind.Snippet },
     { name: '手持含tag物品', desc: '', insertText: '{SelectedItem:{tag:{Tags:[${1:}]}}}', kind: vscode.CompletionItemKind.Snippet }
@@ -72,24 +124,20 @@ export class ScoreboardCompletionProvider extends MinecraftCommandCompletionProv
 
     /**
      * 提供命令补全项
-     * @param commands 已输入的命令片段数组
-     * @param lineCommands 行内命令片段
+     * @param command 当前命令的解析树
      * @param document 当前文档
      * @param position 当前光标位置
      * @returns 补全项数组
      */
     public provideCommandCompletions(
-        commands: string[],
-        lineCommands: string[],
+        command: ParsedCommand,
         document: vscode.TextDocument,
         position: vscode.Position
     ): vscode.CompletionItem[] {
         // 获取当前输入的文本片段（用于更精确的补全）
-        const lineText = document.lineAt(position.line).text.substring(0, position.character);
-        const currentInput = lineText.split(' ').pop() || '';
-        // console.log(MinecraftCommandCompletionProvider.global_sufiix.length);
+        const currentInput = command.active?.value ?? '';
         // 第一级子命令: players 或 objectives 或 teams
-        if (commands.length === 2) {
+        if (command.previous === command.nodes[0]) {
             return PRIMARY_SUB_COMMANDS.map(cmd =>
                 this.createCompletionItem(
                     cmd.name,
@@ -102,18 +150,18 @@ export class ScoreboardCompletionProvider extends MinecraftCommandCompletionProv
         }
 
         // 处理players子命令
-        if (commands[1]?.toLowerCase() === 'players') {
-            return this.handlePlayersCommand(commands.slice(1), document, position, currentInput);
+        if (command.matches('scoreboard', 'players')) {
+            return this.handlePlayersCommand(command, document, position, currentInput);
         }
 
         // 处理objectives子命令
-        if (commands[1]?.toLowerCase() === 'objectives') {
-            return this.handleObjectivesCommand(commands.slice(1), document, position, currentInput);
+        if (command.matches('scoreboard', 'objectives')) {
+            return this.handleObjectivesCommand(command, document, position, currentInput);
         }
 
-        // 处理teams子命令（原代码缺失，补充基础框架）
-        if (commands[1]?.toLowerCase() === 'teams') {
-            return this.handleTeamsCommand(commands.slice(1));
+        // 处理teams子命令
+        if (command.matches('scoreboard', 'teams')) {
+            return this.handleTeamsCommand(command, document, position, currentInput);
         }
 
         return [];
@@ -121,20 +169,20 @@ export class ScoreboardCompletionProvider extends MinecraftCommandCompletionProv
 
     /**
      * 处理players子命令的补全逻辑
-     * @param subWords 以players为起始的命令片段
+     * @param command 当前命令的解析树
      * @param document 当前文档
      * @param position 当前光标位置
      * @param currentInput 当前输入的文本片段
      * @returns 补全项数组
      */
     private handlePlayersCommand(
-        subWords: string[],
+        command: ParsedCommand,
         document: vscode.TextDocument,
         position: vscode.Position,
         currentInput: string
     ): vscode.CompletionItem[] {
         // players的第一级操作
-        if (subWords.length === 2) {
+        if (command.previous === command.nodes[1]) {
             return PLAYER_OPERATIONS.map(op =>
                 this.createCompletionItem(
                     op.name,
@@ -146,19 +194,19 @@ export class ScoreboardCompletionProvider extends MinecraftCommandCompletionProv
             );
         }
 
-        const operation = subWords[1]?.toLowerCase();
-        if (!operation) { return []; }
+        const operation = command.nodes[2];
+        if (operation?.kind !== 'literal') { return []; }
 
         const supportedOperations = ['add', 'remove', 'set', 'reset', 'tag', 'enable'];
 
         // 处理玩家选择器相关操作
-        if (supportedOperations.includes(operation)) {
-            return this.handlePlayerOperation(subWords, operation, document, position, currentInput);
+        if (supportedOperations.includes(operation.name)) {
+            return this.handlePlayerOperation(command, operation.name, document, position, currentInput);
         }
 
         // 处理分数运算操作
-        if (operation === 'operation') {
-            return this.handleOperationCommand(subWords, document, position, currentInput);
+        if (operation.name === 'operation') {
+            return this.handleOperationCommand(command, document, position, currentInput);
         }
 
         return [];
@@ -166,7 +214,7 @@ export class ScoreboardCompletionProvider extends MinecraftCommandCompletionProv
 
     /**
      * 处理玩家相关具体操作的补全
-     * @param subWords 命令片段
+     * @param command 当前命令的解析树
      * @param operation 当前操作类型
      * @param document 当前文档
      * @param position 当前光标位置
@@ -174,56 +222,56 @@ export class ScoreboardCompletionProvider extends MinecraftCommandCompletionProv
      * @returns 补全项数组
      */
     private handlePlayerOperation(
-        subWords: string[],
+        command: ParsedCommand,
         operation: string,
         document: vscode.TextDocument,
         position: vscode.Position,
         currentInput: string
     ): vscode.CompletionItem[] {
-        switch (subWords.length) {
-            case 3:
+        switch (command.active?.name) {
+            case 'target':
                 // 需要玩家选择器（@a @p @s等）
                 return this.createSelectorArgumentsCompletion(currentInput, true);
 
-            case 4:
-                // 处理标签操作的子命令
-                if (operation === 'tag') {
-                    return TAG_OPERATIONS.map(op =>
-                        this.createCompletionItem(op.name, op.desc, op.insertText + MinecraftCommandCompletionProvider.global_sufiix, true, vscode.CompletionItemKind.Constant)
-                    );
-                }
+            case 'objective':
                 // 其他操作需要计分板名称
                 return this.createScoreboardNameCompletion(document, position, currentInput.length);
 
-            case 5:
-                // 标签操作需要标签名称；其他操作需要数值
-                if (operation === 'tag') {
-                    return this.createTagCompletion(document,position,currentInput.length); // 假设存在标签补全方法
-                }
+            case 'tag':
+                // 标签操作需要标签名称
+                return this.createTagCompletion(document, position, currentInput.length);
+
+            case 'score':
                 // 需要数值参数的操作
-                if (['add', 'set', 'remove'].includes(operation)) {
-                    return [this.createCompletionItem(
-                        "<value>",
-                        "数值",
-                        "",
-                        false,
-                        vscode.CompletionItemKind.Constant
-                    )];
+                return [this.createCompletionItem(
+                    "<value>",
+                    "数值",
+                    "",
+                    false,
+                    vscode.CompletionItemKind.Constant
+                )];
+
+            case 'dataTag':
+                // 已输入 NBT 时按目标的实体结构补全
+                if (currentInput.startsWith('{')) {
+                    const target = command.getArgument('target')?.value ?? '';
+                    return this.createNBTCompletion(currentInput, { kind: 'entity', id: NBTSchemas.targetEntityType(target) }, position);
                 }
-                break;
+                // 数据选项补全
+                return DATA_OPTIONS.map(option => this.createCompletionItem(
+                    option.name,
+                    option.desc,
+                    `${option.insertText}${MinecraftCommandCompletionProvider.global_sufiix}`,
+                    false,
+                    option.kind
+                ));
+        }
 
-            case 6:
-                // 数据选项补全（仅特定操作）
-                if (['add', 'set', 'remove', 'tag'].includes(operation)) {
-                    return DATA_OPTIONS.map(option => this.createCompletionItem(
-                        option.name,
-                        option.desc,
-                        `${option.insertText}${MinecraftCommandCompletionProvider.global_sufiix}`,
-                        false,
-                        option.kind
-                    ));
-                }
-                break;
+        // 处理标签操作的子命令（目标之后只能接字面量）
+        if (operation === 'tag' && command.active?.kind !== 'argument' && command.previous?.name === 'target') {
+            return TAG_OPERATIONS.map(op =>
+                this.createCompletionItem(op.name, op.desc, op.insertText + MinecraftCommandCompletionProvider.global_sufiix, true, vscode.CompletionItemKind.Constant)
+            );
         }
 
         return [];
@@ -231,26 +279,26 @@ export class ScoreboardCompletionProvider extends MinecraftCommandCompletionProv
 
     /**
      * 处理分数运算(operation)命令的补全
-     * @param subWords 命令片段
+     * @param command 当前命令的解析树
      * @param document 当前文档
      * @param position 当前光标位置
      * @param currentInput 当前输入文本
      * @returns 补全项数组
      */
     private handleOperationCommand(
-        subWords: string[],
+        command: ParsedCommand,
         document: vscode.TextDocument,
         position: vscode.Position,
         currentInput: string
     ): vscode.CompletionItem[] {
-        switch (subWords.length) {
-            case 3:
+        switch (command.active?.name) {
+            case 'target':
                 return this.createSelectorArgumentsCompletion(currentInput);
 
-            case 4:
+            case 'objective':
                 return this.createScoreboardNameCompletion(document, position, currentInput.length);
 
-            case 5:
+            case 'operator':
                 return OPERATORS.map(op =>
                     this.createCompletionItem(
                         op.name,
@@ -261,10 +309,10 @@ export class ScoreboardCompletionProvider extends MinecraftCommandCompletionProv
                     )
                 );
 
-            case 6:
+            case 'source':
                 return this.createSelectorArgumentsCompletion(currentInput, false);
 
-            case 7:
+            case 'sourceObjective':
                 return this.createScoreboardNameCompletion(document, position, currentInput.length, false);
         }
 
@@ -273,20 +321,20 @@ export class ScoreboardCompletionProvider extends MinecraftCommandCompletionProv
 
     /**
      * 处理objectives子命令的补全逻辑
-     * @param subWords 以objectives为起始的命令片段
+     * @param command 当前命令的解析树
      * @param document 当前文档
      * @param position 当前光标位置
      * @param currentInput 当前输入文本
      * @returns 补全项数组
      */
     private handleObjectivesCommand(
-        subWords: string[],
+        command: ParsedCommand,
         document: vscode.TextDocument,
         position: vscode.Position,
         currentInput: string
     ): vscode.CompletionItem[] {
         // objectives的第一级操作
-        if (subWords.length === 2) {
+        if (command.previous === command.nodes[1]) {
             return OBJECTIVE_OPERATIONS.map(op =>
                 this.createCompletionItem(
                     op.name,
@@ -298,19 +346,19 @@ export class ScoreboardCompletionProvider extends MinecraftCommandCompletionProv
             );
         }
 
-        const operation = subWords[1]?.toLowerCase();
-        if (!operation) { return []; }
+        const operation = command.nodes[2];
+        if (operation?.kind !== 'literal') { return []; }
 
         // 处理添加计分项操作
-        if (operation === 'add') {
-            return this.handleAddObjective(subWords, currentInput);
+        if (operation.name === 'add') {
+            return this.handleAddObjective(command, currentInput);
         }
 
         // 处理设置显示位置操作
-        if (operation === 'setdisplay') {
-            return this.handleSetDisplay(subWords, document, position, currentInput);
+        if (operation.name === 'setdisplay') {
+            return this.handleSetDisplay(command, document, position, currentInput);
         }
-        if (operation === 'remove' && subWords.length === 3) {
+        if (operation.name === 'remove' && command.active?.name === 'objective') {
             return this.handleRemoveObjective(document, position, currentInput);
         }
 
@@ -322,18 +370,18 @@ export class ScoreboardCompletionProvider extends MinecraftCommandCompletionProv
 
     /**
      * 处理添加计分项(add)的补全逻辑
-     * @param subWords 命令片段
+     * @param command 当前命令的解析树
      * @param currentInput 当前输入文本
      * @returns 补全项数组
      */
-    private handleAddObjective(subWords: string[], currentInput: string): vscode.CompletionItem[] {
-        switch (subWords.length) {
-            case 3:
+    private handleAddObjective(command: ParsedCommand, currentInput: string): vscode.CompletionItem[] {
+        switch (command.active?.name) {
+            case 'objective':
                 return this.isScoreboardNameCompletion
                     ? [this.createCompletionItem("<name>", "记分板名称", "", true)]
                     : [];
 
-            case 4:
+            case 'criteria': {
                 const part = currentInput.toLowerCase(); // 使用当前输入而非整个片段，提高精度
                 if (part.startsWith("stat")) {
                     // 物品相关统计补全
@@ -373,8 +421,9 @@ export class ScoreboardCompletionProvider extends MinecraftCommandCompletionProv
                             vscode.CompletionItemKind.Enum
                         )
                     );
+            }
 
-            case 5:
+            case 'displayName':
                 // 计分板显示名称补全
                 return [this.createCompletionItem("<displayName>", "显示名称（可选）", "", false)];
         }
@@ -384,20 +433,20 @@ export class ScoreboardCompletionProvider extends MinecraftCommandCompletionProv
 
     /**
      * 处理设置显示位置(setdisplay)的补全逻辑
-     * @param subWords 命令片段
+     * @param command 当前命令的解析树
      * @param document 当前文档
      * @param position 当前光标位置
      * @param currentInput 当前输入文本
      * @returns 补全项数组
      */
     private handleSetDisplay(
-        subWords: string[],
+        command: ParsedCommand,
         document: vscode.TextDocument,
         position: vscode.Position,
         currentInput: string
     ): vscode.CompletionItem[] {
-        switch (subWords.length) {
-            case 3:
+        switch (command.active?.name) {
+            case 'slot':
                 // 显示位置补全
                 return DISPLAY_POSITIONS
                     .filter(pos => pos.name.toLowerCase().startsWith(currentInput.toLowerCase()))
@@ -411,7 +460,7 @@ export class ScoreboardCompletionProvider extends MinecraftCommandCompletionProv
                         )
                     );
 
-            case 4:
+            case 'objective':
                 // 计分板名称补全
                 return this.createScoreboardNameCompletion(document, position, currentInput.length);
         }
@@ -420,34 +469,117 @@ export class ScoreboardCompletionProvider extends MinecraftCommandCompletionProv
     }
 
     /**
-     * 处理teams子命令的基础补全（原代码缺失，补充）
-     * @param subWords 命令片段
+     * 处理teams子命令的补全逻辑
+     * @param command 当前命令的解析树
+     * @param document 当前文档
+     * @param position 当前光标位置
+     * @param currentInput 当前输入文本
      * @returns 补全项数组
      */
-    private handleTeamsCommand(subWords: string[]): vscode.CompletionItem[] {
-        // 团队操作基础补全（可根据实际需求扩展）
-        if (subWords.length === 2) {
-            return [
-                { name: 'add', desc: '添加队伍', insertText: 'add' },
-                { name: 'remove', desc: '移除队伍', insertText: 'remove' },
-                { name: 'join', desc: '加入队伍', insertText: 'join' },
-                { name: 'leave', desc: '离开队伍', insertText: 'leave' },
-                { name: 'list', desc: '列出队伍', insertText: 'list' },
-                { name: 'option', desc: '设置队伍选项', insertText: 'option' }
-            ].map(op => this.createCompletionItem(
-                op.name,
-                op.desc,
-                `${op.insertText}${MinecraftCommandCompletionProvider.global_sufiix}`,
-                true,
-                this.keywordKind
-            ));
+    private handleTeamsCommand(
+        command: ParsedCommand,
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        currentInput: string
+    ): vscode.CompletionItem[] {
+        // teams的第一级操作
+        if (command.previous === command.nodes[1]) {
+            return TEAM_OPERATIONS.map(op =>
+                this.createCompletionItem(
+                    op.name,
+                    op.desc,
+                    `${op.insertText}${MinecraftCommandCompletionProvider.global_sufiix}`,
+                    true,
+                    this.keywordKind
+                )
+            );
         }
-        return [];
-    }
 
+        const operation = command.nodes[2];
+        if (operation?.kind !== 'literal') { return []; }
+        const argument = command.active?.name;
+        switch (operation.name) {
+            case 'add':
+                if (argument === 'team') {
+                    return [this.createCompletionItem("<name>", "队伍名称", "", true)];
+                }
+                if (argument === 'displayName') {
+                    return [this.createCompletionItem("<displayName>", "显示名称（可选）", "", false)];
+                }
+                break;
+
+            case 'remove':
+            case 'empty':
+            case 'list':
+                if (argument === 'team') {
+                    return this.createTeamCompletion(document, position, currentInput.length, false);
+                }
+                break;
+
+            case 'join':
+                // 队伍名称后可接多个成员
+                if (argument === 'team') {
+                    return this.createTeamCompletion(document, position, currentInput.length);
+                }
+                if (argument === 'members') {
+                    return this.createSelectorArgumentsCompletion(currentInput.split(' ').pop() ?? '', false);
+                }
+                break;
+
+            case 'leave':
+                if (argument === 'members') {
+                    return this.createSelectorArgumentsCompletion(currentInput.split(' ').pop() ?? '', false);
+                }
+                break;
 
+            case 'option':
+                return this.handleTeamOption(command, document, position, currentInput);
+        }
 
+        return [];
+    }
+
+    /**
+     * 处理队伍选项(option)的补全逻辑
+     * @param command 当前命令的解析树
+     * @param document 当前文档
+     * @param position 当前光标位置
+     * @param currentInput 当前输入文本
+     * @returns 补全项数组
+     */
+    private handleTeamOption(
+        command: ParsedCommand,
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        currentInput: string
+    ): vscode.CompletionItem[] {
+        const active = command.active;
+        const previous = command.previous;
+        if (active?.name === 'team') {
+            return this.createTeamCompletion(document, position, currentInput.length);
+        }
 
+        // 队伍之后只能接选项字面量
+        if (active?.kind !== 'argument' && previous?.name === 'team') {
+            return TEAM_OPTIONS.map(option =>
+                this.createCompletionItem(
+                    option.name,
+                    option.desc,
+                    `${option.name}${MinecraftCommandCompletionProvider.global_sufiix}`,
+                    true,
+                    vscode.CompletionItemKind.Property
+                )
+            );
+        }
 
+        if (active?.name === 'value' && previous) {
+            const option = TEAM_OPTIONS.find(opt => opt.name.toLowerCase() === previous.value.toLowerCase());
+            if (!option) { return []; }
+            return option.values.map(value =>
+                this.createCompletionItem(value.name, value.desc, value.name, false, vscode.CompletionItemKind.EnumMember)
+            );
+        }
 
-}
\ No newline at end of file
+        return [];
+    }
+}
@@ -1,5 +1,6 @@
 import * as vscode from "vscode";
 import { MinecraftCommandCompletionProvider } from "../core/CommandCompletionProvider";
+import { ParsedCommand } from "../core/CommandParser";
 
 /**
  * Setblock命令补全提供者
@@ -23,34 +24,34 @@ export class SetblockCompletionProvider extends MinecraftCommandCompletionProvid
 
     /**
      * 提供setblock命令的补全项
-     * @param commands 已解析的命令片段数组
+     * @param command 当前命令的解析树
+     * @param document 当前文档
+     * @param position 光标位置
      * @returns 补全项数组
      */
-    public provideCommandCompletions(commands: string[]): vscode.CompletionItem[] {
-        switch (commands.length) {
-            case 2:
-            case 3:
-            case 4:
+    public provideCommandCompletions(
+        command: ParsedCommand,
+        document: vscode.TextDocument,
+        position: vscode.Position
+    ): vscode.CompletionItem[] {
+        const active = command.active;
+        const block = command.getArgument('block')?.value ?? '';
+        switch (active?.name) {
+            case 'x':
+            case 'y':
+            case 'z':
                 // 处理坐标参数的自动补全
                 return this.createCoordinateCompletions(true);
                 
-            case 5:
+            case 'block':
                 // 处理方块ID参数的自动补全
                 return this.createBlockCompletion();
                 
-            case 6:
-                // 处理方块数据值参数的自动补全
-                return [
-                    this.createCompletionItem(
-                        '<dataValue>', 
-                        '方块数据值（0-15）', 
-                        '', 
-                        true, 
-                        vscode.CompletionItemKind.Value
-                    )
-                ];
+            case 'data':
+                // 处理方块数据值参数的自动补全（按方块列出数据值含义）
+                return this.createBlockDataCompletion(block);
                 
-            case 7:
+            case 'mode':
                 // 处理原方块处理方式参数的自动补全
                 return [
                     this.createCompletionItem(
@@ -75,8 +76,11 @@ export class SetblockCompletionProvider extends MinecraftCommandCompletionProvid
                         vscode.CompletionItemKind.Keyword
                     )
                 ];
-                
-                
+
+            case 'dataTag':
+                // 处理方块实体NBT参数的自动补全
+                return this.createNBTCompletion(active.value, { kind: 'blockEntity', id: block }, position);
+
             default:
                 return [];
         }
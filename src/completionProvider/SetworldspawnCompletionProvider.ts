@@ -4,7 +4,7 @@ import { MinecraftCommandCompletionProvider } from "../core/CommandCompletionPro
 export class SetworldspawnCompletionProvider extends MinecraftCommandCompletionProvider {
 
 
-    public provideCommandCompletions(commands: string[]): vscode.CompletionItem[] {
+    public provideCommandCompletions(): vscode.CompletionItem[] {
 
         return [];
         
@@ -1,14 +1,16 @@
 import * as vscode from "vscode";
 import { MinecraftCommandCompletionProvider } from "../core/CommandCompletionProvider";
+import { ParsedCommand } from "../core/CommandParser";
 
 export class SpawnpointCompletionProvider extends MinecraftCommandCompletionProvider {
 
 
-    public provideCommandCompletions(commands: string[]): vscode.CompletionItem[] {
-        if (commands.length === 2) {
-            return this.createSelectorArgumentsCompletion(commands[1], true);
+    public provideCommandCompletions(command: ParsedCommand): vscode.CompletionItem[] {
+        const active = command.active;
+        if (active?.name === 'target') {
+            return this.createSelectorArgumentsCompletion(active.value, true);
         }
-        if (commands.length >= 3 && commands.length <= 5) {
+        if (active?.type === 'coordinate') {
             return this.createCoordinateCompletions();
         }
         return [];
@@ -1,5 +1,6 @@
 import * as vscode from "vscode";
 import { MinecraftCommandCompletionProvider } from "../core/CommandCompletionProvider";
+import { ParsedCommand } from "../core/CommandParser";
 
 /**
  * Spreadplayers命令补全提供者
@@ -20,28 +21,27 @@ export class SpreadplayersCompletionProvider extends MinecraftCommandCompletionP
 
     /**
      * 提供spreadplayers命令的补全项
-     * @param commands 已解析的命令片段数组
-     * @param lineCommands 行内命令片段
+     * @param command 当前命令的解析树
      * @param document 当前文档
      * @param position 光标位置
      * @returns 补全项数组
      */
     public provideCommandCompletions(
-        commands: string[],
-        lineCommands: string[],
+        command: ParsedCommand,
         document: vscode.TextDocument,
         position: vscode.Position
     ): vscode.CompletionItem[] {
-        switch (commands.length) {
-            case 2:
+        const active = command.active;
+        switch (active?.name) {
+            case 'x':
                 // 第二个参数是中心点的x坐标
                 return this.createCoordinateCompletions();
             
-            case 3:
+            case 'z':
                 // 第三个参数是中心点的z坐标
                 return this.createCoordinateCompletions();
                 
-            case 4:
+            case 'spreadDistance':
                 // 第四个参数是最小扩散距离
                 return [
                     this.createCompletionItem(
@@ -53,7 +53,7 @@ export class SpreadplayersCompletionProvider extends MinecraftCommandCompletionP
                     )
                 ];
                 
-            case 5:
+            case 'maxRange':
                 // 第五个参数是最大扩散范围
                 return [
                     this.createCompletionItem(
@@ -65,7 +65,7 @@ export class SpreadplayersCompletionProvider extends MinecraftCommandCompletionP
                     )
                 ];
                 
-            case 6:
+            case 'respectTeams':
                 // 第六个参数是是否考虑队伍（true/false）
                 return [
                     this.createCompletionItem(
@@ -84,9 +84,9 @@ export class SpreadplayersCompletionProvider extends MinecraftCommandCompletionP
                     )
                 ];
                 
-            case 7:
-                // 第七个参数是目标实体（玩家或实体选择器）
-                return this.createSelectorArgumentsCompletion(commands[6], true);
+            case 'targets':
+                // 第七个参数是目标实体（玩家或实体选择器），可以有多个，按最后一个单词补全
+                return this.createSelectorArgumentsCompletion(active.value.split(' ').pop() ?? '', true);
         }
         
         return [];
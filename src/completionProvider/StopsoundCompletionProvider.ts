@@ -0,0 +1,29 @@
+import * as vscode from "vscode";
+import { MinecraftCommandCompletionProvider } from "../core/CommandCompletionProvider";
+import { ParsedCommand } from "../core/CommandParser";
+
+/**
+ * Stopsound命令补全提供者
+ *
+ * 命令语法：
+ * /stopsound <玩家> [来源] [音效]
+ */
+export class StopsoundCompletionProvider extends MinecraftCommandCompletionProvider {
+    public provideCommandCompletions(
+        command: ParsedCommand,
+        document: vscode.TextDocument,
+        position: vscode.Position
+    ): vscode.CompletionItem[] {
+        const active = command.active;
+        switch (active?.name) {
+            case 'target':
+                return this.createSelectorArgumentsCompletion(active.value, false);
+            case 'source':
+                return this.createSoundSourceCompletion(true);
+            case 'sound':
+                return this.createSoundCompletion(document, position, active.value);
+            default:
+                return [];
+        }
+    }
+}
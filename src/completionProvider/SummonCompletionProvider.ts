@@ -1,26 +1,26 @@
 import * as vscode from "vscode";
 import { MinecraftCommandCompletionProvider } from "../core/CommandCompletionProvider";
-import { EntityNameList } from "../utils/EnumLib";
-import { NBTUtils } from "../utils/NBTUtils";
+import { ParsedCommand } from "../core/CommandParser";
 
 export class SummonCompletionProvider extends MinecraftCommandCompletionProvider {
-    public provideCommandCompletions(commands: string[]): vscode.CompletionItem[] {
-        
-        let result: vscode.CompletionItem[] = [];
-        if (commands.length === 2) {
+    public provideCommandCompletions(
+        command: ParsedCommand,
+        document: vscode.TextDocument,
+        position: vscode.Position
+    ): vscode.CompletionItem[] {
+        const active = command.active;
+        if (active?.name === 'entity') {
             return this.createEntityNameCompletion(true);
         }
 
-        if (commands.length >= 3 && commands.length <= 5) {
+        if (active?.type === 'coordinate') {
             return this.createCoordinateCompletions(true);
         }
 
-        if (commands.length === 6) {
-            if (commands[5] === '') {
-                return this.createSingleCompletionItem('{}', 'NBT标签wrapper', '{${0:}}', false, vscode.CompletionItemKind.Snippet);
-            }
-            return NBTUtils.provideEntityNBTCompletions(this.createCompletionItem);
-            }
+        if (active?.name === 'dataTag') {
+            // 按召唤的实体类型补全 NBT
+            return this.createNBTCompletion(active.value, { kind: 'entity', id: command.getArgument('entity')?.value }, position);
+        }
 
         return [];
     }
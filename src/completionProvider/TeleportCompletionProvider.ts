@@ -1,16 +1,17 @@
 import * as vscode from 'vscode';
 import { MinecraftCommandCompletionProvider } from '../core/CommandCompletionProvider';
-import { wrap } from 'module';
+import { ParsedCommand } from '../core/CommandParser';
 
 export class TeleportCompletionProvider extends MinecraftCommandCompletionProvider {
-    public provideCommandCompletions(commands: string[]): vscode.CompletionItem[] {
+    public provideCommandCompletions(command: ParsedCommand): vscode.CompletionItem[] {
         
         let items: vscode.CompletionItem[] = [];
+        const active = command.active;
 
-        if (commands.length === 2) {
-            items = this.createSelectorArgumentsCompletion(commands[1], false);
+        if (active?.name === 'target') {
+            items = this.createSelectorArgumentsCompletion(active.value, false);
         }
-        if (commands.length === 3) {
+        if (active?.name === 'x') {
             items.push(this.createCompletionItem('<x> <y> <z>',"绝对坐标","${1:x} ${2:y} ${3:z}"));
             items.push(this.createCompletionItem('~<x> ~<y> ~<z>',"相对坐标","~${1:x} ~${2:y} ~${3:z}"));
         }
@@ -0,0 +1,25 @@
+import * as vscode from 'vscode';
+import { MinecraftCommandCompletionProvider } from '../core/CommandCompletionProvider';
+import { ParsedCommand } from '../core/CommandParser';
+
+/**
+ * Tell命令补全提供者（msg、w 为其别名）
+ *
+ * 命令语法：
+ * /tell <玩家> <消息>
+ *
+ * 消息中的 @ 选择器会被替换为实体名称
+ */
+export class TellCompletionProvider extends MinecraftCommandCompletionProvider {
+    public provideCommandCompletions(command: ParsedCommand): vscode.CompletionItem[] {
+        const active = command.active;
+        switch (active?.name) {
+            case 'target':
+                return this.createSelectorArgumentsCompletion(active.value, false);
+            case 'message':
+                return this.createMentionCompletion(active.value);
+            default:
+                return [];
+        }
+    }
+}
@@ -1,5 +1,6 @@
 import * as vscode from 'vscode';
 import { MinecraftCommandCompletionProvider } from '../core/CommandCompletionProvider';
+import { ParsedCommand } from '../core/CommandParser';
 import { JsonCompletionHelper } from '../utils/JsonMessageCompletionUtils';
 /**
  * Tellraw命令补全提供者
@@ -8,27 +9,25 @@ import { JsonCompletionHelper } from '../utils/JsonMessageCompletionUtils';
 export class TellrawCompletionProvider extends MinecraftCommandCompletionProvider {
     /**
      * 提供tellraw命令的补全项入口方法
-     * @param commands 已解析的命令参数数组
-     * @param lineText 当前行文本
+     * @param command 当前命令的解析树
      * @param document 当前活动文档
      * @param position 光标位置
      * @returns 补全项数组
      */
     public provideCommandCompletions(
-        commands: string[], 
-        lineCommands: string[],
+        command: ParsedCommand, 
         document: vscode.TextDocument, 
         position: vscode.Position
     ): vscode.CompletionItem[] {
+        const active = command.active;
         // 补全目标选择器
-        if (commands.length === 2) {
-            return this.createSelectorArgumentsCompletion(commands[1], true);
+        if (active?.name === 'target') {
+            return this.createSelectorArgumentsCompletion(active.value, true);
         }
         
         // 补全JSON文本内容（使用工具类）
-        if (commands.length >= 3) {
-            // console.log(commands);
-            return JsonCompletionHelper.provideJsonTextCompletions(this.extractCommand(document.lineAt(position.line).text.substring(0, position.character)),this.createCompletionItem.bind(this),document, position);
+        if (active?.name === 'message') {
+            return JsonCompletionHelper.provideJsonTextCompletions(command.values, this.createCompletionItem.bind(this), document, position);
         }
         
         return [];
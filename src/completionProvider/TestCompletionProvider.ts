@@ -1,9 +1,9 @@
-import { TextDocument, Position, CompletionItem, DocumentDropEdit } from "vscode";
+import { CompletionItem } from "vscode";
 import { MinecraftCommandCompletionProvider } from "../core/CommandCompletionProvider";
 
 
 export class TestCompletionProvider extends MinecraftCommandCompletionProvider {
-    public provideCommandCompletions(commands: string[], lineCommands: string[], document: TextDocument, position: Position): CompletionItem[] {
+    public provideCommandCompletions(): CompletionItem[] {
         return [];
     }
 
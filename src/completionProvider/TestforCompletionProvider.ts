@@ -0,0 +1,28 @@
+import * as vscode from "vscode";
+import { MinecraftCommandCompletionProvider } from "../core/CommandCompletionProvider";
+import { ParsedCommand } from "../core/CommandParser";
+import { NBTSchemas } from "../utils/NBTSchema";
+
+/**
+ * Testfor命令补全提供者
+ *
+ * 命令语法：
+ * /testfor <实体> [dataTag]
+ */
+export class TestforCompletionProvider extends MinecraftCommandCompletionProvider {
+    public provideCommandCompletions(
+        command: ParsedCommand,
+        document: vscode.TextDocument,
+        position: vscode.Position
+    ): vscode.CompletionItem[] {
+        const active = command.active;
+        switch (active?.name) {
+            case 'target':
+                return this.createSelectorArgumentsCompletion(active.value, false);
+            case 'dataTag':
+                return this.createNBTCompletion(active.value, { kind: 'entity', id: NBTSchemas.targetEntityType(command.getArgument('target')?.value ?? '') }, position);
+            default:
+                return [];
+        }
+    }
+}
@@ -0,0 +1,40 @@
+import * as vscode from "vscode";
+import { MinecraftCommandCompletionProvider } from "../core/CommandCompletionProvider";
+import { ParsedCommand } from "../core/CommandParser";
+
+/**
+ * Testforblock命令补全提供者
+ *
+ * 命令语法：
+ * /testforblock <x> <y> <z> <方块> [数据值] [dataTag]
+ *
+ * 参数说明：
+ * - 数据值为 -1 时匹配任意数据值
+ */
+export class TestforblockCompletionProvider extends MinecraftCommandCompletionProvider {
+    public provideCommandCompletions(
+        command: ParsedCommand,
+        document: vscode.TextDocument,
+        position: vscode.Position
+    ): vscode.CompletionItem[] {
+        const active = command.active;
+        switch (active?.name) {
+            case 'x':
+            case 'y':
+            case 'z':
+                // 处理坐标参数的自动补全
+                return this.createCoordinateCompletions(true);
+            case 'block':
+                // 处理方块ID参数的自动补全
+                return this.createBlockCompletion();
+            case 'data':
+                // 处理方块数据值参数的自动补全（按方块列出数据值含义，-1 匹配任意数据值）
+                return this.createBlockDataCompletion(command.getArgument('block')?.value ?? '', true, true);
+            case 'dataTag':
+                // 处理方块NBT参数的自动补全
+                return this.createNBTCompletion(active.value, { kind: 'blockEntity', id: command.getArgument('block')?.value }, position);
+            default:
+                return [];
+        }
+    }
+}
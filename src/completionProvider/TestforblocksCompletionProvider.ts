@@ -0,0 +1,31 @@
+import * as vscode from "vscode";
+import { MinecraftCommandCompletionProvider } from "../core/CommandCompletionProvider";
+import { ParsedCommand } from "../core/CommandParser";
+
+/**
+ * Testforblocks命令补全提供者
+ *
+ * 命令语法：
+ * /testforblocks <x1> <y1> <z1> <x2> <y2> <z2> <x> <y> <z> [all|masked]
+ *
+ * 参数说明：
+ * - x1~z2: 源区域的两个对角
+ * - x y z: 目标区域的最小角
+ * - all: 比较全部方块（默认）
+ * - masked: 忽略源区域中的空气方块
+ */
+export class TestforblocksCompletionProvider extends MinecraftCommandCompletionProvider {
+    public provideCommandCompletions(command: ParsedCommand): vscode.CompletionItem[] {
+        if (command.active?.type === 'coordinate') {
+            // 处理三组坐标参数的自动补全
+            return this.createCoordinateCompletions(true);
+        }
+        if (command.previous?.name === 'zDest') {
+            return [
+                this.createCompletionItem('all', '比较全部方块（默认）', 'all', false, vscode.CompletionItemKind.Keyword),
+                this.createCompletionItem('masked', '忽略源区域中的空气方块', 'masked', false, vscode.CompletionItemKind.Keyword)
+            ];
+        }
+        return [];
+    }
+}
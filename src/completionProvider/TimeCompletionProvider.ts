@@ -1,26 +1,28 @@
 import * as vscode from 'vscode';
 import { MinecraftCommandCompletionProvider } from '../core/CommandCompletionProvider';
+import { ParsedCommand } from '../core/CommandParser';
 
 export class TimeCompletionProvider extends MinecraftCommandCompletionProvider {
     public provideCommandCompletions(
-        commands: string[],
-        lineCommands: string[],
+        command: ParsedCommand,
         document: vscode.TextDocument,
         position: vscode.Position
     ): vscode.CompletionItem[] {
         
-        switch (commands.length) {
-            case 2:
-                // 第二个参数：time命令的子命令
-                return [
-                    this.createCompletionItem('set', "设置时间", 'set ', true, vscode.CompletionItemKind.Keyword),
-                    this.createCompletionItem('add', "增加时间", 'add ', true, vscode.CompletionItemKind.Keyword),
-                    this.createCompletionItem('query', "查询时间", 'query ', true, vscode.CompletionItemKind.Keyword)
-                ];
-            
-            case 3:
+        const active = command.active;
+        if (!active) { return []; }
+        if (command.previous === command.nodes[0]) {
+            // 第二个参数：time命令的子命令
+            return [
+                this.createCompletionItem('set', "设置时间", 'set ', true, vscode.CompletionItemKind.Keyword),
+                this.createCompletionItem('add', "增加时间", 'add ', true, vscode.CompletionItemKind.Keyword),
+                this.createCompletionItem('query', "查询时间", 'query ', true, vscode.CompletionItemKind.Keyword)
+            ];
+        }
+        switch (active.name) {
+            case 'value':
                 // 第三个参数：根据不同的子命令提供不同的补全项
-                switch (commands[1]) {
+                switch (command.previous?.name) {
                     case 'set':
                         // set命令可以设置具体时间值或预设时间关键词
                         return [
@@ -46,9 +48,10 @@ export class TimeCompletionProvider extends MinecraftCommandCompletionProvider {
                 }
                 break;
                 
-            case 4:
+            default: {
                 // 第四个参数：对于set命令，如果使用具体数值，可以提供单位选项
-                if (commands[1] === 'set' && !['day', 'noon', 'night', 'midnight'].includes(commands[2])) {
+                const value = command.getArgument('value')?.value ?? '';
+                if (command.previous?.name === 'value' && command.matches('time', 'set') && !['day', 'noon', 'night', 'midnight'].includes(value)) {
                     return [
                         this.createCompletionItem('t', "游戏刻 (tick)", 't', false, vscode.CompletionItemKind.Unit),
                         this.createCompletionItem('s', "秒 (second)", 's', false, vscode.CompletionItemKind.Unit),
@@ -56,6 +59,7 @@ export class TimeCompletionProvider extends MinecraftCommandCompletionProvider {
                     ];
                 }
                 break;
+            }
         }
         
         return [];
@@ -1,13 +1,25 @@
 import * as vscode from 'vscode';
 import { MinecraftCommandCompletionProvider } from '../core/CommandCompletionProvider';
+import { ParsedCommand } from '../core/CommandParser';
 import { JsonCompletionHelper } from '../utils/JsonMessageCompletionUtils';
 
 export class TitleCompletionProvider extends MinecraftCommandCompletionProvider {
-    public provideCommandCompletions(commands: string[],lineCommands: string[], document: vscode.TextDocument, position: vscode.Position): vscode.CompletionItem[] {
-        switch (commands.length) {
-            case 2:
-                return this.createSelectorArgumentsCompletion(commands[1]);
-            case 3:
+    public provideCommandCompletions(command: ParsedCommand, document: vscode.TextDocument, position: vscode.Position): vscode.CompletionItem[] {
+        const active = command.active;
+        if (active?.kind === 'argument') {
+            switch (active.name) {
+                case 'target':
+                    return this.createSelectorArgumentsCompletion(active.value);
+                case 'fadeIn':
+                    return this.createSingleCompletionItem("<淡入> <滞留> <淡出>", "设置时间参数(tick)", "", false, vscode.CompletionItemKind.Keyword);
+                case 'message':
+                    return JsonCompletionHelper.provideJsonTextCompletions(command.values, this.createCompletionItem.bind(this), document, position);
+            }
+            return [];
+        }
+        // 子命令只能接字面量，按前一个节点判断位置
+        switch (command.previous?.name) {
+            case 'target':
                 return [
                     this.createCompletionItem('title', "主标题", "title" + MinecraftCommandCompletionProvider.global_sufiix, true, vscode.CompletionItemKind.Keyword),
                     this.createCompletionItem('subtitle', "副标题", "subtitle" + MinecraftCommandCompletionProvider.global_sufiix, true, vscode.CompletionItemKind.Keyword),
@@ -16,13 +28,6 @@ export class TitleCompletionProvider extends MinecraftCommandCompletionProvider
                     this.createCompletionItem('clear', "清除设置", "clear" + MinecraftCommandCompletionProvider.global_sufiix,true, vscode.CompletionItemKind.Keyword),
 
                 ];
-            case 4:
-                if (commands[2] === 'times') {
-                    return this.createSingleCompletionItem("<淡入> <滞留> <淡出>", "设置时间参数(tick)", "", false, vscode.CompletionItemKind.Keyword);
-                }
-                return JsonCompletionHelper.provideJsonTextCompletions(this.extractCommand(document.lineAt(position.line).text.substring(0, position.character)), this.createCompletionItem.bind(this),document, position);
-
-
         }
     return [];
     
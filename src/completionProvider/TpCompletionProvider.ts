@@ -1,15 +1,20 @@
 import * as vscode from 'vscode';
 import { MinecraftCommandCompletionProvider } from '../core/CommandCompletionProvider';
+import { ParsedCommand } from '../core/CommandParser';
 
 export class TpCompletionProvider extends MinecraftCommandCompletionProvider {
-    public provideCommandCompletions(commands: string[]): vscode.CompletionItem[] {
+    public provideCommandCompletions(command: ParsedCommand): vscode.CompletionItem[] {
         
         let items: vscode.CompletionItem[] = [];
-        if (commands.length === 2) {
-            items = this.createSelectorArgumentsCompletion(commands[1],false);
+        const active = command.active;
+        if (!active) { return items; }
+        // 第一个参数可以是目标实体或坐标（未输入时按坐标分支解析），均补全目标实体
+        if (command.previous === command.nodes[0]) {
+            return this.createSelectorArgumentsCompletion(active.value, false);
         }
-        if (commands.length === 3) {
-            this.createSelectorArgumentsCompletion(commands[2]).forEach(element => {
+        // 目标实体之后可接目的地实体或坐标
+        if ((active.name === 'x' && command.getArgument('target')) || active.name === 'destination') {
+            this.createSelectorArgumentsCompletion(active.value).forEach(element => {
                 items.push(element);
             });
             items.push(this.createCompletionItem('<x> <y> <z>',"绝对坐标","${1:x} ${2:y} ${3:z}",false));
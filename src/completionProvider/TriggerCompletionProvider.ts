@@ -1,5 +1,6 @@
 import * as vscode from "vscode";
 import { MinecraftCommandCompletionProvider } from "../core/CommandCompletionProvider";
+import { ParsedCommand } from "../core/CommandParser";
 import { DataLoader } from "../core/DataLoader";
 import { FileLineIdleSearchProcessor } from "../core/FileLineIdleSearchProcessor";
 
@@ -7,28 +8,27 @@ export class TriggerCompletionProvider extends MinecraftCommandCompletionProvide
 
 
     public provideCommandCompletions(
-        commands: string[],
-        lineCommands: string[],
+        command: ParsedCommand,
         document: vscode.TextDocument,
         position: vscode.Position
     ): vscode.CompletionItem[] {
-        switch (commands.length) {
-            case 2:
-                // 第二个参数是trigger的计分板目标名称（必须是trigger类型的计分板）
-                return this.createTriggerObjectiveCompletion(commands[1], document, position);
-            
-            case 3:
-                // 第三个参数是操作类型：add 或 set
-                return [
-                    this.createCompletionItem('add', '增加数值到计分板目标', 'add ', true, vscode.CompletionItemKind.Keyword),
-                    this.createCompletionItem('set', '设置计分板目标的数值', 'set ', true, vscode.CompletionItemKind.Keyword)
-                ];
-            
-            case 4:
-                // 第四个参数是数值
-                return [
-                    this.createCompletionItem('<value>', '要增加或设置的数值', '', true, vscode.CompletionItemKind.Value)
-                ];
+        const active = command.active;
+        if (active?.name === 'objective') {
+            // 第二个参数是trigger的计分板目标名称（必须是trigger类型的计分板）
+            return this.createTriggerObjectiveCompletion(active.value, document, position);
+        }
+        if (active?.name === 'value') {
+            // 第四个参数是数值
+            return [
+                this.createCompletionItem('<value>', '要增加或设置的数值', '', true, vscode.CompletionItemKind.Value)
+            ];
+        }
+        if (command.previous?.name === 'objective') {
+            // 第三个参数是操作类型：add 或 set
+            return [
+                this.createCompletionItem('add', '增加数值到计分板目标', 'add ', true, vscode.CompletionItemKind.Keyword),
+                this.createCompletionItem('set', '设置计分板目标的数值', 'set ', true, vscode.CompletionItemKind.Keyword)
+            ];
         }
         
         return [];
@@ -1,5 +1,6 @@
 import * as vscode from 'vscode';
 import { MinecraftCommandCompletionProvider } from '../core/CommandCompletionProvider';
+import { ParsedCommand } from '../core/CommandParser';
 
 /**
  * Weather命令补全提供者
@@ -21,38 +22,38 @@ export class WeatherCompletionProvider extends MinecraftCommandCompletionProvide
 
     /**
      * 提供weather命令的补全项
-     * @param commands 已解析的命令片段数组
+     * @param command 当前命令的解析树
      * @returns 补全项数组
      */
-    public provideCommandCompletions(commands: string[]): vscode.CompletionItem[] {
-        switch (commands.length) {
-            case 2:
-                // 第二个参数是天气类型
-                return [
-                    this.createCompletionItem(
-                        'clear', 
-                        '晴天', 
-                        'clear' + MinecraftCommandCompletionProvider.global_sufiix, 
-                        true, 
-                        vscode.CompletionItemKind.Keyword
-                    ),
-                    this.createCompletionItem(
-                        'rain', 
-                        '雨天', 
-                        'rain' + MinecraftCommandCompletionProvider.global_sufiix, 
-                        true, 
-                        vscode.CompletionItemKind.Keyword
-                    ),
-                    this.createCompletionItem(
-                        'thunder', 
-                        '雷雨天', 
-                        'thunder' + MinecraftCommandCompletionProvider.global_sufiix, 
-                        true, 
-                        vscode.CompletionItemKind.Keyword
-                    )
-                ];
-            
-            case 3:
+    public provideCommandCompletions(command: ParsedCommand): vscode.CompletionItem[] {
+        if (command.previous === command.nodes[0]) {
+            // 第二个参数是天气类型
+            return [
+                this.createCompletionItem(
+                    'clear', 
+                    '晴天', 
+                    'clear' + MinecraftCommandCompletionProvider.global_sufiix, 
+                    true, 
+                    vscode.CompletionItemKind.Keyword
+                ),
+                this.createCompletionItem(
+                    'rain', 
+                    '雨天', 
+                    'rain' + MinecraftCommandCompletionProvider.global_sufiix, 
+                    true, 
+                    vscode.CompletionItemKind.Keyword
+                ),
+                this.createCompletionItem(
+                    'thunder', 
+                    '雷雨天', 
+                    'thunder' + MinecraftCommandCompletionProvider.global_sufiix, 
+                    true, 
+                    vscode.CompletionItemKind.Keyword
+                )
+            ];
+        }
+        switch (command.active?.name) {
+            case 'duration':
                 // 第三个参数是持续时间（可选）
                 return [
                     this.createCompletionItem(
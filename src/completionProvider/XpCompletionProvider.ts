@@ -1,16 +1,18 @@
 import * as vscode from 'vscode';
 import { MinecraftCommandCompletionProvider } from "../core/CommandCompletionProvider";
+import { ParsedCommand } from "../core/CommandParser";
 
 export class XpCompletionProvider extends MinecraftCommandCompletionProvider { 
 
     /**
      * 提供xp命令的补全项
-     * @param commands 已解析的命令片段数组
+     * @param command 当前命令的解析树
      * @returns 补全项数组
      */
-    public provideCommandCompletions(commands: string[]): vscode.CompletionItem[] {
-        switch (commands.length) {
-            case 2:
+    public provideCommandCompletions(command: ParsedCommand): vscode.CompletionItem[] {
+        const active = command.active;
+        switch (active?.name) {
+            case 'amount':
                 // 第二个参数是经验值数量，可以是数字或者带L后缀的等级
                 return [
                     this.createCompletionItem(
@@ -29,9 +31,9 @@ export class XpCompletionProvider extends MinecraftCommandCompletionProvider {
                     )
                 ];
             
-            case 3:
+            case 'target':
                 // 第三个参数是目标玩家
-                return this.createSelectorArgumentsCompletion(commands[2], false);
+                return this.createSelectorArgumentsCompletion(active.value, false);
                 
             default:
                 return [];
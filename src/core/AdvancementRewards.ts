@@ -0,0 +1,81 @@
+import * as vscode from 'vscode';
+import * as jsonc from 'jsonc-parser';
+import { DataLoader } from './DataLoader';
+import { MinecraftUtils } from '../utils/MinecraftUtils';
+
+/**
+ * 进度的奖励函数（rewards.function）
+ */
+export interface AdvancementReward {
+    /** 进度ID（命名空间:路径） */
+    advancement: string;
+    /** 进度文件 */
+    uri: vscode.Uri;
+    /** rewards.function 取值在进度文件中的位置（不含引号） */
+    range: vscode.Range;
+    /** 奖励函数ID */
+    functionName: string;
+    /** 奖励函数文件 */
+    functionUri: vscode.Uri;
+}
+
+/**
+ * 进度奖励函数查找
+ * 进度达成时会执行 rewards.function，因此进度也是函数的调用者
+ */
+export class AdvancementRewards {
+    private constructor() { }
+
+    /**
+     * 收集工作区中全部进度的奖励函数
+     * @returns 奖励函数（无法解析的进度文件会被跳过）
+     */
+    public static async findAll(): Promise<AdvancementReward[]> {
+        const rewards: AdvancementReward[] = [];
+        for (const path of DataLoader.getAdvancementPaths()) {
+            // 进度路径形如 namespace/sub/adv.json
+            const advancement = path.replace('/', ':').slice(0, -'.json'.length);
+            const uri = MinecraftUtils.buildAdvancementUri(advancement);
+            if (!uri) { continue; }
+            try {
+                const document = await vscode.workspace.openTextDocument(uri);
+                const reward = this.parseReward(document, advancement);
+                if (reward) { rewards.push(reward); }
+            } catch (error) {
+                console.warn(`读取进度失败：${uri.fsPath}`, error);
+            }
+        }
+        return rewards;
+    }
+
+    /**
+     * 查找以指定函数为奖励的进度
+     * @param functionUri 函数文件
+     * @returns 奖励函数
+     */
+    public static async findCallers(functionUri: vscode.Uri): Promise<AdvancementReward[]> {
+        const target = functionUri.toString();
+        return (await this.findAll()).filter(reward => reward.functionUri.toString() === target);
+    }
+
+    /**
+     * 解析进度文件中的 rewards.function
+     * @param document 进度文件
+     * @param advancement 进度ID
+     * @returns 奖励函数（未设置时返回undefined）
+     */
+    private static parseReward(document: vscode.TextDocument, advancement: string): AdvancementReward | undefined {
+        const root = jsonc.parseTree(document.getText());
+        const node = root && jsonc.findNodeAtLocation(root, ['rewards', 'function']);
+        if (!node || node.type !== 'string' || !node.value) { return undefined; }
+
+        const functionName = node.value as string;
+        const functionUri = MinecraftUtils.buildFunctionUri(functionName);
+        if (!functionUri) { return undefined; }
+        const range = new vscode.Range(
+            document.positionAt(node.offset + 1),
+            document.positionAt(node.offset + node.length - 1)
+        );
+        return { advancement, uri: document.uri, range, functionName, functionUri };
+    }
+}
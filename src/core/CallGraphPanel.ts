@@ -0,0 +1,342 @@
+import * as vscode from 'vscode';
+import { randomBytes } from 'crypto';
+import { CallGraph, FunctionCallGraph } from './FunctionCallGraph';
+import { FileLineIdleSearchProcessor } from './FileLineIdleSearchProcessor';
+
+/** 发送给 webview 的调用图数据 */
+interface CallGraphMessage {
+    type: 'graph';
+    nodes: { name: string, namespace: string, uri: string, entryPoints: string[], advancements: string[] }[];
+    edges: { from: string, to: string, gameLoop: boolean }[];
+}
+
+/** webview 发回的消息 */
+type CallGraphRequest = { type: 'open', uri: string } | { type: 'refresh' };
+
+/**
+ * 函数调用图可视化
+ * 在 webview 中以力导向图显示工作区的函数调用关系：按命名空间着色，高亮循环函数、进度奖励函数与无调用者的函数，
+ * 点击节点打开函数文件，可按命名空间筛选或只显示某个函数附近的调用关系
+ */
+export class CallGraphPanel implements vscode.Disposable {
+    private static instance: CallGraphPanel | undefined;
+    private readonly disposable: vscode.Disposable;
+    private panel: vscode.WebviewPanel | undefined;
+
+    private static readonly SHOW_COMMAND = 'mcfunction.showCallGraph';
+
+    public static getInstance(): CallGraphPanel {
+        if (!CallGraphPanel.instance) {
+            CallGraphPanel.instance = new CallGraphPanel();
+        }
+        return CallGraphPanel.instance;
+    }
+
+    private constructor() {
+        this.disposable = vscode.commands.registerCommand(CallGraphPanel.SHOW_COMMAND, this.show, this);
+    }
+
+    /**
+     * 打开（或切换到）调用图面板
+     */
+    private async show(): Promise<void> {
+        if (this.panel) {
+            this.panel.reveal();
+            return;
+        }
+        this.panel = vscode.window.createWebviewPanel(
+            'mcfunctionCallGraph',
+            '函数调用图',
+            vscode.ViewColumn.Active,
+            { enableScripts: true, retainContextWhenHidden: true }
+        );
+        this.panel.webview.html = this.getHtml(this.panel.webview);
+        this.panel.webview.onDidReceiveMessage((message: CallGraphRequest) => this.handleMessage(message));
+        this.panel.onDidDispose(() => this.panel = undefined);
+        await this.postGraph();
+    }
+
+    private async handleMessage(message: CallGraphRequest): Promise<void> {
+        switch (message.type) {
+            case 'open':
+                await vscode.window.showTextDocument(vscode.Uri.parse(message.uri), { viewColumn: vscode.ViewColumn.Beside });
+                break;
+            case 'refresh':
+                await this.postGraph();
+                break;
+        }
+    }
+
+    /**
+     * 构建调用图并发送给 webview
+     */
+    private async postGraph(): Promise<void> {
+        if (!FileLineIdleSearchProcessor.isScanCompleted) {
+            vscode.window.showWarningMessage('函数索引未完成，调用图可能不完整');
+        }
+        const graph = await FunctionCallGraph.build();
+        await this.panel?.webview.postMessage(this.toMessage(graph));
+    }
+
+    private toMessage(graph: CallGraph): CallGraphMessage {
+        return {
+            type: 'graph',
+            nodes: Array.from(graph.nodes.values()).map(node => ({
+                name: node.name,
+                namespace: node.namespace,
+                uri: node.uri.toString(),
+                entryPoints: node.entryPoints,
+                advancements: node.advancements
+            })),
+            edges: graph.edges.map(({ from, to, gameLoop }) => ({ from, to, gameLoop }))
+        };
+    }
+
+    private getHtml(webview: vscode.Webview): string {
+        const nonce = randomBytes(16).toString('base64');
+        return `<!DOCTYPE html>
+<html lang="zh-CN">
+<head>
+<meta charset="UTF-8">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource} 'nonce-${nonce}'; script-src 'nonce-${nonce}';">
+<style nonce="${nonce}">
+    body { margin: 0; padding: 0; overflow: hidden; font-family: var(--vscode-font-family); color: var(--vscode-foreground); }
+    #toolbar { display: flex; flex-wrap: wrap; gap: 8px; align-items: center; padding: 6px 8px; border-bottom: 1px solid var(--vscode-panel-border); }
+    #toolbar select, #toolbar input, #toolbar button {
+        background: var(--vscode-input-background); color: var(--vscode-input-foreground);
+        border: 1px solid var(--vscode-input-border, transparent); padding: 2px 4px;
+    }
+    #toolbar button { cursor: pointer; }
+    .legend { display: inline-flex; align-items: center; gap: 4px; font-size: 12px; }
+    .legend i { display: inline-block; width: 10px; height: 10px; border-radius: 50%; border: 2px solid; }
+    .legend i.gameLoop { border-color: #e5c07b; }
+    .legend i.advancement { border-color: #c678dd; }
+    .legend i.uncalled { border-color: #e06c75; }
+    #hint { font-size: 12px; opacity: 0.7; }
+    svg { width: 100vw; height: calc(100vh - 40px); cursor: grab; color: var(--vscode-editorLineNumber-foreground); }
+    .node { cursor: pointer; }
+    .node text { font-size: 10px; fill: var(--vscode-foreground); pointer-events: none; }
+    .edge { stroke: var(--vscode-editorLineNumber-foreground); stroke-opacity: 0.6; }
+    .edge.gameLoop { stroke-dasharray: 4 3; }
+</style>
+</head>
+<body>
+<div id="toolbar">
+    <label>命名空间 <select id="namespace"><option value="">全部</option></select></label>
+    <label>聚焦函数 <input id="focus" list="functions" placeholder="命名空间:函数" size="28"></label>
+    <datalist id="functions"></datalist>
+    <label>层数 <select id="depth"><option>1</option><option selected>2</option><option>3</option></select></label>
+    <button id="clearFocus">取消聚焦</button>
+    <button id="refresh">刷新</button>
+    <span class="legend"><i class="gameLoop"></i>循环函数</span>
+    <span class="legend"><i class="advancement"></i>进度奖励</span>
+    <span class="legend"><i class="uncalled"></i>无调用者</span>
+    <span id="hint">点击节点打开文件，Shift+点击聚焦该函数，拖动空白处平移，滚轮缩放</span>
+</div>
+<svg id="graph">
+    <defs>
+        <marker id="arrow" viewBox="0 0 10 10" refX="16" refY="5" markerWidth="6" markerHeight="6" orient="auto-start-reverse">
+            <path d="M 0 0 L 10 5 L 0 10 z" fill="currentColor"></path>
+        </marker>
+    </defs>
+    <g id="viewport"></g>
+</svg>
+<script nonce="${nonce}">
+(function () {
+    const vscode = acquireVsCodeApi();
+    const SVG_NS = 'http://www.w3.org/2000/svg';
+    const ENTRY_COLORS = { gameLoop: '#e5c07b', advancement: '#c678dd', uncalled: '#e06c75' };
+    const ENTRY_NAMES = { gameLoop: '循环函数', advancement: '进度奖励', uncalled: '无调用者' };
+    const svg = document.getElementById('graph');
+    const viewport = document.getElementById('viewport');
+    const namespaceSelect = document.getElementById('namespace');
+    const focusInput = document.getElementById('focus');
+    const depthSelect = document.getElementById('depth');
+    let graph = { nodes: [], edges: [] };
+    let view = { x: 0, y: 0, scale: 1 };
+
+    function namespaceColor(namespace) {
+        let hash = 0;
+        for (let i = 0; i < namespace.length; i++) { hash = (hash * 31 + namespace.charCodeAt(i)) % 360; }
+        return 'hsl(' + hash + ', 60%, 55%)';
+    }
+
+    /** 按命名空间筛选与聚焦范围计算可见的函数 */
+    function visibleNodes() {
+        const namespace = namespaceSelect.value;
+        const focus = focusInput.value.trim();
+        let names = new Set(graph.nodes.map(node => node.name));
+        if (focus && names.has(focus)) {
+            const depth = Number(depthSelect.value);
+            const reached = new Set([focus]);
+            let frontier = [focus];
+            for (let level = 0; level < depth; level++) {
+                const next = [];
+                for (const edge of graph.edges) {
+                    if (frontier.includes(edge.from) && !reached.has(edge.to)) { reached.add(edge.to); next.push(edge.to); }
+                    if (frontier.includes(edge.to) && !reached.has(edge.from)) { reached.add(edge.from); next.push(edge.from); }
+                }
+                frontier = next;
+            }
+            names = reached;
+        }
+        return graph.nodes.filter(node => names.has(node.name) && (!namespace || node.namespace === namespace || node.name === focus));
+    }
+
+    /** 力导向布局（Fruchterman-Reingold） */
+    function layout(nodes, edges) {
+        const width = svg.clientWidth || 800;
+        const height = svg.clientHeight || 600;
+        const k = Math.sqrt(width * height / Math.max(nodes.length, 1)) * 0.8;
+        nodes.forEach((node, index) => {
+            const angle = 2 * Math.PI * index / nodes.length;
+            node.x = width / 2 + Math.cos(angle) * width / 3;
+            node.y = height / 2 + Math.sin(angle) * height / 3;
+        });
+        const byName = new Map(nodes.map(node => [node.name, node]));
+        const iterations = nodes.length > 400 ? 120 : 300;
+        let temperature = width / 10;
+        for (let iteration = 0; iteration < iterations; iteration++) {
+            nodes.forEach(node => { node.dx = 0; node.dy = 0; });
+            for (let i = 0; i < nodes.length; i++) {
+                for (let j = i + 1; j < nodes.length; j++) {
+                    const a = nodes[i], b = nodes[j];
+                    const dx = a.x - b.x, dy = a.y - b.y;
+                    const distance = Math.max(Math.sqrt(dx * dx + dy * dy), 0.01);
+                    const force = k * k / distance;
+                    a.dx += dx / distance * force; a.dy += dy / distance * force;
+                    b.dx -= dx / distance * force; b.dy -= dy / distance * force;
+                }
+            }
+            for (const edge of edges) {
+                const a = byName.get(edge.from), b = byName.get(edge.to);
+                if (!a || !b || a === b) { continue; }
+                const dx = a.x - b.x, dy = a.y - b.y;
+                const distance = Math.max(Math.sqrt(dx * dx + dy * dy), 0.01);
+                const force = distance * distance / k;
+                a.dx -= dx / distance * force; a.dy -= dy / distance * force;
+                b.dx += dx / distance * force; b.dy += dy / distance * force;
+            }
+            for (const node of nodes) {
+                const length = Math.max(Math.sqrt(node.dx * node.dx + node.dy * node.dy), 0.01);
+                node.x += node.dx / length * Math.min(length, temperature);
+                node.y += node.dy / length * Math.min(length, temperature);
+            }
+            temperature *= 0.98;
+        }
+    }
+
+    function render() {
+        const nodes = visibleNodes().map(node => Object.assign({}, node));
+        const names = new Set(nodes.map(node => node.name));
+        const edges = graph.edges.filter(edge => names.has(edge.from) && names.has(edge.to));
+        layout(nodes, edges);
+        const byName = new Map(nodes.map(node => [node.name, node]));
+        viewport.textContent = '';
+
+        for (const edge of edges) {
+            const a = byName.get(edge.from), b = byName.get(edge.to);
+            if (a === b) { continue; }
+            const line = document.createElementNS(SVG_NS, 'line');
+            line.setAttribute('class', edge.gameLoop ? 'edge gameLoop' : 'edge');
+            line.setAttribute('x1', a.x); line.setAttribute('y1', a.y);
+            line.setAttribute('x2', b.x); line.setAttribute('y2', b.y);
+            line.setAttribute('marker-end', 'url(#arrow)');
+            viewport.appendChild(line);
+        }
+
+        const focus = focusInput.value.trim();
+        for (const node of nodes) {
+            const group = document.createElementNS(SVG_NS, 'g');
+            group.setAttribute('class', 'node');
+            group.setAttribute('transform', 'translate(' + node.x + ',' + node.y + ')');
+            const circle = document.createElementNS(SVG_NS, 'circle');
+            const entry = node.entryPoints[0];
+            circle.setAttribute('r', entry || node.name === focus ? 8 : 5);
+            circle.setAttribute('fill', namespaceColor(node.namespace));
+            if (entry) {
+                circle.setAttribute('stroke', ENTRY_COLORS[entry]);
+                circle.setAttribute('stroke-width', 3);
+            }
+            const title = document.createElementNS(SVG_NS, 'title');
+            const details = node.entryPoints.map(kind => ENTRY_NAMES[kind]);
+            if (node.advancements.length) { details.push('进度：' + node.advancements.join(', ')); }
+            title.textContent = node.name + (details.length ? '\\n' + details.join('\\n') : '');
+            circle.appendChild(title);
+            const label = document.createElementNS(SVG_NS, 'text');
+            label.setAttribute('x', 10);
+            label.setAttribute('y', 3);
+            label.textContent = node.name;
+            group.appendChild(circle);
+            group.appendChild(label);
+            group.addEventListener('click', event => {
+                if (event.shiftKey) {
+                    focusInput.value = node.name;
+                    render();
+                } else {
+                    vscode.postMessage({ type: 'open', uri: node.uri });
+                }
+            });
+            viewport.appendChild(group);
+        }
+        applyView();
+    }
+
+    function applyView() {
+        viewport.setAttribute('transform', 'translate(' + view.x + ',' + view.y + ') scale(' + view.scale + ')');
+    }
+
+    let drag = null;
+    svg.addEventListener('mousedown', event => {
+        if (event.target !== svg) { return; }
+        drag = { x: event.clientX - view.x, y: event.clientY - view.y };
+        svg.style.cursor = 'grabbing';
+    });
+    window.addEventListener('mousemove', event => {
+        if (!drag) { return; }
+        view.x = event.clientX - drag.x;
+        view.y = event.clientY - drag.y;
+        applyView();
+    });
+    window.addEventListener('mouseup', () => { drag = null; svg.style.cursor = 'grab'; });
+    svg.addEventListener('wheel', event => {
+        event.preventDefault();
+        const factor = event.deltaY < 0 ? 1.1 : 1 / 1.1;
+        const rect = svg.getBoundingClientRect();
+        const px = event.clientX - rect.left, py = event.clientY - rect.top;
+        view.x = px - (px - view.x) * factor;
+        view.y = py - (py - view.y) * factor;
+        view.scale *= factor;
+        applyView();
+    }, { passive: false });
+
+    namespaceSelect.addEventListener('change', render);
+    depthSelect.addEventListener('change', render);
+    focusInput.addEventListener('change', render);
+    document.getElementById('clearFocus').addEventListener('click', () => { focusInput.value = ''; render(); });
+    document.getElementById('refresh').addEventListener('click', () => vscode.postMessage({ type: 'refresh' }));
+
+    window.addEventListener('message', event => {
+        if (event.data.type !== 'graph') { return; }
+        graph = event.data;
+        const selected = namespaceSelect.value;
+        const namespaces = Array.from(new Set(graph.nodes.map(node => node.namespace))).sort();
+        namespaceSelect.length = 1;
+        namespaces.forEach(namespace => namespaceSelect.add(new Option(namespace, namespace, false, namespace === selected)));
+        const list = document.getElementById('functions');
+        list.textContent = '';
+        graph.nodes.forEach(node => list.appendChild(new Option(node.name)));
+        render();
+    });
+}());
+</script>
+</body>
+</html>`;
+    }
+
+    public dispose(): void {
+        CallGraphPanel.instance = undefined;
+        this.panel?.dispose();
+        this.disposable.dispose();
+    }
+}
@@ -1,16 +1,20 @@
 import * as vscode from 'vscode';
 import { CommandRegistry } from './CommandRegistry';
-import { BlockNameMap, EntityNameList } from '../utils/EnumLib';
+import { BlockDataValues, BlockNameMap, EntityNameList, ItemDataValues, SoundNames, SoundSources } from '../utils/EnumLib';
 import { FileLineIdleSearchProcessor } from './FileLineIdleSearchProcessor';
 import { ItemNameMap } from "../utils/EnumLib";
 import { DocumentManager } from './DocumentManager';
+import { CommandParser, ParsedCommand } from './CommandParser';
 import { text } from 'stream/consumers';
+import { NBTUtils } from '../utils/NBTUtils';
+import { NBTRootSpec } from '../utils/NBTSchema';
 
 export interface CommandsInfo {
     isExecute: boolean;       // 是否为 execute 命令
     isComplete: boolean;      // execute 是否完整（参数是否齐全）
     currentCommands: string[];// 当前命令片段
-    paramStage: number;       // execute 未完整时的参数阶段（0-3：实体、x、y、z）
+    paramStage: number;       // execute 未完整时的参数阶段（0-3：实体、x、y、z；4：detect；5-7：检测坐标；8：方块；9：数据值）
+    command: ParsedCommand;   // 当前命令的解析树
 }
 
 /**
@@ -21,12 +25,6 @@ export interface CommandsInfo {
 export abstract class MinecraftCommandCompletionProvider implements vscode.CompletionItemProvider {
 
 
-    /**
-     * `execute` 命令的固定参数数量（实体选择器 + x + y + z）
-     * 完整格式：`execute <实体> <x> <y> <z> <子命令>`
-     */
-    private static readonly EXECUTE_PARAM_COUNT = 4;
-
     public static global_sufiix: string = ' ';
 
     /**
@@ -95,228 +93,121 @@ export abstract class MinecraftCommandCompletionProvider implements vscode.Compl
         token: vscode.CancellationToken,
         context: vscode.CompletionContext
     ): vscode.ProviderResult<vscode.CompletionItem[] | vscode.CompletionList> {
-        // 提取行文本并解析为命令片段（如 "execute @a ~ ~" → ["execute", "@a", "~", "~"]）
+        // 解析光标前的文本为命令解析树（如 "execute @a ~ ~" → execute 节点链）
         const lineText = document.lineAt(position.line).text;
         const textBeforeCursor = lineText.substring(0, position.character);
-        // const lineCommands = DocumentManager.getInstance().getCommandSegments(document, position.line);
-        // console.log(commands);
-        const lineCommands = this.extractCommand(textBeforeCursor);
+        const parsed = CommandParser.getInstance().parse(textBeforeCursor);
         // 无命令片段时，返回根命令补全
-        if (!lineCommands || lineCommands.length === 0) {
+        if (parsed.tokens.length === 0) {
             return this.provideRootCompletions('');
         }
 
-        // 找到当前活跃的命令（处理多层嵌套 execute，优先处理最内层未完成的命令）
-        const activeCommand = this.findActiveCommand(lineCommands);
-        const { isExecute, isComplete, currentCommands, paramStage } = activeCommand;
-        // 活跃命令是 execute 且未完整：补全 execute 自身的参数（实体、x、y、z）
+        // 找到当前活跃的命令（处理多层嵌套 execute，取解析树最内层的命令）
+        const { isExecute, isComplete, currentCommands, command } = this.resolveActiveCommand(parsed);
+        // 活跃命令是 execute 且未完整：补全 execute 自身的参数（实体、x、y、z 及 detect 子句）
         if (isExecute && !isComplete) {
             const executeProvider = CommandRegistry.getProvider('execute');
-            return executeProvider ? executeProvider.provideCommandCompletions(currentCommands,lineCommands, document, position) : [];
+            return executeProvider ? executeProvider.provideCommandCompletions(command, document, position) : [];
         }
 
-        // 活跃命令是 execute 且已完整：补全子命令（根命令，如 say、scoreboard 或嵌套的 execute）
-        if (isExecute && isComplete) {
-            const subCommandPrefix = currentCommands.slice(1 + MinecraftCommandCompletionProvider.EXECUTE_PARAM_COUNT)[0] || '';
-            return this.provideRootCompletions(subCommandPrefix);
+        // 正在输入 execute 的子命令名：根命令与 execute 在该位置可接的字面量（如 detect）一并补全
+        const commandChain = parsed.chain();
+        if (commandChain.length > 1 && currentCommands.length <= 1) {
+            const parent = commandChain[commandChain.length - 2];
+            return [
+                ...this.provideGrammarLiteralCompletions(parent, currentCommands[0] || ''),
+                ...this.provideRootCompletions(currentCommands[0] || '')
+            ];
         }
 
-        // 非 execute 命令的根命令补全：分发到对应命令的补全提供者
+        // 非 execute 命令（含 execute 的子命令）：未注册时返回根命令补全
         const targetCommand = currentCommands[0] || '';
-        if (!CommandRegistry.getProvider(targetCommand)) {
+        const provider = CommandRegistry.getProvider(targetCommand);
+        if (!provider) {
             return this.provideRootCompletions(targetCommand);
         }
         // 分发到对应命令的补全提供者
-        const provider = CommandRegistry.getProvider(targetCommand);
-        return provider ? provider.provideCommandCompletions(currentCommands, lineCommands, document, position) : [];
+        return provider.provideCommandCompletions(command, document, position);
     }
 
     /**
-     * 找到当前活跃的命令（最内层需要处理的命令）
-     * 递归处理嵌套的 execute，直到找到未完整的 execute 或非 execute 命令
-     * @param commands 原始命令片段数组
+     * 根据解析树确定当前活跃的命令（最内层的命令）
+     * 最内层仍是 execute 说明其子命令尚未输入，即 execute 未完整
+     * @param parsed 整行的解析结果
      * @returns 活跃命令信息（是否为 execute、是否完整、当前片段、参数阶段）
      */
-    public findActiveCommand(commands: string[]): CommandsInfo {
-        let currentCommands = [...commands];
-
-        while (true) {
-            const commandName = currentCommands[0]?.toLowerCase();
-
-            // 非 execute 命令：直接作为活跃命令
-            if (commandName !== 'execute') {
-                return {
-                    isExecute: false,
-                    isComplete: true,
-                    currentCommands,
-                    paramStage: -1
-                };
-            }
-
-            // 是 execute 命令：判断是否完整
-            const isComplete = this.isExecuteComplete(currentCommands);
-            if (!isComplete) {
-                // 未完整的 execute：计算当前参数阶段
-                const paramStage = this.getExecuteParamStage(currentCommands);
-                return {
-                    isExecute: true,
-                    isComplete: false,
-                    currentCommands,
-                    paramStage
-                };
-            }
-
-            // 已完整的 execute：跳过当前 execute，处理子命令
-            currentCommands = currentCommands.slice(1 + MinecraftCommandCompletionProvider.EXECUTE_PARAM_COUNT);
+    public resolveActiveCommand(parsed: ParsedCommand): CommandsInfo {
+        const command = parsed.innermost;
+        const currentCommands = command.values;
+
+        if (command.name !== 'execute') {
+            return {
+                isExecute: false,
+                isComplete: true,
+                currentCommands,
+                paramStage: -1,
+                command
+            };
         }
+
+        // 参数阶段：已输入的非空参数个数（0=实体选择器，1-3=坐标，4=detect，5-7=检测坐标，8=方块，9=数据值）
+        const filledParams = command.tokens.slice(1).filter(token => token.value.trim()).length;
+        return {
+            isExecute: true,
+            isComplete: false,
+            currentCommands,
+            paramStage: Math.min(filledParams, 9),
+            command
+        };
     }
 
     /**
-     * 判断 execute 命令是否完整
-     * 完整条件：长度 ≥ 5（含自身）且前4个参数（实体、x、y、z）均非空
-     * @param commands 命令片段数组
-     * @returns 是否完整
+     * 按语法树提供命令最后一个节点之后可接的字面量补全
+     * 例如 "execute @a ~ ~ ~ " 之后可接 detect 子句
+     * @param command 命令解析树
+     * @param text 已输入的前缀
+     * @returns 字面量补全项数组
      */
-    public isExecuteComplete(commands: string[]): boolean {
-        // 长度不足（至少需要 "execute <实体> <x> <y> <z>" → 5个片段）
-        if (commands.length < 1 + MinecraftCommandCompletionProvider.EXECUTE_PARAM_COUNT) {
-            return false;
-        }
-
-        // 检查前4个参数是否非空（排除空字符串或纯空格）
-        for (let i = 1; i <= MinecraftCommandCompletionProvider.EXECUTE_PARAM_COUNT; i++) {
-            if (!commands[i]?.trim()) {
-                return false;
-            }
-        }
-
-        return true;
+    protected provideGrammarLiteralCompletions(command: ParsedCommand, text: string): vscode.CompletionItem[] {
+        const lastNode = command.nodes[command.nodes.length - 1];
+        if (!lastNode?.grammar) { return []; }
+        const prefix = text.trim().toLowerCase();
+        return lastNode.grammar.children
+            .filter(child => child.kind === 'literal' && (prefix === '' || child.name.startsWith(prefix)))
+            .map(child => this.createCompletionItem(
+                child.name,
+                child.desc ?? `${child.name} 子句`,
+                `${child.name}${MinecraftCommandCompletionProvider.global_sufiix}`,
+                true
+            ));
     }
 
     /**
-     * 获取 execute 命令当前的参数阶段（未完整时有效）
-     * 阶段定义：0=实体选择器，1=x坐标，2=y坐标，3=z坐标
-     * @param commands 命令片段数组
-     * @returns 参数阶段（0-3）
+     * 找到当前活跃的命令（最内层需要处理的命令）
+     * 适用于只有命令片段、没有原始行文本的场景
+     * @param commands 原始命令片段数组
+     * @returns 活跃命令信息（是否为 execute、是否完整、当前片段、参数阶段）
      */
-    public getExecuteParamStage(commands: string[]): number {
-        for (let stage = 0; stage < MinecraftCommandCompletionProvider.EXECUTE_PARAM_COUNT; stage++) {
-            const paramIndex = 1 + stage; // 参数索引：实体=1，x=2，y=3，z=4
-            // 若参数未输入或为空，则当前阶段为该参数
-            if (paramIndex >= commands.length || !commands[paramIndex]?.trim()) {
-                return stage;
-            }
-        }
-        return MinecraftCommandCompletionProvider.EXECUTE_PARAM_COUNT - 1; // 理论上不会触发
+    public findActiveCommand(commands: string[]): CommandsInfo {
+        return this.resolveActiveCommand(CommandParser.getInstance().parseSegments(commands));
     }
 
-
     /**
      * 从文本中提取命令片段（处理空格、引号、括号等特殊字符）
-     * 增强版：正确处理JSON对象/数组内部的空格，将整个JSON视为单个参数
-     * 例如：解析 "tellraw @s {\"text\": \"内容\"}" → ["tellraw", "@s", "{\"text\": \"内容\"}"]
+     * 分割规则见 CommandParser.tokenize
      * 例如：解析 "execute @a[tag=test] ~ ~ ~ say" → ["execute", "@a[tag=test]", "~", "~", "~", "say"]
      * @param text 待解析的文本
      * @returns 命令片段数组
      */
     public extractCommand(text: string): string[] {
-
-        const result: string[] = [];
-        let start = 0;
-        let inQuotes = false;
-        let escapeNext = false;
-
-        // 括号状态管理
-        const bracketState = {
-            selector: false,      // 选择器方括号 [ ]
-            jsonObject: 0,        // JSON对象括号平衡 { } (计数器)
-            jsonArray: 0          // JSON数组括号平衡 [ ] (计数器)
-        };
-
-        for (let i = 0; i < text.length; i++) {
-            const char = text[i];
-
-            // 处理转义字符
-            if (escapeNext) {
-                escapeNext = false;
-                continue;
-            }
-            if (char === '\\') {
-                escapeNext = true;
-                continue;
-            }
-
-            // 处理引号
-            if (char === '"') {
-                inQuotes = !inQuotes;
-                continue;
-            }
-
-            if (!inQuotes) {
-                // 处理选择器方括号（仅当不在JSON结构内时）
-                if (char === '[' && bracketState.jsonObject === 0 && bracketState.jsonArray === 0) {
-                    bracketState.selector = true;
-                }
-                // 关键修复：确保方括号闭合后正确重置选择器状态
-                if (char === ']' && bracketState.selector) {
-                    bracketState.selector = false;
-                }
-
-                // 处理JSON对象括号（计数器管理平衡）
-                if (char === '{') { bracketState.jsonObject++; }
-                if (char === '}') { bracketState.jsonObject = Math.max(0, bracketState.jsonObject - 1); }
-
-                // 处理JSON数组括号（计数器管理平衡）
-                if (char === '[') {
-                    // 只有不在选择器括号内才计数JSON数组
-                    if (!bracketState.selector) {
-                        bracketState.jsonArray++;
-                    }
-                }
-                if (char === ']') {
-                    // 只有不在选择器括号内才计数JSON数组
-                    if (!bracketState.selector) {
-                        bracketState.jsonArray = Math.max(0, bracketState.jsonArray - 1);
-                    }
-                }
-            }
-
-            // 空格分割逻辑：仅当不在任何特殊结构内时
-            const inSpecialStructure = inQuotes
-                || bracketState.selector
-                || bracketState.jsonObject > 0
-                || bracketState.jsonArray > 0;
-
-            if (char === ' ' && !inSpecialStructure) {
-                if (i > start) {
-                    // 提取当前片段（去除首尾空格，但保留内部空格）
-                    const segment = text.substring(start, i).trim();
-                    if (segment) {
-                        result.push(segment);
-                    }
-                }
-                start = i + 1;
-            }
-        }
-
-        // 处理剩余片段
-        const remaining = text.substring(start).trim();
-        if (remaining) {
-            result.push(remaining);
-        }
-
-        // 处理结尾空格的情况（添加空字符串表示下一个参数位置）
-        if (text.length > 0 && text[text.length - 1] === ' ' && start >= text.length) {
-            result.push('');
-        }
-        // console.log(result);
-        return result;
+        return CommandParser.getInstance().tokenize(text).map(token => token.value);
     }
 
 
 
     /**
      * 提供根命令补全（如 /scoreboard、/execute、/say 等顶级命令）
+     * 描述信息取自语法树中的命令描述
      * @param text 已输入的命令前缀（用于筛选补全项）
      * @returns 根命令补全项数组
      */
@@ -327,7 +218,7 @@ export abstract class MinecraftCommandCompletionProvider implements vscode.Compl
             .filter(command => prefix === '' || command.toLowerCase().startsWith(prefix))
             .map(command => this.createCompletionItem(
                 command,
-                `${command} 命令`,
+                CommandParser.getInstance().getRootGrammar(command)?.desc ?? `${command} 命令`,
                 `${command}${MinecraftCommandCompletionProvider.global_sufiix}`,
                 true // 自动触发下一级补全
             ));
@@ -335,15 +226,14 @@ export abstract class MinecraftCommandCompletionProvider implements vscode.Compl
 
     /**
      * 抽象方法：子类需实现具体命令的补全逻辑
-     * @param commands 命令片段数组
-     * @param lineCommands 当前行命令片段数组
+     * 按解析树中正在输入的节点（command.active）判断参数位置，不再按片段下标取参数
+     * @param command 当前命令的解析树（光标前的文本）
      * @param document 当前文档
      * @param position 光标位置
      * @returns 补全项数组
      */
     public abstract provideCommandCompletions(
-        commands: string[],
-        lineCommands: string[],
+        command: ParsedCommand,
         document: vscode.TextDocument,
         position: vscode.Position
     ): vscode.CompletionItem[];
@@ -510,6 +400,19 @@ export abstract class MinecraftCommandCompletionProvider implements vscode.Compl
         });
         }
 
+        // team= 后补全工作区中定义的队伍（含 team=! 取反）
+        if (lastSelectorArg.startsWith('team=')) {
+            return Array.from(FileLineIdleSearchProcessor.getTeams().entries()).map(([team, data]) =>
+                this.createCompletionItem(
+                    team,
+                    `队伍: ${data[0]}`,
+                    `${team}`,
+                    true,
+                    vscode.CompletionItemKind.Constant
+                )
+            );
+        }
+
         // 上下文3：type= 后补全实体类型（如 type=Zombie）
         if (lastSelectorArg.startsWith('type=')) {
             return EntityNameList.all.map(entity =>
@@ -538,6 +441,21 @@ export abstract class MinecraftCommandCompletionProvider implements vscode.Compl
         );
     }
 
+    /**
+     * 创建纯文本消息中 @ 选择器提及的补全项（say、tell、me 等）
+     * 仅消息的最后一个单词以 @ 开头时补全，普通文字不弹出补全
+     * @param message 光标前的消息文本
+     * @returns 选择器补全项数组
+     */
+    protected createMentionCompletion(message: string): vscode.CompletionItem[] {
+        const text = message.split(' ').pop() ?? '';
+        if (!text.startsWith('@')) { return []; }
+        if (text === '@') {
+            return this.createSelectorCompletion(false, '');
+        }
+        return this.createSelectorArgumentsCompletion(text, false);
+    }
+
     // 创建物品补全项
     public createItemCompletion(): vscode.CompletionItem[] {
         const completionItems: vscode.CompletionItem[] = [];
@@ -560,6 +478,97 @@ export abstract class MinecraftCommandCompletionProvider implements vscode.Compl
         return completionItems;
     }
 
+    /**
+     * 创建方块数据值补全项
+     * 方块已收录于数据值表时列出各数据值及含义，否则只给出占位提示
+     * @param block 方块ID
+     * @param triggerNext 是否触发下一个补全
+     * @param allowWildcard 是否允许 -1 匹配任意数据值（testforblock、execute detect）
+     * @returns 补全项数组
+     */
+    public createBlockDataCompletion(block: string, triggerNext: boolean = true, allowWildcard: boolean = false): vscode.CompletionItem[] {
+        const completionItems: vscode.CompletionItem[] = [];
+        if (allowWildcard) {
+            const suffix = triggerNext ? MinecraftCommandCompletionProvider.global_sufiix : '';
+            completionItems.push(this.createCompletionItem('-1', '匹配任意数据值', '-1' + suffix, triggerNext, vscode.CompletionItemKind.Value));
+        }
+        const values = BlockDataValues.get(block);
+        if (!values) {
+            completionItems.push(this.createCompletionItem('<dataValue>', '方块数据值（0-15）', '', false, vscode.CompletionItemKind.Value));
+            return completionItems;
+        }
+        return completionItems.concat(Object.entries(values).map(([value, desc]) => {
+            const item = this.createCompletionItem(
+                value,
+                desc,
+                value + (triggerNext ? MinecraftCommandCompletionProvider.global_sufiix : ''),
+                triggerNext,
+                vscode.CompletionItemKind.EnumMember
+            );
+            // 按数值排序，避免 10 排在 2 之前
+            item.sortText = value.padStart(2, '0');
+            return item;
+        }));
+    }
+
+    /**
+     * 创建物品数据值补全项
+     * 有变种的物品列出各变种，有耐久的物品提示损耗值范围，其余只给出占位提示
+     * @param item 物品ID
+     * @param allowWildcard 是否允许 -1 匹配任意数据值（clear）
+     * @returns 补全项数组
+     */
+    public createItemDataCompletion(item: string, allowWildcard: boolean = false): vscode.CompletionItem[] {
+        const completionItems: vscode.CompletionItem[] = [];
+        if (allowWildcard) {
+            completionItems.push(this.createCompletionItem('-1', '匹配任意数据值', '-1 ', true, vscode.CompletionItemKind.Value));
+        }
+        const values = ItemDataValues.get(item);
+        const maxDamage = ItemDataValues.getMaxDamage(item);
+        if (values) {
+            Object.entries(values).forEach(([value, desc]) => {
+                const completionItem = this.createCompletionItem(value, desc, value + ' ', true, vscode.CompletionItemKind.EnumMember);
+                // 按数值排序，避免 10 排在 2 之前
+                completionItem.sortText = value.padStart(2, '0');
+                completionItems.push(completionItem);
+            });
+        } else if (maxDamage !== undefined) {
+            completionItems.push(this.createCompletionItem('<damage>', `损耗值（0-${maxDamage}）`, '0 ', true, vscode.CompletionItemKind.Value));
+        } else {
+            const hint = ItemDataValues.getHint(item);
+            completionItems.push(this.createCompletionItem('<data>', hint ?? '物品数据值', '0 ', true, vscode.CompletionItemKind.Value));
+        }
+        return completionItems;
+    }
+
+    /**
+     * 创建物品数量补全项（提示物品的最大堆叠数）
+     * @param item 物品ID
+     * @returns 补全项数组
+     */
+    public createItemAmountCompletion(item: string): vscode.CompletionItem[] {
+        const maxStackSize = ItemDataValues.getMaxStackSize(item);
+        return [this.createCompletionItem('<amount>', `物品数量（1-64，最大堆叠 ${maxStackSize}）`, '1 ', true, vscode.CompletionItemKind.Value)];
+    }
+
+    /**
+     * 创建 NBT 参数补全项
+     * 参数为空时给出 {} 包装，已输入 { 时按结构补全光标所在层级的键或值
+     * @param text 光标前的 NBT 参数文本
+     * @param spec 根结构说明
+     * @param position 光标位置
+     * @returns 补全项数组
+     */
+    public createNBTCompletion(text: string, spec: NBTRootSpec, position: vscode.Position): vscode.CompletionItem[] {
+        if (text === '') {
+            return this.createSingleCompletionItem('{}', 'NBT标签wrapper', '{${0:}}', true, vscode.CompletionItemKind.Snippet);
+        }
+        if (!text.startsWith('{')) {
+            return [];
+        }
+        return NBTUtils.provideNBTCompletions(text, spec, position, this.createCompletionItem.bind(this));
+    }
+
     /**
      * 创建计分板名称补全项
      * @param document 当前文档
@@ -593,6 +602,34 @@ export abstract class MinecraftCommandCompletionProvider implements vscode.Compl
         );
     }
 
+    /**
+     * 创建队伍名称补全项
+     * @param document 当前文档
+     * @param position 当前位置
+     * @param inputLength 输入长度
+     * @param triggerNext 是否触发下一个补全
+     * @returns 补全项数组
+     */
+    public createTeamCompletion(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        inputLength: number,
+        triggerNext: boolean = true
+    ): vscode.CompletionItem[] {
+        const range = this.getWordRange(document, position, inputLength);
+
+        return Array.from(FileLineIdleSearchProcessor.getTeams().entries()).map(([name, data]) =>
+            this.createCompletionItem(
+                name,
+                `队伍: ${data[0]}`,
+                `${name}${MinecraftCommandCompletionProvider.global_sufiix}`,
+                triggerNext,
+                vscode.CompletionItemKind.Enum,
+                range
+            )
+        );
+    }
+
     /**
      * 创建标签补全（新增方法，处理tag操作的标签名称补全）
      * @returns 补全项数组
@@ -617,6 +654,49 @@ export abstract class MinecraftCommandCompletionProvider implements vscode.Compl
         });
     }
 
+    /**
+     * 创建音效事件补全项
+     * 音效ID包含 "."，需显式指定替换范围，避免只替换最后一段
+     * @param document 当前文档
+     * @param position 光标位置
+     * @param input 已输入的音效ID前缀
+     * @returns 补全项数组
+     */
+    public createSoundCompletion(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        input: string
+    ): vscode.CompletionItem[] {
+        const range = new vscode.Range(position.translate(0, -input.length), position);
+        return SoundNames.all.map(sound =>
+            this.createCompletionItem(
+                sound.name,
+                sound.desc,
+                sound.name + MinecraftCommandCompletionProvider.global_sufiix,
+                true,
+                vscode.CompletionItemKind.Class,
+                range
+            )
+        );
+    }
+
+    /**
+     * 创建音效来源分类补全项（master、music 等）
+     * @param triggerNext 是否自动触发下一级补全
+     * @returns 补全项数组
+     */
+    public createSoundSourceCompletion(triggerNext: boolean = true): vscode.CompletionItem[] {
+        return SoundSources.all.map(source =>
+            this.createCompletionItem(
+                source.name,
+                source.desc,
+                source.name + MinecraftCommandCompletionProvider.global_sufiix,
+                triggerNext,
+                vscode.CompletionItemKind.EnumMember
+            )
+        );
+    }
+
     public createEntityNameCompletion(triggerNext: boolean): vscode.CompletionItem[] {
         return EntityNameList.all.map(entity =>
             this.createCompletionItem(
@@ -0,0 +1,478 @@
+/**
+ * Minecraft 1.12.2 命令语法树
+ * 以"字面量 + 类型化参数"节点声明每条命令的结构，供 CommandParser 生成带位置的解析树
+ * 补全、诊断、悬停、链接均基于同一份语法定义，避免各处手动按下标取参数
+ */
+
+/**
+ * 参数类型
+ * - selector: 实体选择器或玩家名
+ * - coordinate: 单个坐标分量（支持 ~ 相对坐标）
+ * - block / item / entity: 方块、物品、实体ID
+ * - nbt: NBT复合标签 {...}
+ * - json: JSON文本组件
+ * - function / advancement: 资源路径（命名空间:路径）
+ * - sound: 音效事件ID（如 entity.player.levelup）
+ * - objective / criteria / tag / team: 计分板目标、准则、实体标签、队伍名
+ * - text: 贪婪文本，吞掉剩余全部内容
+ * - command: 嵌套命令（重新从根命令开始解析）
+ */
+export type ArgumentType =
+    | 'selector'
+    | 'coordinate'
+    | 'integer'
+    | 'float'
+    | 'boolean'
+    | 'word'
+    | 'text'
+    | 'block'
+    | 'item'
+    | 'entity'
+    | 'nbt'
+    | 'json'
+    | 'function'
+    | 'advancement'
+    | 'sound'
+    | 'objective'
+    | 'criteria'
+    | 'tag'
+    | 'team'
+    | 'command';
+
+/** 语法节点 */
+export interface GrammarNode {
+    kind: 'literal' | 'argument';
+    /** 字面量文本或参数名 */
+    name: string;
+    /** 参数类型（仅参数节点） */
+    type?: ArgumentType;
+    /** 描述信息 */
+    desc?: string;
+    /** 后续可接的节点 */
+    children: GrammarNode[];
+}
+
+/**
+ * 参数类型校验规则
+ * 用于在多个候选参数节点中选择匹配的分支
+ */
+const ARGUMENT_PATTERNS: Record<ArgumentType, RegExp> = {
+    selector: /^(@[aeprs](\[.*\]?)?|[A-Za-z0-9_]{1,16}|[0-9a-fA-F-]{36}|\*)$/,
+    coordinate: /^(~|~?-?(\d+\.?\d*|\.\d+))$/,
+    integer: /^-?\d+$/,
+    float: /^-?(\d+\.?\d*|\.\d+)$/,
+    boolean: /^(true|false)$/,
+    word: /^\S+$/,
+    text: /^[\s\S]*$/,
+    block: /^([\w.-]+:)?[\w.-]+$/,
+    item: /^([\w.-]+:)?[\w.-]+$/,
+    entity: /^([\w.-]+:)?[\w.-]+$/,
+    nbt: /^\{[\s\S]*$/,
+    json: /^[[{"][\s\S]*$/,
+    function: /^([\w.-]+:)?[\w.\-/]+$/,
+    advancement: /^([\w.-]+:)?[\w.\-/]+$/,
+    sound: /^([\w.-]+:)?[\w.-]+$/,
+    objective: /^\S+$/,
+    criteria: /^\S+$/,
+    tag: /^\S+$/,
+    team: /^\S+$/,
+    command: /^\S+$/
+};
+
+/**
+ * 判断参数值是否符合参数类型
+ * @param type 参数类型
+ * @param value 参数值
+ * @returns 是否匹配
+ */
+export function matchesArgumentType(type: ArgumentType, value: string): boolean {
+    return ARGUMENT_PATTERNS[type].test(value);
+}
+
+/** 创建字面量节点 */
+export function literal(name: string, desc: string, ...children: GrammarNode[]): GrammarNode {
+    return { kind: 'literal', name, desc, children };
+}
+
+/** 创建参数节点 */
+export function argument(name: string, type: ArgumentType, ...children: GrammarNode[]): GrammarNode {
+    return { kind: 'argument', name, type, children };
+}
+
+/**
+ * 创建三维坐标节点链 x → y → z
+ * @param suffix 参数名后缀（如 fill 的两个角 "1" / "2"）
+ * @param children z 之后可接的节点
+ */
+export function position(suffix: string, ...children: GrammarNode[]): GrammarNode {
+    return argument(`x${suffix}`, 'coordinate',
+        argument(`y${suffix}`, 'coordinate',
+            argument(`z${suffix}`, 'coordinate', ...children)));
+}
+
+/** 物品参数链：<item> [amount] [data] [dataTag] */
+function itemStack(): GrammarNode {
+    return argument('item', 'item',
+        argument('amount', 'integer',
+            argument('data', 'integer',
+                argument('dataTag', 'nbt'))));
+}
+
+/** 计分板 players 下 add/remove/set 共享结构 */
+function playerScore(name: string, desc: string): GrammarNode {
+    return literal(name, desc,
+        argument('target', 'selector',
+            argument('objective', 'objective',
+                argument('score', 'integer',
+                    argument('dataTag', 'nbt')))));
+}
+
+/** clone 的复制模式：force|move|normal */
+function cloneModes(...children: GrammarNode[]): GrammarNode[] {
+    return [
+        literal('force', '强制复制（允许源与目标区域重叠）', ...children),
+        literal('move', '移动（复制后源区域替换为空气）', ...children),
+        literal('normal', '普通复制（默认）', ...children)
+    ];
+}
+
+/**
+ * 1.12.2 命令语法定义表
+ * 每个元素为一条根命令的字面量节点
+ */
+export const COMMAND_GRAMMAR: GrammarNode[] = [
+    literal('advancement', '进度管理',
+        ...['grant', 'revoke'].map(action => literal(action, action === 'grant' ? '给予进度' : '撤销进度',
+            argument('target', 'selector',
+                literal('everything', '全部进度'),
+                ...['only', 'until', 'from', 'through'].map(mode => literal(mode, `${mode} 模式`,
+                    argument('advancement', 'advancement',
+                        argument('criterion', 'word'))))))),
+        literal('test', '检测进度',
+            argument('target', 'selector',
+                argument('advancement', 'advancement',
+                    argument('criterion', 'word'))))),
+    literal('ban', '封禁玩家',
+        argument('name', 'word',
+            argument('reason', 'text'))),
+    literal('ban-ip', '封禁IP地址',
+        argument('address', 'word',
+            argument('reason', 'text'))),
+    literal('banlist', '查看封禁列表',
+        literal('ips', 'IP封禁列表'),
+        literal('players', '玩家封禁列表')),
+    literal('blockdata', '修改方块NBT',
+        position('', argument('dataTag', 'nbt'))),
+    literal('clear', '清除物品',
+        argument('target', 'selector',
+            argument('item', 'item',
+                argument('data', 'integer',
+                    argument('maxCount', 'integer',
+                        argument('dataTag', 'nbt')))))),
+    literal('clone', '复制区域',
+        position('1', position('2', position('Dest',
+            literal('replace', '复制全部方块（默认）', ...cloneModes()),
+            literal('masked', '只复制非空气方块', ...cloneModes()),
+            literal('filtered', '只复制指定方块',
+                ...cloneModes(
+                    argument('block', 'block',
+                        argument('data', 'integer')))))))),
+    literal('defaultgamemode', '设置默认游戏模式',
+        argument('mode', 'word')),
+    literal('deop', '撤销管理员权限',
+        argument('name', 'word')),
+    literal('difficulty', '设置难度',
+        argument('difficulty', 'word')),
+    literal('effect', '状态效果',
+        argument('target', 'selector',
+            literal('clear', '清除所有效果'),
+            argument('effect', 'word',
+                argument('seconds', 'integer',
+                    argument('amplifier', 'integer',
+                        argument('hideParticles', 'boolean')))))),
+    literal('enchant', '附魔',
+        argument('target', 'selector',
+            argument('enchantment', 'word',
+                argument('level', 'integer')))),
+    literal('entitydata', '修改实体NBT',
+        argument('target', 'selector',
+            argument('dataTag', 'nbt'))),
+    literal('execute', '以实体身份执行命令',
+        argument('target', 'selector',
+            position('',
+                literal('detect', '检测方块后执行',
+                    position('Detect',
+                        argument('block', 'block',
+                            argument('data', 'integer',
+                                argument('command', 'command'))))),
+                argument('command', 'command')))),
+    literal('fill', '填充区域',
+        position('1', position('2',
+            argument('block', 'block',
+                argument('data', 'integer',
+                    literal('replace', '替换指定方块',
+                        argument('replaceBlock', 'block',
+                            argument('replaceData', 'integer'))),
+                    ...['destroy', 'hollow', 'keep', 'outline'].map(mode => literal(mode, `${mode} 模式`,
+                        argument('dataTag', 'nbt')))))))),
+    literal('function', '调用函数',
+        argument('function', 'function',
+            literal('if', '条件满足时执行', argument('condition', 'selector')),
+            literal('unless', '条件不满足时执行', argument('condition', 'selector')))),
+    literal('gamemode', '设置游戏模式',
+        argument('mode', 'word',
+            argument('target', 'selector'))),
+    literal('gamerule', '游戏规则',
+        argument('rule', 'word',
+            argument('value', 'word'))),
+    literal('give', '给予物品',
+        argument('target', 'selector', itemStack())),
+    literal('help', '查看帮助',
+        argument('page', 'integer'),
+        argument('command', 'word')),
+    literal('kick', '踢出玩家',
+        argument('name', 'word',
+            argument('reason', 'text'))),
+    literal('kill', '清除实体',
+        argument('target', 'selector')),
+    literal('locate', '定位结构',
+        argument('structure', 'word')),
+    literal('me', '发送动作消息',
+        argument('action', 'text')),
+    literal('msg', '私聊消息',
+        argument('target', 'selector',
+            argument('message', 'text'))),
+    literal('op', '授予管理员权限',
+        argument('name', 'word')),
+    literal('pardon', '解除玩家封禁',
+        argument('name', 'word')),
+    literal('pardon-ip', '解除IP封禁',
+        argument('address', 'word')),
+    literal('particle', '生成粒子',
+        argument('particle', 'word',
+            position('',
+                argument('dx', 'float',
+                    argument('dy', 'float',
+                        argument('dz', 'float',
+                            argument('speed', 'float',
+                                argument('count', 'integer',
+                                    argument('mode', 'word',
+                                        argument('viewer', 'selector',
+                                            argument('params', 'text'))))))))))),
+    literal('playsound', '播放音效',
+        argument('sound', 'sound',
+            argument('source', 'word',
+                argument('target', 'selector',
+                    position('',
+                        argument('volume', 'float',
+                            argument('pitch', 'float',
+                                argument('minimumVolume', 'float')))))))),
+    literal('recipe', '配方管理',
+        ...['give', 'take'].map(action => literal(action, action === 'give' ? '解锁配方' : '移除配方',
+            argument('target', 'selector',
+                argument('recipe', 'word'))))),
+    literal('reload', '重新加载函数与进度'),
+    literal('replaceitem', '替换物品栏物品',
+        literal('block', '方块容器',
+            position('', argument('slot', 'word', itemStack()))),
+        literal('entity', '实体',
+            argument('target', 'selector',
+                argument('slot', 'word', itemStack())))),
+    literal('save-all', '保存世界',
+        literal('flush', '立即写入磁盘')),
+    literal('save-off', '关闭自动保存'),
+    literal('save-on', '开启自动保存'),
+    literal('say', '广播消息',
+        argument('message', 'text')),
+    literal('scoreboard', '计分板',
+        literal('objectives', '管理计分板目标',
+            literal('list', '列出所有计分项'),
+            literal('add', '添加新计分项',
+                argument('objective', 'objective',
+                    argument('criteria', 'criteria',
+                        argument('displayName', 'text')))),
+            literal('remove', '删除计分项',
+                argument('objective', 'objective')),
+            literal('setdisplay', '设置显示位置',
+                argument('slot', 'word',
+                    argument('objective', 'objective')))),
+        literal('players', '管理玩家分数',
+            literal('list', '列出玩家分数',
+                argument('target', 'selector')),
+            playerScore('set', '设置玩家分数'),
+            playerScore('add', '增加玩家分数'),
+            playerScore('remove', '减少玩家分数'),
+            literal('reset', '重置玩家分数',
+                argument('target', 'selector',
+                    argument('objective', 'objective'))),
+            literal('enable', '启用触发器',
+                argument('target', 'selector',
+                    argument('objective', 'objective'))),
+            literal('test', '检测分数范围',
+                argument('target', 'selector',
+                    argument('objective', 'objective',
+                        argument('min', 'word',
+                            argument('max', 'word'))))),
+            literal('operation', '分数运算',
+                argument('target', 'selector',
+                    argument('objective', 'objective',
+                        argument('operator', 'word',
+                            argument('source', 'selector',
+                                argument('sourceObjective', 'objective')))))),
+            literal('tag', '管理实体标签',
+                argument('target', 'selector',
+                    literal('add', '添加标签',
+                        argument('tag', 'tag', argument('dataTag', 'nbt'))),
+                    literal('remove', '删除标签',
+                        argument('tag', 'tag', argument('dataTag', 'nbt'))),
+                    literal('list', '列出标签')))),
+        literal('teams', '管理队伍',
+            literal('list', '列出队伍',
+                argument('team', 'team')),
+            literal('add', '添加队伍',
+                argument('team', 'team',
+                    argument('displayName', 'text'))),
+            literal('remove', '移除队伍',
+                argument('team', 'team')),
+            literal('empty', '清空队伍',
+                argument('team', 'team')),
+            literal('join', '加入队伍',
+                argument('team', 'team',
+                    argument('members', 'text'))),
+            literal('leave', '离开队伍',
+                argument('members', 'text')),
+            literal('option', '设置队伍选项',
+                argument('team', 'team',
+                    literal('color', '队伍颜色', argument('value', 'word')),
+                    literal('friendlyfire', '允许队友伤害', argument('value', 'boolean')),
+                    literal('seefriendlyinvisibles', '可见隐身队友', argument('value', 'boolean')),
+                    literal('nametagvisibility', '名称标签可见性', argument('value', 'word')),
+                    literal('deathmessagevisibility', '死亡消息可见性', argument('value', 'word')),
+                    literal('collisionrule', '碰撞规则', argument('value', 'word')))))),
+    literal('seed', '查看世界种子'),
+    literal('setblock', '放置方块',
+        position('',
+            argument('block', 'block',
+                argument('data', 'integer',
+                    argument('mode', 'word',
+                        argument('dataTag', 'nbt')))))),
+    literal('setidletimeout', '设置挂机踢出时间',
+        argument('minutes', 'integer')),
+    literal('setworldspawn', '设置世界出生点',
+        position('')),
+    literal('spawnpoint', '设置出生点',
+        argument('target', 'selector', position(''))),
+    literal('spreadplayers', '分散实体',
+        argument('x', 'coordinate',
+            argument('z', 'coordinate',
+                argument('spreadDistance', 'float',
+                    argument('maxRange', 'float',
+                        argument('respectTeams', 'boolean',
+                            argument('targets', 'text'))))))),
+    literal('stats', '命令统计',
+        literal('block', '方块统计',
+            position('',
+                literal('clear', '解绑', argument('stat', 'word')),
+                literal('set', '设置',
+                    argument('stat', 'word',
+                        argument('selector', 'selector',
+                            argument('objective', 'objective')))))),
+        literal('entity', '实体统计',
+            argument('target', 'selector',
+                literal('clear', '解绑', argument('stat', 'word')),
+                literal('set', '设置',
+                    argument('stat', 'word',
+                        argument('selector', 'selector',
+                            argument('objective', 'objective'))))))),
+    literal('stopsound', '停止音效',
+        argument('target', 'selector',
+            argument('source', 'word',
+                argument('sound', 'sound')))),
+    literal('summon', '生成实体',
+        argument('entity', 'entity',
+            position('', argument('dataTag', 'nbt')))),
+    literal('teleport', '传送实体',
+        argument('target', 'selector',
+            position('',
+                argument('yRot', 'coordinate',
+                    argument('xRot', 'coordinate'))))),
+    literal('tell', '私聊消息',
+        argument('target', 'selector',
+            argument('message', 'text'))),
+    literal('tellraw', '发送JSON消息',
+        argument('target', 'selector',
+            argument('message', 'json'))),
+    literal('testfor', '检测实体',
+        argument('target', 'selector',
+            argument('dataTag', 'nbt'))),
+    literal('testforblock', '检测方块',
+        position('',
+            argument('block', 'block',
+                argument('data', 'integer',
+                    argument('dataTag', 'nbt'))))),
+    literal('testforblocks', '比较区域方块',
+        position('1', position('2', position('Dest',
+            literal('all', '比较全部方块'),
+            literal('masked', '忽略空气方块'))))),
+    literal('time', '时间管理',
+        literal('set', '设置时间', argument('value', 'word')),
+        literal('add', '增加时间', argument('value', 'integer')),
+        literal('query', '查询时间', argument('value', 'word'))),
+    literal('title', '标题',
+        argument('target', 'selector',
+            literal('clear', '清除标题'),
+            literal('reset', '重置设置'),
+            literal('title', '主标题', argument('message', 'json')),
+            literal('subtitle', '副标题', argument('message', 'json')),
+            literal('actionbar', '物品栏上方', argument('message', 'json')),
+            literal('times', '设置时间',
+                argument('fadeIn', 'integer',
+                    argument('stay', 'integer',
+                        argument('fadeOut', 'integer')))))),
+    literal('toggledownfall', '切换降雨'),
+    literal('tp', '传送实体',
+        position('',
+            argument('yRot', 'coordinate',
+                argument('xRot', 'coordinate'))),
+        argument('target', 'selector',
+            position('',
+                argument('yRot', 'coordinate',
+                    argument('xRot', 'coordinate'))),
+            argument('destination', 'selector'))),
+    literal('trigger', '触发器',
+        argument('objective', 'objective',
+            literal('add', '增加数值', argument('value', 'integer')),
+            literal('set', '设置数值', argument('value', 'integer')))),
+    literal('w', '私聊消息',
+        argument('target', 'selector',
+            argument('message', 'text'))),
+    literal('weather', '天气',
+        ...['clear', 'rain', 'thunder'].map(weather => literal(weather, `${weather} 天气`,
+            argument('duration', 'integer')))),
+    literal('whitelist', '管理白名单',
+        literal('on', '开启白名单'),
+        literal('off', '关闭白名单'),
+        literal('list', '列出白名单玩家'),
+        literal('reload', '重新加载白名单'),
+        literal('add', '添加玩家',
+            argument('name', 'word')),
+        literal('remove', '移除玩家',
+            argument('name', 'word'))),
+    literal('worldborder', '世界边界',
+        literal('add', '增减边界大小',
+            argument('distance', 'float', argument('time', 'integer'))),
+        literal('set', '设置边界大小',
+            argument('distance', 'float', argument('time', 'integer'))),
+        literal('center', '设置中心点',
+            argument('x', 'coordinate', argument('z', 'coordinate'))),
+        literal('damage', '边界伤害',
+            literal('amount', '每格伤害', argument('damagePerBlock', 'float')),
+            literal('buffer', '安全距离', argument('distance', 'float'))),
+        literal('get', '获取边界大小'),
+        literal('warning', '边界警告',
+            literal('distance', '警告距离', argument('distance', 'integer')),
+            literal('time', '警告时间', argument('seconds', 'integer')))),
+    literal('xp', '经验',
+        argument('amount', 'word',
+            argument('target', 'selector')))
+];
@@ -0,0 +1,421 @@
+import { ArgumentType, COMMAND_GRAMMAR, GrammarNode, matchesArgumentType } from './CommandGrammar';
+
+/**
+ * 命令令牌（含在行文本中的位置）
+ */
+export interface CommandToken {
+    value: string;
+    start: number; // 令牌在行文本中的起始列
+    end: number;   // 令牌在行文本中的结束列（不含）
+}
+
+/**
+ * 解析树节点
+ * 每个节点对应语法树中的一个字面量/参数，记录其取值和位置
+ */
+export interface ParsedNode extends CommandToken {
+    kind: 'literal' | 'argument' | 'unknown';
+    /** 语法节点名（字面量文本或参数名），未识别时为空串 */
+    name: string;
+    /** 参数类型（仅参数节点） */
+    type?: ArgumentType;
+    /** 对应的语法节点 */
+    grammar?: GrammarNode;
+    /** 取值是否符合参数类型 */
+    valid: boolean;
+}
+
+/**
+ * 单条命令的解析结果
+ * execute 等嵌套命令通过 child 链接到内层命令
+ */
+export class ParsedCommand {
+    constructor(
+        /** 属于本条命令的原始令牌（不含嵌套命令） */
+        public readonly tokens: CommandToken[],
+        /** 解析树节点（贪婪文本参数会合并多个令牌） */
+        public readonly nodes: ParsedNode[],
+        /** 嵌套的子命令 */
+        public readonly child: ParsedCommand | null = null
+    ) { }
+
+    /** 命令名（小写） */
+    public get name(): string {
+        return this.tokens[0]?.value.toLowerCase() ?? '';
+    }
+
+    /** 命令片段字符串数组（与旧版 extractCommand 的片段划分一致） */
+    public get values(): string[] {
+        return this.tokens.map(token => token.value);
+    }
+
+    /** 命令是否在语法表中 */
+    public get isKnown(): boolean {
+        return this.nodes[0]?.kind === 'literal';
+    }
+
+    /** 最内层的命令（光标所在的活跃命令） */
+    public get innermost(): ParsedCommand {
+        let current: ParsedCommand = this;
+        while (current.child) {
+            current = current.child;
+        }
+        return current;
+    }
+
+    /**
+     * 光标处正在输入的节点
+     * 对光标前的文本解析时即为最后一个节点（文本以空格结尾时对应空令牌），只有命令名时为undefined
+     */
+    public get active(): ParsedNode | undefined {
+        return this.nodes.length > 1 ? this.nodes[this.nodes.length - 1] : undefined;
+    }
+
+    /**
+     * 正在输入的节点的前一个节点
+     * 某位置只能接字面量时，尚未输入完整的字面量没有对应的语法节点，由前一个节点判断所处位置
+     */
+    public get previous(): ParsedNode | undefined {
+        return this.nodes.length > 1 ? this.nodes[this.nodes.length - 2] : undefined;
+    }
+
+    /**
+     * 由外到内列出命令链上的所有命令
+     * @returns 命令数组
+     */
+    public chain(): ParsedCommand[] {
+        const result: ParsedCommand[] = [];
+        let current: ParsedCommand | null = this;
+        while (current) {
+            result.push(current);
+            current = current.child;
+        }
+        return result;
+    }
+
+    /**
+     * 获取整行的所有节点（包含嵌套命令）
+     * @returns 节点数组
+     */
+    public allNodes(): ParsedNode[] {
+        return this.chain().flatMap(command => command.nodes);
+    }
+
+    /**
+     * 按参数名获取本条命令的参数节点
+     * @param name 参数名
+     * @returns 第一个匹配的节点
+     */
+    public getArgument(name: string): ParsedNode | undefined {
+        return this.nodes.find(node => node.kind === 'argument' && node.name === name);
+    }
+
+    /**
+     * 按参数类型获取本条命令的参数节点
+     * @param type 参数类型
+     * @returns 匹配的节点数组
+     */
+    public getArgumentsByType(type: ArgumentType): ParsedNode[] {
+        return this.nodes.filter(node => node.kind === 'argument' && node.type === type);
+    }
+
+    /**
+     * 获取本条命令中的方块-数据值参数对
+     * 语法表中数据值参数总是紧跟在方块参数之后
+     * @returns [方块节点, 数据值节点] 数组
+     */
+    public getBlockDataPairs(): [ParsedNode, ParsedNode][] {
+        const pairs: [ParsedNode, ParsedNode][] = [];
+        this.nodes.forEach((node, index) => {
+            const next = this.nodes[index + 1];
+            if (node.kind === 'argument' && node.type === 'block' && next?.kind === 'argument' && next.type === 'integer') {
+                pairs.push([node, next]);
+            }
+        });
+        return pairs;
+    }
+
+    /**
+     * 判断命令是否以指定字面量序列开头（忽略大小写）
+     * 例如 matches('scoreboard', 'players', 'add')
+     * @param path 字面量序列
+     * @returns 是否匹配
+     */
+    public matches(...path: string[]): boolean {
+        if (this.nodes.length < path.length) { return false; }
+        return path.every((part, index) =>
+            this.nodes[index].kind === 'literal' && this.nodes[index].name === part.toLowerCase()
+        );
+    }
+
+    /**
+     * 查找指定列所在的节点（包含嵌套命令）
+     * @param column 列号
+     * @returns 节点（不存在则返回undefined）
+     */
+    public nodeAt(column: number): ParsedNode | undefined {
+        return this.allNodes().find(node => node.start <= column && column <= node.end);
+    }
+}
+
+/**
+ * 命令解析器
+ * 将一行命令文本分割为带位置的令牌，再按 COMMAND_GRAMMAR 生成类型化解析树
+ * 采用单例模式，根命令索引只构建一次
+ */
+export class CommandParser {
+    private static instance: CommandParser;
+
+    /** 根命令索引：命令名 → 语法节点 */
+    private readonly rootCommands = new Map<string, GrammarNode>();
+
+    private constructor() {
+        COMMAND_GRAMMAR.forEach(node => this.rootCommands.set(node.name, node));
+    }
+
+    public static getInstance(): CommandParser {
+        if (!CommandParser.instance) {
+            CommandParser.instance = new CommandParser();
+        }
+        return CommandParser.instance;
+    }
+
+    /**
+     * 获取根命令的语法节点
+     * @param command 命令名
+     * @returns 语法节点（不存在则返回undefined）
+     */
+    public getRootGrammar(command: string): GrammarNode | undefined {
+        return this.rootCommands.get(command.toLowerCase());
+    }
+
+    /**
+     * 解析一行命令文本
+     * 空行与注释行返回空命令
+     * @param text 行文本（可为光标前的部分文本）
+     * @returns 解析结果
+     */
+    public parse(text: string): ParsedCommand {
+        if (text.trimStart().startsWith('#')) {
+            return new ParsedCommand([], []);
+        }
+        return this.parseTokens(this.tokenize(text), text);
+    }
+
+    /**
+     * 解析已分割好的命令片段（无原始位置时按单个空格拼接推算位置）
+     * @param segments 命令片段数组
+     * @returns 解析结果
+     */
+    public parseSegments(segments: string[]): ParsedCommand {
+        const tokens: CommandToken[] = [];
+        let offset = 0;
+        for (const value of segments) {
+            tokens.push({ value, start: offset, end: offset + value.length });
+            offset += value.length + 1;
+        }
+        return this.parseTokens(tokens, segments.join(' '));
+    }
+
+    /**
+     * 解析令牌数组
+     * @param tokens 令牌数组
+     * @param source 令牌所在的原始文本（用于合并贪婪文本参数）
+     * @returns 解析结果
+     */
+    public parseTokens(tokens: CommandToken[], source: string): ParsedCommand {
+        return this.parseCommand(tokens, 0, source);
+    }
+
+    /**
+     * 从文本中提取命令令牌（处理空格、引号、括号等特殊字符）
+     * 选择器方括号、JSON对象/数组内部的空格不作为分隔符
+     * 例如："tellraw @s {\"text\": \"内容\"}" → ["tellraw", "@s", "{\"text\": \"内容\"}"]
+     * 文本以空格结尾时追加一个空令牌，表示下一个参数的位置
+     * @param text 待解析的文本
+     * @returns 令牌数组
+     */
+    public tokenize(text: string): CommandToken[] {
+        const tokens: CommandToken[] = [];
+        let start = 0;
+        let inQuotes = false;
+        let escapeNext = false;
+
+        // 括号状态管理
+        const bracketState = {
+            selector: false,      // 选择器方括号 [ ]
+            jsonObject: 0,        // JSON对象括号平衡 { } (计数器)
+            jsonArray: 0          // JSON数组括号平衡 [ ] (计数器)
+        };
+
+        const pushSegment = (from: number, to: number) => {
+            const raw = text.substring(from, to);
+            const value = raw.trim();
+            if (!value) { return; }
+            const tokenStart = from + (raw.length - raw.trimStart().length);
+            tokens.push({ value, start: tokenStart, end: tokenStart + value.length });
+        };
+
+        for (let i = 0; i < text.length; i++) {
+            const char = text[i];
+
+            // 处理转义字符
+            if (escapeNext) {
+                escapeNext = false;
+                continue;
+            }
+            if (char === '\\') {
+                escapeNext = true;
+                continue;
+            }
+
+            // 处理引号
+            if (char === '"') {
+                inQuotes = !inQuotes;
+                continue;
+            }
+
+            if (!inQuotes) {
+                // 处理选择器方括号（仅当不在JSON结构内时）
+                if (char === '[' && bracketState.jsonObject === 0 && bracketState.jsonArray === 0) {
+                    bracketState.selector = true;
+                }
+                if (char === ']' && bracketState.selector) {
+                    bracketState.selector = false;
+                }
+
+                // 处理JSON对象括号（计数器管理平衡）
+                if (char === '{') { bracketState.jsonObject++; }
+                if (char === '}') { bracketState.jsonObject = Math.max(0, bracketState.jsonObject - 1); }
+
+                // 处理JSON数组括号（只有不在选择器括号内才计数）
+                if (char === '[' && !bracketState.selector) {
+                    bracketState.jsonArray++;
+                }
+                if (char === ']' && !bracketState.selector) {
+                    bracketState.jsonArray = Math.max(0, bracketState.jsonArray - 1);
+                }
+            }
+
+            // 空格分割逻辑：仅当不在任何特殊结构内时
+            const inSpecialStructure = inQuotes
+                || bracketState.selector
+                || bracketState.jsonObject > 0
+                || bracketState.jsonArray > 0;
+
+            if (char === ' ' && !inSpecialStructure) {
+                if (i > start) {
+                    pushSegment(start, i);
+                }
+                start = i + 1;
+            }
+        }
+
+        // 处理剩余片段
+        pushSegment(start, text.length);
+
+        // 处理结尾空格的情况（添加空令牌表示下一个参数位置）
+        if (text.length > 0 && text[text.length - 1] === ' ' && start >= text.length) {
+            tokens.push({ value: '', start: text.length, end: text.length });
+        }
+        return tokens;
+    }
+
+    /**
+     * 从指定令牌开始解析一条命令
+     * 遇到 command 类型参数时递归解析嵌套命令
+     * @param tokens 令牌数组
+     * @param index 起始令牌下标
+     * @param source 原始文本
+     * @returns 解析结果
+     */
+    private parseCommand(tokens: CommandToken[], index: number, source: string): ParsedCommand {
+        const ownTokens: CommandToken[] = [];
+        const nodes: ParsedNode[] = [];
+        if (index >= tokens.length) {
+            return new ParsedCommand(ownTokens, nodes);
+        }
+
+        const root = this.getRootGrammar(tokens[index].value);
+        if (!root) {
+            // 未知命令：其余令牌均标记为未识别
+            tokens.slice(index).forEach(token => {
+                ownTokens.push(token);
+                nodes.push(this.createUnknownNode(token));
+            });
+            return new ParsedCommand(ownTokens, nodes);
+        }
+
+        ownTokens.push(tokens[index]);
+        nodes.push(this.createNode(tokens[index], root, true));
+
+        let current: GrammarNode | undefined = root;
+        for (let i = index + 1; i < tokens.length; i++) {
+            const token = tokens[i];
+            const next: GrammarNode | undefined = current ? this.matchChild(current, token.value) : undefined;
+
+            if (!next) {
+                // 超出语法定义或无法识别：剩余令牌均标记为未识别
+                current = undefined;
+                ownTokens.push(token);
+                nodes.push(this.createUnknownNode(token));
+                continue;
+            }
+
+            if (next.type === 'command') {
+                const child = this.parseCommand(tokens, i, source);
+                return new ParsedCommand(ownTokens, nodes, child);
+            }
+
+            if (next.type === 'text') {
+                // 贪婪文本：合并剩余所有令牌为一个节点
+                const rest = tokens.slice(i);
+                ownTokens.push(...rest);
+                const last = rest[rest.length - 1];
+                nodes.push(this.createNode({
+                    value: source.substring(token.start, last.end),
+                    start: token.start,
+                    end: last.end
+                }, next, true));
+                break;
+            }
+
+            ownTokens.push(token);
+            nodes.push(this.createNode(token, next, next.kind === 'literal' || matchesArgumentType(next.type!, token.value)));
+            current = next;
+        }
+
+        return new ParsedCommand(ownTokens, nodes);
+    }
+
+    /**
+     * 为令牌选择匹配的子语法节点
+     * 优先级：字面量精确匹配 → 类型匹配的参数 → 第一个参数（标记为无效）
+     * @param node 当前语法节点
+     * @param value 令牌值
+     * @returns 匹配的子节点
+     */
+    private matchChild(node: GrammarNode, value: string): GrammarNode | undefined {
+        const lowerValue = value.toLowerCase();
+        const literalMatch = node.children.find(child => child.kind === 'literal' && child.name === lowerValue);
+        if (literalMatch) { return literalMatch; }
+
+        const argumentChildren = node.children.filter(child => child.kind === 'argument');
+        return argumentChildren.find(child => matchesArgumentType(child.type!, value)) ?? argumentChildren[0];
+    }
+
+    private createNode(token: CommandToken, grammar: GrammarNode, valid: boolean): ParsedNode {
+        return {
+            ...token,
+            kind: grammar.kind,
+            name: grammar.name,
+            type: grammar.type,
+            grammar,
+            valid
+        };
+    }
+
+    private createUnknownNode(token: CommandToken): ParsedNode {
+        return { ...token, kind: 'unknown', name: '', valid: false };
+    }
+}
@@ -19,6 +19,7 @@ export interface HelperConfig {
     "json-message-hover-preview"?: boolean;
     "function-reference-preview"?: boolean;
     "file-link-provide"?: boolean;
+    "entry-functions"?: string[]; // 手动调用（如聊天栏、命令方块）的入口函数，末尾 * 匹配前缀
 }
 
 // 统一默认配置（所有配置项的默认值集中维护）
@@ -31,7 +32,8 @@ const DEFAULT_CONFIG: Required<HelperConfig> = {
     "json-message-block-preview": true,
     "json-message-hover-preview": true,
     "function-reference-preview": true,
-    "file-link-provide": true
+    "file-link-provide": true,
+    "entry-functions": []
 };
 
 // ========== 简化的格式化工具（只保证数组换行格式） ==========
@@ -0,0 +1,157 @@
+import * as vscode from 'vscode';
+import { DataLoader } from './DataLoader';
+import { FileLineIdleSearchProcessor } from './FileLineIdleSearchProcessor';
+import { CallGraph, FunctionCallGraph } from './FunctionCallGraph';
+
+/** 未使用的函数 */
+interface DeadFunction {
+    name: string;
+    namespace: string;
+    uri: vscode.Uri;
+    /** 是否完全没有调用者（否则仅被其它不可达函数调用） */
+    uncalled: boolean;
+}
+
+type DeadFunctionNode = { kind: 'namespace', namespace: string } | { kind: 'function', dead: DeadFunction };
+
+/**
+ * 未使用函数报告
+ * 从入口函数（gameLoopFunction 循环函数、进度奖励函数、HelperConfig 中的 entry-functions）出发遍历调用图，
+ * 在资源管理器视图中按命名空间列出无法到达的函数，可打开或删除
+ */
+export class DeadFunctionTreeProvider implements vscode.TreeDataProvider<DeadFunctionNode>, vscode.Disposable {
+    private static instance: DeadFunctionTreeProvider | undefined;
+    private readonly disposables: vscode.Disposable[] = [];
+    private readonly changeEmitter = new vscode.EventEmitter<void>();
+    public readonly onDidChangeTreeData = this.changeEmitter.event;
+    /** 分析结果（未分析时为undefined，视图显示欢迎内容） */
+    private deadFunctions: DeadFunction[] | undefined;
+
+    private static readonly VIEW_ID = 'mcfunction.deadFunctions';
+    private static readonly FIND_COMMAND = 'mcfunction.findDeadFunctions';
+    private static readonly OPEN_COMMAND = 'mcfunction.openDeadFunction';
+    private static readonly DELETE_COMMAND = 'mcfunction.deleteDeadFunction';
+
+    public static getInstance(): DeadFunctionTreeProvider {
+        if (!DeadFunctionTreeProvider.instance) {
+            DeadFunctionTreeProvider.instance = new DeadFunctionTreeProvider();
+        }
+        return DeadFunctionTreeProvider.instance;
+    }
+
+    private constructor() {
+        this.disposables.push(
+            this.changeEmitter,
+            vscode.window.registerTreeDataProvider(DeadFunctionTreeProvider.VIEW_ID, this),
+            vscode.commands.registerCommand(DeadFunctionTreeProvider.FIND_COMMAND, this.findDeadFunctions, this),
+            vscode.commands.registerCommand(DeadFunctionTreeProvider.OPEN_COMMAND, this.openFunction, this),
+            vscode.commands.registerCommand(DeadFunctionTreeProvider.DELETE_COMMAND, this.deleteFunction, this)
+        );
+    }
+
+    public getTreeItem(node: DeadFunctionNode): vscode.TreeItem {
+        if (node.kind === 'namespace') {
+            const count = this.deadFunctions!.filter(dead => dead.namespace === node.namespace).length;
+            const item = new vscode.TreeItem(node.namespace, vscode.TreeItemCollapsibleState.Expanded);
+            item.description = `${count} 个`;
+            item.iconPath = new vscode.ThemeIcon('symbol-namespace');
+            return item;
+        }
+
+        const { dead } = node;
+        const item = new vscode.TreeItem(dead.name, vscode.TreeItemCollapsibleState.None);
+        item.description = dead.uncalled ? '无调用者' : '仅被未使用的函数调用';
+        item.tooltip = vscode.workspace.asRelativePath(dead.uri);
+        item.resourceUri = dead.uri;
+        item.contextValue = 'deadFunction';
+        item.command = { command: DeadFunctionTreeProvider.OPEN_COMMAND, title: '打开函数文件', arguments: [node] };
+        return item;
+    }
+
+    public getChildren(node?: DeadFunctionNode): DeadFunctionNode[] {
+        if (!this.deadFunctions) { return []; }
+        if (!node) {
+            return Array.from(new Set(this.deadFunctions.map(dead => dead.namespace)))
+                .sort()
+                .map(namespace => ({ kind: 'namespace', namespace }));
+        }
+        if (node.kind === 'namespace') {
+            return this.deadFunctions
+                .filter(dead => dead.namespace === node.namespace)
+                .map(dead => ({ kind: 'function', dead }));
+        }
+        return [];
+    }
+
+    /**
+     * 分析工作区并在视图中显示未使用的函数
+     */
+    private async findDeadFunctions(): Promise<void> {
+        if (!FileLineIdleSearchProcessor.isScanCompleted) {
+            vscode.window.showWarningMessage('函数索引未完成，请稍后再试');
+            return;
+        }
+        const graph = await FunctionCallGraph.build();
+        const reachable = FunctionCallGraph.findReachable(graph, this.getEntryPoints(graph));
+        this.deadFunctions = Array.from(graph.nodes.values())
+            .filter(node => !reachable.has(node.name))
+            .map(node => ({ name: node.name, namespace: node.namespace, uri: node.uri, uncalled: node.entryPoints.includes('uncalled') }))
+            .sort((a, b) => a.name.localeCompare(b.name));
+        this.changeEmitter.fire();
+        await vscode.commands.executeCommand(`${DeadFunctionTreeProvider.VIEW_ID}.focus`);
+        vscode.window.showInformationMessage(
+            this.deadFunctions.length
+                ? `找到 ${this.deadFunctions.length} 个未使用的函数（共 ${graph.nodes.size} 个）`
+                : '没有未使用的函数'
+        );
+    }
+
+    /**
+     * 入口函数：循环函数、进度奖励函数与配置的 entry-functions
+     */
+    private getEntryPoints(graph: CallGraph): Set<string> {
+        const patterns = DataLoader.getConfig()['entry-functions'];
+        const entries = new Set<string>();
+        for (const node of graph.nodes.values()) {
+            const configured = patterns.some(pattern => pattern.endsWith('*')
+                ? node.name.startsWith(pattern.slice(0, -1))
+                : node.name === pattern);
+            if (configured || node.entryPoints.includes('gameLoop') || node.entryPoints.includes('advancement')) {
+                entries.add(node.name);
+            }
+        }
+        return entries;
+    }
+
+    private async openFunction(node: DeadFunctionNode): Promise<void> {
+        if (node.kind !== 'function') { return; }
+        await vscode.window.showTextDocument(node.dead.uri);
+    }
+
+    /**
+     * 确认后将函数文件移到回收站，并从列表中移除
+     */
+    private async deleteFunction(node: DeadFunctionNode): Promise<void> {
+        if (node.kind !== 'function') { return; }
+        const { dead } = node;
+        const confirmed = await vscode.window.showWarningMessage(
+            `确定删除函数 ${dead.name} 吗？`,
+            { modal: true, detail: vscode.workspace.asRelativePath(dead.uri) },
+            '删除'
+        );
+        if (confirmed !== '删除') { return; }
+        try {
+            await vscode.workspace.fs.delete(dead.uri, { useTrash: true });
+        } catch (error) {
+            vscode.window.showErrorMessage(`删除函数失败: ${error}`);
+            return;
+        }
+        this.deadFunctions = this.deadFunctions?.filter(item => item !== dead);
+        this.changeEmitter.fire();
+    }
+
+    public dispose(): void {
+        DeadFunctionTreeProvider.instance = undefined;
+        this.disposables.forEach(disposable => disposable.dispose());
+    }
+}
@@ -1,6 +1,7 @@
 import * as vscode from 'vscode';
-import { MainCompletionProvider } from './MainCompletionProvider';
+import { CommandParser, ParsedCommand } from './CommandParser';
 import { FileLineIdleSearchProcessor } from './FileLineIdleSearchProcessor';
+import { TagOccurrence, TagReferences, TagSite } from './TagReferences';
 import { MinecraftUtils } from '../utils/MinecraftUtils';
 import { scryptSync } from 'crypto';
 
@@ -10,6 +11,7 @@ import { scryptSync } from 'crypto';
  */
 interface LineParseResult {
     commandSegments: string[]; // 命令片段数组（按空格分割后的命令部分）
+    parsed: ParsedCommand; // 该行命令的解析树
     lastParsed: number; // 最后解析时间戳（毫秒），用于判断缓存是否过期
 }
 
@@ -21,10 +23,13 @@ interface DocumentCache {
     uri: vscode.Uri; // 文档的唯一标识（URI）
     lineCache: Map<number, LineParseResult>; // 行号 -> 该行的解析结果缓存
     lineTagMap: Map<number, string>; // 行号 -> 该行定义的标签（tag）
+    lineTagSites: Map<number, TagOccurrence[]>; // 行号 -> 该行添加、移除、检测标签的位置
     lineScoreboardMap: Map<number, string>; // 行号 -> 该行定义的计分板目标
+    lineTeamMap: Map<number, string>; // 行号 -> 该行定义的队伍
     lastAccessed: number; // 最后访问时间戳（毫秒），用于缓存淘汰策略
     referencedFunctions: Map<vscode.Uri, number[]>;    // 自身被其它函数引用的函数列表 ,
     dispatchFunctions: Map<number, vscode.Uri>; // 自身调用的函数列表
+    gameLoopDispatches: Set<number>; // 以 gamerule gameLoopFunction 设置循环函数（而非调用函数）的行号
 
 }
 
@@ -40,6 +45,8 @@ export class DocumentManager {
     private static instance: DocumentManager;
     /** 文档缓存池：以文档URI字符串为键，存储所有活跃文档的缓存数据 */
     private documentCache: Map<string, DocumentCache> = new Map();
+    /** 标签位置计数：以标签名为键，随各文档的 lineTagSites 同步增减，供 O(1) 查询 */
+    private tagSiteCounts: Map<string, Record<TagOccurrence['kind'], number>> = new Map();
 
     /** 单文档最大缓存行数：避免单个文档缓存过多行导致内存占用过高 */
     private static readonly MAX_CACHE_LINES_PER_DOC = 400;
@@ -115,20 +122,29 @@ export class DocumentManager {
                 // 先收集需要调整的键值对，避免迭代中修改Map导致异常
                 const lineCacheEntries = Array.from(cache.lineCache.entries()).filter(([line]) => line > endLine);
                 const lineTagEntries = Array.from(cache.lineTagMap.entries()).filter(([line]) => line > endLine);
+                const lineTagSiteEntries = Array.from(cache.lineTagSites.entries()).filter(([line]) => line > endLine);
                 const lineScoreboardEntries = Array.from(cache.lineScoreboardMap.entries()).filter(([line]) => line > endLine);
+                const lineTeamEntries = Array.from(cache.lineTeamMap.entries()).filter(([line]) => line > endLine);
                 const dispatchEntries = Array.from(cache.dispatchFunctions.entries()).filter(([line]) => line > endLine);
+                const gameLoopLines = Array.from(cache.gameLoopDispatches).filter(line => line > endLine);
 
                 // 删除旧行号的缓存
                 lineCacheEntries.forEach(([line]) => cache.lineCache.delete(line));
                 lineTagEntries.forEach(([line]) => cache.lineTagMap.delete(line));
+                lineTagSiteEntries.forEach(([line]) => cache.lineTagSites.delete(line));
                 lineScoreboardEntries.forEach(([line]) => cache.lineScoreboardMap.delete(line));
+                lineTeamEntries.forEach(([line]) => cache.lineTeamMap.delete(line));
                 dispatchEntries.forEach(([line]) => cache.dispatchFunctions.delete(line));
+                gameLoopLines.forEach(line => cache.gameLoopDispatches.delete(line));
 
                 // 添加偏移后的新行号缓存
                 lineCacheEntries.forEach(([line, value]) => cache.lineCache.set(line + deltaLines, value));
                 lineTagEntries.forEach(([line, value]) => cache.lineTagMap.set(line + deltaLines, value));
+                lineTagSiteEntries.forEach(([line, value]) => cache.lineTagSites.set(line + deltaLines, value));
                 lineScoreboardEntries.forEach(([line, value]) => cache.lineScoreboardMap.set(line + deltaLines, value));
+                lineTeamEntries.forEach(([line, value]) => cache.lineTeamMap.set(line + deltaLines, value));
                 dispatchEntries.forEach(([line, value]) => cache.dispatchFunctions.set(line + deltaLines, value));
+                gameLoopLines.forEach(line => cache.gameLoopDispatches.add(line + deltaLines));
             }
         });
 
@@ -152,10 +168,13 @@ export class DocumentManager {
                 uri: document.uri,
                 lineCache: new Map(),
                 lineTagMap: new Map(),
+                lineTagSites: new Map(),
                 lineScoreboardMap: new Map(),
+                lineTeamMap: new Map(),
                 lastAccessed: Date.now(),
                 referencedFunctions: new Map<vscode.Uri, number[]>(),
-                dispatchFunctions: new Map<number, vscode.Uri>()
+                dispatchFunctions: new Map<number, vscode.Uri>(),
+                gameLoopDispatches: new Set<number>()
             };
             this.documentCache.set(uriStr, cache);
         }
@@ -174,10 +193,13 @@ export class DocumentManager {
                 uri: uri,
                 lineCache: new Map(),
                 lineTagMap: new Map(),
+                lineTagSites: new Map(),
                 lineScoreboardMap: new Map(),
+                lineTeamMap: new Map(),
                 lastAccessed: Date.now(),
                 referencedFunctions: new Map<vscode.Uri, number[]>(),
-                dispatchFunctions: new Map<number, vscode.Uri>()
+                dispatchFunctions: new Map<number, vscode.Uri>(),
+                gameLoopDispatches: new Set<number>()
             };
             this.documentCache.set(uri.toString(), cache);
         }
@@ -192,18 +214,40 @@ export class DocumentManager {
      * @returns 命令片段数组（按空格分割）
      */
     public getCommandSegments(document: vscode.TextDocument, lineNumber: number): string[] {
+        return [...this.getLineCache(document, lineNumber).commandSegments];
+    }
+
+    /**
+     * 获取文档中指定行的命令解析树
+     * 与命令片段共用同一份行缓存
+     * @param document 目标文档
+     * @param lineNumber 行号
+     * @returns 解析结果（含嵌套命令及各参数的位置）
+     */
+    public getParsedLine(document: vscode.TextDocument, lineNumber: number): ParsedCommand {
+        return this.getLineCache(document, lineNumber).parsed;
+    }
+
+    /**
+     * 获取行解析缓存，未命中时解析该行并写入缓存
+     * @param document 目标文档
+     * @param lineNumber 行号
+     * @returns 行解析结果
+     */
+    private getLineCache(document: vscode.TextDocument, lineNumber: number): LineParseResult {
         const cache = this.getOrCreateCache(document);
 
         // 检查缓存是否命中
         const lineCache = cache.lineCache.get(lineNumber);
         if (lineCache) {
             cache.lastAccessed = Date.now(); // 更新访问时间
-            return [...lineCache.commandSegments]; // 返回缓存的命令片段
+            return lineCache;
         }
 
         // 缓存未命中，解析该行命令
         const lineText = document.lineAt(lineNumber).text;
-        const commandSegments = MainCompletionProvider.instance.extractCommand(lineText); // 调用补全提供者解析命令
+        const parsed = CommandParser.getInstance().parse(lineText);
+        const commandSegments = parsed.chain().flatMap(command => command.values);
 
         // 若缓存行数超过限制，淘汰最旧的行缓存
         if (cache.lineCache.size >= DocumentManager.MAX_CACHE_LINES_PER_DOC) {
@@ -212,13 +256,15 @@ export class DocumentManager {
         }
 
         // 存入缓存
-        cache.lineCache.set(lineNumber, {
+        const result: LineParseResult = {
             commandSegments,
+            parsed,
             lastParsed: Date.now()
-        });
+        };
+        cache.lineCache.set(lineNumber, result);
         cache.lastAccessed = Date.now(); // 更新访问时间
 
-        return [...commandSegments];
+        return result;
     }
 
     /**
@@ -259,11 +305,12 @@ export class DocumentManager {
      * @param lineNumber 行号
      */
     private processLine(document: vscode.TextDocument, lineNumber: number): void {
-        const commandSegments = this.getCommandSegments(document, lineNumber); // 获取命令片段
+        const parsed = this.getParsedLine(document, lineNumber); // 获取命令解析树
 
-        if (commandSegments.length === 0) { return; } // 空命令不处理
+        if (parsed.tokens.length === 0) { return; } // 空命令不处理
+        const commands = parsed.chain(); // execute 嵌套的各层命令
         // 提取并更新标签（tag）
-        const tag = this.extractTagFromLine(commandSegments);
+        const tag = this.extractTagFromLine(commands);
         const cache = this.getOrCreateCache(document);
         if (tag) {
             cache.lineTagMap.set(lineNumber, tag); // 更新行-标签映射
@@ -275,9 +322,18 @@ export class DocumentManager {
         } else {
             cache.lineTagMap.delete(lineNumber); // 移除无效标签映射
         }
+        // 记录标签的添加、移除与检测位置
+        this.countTagSites(cache.lineTagSites.get(lineNumber), -1);
+        const tagSites = TagReferences.collect(parsed);
+        if (tagSites.length) {
+            cache.lineTagSites.set(lineNumber, tagSites);
+            this.countTagSites(tagSites, 1);
+        } else {
+            cache.lineTagSites.delete(lineNumber);
+        }
 
         // 提取并更新计分板（scoreboard）
-        const scoreboard = this.extractScoreboardFromLine(commandSegments);
+        const scoreboard = this.extractScoreboardFromLine(commands);
         if (scoreboard) {
             const [name, type, display] = scoreboard;
             cache.lineScoreboardMap.set(lineNumber, name); // 更新行-计分板映射
@@ -295,20 +351,48 @@ export class DocumentManager {
                 this.removeScoreboardIfNoOtherOccurrences(oldScoreboard);
             }
         }
-        // 标记function行
-        if (commandSegments[0] === 'function') {
-            const functionCall = this.extractFunctionFromLine(commandSegments);
+        // 提取并更新队伍（team）
+        const team = this.extractTeamFromLine(commands);
+        if (team) {
+            const [name, display] = team;
+            const oldTeam = cache.lineTeamMap.get(lineNumber);
+            // 重新处理同一行时不重复计数；该行原先定义的是其他队伍时先释放旧队伍
+            if (oldTeam !== name) {
+                if (oldTeam) {
+                    this.removeTeamIfNoOtherOccurrences(oldTeam);
+                }
+                cache.lineTeamMap.set(lineNumber, name); // 更新行-队伍映射
+            }
+            const originReferences = FileLineIdleSearchProcessor.TEAMS.get(name)?.[2] ?? 0;
+            FileLineIdleSearchProcessor.TEAMS.set(name, [display, document.uri, oldTeam === name ? originReferences : originReferences + 1]);
+        } else {
+            const oldTeam = cache.lineTeamMap.get(lineNumber);
+            if (oldTeam) {
+                cache.lineTeamMap.delete(lineNumber);
+                this.removeTeamIfNoOtherOccurrences(oldTeam);
+            }
+        }
+        // 标记function行（含 gamerule gameLoopFunction 设置的循环函数）
+        if (commands.some(command => command.name === 'function' || command.name === 'gamerule')) {
+            const functionCall = this.extractFunctionFromLine(commands);
             if (functionCall) {
                 // 获取自身调用的函数uri
                 const functionUri = MinecraftUtils.buildFunctionUri(functionCall);
                 if (functionUri) {
                     // 添加到对应函数的引用列表中
-                    const cache = this.setupDocumentCache(functionUri);
-                    const currentLines = cache.referencedFunctions.get(document.uri) || [];
-                    currentLines.push(lineNumber);
-                    cache.referencedFunctions.set(document.uri, currentLines);
+                    const targetCache = this.setupDocumentCache(functionUri);
+                    const currentLines = targetCache.referencedFunctions.get(document.uri) || [];
+                    if (!currentLines.includes(lineNumber)) {
+                        currentLines.push(lineNumber);
+                    }
+                    targetCache.referencedFunctions.set(document.uri, currentLines);
                     // 添加自身对函数的引用
                     cache.dispatchFunctions.set(lineNumber, functionUri);
+                    if (commands.some(command => command.name === 'gamerule')) {
+                        cache.gameLoopDispatches.add(lineNumber);
+                    } else {
+                        cache.gameLoopDispatches.delete(lineNumber);
+                    }
                 } else {
                     // 获取本行引用的函数uri
                     const dispatchFunction = cache.dispatchFunctions.get(lineNumber);
@@ -332,37 +416,72 @@ export class DocumentManager {
     }
 
     /**
-     * 从命令片段中提取标签（tag）
-     * 匹配 "scoreboard tag <标签名>" 格式的命令
-     * @param segments 命令片段数组
+     * 从命令解析树中提取标签（tag）
+     * 匹配 "scoreboard players tag <实体> add|remove <标签名>" 格式的命令
+     * @param commands 命令链（含 execute 嵌套的子命令）
      * @returns 标签名（不存在则返回null）
      */
-    private extractTagFromLine(segments: string[]): string | null {
-        // 匹配格式：scoreboard players tag <target> ... → 提取<target>作为标签名
-        if (segments.length >= 6 && segments[0] === 'scoreboard' && segments[1] === 'players' && segments[2] === 'tag') {
-            return segments[5];
+    private extractTagFromLine(commands: ParsedCommand[]): string | null {
+        for (const command of commands) {
+            if (command.matches('scoreboard', 'players', 'tag')) {
+                const tag = command.getArgument('tag')?.value;
+                if (tag) { return tag; }
+            }
         }
         return null;
     }
 
-    private extractFunctionFromLine(segments: string[]): string | null {
-        // 匹配格式：function <NameSpace>:<functionName>
-        if (segments.length >= 2 && segments[0] === 'function') {
-            return segments[1];
+    /**
+     * 从命令解析树中提取调用的函数
+     * 匹配 "function <命名空间>:<函数名>" 与 "gamerule gameLoopFunction <命名空间>:<函数名>" 格式的命令（含 execute 嵌套）
+     * @param commands 命令链
+     * @returns 函数资源路径（不存在则返回null）
+     */
+    private extractFunctionFromLine(commands: ParsedCommand[]): string | null {
+        for (const command of commands) {
+            if (command.name === 'function') {
+                return command.getArgument('function')?.value || null;
+            }
+            if (command.name === 'gamerule' && command.getArgument('rule')?.value === 'gameLoopFunction') {
+                // 取值为 - 时表示关闭循环函数
+                const value = command.getArgument('value')?.value;
+                return value && value !== '-' ? value : null;
+            }
         }
         return null;
     }
 
     /**
-     * 从命令片段中提取计分板目标
+     * 从命令解析树中提取计分板目标
      * 匹配 "scoreboard objectives add <名称> <类型> [显示名]" 格式的命令
-     * @param segments 命令片段数组
+     * @param commands 命令链（含 execute 嵌套的子命令）
      * @returns [名称, 类型, 显示名]（不存在则返回null）
      */
-    private extractScoreboardFromLine(segments: string[]): [string, string, string] | null {
-        // 匹配格式：scoreboard objectives add <name> <type> [display]
-        if (segments.length >= 5 && segments[0] === 'scoreboard' && segments[1] === 'objectives' && segments[2] === 'add' && segments[4] !== '') {
-            return [segments[3], segments[4], segments[5] || segments[3]]; // 显示名默认与名称相同
+    private extractScoreboardFromLine(commands: ParsedCommand[]): [string, string, string] | null {
+        for (const command of commands) {
+            if (!command.matches('scoreboard', 'objectives', 'add')) { continue; }
+            const name = command.getArgument('objective')?.value;
+            const type = command.getArgument('criteria')?.value;
+            if (name && type) {
+                return [name, type, command.getArgument('displayName')?.value || name]; // 显示名默认与名称相同
+            }
+        }
+        return null;
+    }
+
+    /**
+     * 从命令解析树中提取队伍
+     * 匹配 "scoreboard teams add <名称> [显示名]" 格式的命令
+     * @param commands 命令链（含 execute 嵌套的子命令）
+     * @returns [名称, 显示名]（不存在则返回null）
+     */
+    private extractTeamFromLine(commands: ParsedCommand[]): [string, string] | null {
+        for (const command of commands) {
+            if (!command.matches('scoreboard', 'teams', 'add')) { continue; }
+            const name = command.getArgument('team')?.value;
+            if (name) {
+                return [name, command.getArgument('displayName')?.value || name]; // 显示名默认与名称相同
+            }
         }
         return null;
     }
@@ -385,10 +504,19 @@ export class DocumentManager {
         cache.lineScoreboardMap.forEach((scoreboard) => {
             this.removeScoreboardIfNoOtherOccurrences(scoreboard);
         });
+
+        // 清理该文档的队伍引用
+        cache.lineTeamMap.forEach((team) => {
+            this.removeTeamIfNoOtherOccurrences(team);
+        });
         cache.dispatchFunctions.clear();
+        cache.gameLoopDispatches.clear();
         cache.referencedFunctions.clear();
         cache.lineTagMap.clear();
+        cache.lineTagSites.forEach(occurrences => this.countTagSites(occurrences, -1));
+        cache.lineTagSites.clear();
         cache.lineScoreboardMap.clear();
+        cache.lineTeamMap.clear();
         // 从缓存池中移除该文档
         this.documentCache.delete(uriStr);
     }
@@ -455,6 +583,21 @@ export class DocumentManager {
 
 
 
+    /**
+     * 减少队伍的创建引用计数
+     * 若当前行是该队伍的最后一处创建，则从全局集合中移除
+     * @param team 队伍名称
+     */
+    private removeTeamIfNoOtherOccurrences(team: string): void {
+        const data = FileLineIdleSearchProcessor.TEAMS.get(team);
+        if (!data) { return; }
+        if (data[2] <= 1) {
+            FileLineIdleSearchProcessor.TEAMS.delete(team);
+        } else {
+            FileLineIdleSearchProcessor.TEAMS.set(team, [data[0], data[1], data[2] - 1]);
+        }
+    }
+
     /**
      *  公开方法：获取指定函数的引用列表
      * @param functionRes 
@@ -486,6 +629,65 @@ export class DocumentManager {
 
     }
 
+    /**
+     * 公开方法：判断函数中的调用行是否为 gamerule gameLoopFunction 设置
+     * 设置循环函数不会立即执行该函数，不构成递归调用
+     * @param functionUri 函数文件
+     * @param line 行号
+     * @returns 是否为循环函数设置
+     */
+    public isGameLoopDispatch(functionUri: vscode.Uri, line: number): boolean {
+        return this.documentCache.get(functionUri.toString())?.gameLoopDispatches.has(line) ?? false;
+    }
+
+    /**
+     * 公开方法：获取工作区中指定标签的添加、移除与检测位置
+     * @param tag 标签名
+     * @returns 标签位置（按文档、行号排列）
+     */
+    public getTagSites(tag: string): TagSite[] {
+        const sites: TagSite[] = [];
+        this.documentCache.forEach(cache => {
+            Array.from(cache.lineTagSites.entries())
+                .sort(([a], [b]) => a - b)
+                .forEach(([line, occurrences]) => {
+                    for (const occurrence of occurrences) {
+                        if (occurrence.name !== tag) { continue; }
+                        const range = new vscode.Range(line, occurrence.start, line, occurrence.end);
+                        sites.push({ location: new vscode.Location(cache.uri, range), kind: occurrence.kind });
+                    }
+                });
+        });
+        return sites;
+    }
+
+    /**
+     * 公开方法：判断工作区中是否存在指定类型的标签位置
+     * @param tag 标签名
+     * @param kind 位置类型
+     * @returns 是否存在
+     */
+    public hasTagSite(tag: string, kind: TagOccurrence['kind']): boolean {
+        return (this.tagSiteCounts.get(tag)?.[kind] ?? 0) > 0;
+    }
+
+    /**
+     * 按一行的标签位置增减标签位置计数
+     * @param occurrences 该行的标签位置
+     * @param delta 增加（1）或减少（-1）
+     */
+    private countTagSites(occurrences: TagOccurrence[] | undefined, delta: 1 | -1): void {
+        for (const { name, kind } of occurrences ?? []) {
+            const counts = this.tagSiteCounts.get(name) ?? { add: 0, remove: 0, test: 0 };
+            counts[kind] += delta;
+            if (counts.add + counts.remove + counts.test > 0) {
+                this.tagSiteCounts.set(name, counts);
+            } else {
+                this.tagSiteCounts.delete(name);
+            }
+        }
+    }
+
     /**
      * 公开方法：重命名文档缓存的键
      * @param oldUri 旧键uri
@@ -503,7 +705,7 @@ export class DocumentManager {
 
     /**
  * 清理指定文档缓存中特定行的所有关联缓存
- * 包括行解析结果、标签、计分板及函数调用关联
+ * 包括行解析结果、标签、计分板、队伍及函数调用关联
  * @param cache 目标文档缓存
  * @param document 关联的文档对象
  * @param lineNumber 需要清理的行号
@@ -522,6 +724,8 @@ export class DocumentManager {
             cache.lineTagMap.delete(lineNumber);
             this.removeTagIfNoOtherOccurrences(tag, cache.uri.toString(), lineNumber);
         }
+        this.countTagSites(cache.lineTagSites.get(lineNumber), -1);
+        cache.lineTagSites.delete(lineNumber);
 
         // 3. 清理计分板缓存并检查全局引用
         const scoreboard = cache.lineScoreboardMap.get(lineNumber);
@@ -530,7 +734,14 @@ export class DocumentManager {
             this.removeScoreboardIfNoOtherOccurrences(scoreboard);
         }
 
-        // 4. 清理函数调用关联（自身调用的函数）
+        // 4. 清理队伍缓存并检查全局引用
+        const team = cache.lineTeamMap.get(lineNumber);
+        if (team) {
+            cache.lineTeamMap.delete(lineNumber);
+            this.removeTeamIfNoOtherOccurrences(team);
+        }
+
+        // 5. 清理函数调用关联（自身调用的函数）
         const dispatchedFuncUri = cache.dispatchFunctions.get(lineNumber);
         if (dispatchedFuncUri) {
             // 移除被调用函数对当前文档的引用记录
@@ -547,6 +758,7 @@ export class DocumentManager {
             }
             cache.dispatchFunctions.delete(lineNumber);
         }
+        cache.gameLoopDispatches.delete(lineNumber);
     }
 
 
@@ -10,7 +10,7 @@ import { MinecraftUtils } from '../utils/MinecraftUtils';
 
 /**
  * 文件行空闲扫描处理器
- * 负责后台扫描所有 .mcfunction 文件，提取 scoreboard 相关的标签(tag)和目标(objective)信息
+ * 负责后台扫描所有 .mcfunction 文件，提取 scoreboard 相关的标签(tag)、目标(objective)和队伍(team)信息
  * 为命令补全、语法校验等功能提供数据支持，采用单例模式确保全局唯一实例
  */
 export class FileLineIdleSearchProcessor {
@@ -23,6 +23,8 @@ export class FileLineIdleSearchProcessor {
     public static TAGS: Map<string, number> = new Map();
     /** 全局计分板映射：存储计分板目标名称与 [类型, 显示名, 创建uri, 创建引用计数] 的映射关系 */
     public static SCOREBOARDS: Map<string, [string, string, vscode.Uri, number]> = new Map();
+    /** 全局队伍映射：存储队伍名称与 [显示名, 创建uri, 创建引用计数] 的映射关系 */
+    public static TEAMS: Map<string, [string, vscode.Uri, number]> = new Map();
 
     /** 单例实例：确保全局只有一个扫描处理器实例，避免重复扫描 */
     private static instance: FileLineIdleSearchProcessor;
@@ -39,6 +41,9 @@ export class FileLineIdleSearchProcessor {
     private fileLineScoreboardMap: Map<string, Map<number, string>> = new Map();
     /** 扫描完成标识：用于标记是否完成初始全量扫描，供外部判断数据是否可用 */
     public static isScanCompleted = false;
+    /** 全量扫描完成事件：依赖全局数据的检查可在此时重新计算 */
+    private readonly scanCompletedEmitter = new vscode.EventEmitter<void>();
+    public readonly onDidCompleteScan = this.scanCompletedEmitter.event;
 
     /**
      * 获取单例实例
@@ -116,6 +121,7 @@ export class FileLineIdleSearchProcessor {
         }
         // 标记扫描完成
         FileLineIdleSearchProcessor.isScanCompleted = true;
+        this.scanCompletedEmitter.fire();
 
         return true;
     }
@@ -170,6 +176,15 @@ export class FileLineIdleSearchProcessor {
         return FileLineIdleSearchProcessor.SCOREBOARDS;
     }
 
+    /**
+     * 获取全局队伍数据
+     * 提供外部访问队伍映射的接口（如补全提供者）
+     * @returns 队伍名称与 [显示名, 创建uri, 创建引用计数] 的映射
+     */
+    public static getTeams(): Map<string, [string, vscode.Uri, number]> {
+        return FileLineIdleSearchProcessor.TEAMS;
+    }
+
     /**
      * 获取全局标签数据
      * 提供外部访问标签集合的接口（如补全提供者）
@@ -181,13 +196,14 @@ export class FileLineIdleSearchProcessor {
 
     /**
      * 清理所有缓存数据
-     * 包括文件行映射、全局标签和计分板集合，用于重新扫描前初始化
+     * 包括文件行映射、全局标签、计分板和队伍集合，用于重新扫描前初始化
      */
     public clearAllCaches() {
         this.fileLineTagMap.clear();
         this.fileLineScoreboardMap.clear();
         FileLineIdleSearchProcessor.TAGS.clear();
         FileLineIdleSearchProcessor.SCOREBOARDS.clear();
+        FileLineIdleSearchProcessor.TEAMS.clear();
         DocumentManager.getInstance().cleanupAllDocumentCache();
     }
 
@@ -197,5 +213,6 @@ export class FileLineIdleSearchProcessor {
      */
     public dispose() {
         this.clearAllCaches();
+        this.scanCompletedEmitter.dispose();
     }
 }
@@ -0,0 +1,277 @@
+import * as vscode from 'vscode';
+import { AdvancementRewards } from './AdvancementRewards';
+import { DataLoader } from './DataLoader';
+import { DocumentManager } from './DocumentManager';
+import { MinecraftUtils } from '../utils/MinecraftUtils';
+
+/**
+ * 函数的入口类型
+ * - gameLoop：由 gamerule gameLoopFunction 设置为每刻执行的循环函数
+ * - advancement：作为进度的 rewards.function
+ * - uncalled：工作区中没有任何调用者
+ */
+export type EntryPointKind = 'gameLoop' | 'advancement' | 'uncalled';
+
+/**
+ * 调用图中的函数
+ */
+export interface CallGraphNode {
+    /** 函数ID（命名空间:路径） */
+    name: string;
+    namespace: string;
+    uri: vscode.Uri;
+    entryPoints: EntryPointKind[];
+    /** 以该函数为奖励的进度ID */
+    advancements: string[];
+}
+
+/**
+ * 调用图中的调用关系（同一文件对同一函数的多次调用合并为一条）
+ */
+export interface CallGraphEdge {
+    from: string;
+    to: string;
+    /** 调用所在的行号 */
+    lines: number[];
+    /** 是否为 gamerule gameLoopFunction 设置 */
+    gameLoop: boolean;
+}
+
+export interface CallGraph {
+    nodes: Map<string, CallGraphNode>;
+    edges: CallGraphEdge[];
+}
+
+/**
+ * 调用路径中的一次调用
+ */
+export interface CallStep {
+    caller: vscode.Uri;
+    /** 调用所在的行号 */
+    line: number;
+    callee: vscode.Uri;
+    /** 是否为 gamerule gameLoopFunction 设置（而非调用） */
+    gameLoop?: boolean;
+}
+
+/**
+ * 函数调用图
+ * 由 DocumentManager 记录的函数调用关系与进度奖励函数构建，只包含工作区中存在的函数
+ */
+export class FunctionCallGraph {
+    private constructor() { }
+
+    /**
+     * 构建工作区的函数调用图
+     * @returns 调用图
+     */
+    public static async build(): Promise<CallGraph> {
+        const nodes = new Map<string, CallGraphNode>();
+        // 函数路径形如 namespace/sub/func.mcfunction
+        for (const path of DataLoader.getFunctionPaths()) {
+            const name = path.replace('/', ':').slice(0, -'.mcfunction'.length);
+            const uri = MinecraftUtils.buildFunctionUri(name);
+            if (!uri) { continue; }
+            nodes.set(name, { name, namespace: name.split(':')[0], uri, entryPoints: [], advancements: [] });
+        }
+
+        const edges: CallGraphEdge[] = [];
+        for (const node of nodes.values()) {
+            const dispatches = DocumentManager.getInstance().getFunctionDispatchs(node.uri);
+            if (!dispatches?.size) { continue; }
+            const byTarget = new Map<string, CallGraphEdge>();
+            for (const [line, uri] of dispatches) {
+                const target = MinecraftUtils.buildFunctionCallByUri(uri);
+                if (!target || !nodes.has(target)) { continue; }
+                const edge = byTarget.get(target) ?? { from: node.name, to: target, lines: [], gameLoop: false };
+                edge.lines.push(line);
+                edge.gameLoop ||= DocumentManager.getInstance().isGameLoopDispatch(node.uri, line);
+                byTarget.set(target, edge);
+            }
+            byTarget.forEach(edge => {
+                edge.lines.sort((a, b) => a - b);
+                edges.push(edge);
+            });
+        }
+
+        for (const reward of await AdvancementRewards.findAll()) {
+            const node = nodes.get(MinecraftUtils.buildFunctionCallByUri(reward.functionUri) ?? '');
+            node?.advancements.push(reward.advancement);
+        }
+
+        const called = new Set(edges.filter(edge => edge.from !== edge.to).map(edge => edge.to));
+        const gameLoops = new Set(edges.filter(edge => edge.gameLoop).map(edge => edge.to));
+        for (const node of nodes.values()) {
+            if (gameLoops.has(node.name)) { node.entryPoints.push('gameLoop'); }
+            if (node.advancements.length) { node.entryPoints.push('advancement'); }
+            if (!called.has(node.name) && !node.advancements.length) { node.entryPoints.push('uncalled'); }
+        }
+        return { nodes, edges };
+    }
+
+    /**
+     * 计算从入口函数出发可以到达的全部函数
+     * @param graph 调用图
+     * @param entries 入口函数ID
+     * @returns 可达的函数ID（含入口函数）
+     */
+    public static findReachable(graph: CallGraph, entries: Iterable<string>): Set<string> {
+        const callees = new Map<string, string[]>();
+        graph.edges.forEach(edge => callees.set(edge.from, [...callees.get(edge.from) ?? [], edge.to]));
+        const reached = new Set<string>();
+        const stack = Array.from(entries).filter(name => graph.nodes.has(name));
+        while (stack.length) {
+            const name = stack.pop()!;
+            if (reached.has(name)) { continue; }
+            reached.add(name);
+            stack.push(...callees.get(name) ?? []);
+        }
+        return reached;
+    }
+
+    /**
+     * 查找两个函数之间最短的调用路径（不经过 gamerule gameLoopFunction 设置）
+     * @param from 起始函数
+     * @param to 目标函数
+     * @returns 依次经过的调用（起止相同时为空数组，无法到达时返回undefined）
+     */
+    public static findCallPath(from: vscode.Uri, to: vscode.Uri): CallStep[] | undefined {
+        const target = to.toString();
+        const previous = new Map<string, CallStep | null>([[from.toString(), null]]);
+        const queue = [from];
+        while (queue.length) {
+            const caller = queue.shift()!;
+            if (caller.toString() === target) {
+                const path: CallStep[] = [];
+                for (let step = previous.get(target); step; step = previous.get(step.caller.toString())) {
+                    path.unshift(step);
+                }
+                return path;
+            }
+            const dispatches = DocumentManager.getInstance().getFunctionDispatchs(caller);
+            for (const [line, callee] of Array.from(dispatches ?? []).sort(([a], [b]) => a - b)) {
+                if (previous.has(callee.toString()) || DocumentManager.getInstance().isGameLoopDispatch(caller, line)) { continue; }
+                previous.set(callee.toString(), { caller, line, callee });
+                queue.push(callee);
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * 查找工作区中参与循环的全部调用
+     * @returns 每处循环调用经过的循环（以该调用开头，最后一步回到调用所在的函数）
+     */
+    public static findRecursiveCalls(): CallStep[][] {
+        const calls = new Map<string, CallStep[]>();
+        for (const path of DataLoader.getFunctionPaths()) {
+            const caller = MinecraftUtils.buildFunctionUri(path.replace('/', ':').slice(0, -'.mcfunction'.length));
+            if (!caller) { continue; }
+            const steps: CallStep[] = [];
+            for (const [line, callee] of DocumentManager.getInstance().getFunctionDispatchs(caller) ?? []) {
+                steps.push({ caller, line, callee, gameLoop: DocumentManager.getInstance().isGameLoopDispatch(caller, line) });
+            }
+            calls.set(caller.toString(), steps.sort((a, b) => a.line - b.line));
+        }
+        return this.findCycles(calls);
+    }
+
+    /**
+     * 查找调用关系中参与循环的全部调用（不含 gamerule gameLoopFunction 设置）
+     * 先求调用关系的强连通分量，两端位于同一分量（或调用自身）的调用必然处在某个循环上
+     * @param allCalls 每个函数（以 uri 字符串为键）发出的调用
+     * @returns 每处循环调用经过的循环（以该调用开头，最后一步回到调用所在的函数）
+     */
+    public static findCycles(allCalls: Map<string, CallStep[]>): CallStep[][] {
+        const calls = new Map<string, CallStep[]>();
+        allCalls.forEach((steps, name) => calls.set(name, steps.filter(step => !step.gameLoop)));
+
+        const components = this.findStronglyConnected(calls);
+        const cycles: CallStep[][] = [];
+        for (const steps of calls.values()) {
+            for (const step of steps) {
+                const component = components.get(step.caller.toString());
+                if (component === undefined || component !== components.get(step.callee.toString())) { continue; }
+                // 在同一分量内查找从被调用函数回到调用者的最短路径
+                const target = step.caller.toString();
+                const previous = new Map<string, CallStep | null>([[step.callee.toString(), null]]);
+                const queue = [step.callee.toString()];
+                while (queue.length && !previous.has(target)) {
+                    for (const next of calls.get(queue.shift()!) ?? []) {
+                        const callee = next.callee.toString();
+                        if (previous.has(callee) || components.get(callee) !== component) { continue; }
+                        previous.set(callee, next);
+                        queue.push(callee);
+                    }
+                }
+                const cycle: CallStep[] = [];
+                for (let back = previous.get(target); back; back = previous.get(back.caller.toString())) {
+                    cycle.unshift(back);
+                }
+                cycles.push([step, ...cycle]);
+            }
+        }
+        return cycles;
+    }
+
+    /**
+     * 求调用关系的强连通分量（Tarjan 算法，以显式栈代替递归，避免调用链过长时栈溢出）
+     * @param calls 每个函数发出的调用
+     * @returns 函数所属分量的编号（只含多于一个函数或调用自身的分量）
+     */
+    private static findStronglyConnected(calls: Map<string, CallStep[]>): Map<string, number> {
+        const index = new Map<string, number>();
+        const lowLink = new Map<string, number>();
+        const stack: string[] = [];
+        const onStack = new Set<string>();
+        const components = new Map<string, number>();
+        let counter = 0;
+
+        for (const root of calls.keys()) {
+            if (index.has(root)) { continue; }
+            const frames: { name: string, next: number }[] = [{ name: root, next: 0 }];
+            index.set(root, counter);
+            lowLink.set(root, counter++);
+            stack.push(root);
+            onStack.add(root);
+
+            while (frames.length) {
+                const frame = frames[frames.length - 1];
+                const steps = calls.get(frame.name) ?? [];
+                if (frame.next < steps.length) {
+                    const callee = steps[frame.next++].callee.toString();
+                    if (!index.has(callee)) {
+                        index.set(callee, counter);
+                        lowLink.set(callee, counter++);
+                        stack.push(callee);
+                        onStack.add(callee);
+                        frames.push({ name: callee, next: 0 });
+                    } else if (onStack.has(callee)) {
+                        lowLink.set(frame.name, Math.min(lowLink.get(frame.name)!, index.get(callee)!));
+                    }
+                    continue;
+                }
+
+                frames.pop();
+                const parent = frames[frames.length - 1];
+                if (parent) {
+                    lowLink.set(parent.name, Math.min(lowLink.get(parent.name)!, lowLink.get(frame.name)!));
+                }
+                if (lowLink.get(frame.name) !== index.get(frame.name)) { continue; }
+
+                const members: string[] = [];
+                let member: string;
+                do {
+                    member = stack.pop()!;
+                    onStack.delete(member);
+                    members.push(member);
+                } while (member !== frame.name);
+                const selfCall = steps.some(step => step.callee.toString() === frame.name);
+                if (members.length > 1 || selfCall) {
+                    members.forEach(name => components.set(name, index.get(frame.name)!));
+                }
+            }
+        }
+        return components;
+    }
+}
@@ -0,0 +1,150 @@
+import * as vscode from 'vscode';
+import { AdvancementRewards } from './AdvancementRewards';
+import { ParsedCommand, ParsedNode } from './CommandParser';
+import { DocumentManager } from './DocumentManager';
+import { MinecraftUtils } from '../utils/MinecraftUtils';
+
+/**
+ * 函数调用层次结构
+ * 基于 DocumentManager 记录的函数调用关系（function 命令与 gamerule gameLoopFunction），
+ * 并把以函数为 rewards.function 的进度视为调用者，可逐层展开调用方与被调用方
+ */
+export class FunctionCallHierarchyProvider implements vscode.CallHierarchyProvider, vscode.Disposable {
+    private static instance: FunctionCallHierarchyProvider | undefined;
+    private readonly disposable: vscode.Disposable;
+
+    public static getInstance(): FunctionCallHierarchyProvider {
+        if (!FunctionCallHierarchyProvider.instance) {
+            FunctionCallHierarchyProvider.instance = new FunctionCallHierarchyProvider();
+        }
+        return FunctionCallHierarchyProvider.instance;
+    }
+
+    private constructor() {
+        this.disposable = vscode.languages.registerCallHierarchyProvider({ language: 'mcfunction' }, this);
+    }
+
+    /**
+     * 光标位于被调用的函数名上时以该函数为起点，否则以当前文件为起点
+     */
+    public prepareCallHierarchy(
+        document: vscode.TextDocument,
+        position: vscode.Position
+    ): vscode.CallHierarchyItem | undefined {
+        const parsed = DocumentManager.getInstance().getParsedLine(document, position.line);
+        const called = parsed.chain()
+            .map(command => this.getCalledFunctionNode(command))
+            .find(node => node && node.start <= position.character && position.character <= node.end);
+        const uri = called ? MinecraftUtils.buildFunctionUri(called.value) : document.uri;
+        return uri ? this.createFunctionItem(uri) : undefined;
+    }
+
+    public async provideCallHierarchyIncomingCalls(
+        item: vscode.CallHierarchyItem
+    ): Promise<vscode.CallHierarchyIncomingCall[]> {
+        // 进度没有调用者
+        if (item.kind !== vscode.SymbolKind.Function) { return []; }
+
+        const calls: vscode.CallHierarchyIncomingCall[] = [];
+        const references = DocumentManager.getInstance().getFunctionRefferences(item.uri);
+        for (const [uri, lines] of this.groupByUri(Array.from(references ?? []))) {
+            const document = await vscode.workspace.openTextDocument(uri);
+            const ranges = lines.filter(line => line < document.lineCount).map(line => this.getCallRange(document, line));
+            if (ranges.length) {
+                calls.push(new vscode.CallHierarchyIncomingCall(this.createFunctionItem(uri), ranges));
+            }
+        }
+
+        for (const reward of await AdvancementRewards.findCallers(item.uri)) {
+            calls.push(new vscode.CallHierarchyIncomingCall(this.createAdvancementItem(reward.advancement, reward.uri, reward.range), [reward.range]));
+        }
+        return calls;
+    }
+
+    public async provideCallHierarchyOutgoingCalls(
+        item: vscode.CallHierarchyItem
+    ): Promise<vscode.CallHierarchyOutgoingCall[]> {
+        if (item.kind !== vscode.SymbolKind.Function) {
+            // 进度调用其奖励函数
+            const reward = (await AdvancementRewards.findAll()).find(reward => reward.uri.toString() === item.uri.toString());
+            return reward ? [new vscode.CallHierarchyOutgoingCall(this.createFunctionItem(reward.functionUri), [reward.range])] : [];
+        }
+
+        const dispatches = DocumentManager.getInstance().getFunctionDispatchs(item.uri);
+        if (!dispatches?.size) { return []; }
+        const document = await vscode.workspace.openTextDocument(item.uri);
+        const calls: vscode.CallHierarchyOutgoingCall[] = [];
+        const targets = Array.from(dispatches).map(([line, uri]): [vscode.Uri, number[]] => [uri, [line]]);
+        for (const [uri, lines] of this.groupByUri(targets)) {
+            // 跳过调用不存在的函数
+            const name = MinecraftUtils.buildFunctionCallByUri(uri);
+            if (!name || !await MinecraftUtils.isFunctionExists(name)) { continue; }
+            const ranges = lines.filter(line => line < document.lineCount).map(line => this.getCallRange(document, line));
+            if (ranges.length) {
+                calls.push(new vscode.CallHierarchyOutgoingCall(this.createFunctionItem(uri), ranges));
+            }
+        }
+        return calls;
+    }
+
+    /**
+     * 获取命令中被调用的函数名节点（function 的函数参数、gamerule gameLoopFunction 的取值）
+     */
+    private getCalledFunctionNode(command: ParsedCommand): ParsedNode | undefined {
+        if (command.name === 'function') {
+            return command.getArgument('function');
+        }
+        if (command.name === 'gamerule' && command.getArgument('rule')?.value === 'gameLoopFunction') {
+            return command.getArgument('value');
+        }
+        return undefined;
+    }
+
+    /**
+     * 获取调用所在的范围（函数名所在位置，找不到时为整行）
+     */
+    private getCallRange(document: vscode.TextDocument, line: number): vscode.Range {
+        const parsed = DocumentManager.getInstance().getParsedLine(document, line);
+        for (const command of parsed.chain()) {
+            const node = this.getCalledFunctionNode(command);
+            if (node?.value) {
+                return new vscode.Range(line, node.start, line, node.end);
+            }
+        }
+        return document.lineAt(line).range;
+    }
+
+    /**
+     * 按文件合并调用行（同一文件可能以不同的 Uri 实例记录）
+     */
+    private groupByUri(entries: [vscode.Uri, number[]][]): Map<vscode.Uri, number[]> {
+        const groups = new Map<string, [vscode.Uri, Set<number>]>();
+        for (const [uri, lines] of entries) {
+            const group = groups.get(uri.toString()) ?? [uri, new Set<number>()];
+            lines.forEach(line => group[1].add(line));
+            groups.set(uri.toString(), group);
+        }
+        return new Map(Array.from(groups.values()).map(([uri, lines]) => [uri, Array.from(lines).sort((a, b) => a - b)]));
+    }
+
+    private createFunctionItem(uri: vscode.Uri): vscode.CallHierarchyItem {
+        const range = new vscode.Range(0, 0, 0, 0);
+        return new vscode.CallHierarchyItem(
+            vscode.SymbolKind.Function,
+            MinecraftUtils.buildFunctionCallByUri(uri) ?? vscode.workspace.asRelativePath(uri),
+            vscode.workspace.asRelativePath(uri),
+            uri,
+            range,
+            range
+        );
+    }
+
+    private createAdvancementItem(advancement: string, uri: vscode.Uri, range: vscode.Range): vscode.CallHierarchyItem {
+        return new vscode.CallHierarchyItem(vscode.SymbolKind.Event, advancement, '进度奖励', uri, range, range);
+    }
+
+    public dispose(): void {
+        FunctionCallHierarchyProvider.instance = undefined;
+        this.disposable.dispose();
+    }
+}
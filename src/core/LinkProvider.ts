@@ -1,50 +1,34 @@
 import * as vscode from 'vscode';
-import { MainCompletionProvider } from '../core/MainCompletionProvider';
 import { MinecraftUtils } from '../utils/MinecraftUtils';
 import { DocumentManager } from './DocumentManager';
 import { DataLoader } from './DataLoader';
+import { ArgumentType } from './CommandGrammar';
+import { ParsedNode } from './CommandParser';
 
-/** 命令策略接口：定义不同命令的链接生成规则（策略模式核心） */
+/** 命令策略接口：定义不同资源参数的链接生成规则（策略模式核心） */
 interface CommandLinkStrategy {
     command: string;
-    matchRegex: RegExp;
-    validate(tokens: string[], activeCommand: ActiveCommandInfo): boolean;
-    getPathTokenIndex(startTokenIndex: number): number;
+    argumentType: ArgumentType; // 解析树中需要生成链接的参数类型
     validatePath(path: string): boolean;
     buildTargetUri(path: string): Promise<vscode.Uri | null>; // 异步避免阻塞
     getTooltip(path: string): string;
 }
 
-/** 活跃命令信息 */
-interface ActiveCommandInfo {
-    currentCommands: string[];
-    isExecute: boolean;
-    isComplete: boolean;
-}
-
-/** 令牌信息（含原始位置，避免反查） */
-interface TokenWithPosition {
-    value: string;
-    start: number; // 令牌在commandText中的起始位置（相对commandText）
-    end: number;   // 令牌在commandText中的结束位置（相对commandText）
-}
-
 /** 链接元数据（缓存用，不依赖行号和缩进） */
 interface LinkMetadata {
     path: string;
     command: string;
-    tokenStart: number; // 路径token在commandText中的起始位置（相对commandText）
-    tokenEnd: number;   // 路径token在commandText中的结束位置（相对commandText）
+    tokenStart: number; // 路径参数在行文本中的起始列
+    tokenEnd: number;   // 路径参数在行文本中的结束列
 }
 
 /** 文档级缓存：隔离不同文档的缓存，提升查找效率 */
 interface DocumentCache {
     metaCache: LRUCache<number, LinkMetadata[]>; // key: 行号
-    tokenCache: LRUCache<number, TokenWithPosition[]>; // key: 行号
     lastAccessed: number; // 最后访问时间（用于清理长期未使用的文档缓存）
 }
 
-/** 缓存管理器：集中管控元数据缓存、令牌缓存、路径缓存（优化查找+LRU淘汰） */
+/** 缓存管理器：集中管控元数据缓存、路径缓存（优化查找+LRU淘汰） */
 class LinkCacheManager {
     /** 全局文档缓存：key = 文档URI.fsPath（更高效的键），value = 文档级缓存 */
     private docCaches = new Map<string, DocumentCache>();
@@ -55,10 +39,8 @@ class LinkCacheManager {
     /** 缓存配置（平衡性能与内存） */
     private static readonly CACHE_CONFIG = {
         metaCacheSize: 500,    // 单文档元数据缓存上限（行）
-        tokenCacheSize: 500,   // 单文档令牌缓存上限（行）
         docCacheTTL: 3600000,  // 文档缓存过期时间（1小时，无访问则清理）
         metaCacheTTL: 300000,  // 元数据缓存TTL（5分钟）
-        tokenCacheTTL: 60000,  // 令牌缓存TTL（1分钟）
         pathUriCacheTTL: 600000// 路径URI缓存TTL（10分钟）
     };
 
@@ -76,7 +58,6 @@ class LinkCacheManager {
             // 初始化文档缓存（LRU淘汰，避免单文档缓存膨胀）
             docCache = {
                 metaCache: new LRUCache<number, LinkMetadata[]>(LinkCacheManager.CACHE_CONFIG.metaCacheSize),
-                tokenCache: new LRUCache<number, TokenWithPosition[]>(LinkCacheManager.CACHE_CONFIG.tokenCacheSize),
                 lastAccessed: Date.now()
             };
             this.docCaches.set(docKey, docCache);
@@ -123,18 +104,6 @@ class LinkCacheManager {
         }, LinkCacheManager.CACHE_CONFIG.metaCacheTTL);
     }
 
-    getTokenCache(uri: vscode.Uri, lineNumber: number): TokenWithPosition[] | undefined {
-        return this.getDocCache(uri).tokenCache.get(lineNumber);
-    }
-
-    setTokenCache(uri: vscode.Uri, lineNumber: number, tokens: TokenWithPosition[]): void {
-        const docCache = this.getDocCache(uri);
-        docCache.tokenCache.set(lineNumber, tokens);
-        setTimeout(() => {
-            docCache.tokenCache.delete(lineNumber);
-        }, LinkCacheManager.CACHE_CONFIG.tokenCacheTTL);
-    }
-
     async getPathUriCache(path: string, command: string): Promise<vscode.Uri | null> {
         const key = `${command.toLowerCase()}:${path.toLowerCase()}`;
         let uriPromise = this.pathUriCache.get(key);
@@ -166,7 +135,6 @@ class LinkCacheManager {
         const docCache = this.getDocCache(uri);
         lineNumbers.forEach(line => {
             docCache.metaCache.delete(line);
-            docCache.tokenCache.delete(line);
             this.log(`清理行缓存：${uri.fsPath} -> 行${line}`);
         });
     }
@@ -177,7 +145,6 @@ class LinkCacheManager {
 
         const docCache = this.getDocCache(uri);
         const affectedMeta: [number, LinkMetadata[]][] = [];
-        const affectedTokens: [number, TokenWithPosition[]][] = [];
 
         // 收集所有受影响的行（大于变更结束行的行）
         docCache.metaCache.forEach((meta, line) => {
@@ -185,11 +152,6 @@ class LinkCacheManager {
                 affectedMeta.push([line, meta]);
             }
         });
-        docCache.tokenCache.forEach((tokens, line) => {
-            if (line > changeEndLine) {
-                affectedTokens.push([line, tokens]);
-            }
-        });
 
         // 移除旧行号缓存并添加新行号缓存
         affectedMeta.forEach(([oldLine, meta]) => {
@@ -197,11 +159,6 @@ class LinkCacheManager {
             const newLine = oldLine + deltaLines;
             docCache.metaCache.set(newLine, meta);
         });
-        affectedTokens.forEach(([oldLine, tokens]) => {
-            docCache.tokenCache.delete(oldLine);
-            const newLine = oldLine + deltaLines;
-            docCache.tokenCache.set(newLine, tokens);
-        });
 
         this.log(`行号偏移调整：${uri.fsPath} -> 行${changeEndLine}后偏移${deltaLines}行`);
     }
@@ -242,16 +199,7 @@ class LinkCacheManager {
 /** Function命令策略 */
 class FunctionCommandStrategy implements CommandLinkStrategy {
     command = 'function';
-    matchRegex = /(^|\s)function\b/i;
-
-    validate(tokens: string[], activeCommand: ActiveCommandInfo): boolean {
-        if (!tokens.length) {return false;}
-        return activeCommand.isExecute ? activeCommand.isComplete : tokens.length > this.getPathTokenIndex(0);
-    }
-
-    getPathTokenIndex(startTokenIndex: number): number {
-        return startTokenIndex + 1;
-    }
+    argumentType: ArgumentType = 'function';
 
     validatePath(path: string): boolean {
         return /^[^ ]+$/.test(path);
@@ -270,21 +218,7 @@ class FunctionCommandStrategy implements CommandLinkStrategy {
 /** Advancement命令策略 */
 class AdvancementCommandStrategy implements CommandLinkStrategy {
     command = 'advancement';
-    matchRegex = /(^|\s)advancement\b/i;
-    private validActions = new Set(['grant', 'revoke', 'test']);
-
-    validate(tokens: string[], activeCommand: ActiveCommandInfo): boolean {
-        if (!tokens.length) {return false;}
-        if (activeCommand.isExecute && !activeCommand.isComplete) {return false;}
-        const pathIndex = this.getPathTokenIndex(0);
-        if (tokens.length <= pathIndex) {return false;}
-        const actionTokens = tokens.slice(1, pathIndex);
-        return actionTokens.some(action => this.validActions.has(action.toLowerCase()));
-    }
-
-    getPathTokenIndex(startTokenIndex: number): number {
-        return startTokenIndex + 4;
-    }
+    argumentType: ArgumentType = 'advancement';
 
     validatePath(path: string): boolean {
         return /^[^:]+:[^ ]+$/.test(path);
@@ -467,7 +401,6 @@ export class LinkProvider implements vscode.DocumentLinkProvider {
         if (!cachedMeta || cachedMeta.length === 0) { return []; }
 
         const line = document.lineAt(lineNumber);
-        const indentOffset = line.firstNonWhitespaceCharacterIndex;
         const links: vscode.DocumentLink[] = [];
 
         for (const meta of cachedMeta) {
@@ -476,8 +409,8 @@ export class LinkProvider implements vscode.DocumentLinkProvider {
             if (!targetUri) { continue; }
 
             // 计算正确的链接范围（确保不越界）
-            const startCol = Math.min(indentOffset + meta.tokenStart, line.text.length);
-            const endCol = Math.min(indentOffset + meta.tokenEnd, line.text.length);
+            const startCol = Math.min(meta.tokenStart, line.text.length);
+            const endCol = Math.min(meta.tokenEnd, line.text.length);
             const range = new vscode.Range(lineNumber, startCol, lineNumber, endCol);
 
             // 生成最终链接
@@ -495,146 +428,50 @@ export class LinkProvider implements vscode.DocumentLinkProvider {
         lineNumber: number,
         resolvedLines: Set<number>
     ): Promise<vscode.DocumentLink[]> {
-        const line = document.lineAt(lineNumber);
-        const lineText = line.text;
-        const indentOffset = line.firstNonWhitespaceCharacterIndex;
-
-        // 跳过空行、注释行
-        if (indentOffset === -1 || lineText[indentOffset] === '#') {
-            return [];
-        }
-
-        // 提取命令文本（忽略字符串内的注释）
-        const commandText = this.extractCommandText(lineText);
-        if (!commandText) { return []; }
-
-        // 解析令牌并缓存
-        let tokens = this.cacheManager.getTokenCache(document.uri, lineNumber);
-        if (!tokens) {
-            tokens = this.parseTokensWithPosition(commandText);
-            this.cacheManager.setTokenCache(document.uri, lineNumber, tokens);
-        }
-        if (!tokens.length) { return []; }
-
-        // 匹配命令策略
-        const matchedStrategy = this.findMatchedStrategy(commandText, tokens);
-        if (!matchedStrategy) { return []; }
-
-        // 校验活跃命令
-        const activeCommand = this.getActiveCommandInfo(tokens.map(t => t.value));
-        if (!activeCommand || !matchedStrategy.validate(tokens.map(t => t.value), activeCommand)) {
-            return [];
+        // 从命令解析树中收集资源参数（含 execute 嵌套命令），空行、注释行无节点
+        const parsed = DocumentManager.getInstance().getParsedLine(document, lineNumber);
+        const metas: LinkMetadata[] = [];
+        for (const node of parsed.allNodes()) {
+            const strategy = this.findStrategyByNode(node);
+            if (!strategy || !strategy.validatePath(node.value)) { continue; }
+            metas.push({
+                path: node.value,
+                command: strategy.command,
+                tokenStart: node.start,
+                tokenEnd: node.end
+            });
         }
+        if (!metas.length) { return []; }
 
-        // 定位路径令牌并校验
-        const commandStartIndex = this.findCommandStartIndex(tokens, matchedStrategy.command);
-        if (commandStartIndex === -1) { return []; }
-        const pathTokenIndex = matchedStrategy.getPathTokenIndex(commandStartIndex);
-        if (pathTokenIndex >= tokens.length) { return []; }
-        const pathToken = tokens[pathTokenIndex];
-        if (!matchedStrategy.validatePath(pathToken.value)) { return []; }
-
-        // 缓存元数据和URI
-        const meta: LinkMetadata = {
-            path: pathToken.value,
-            command: matchedStrategy.command,
-            tokenStart: pathToken.start,
-            tokenEnd: pathToken.end
-        };
-        this.cacheManager.setMetaCache(document.uri, lineNumber, [meta]);
-        await this.cacheManager.getPathUriCache(pathToken.value, matchedStrategy.command);
+        // 缓存元数据
+        this.cacheManager.setMetaCache(document.uri, lineNumber, metas);
 
         // 生成最终链接
-        const targetUri = await this.cacheManager.getPathUriCache(pathToken.value, matchedStrategy.command);
-        if (!targetUri) { return []; }
-
-        const startCol = indentOffset + pathToken.start;
-        const endCol = indentOffset + pathToken.end;
-        const range = new vscode.Range(lineNumber, startCol, lineNumber, endCol);
-        const link = new vscode.DocumentLink(range, targetUri);
-        link.tooltip = matchedStrategy.getTooltip(pathToken.value);
-
-        return [link];
-    }
-
-
-
-    /** 精准提取命令文本（忽略字符串内的#注释） */
-    private extractCommandText(lineText: string): string {
-        let inQuotes = false;
-        for (let i = 0; i < lineText.length; i++) {
-            if (lineText[i] === '"') {
-                inQuotes = !inQuotes;
-            } else if (lineText[i] === '#' && !inQuotes) {
-                return lineText.slice(0, i).trim();
-            }
-        }
-        return lineText.trim();
-    }
-
-    /** 解析令牌并记录原始位置（避免indexOf反查误差） */
-    private parseTokensWithPosition(commandText: string): TokenWithPosition[] {
-        const tokens: TokenWithPosition[] = [];
-        const regex = /(".*?"|\S+)/g; // 匹配带引号的字符串或非空字符
-        let match: RegExpExecArray | null;
+        const links: vscode.DocumentLink[] = [];
+        for (const meta of metas) {
+            const targetUri = await this.cacheManager.getPathUriCache(meta.path, meta.command);
+            if (!targetUri) { continue; }
 
-        while ((match = regex.exec(commandText)) !== null) {
-            const value = match[1].replace(/^"|"$/g, ''); // 去除引号
-            tokens.push({
-                value,
-                start: match.index,
-                end: match.index + match[1].length
-            });
+            const range = new vscode.Range(lineNumber, meta.tokenStart, lineNumber, meta.tokenEnd);
+            const link = new vscode.DocumentLink(range, targetUri);
+            link.tooltip = this.getStrategyByCommand(meta.command)?.getTooltip(meta.path) || '跳转到目标';
+            links.push(link);
         }
 
-        return tokens;
+        return links;
     }
 
-    /** 查找匹配的命令策略（优化查找效率） */
-    private findMatchedStrategy(commandText: string, tokens: TokenWithPosition[]): CommandLinkStrategy | undefined {
-        if (!tokens.length) {return undefined;}
-
-        // 优先匹配命令前缀（O(1)）
-        const firstToken = tokens[0].value.toLowerCase();
-        if (this.commandStrategies.has(firstToken)) {
-            return this.commandStrategies.get(firstToken);
-        }
-
-        // 正则匹配（仅当前缀不匹配时）
+    /** 根据解析树节点的参数类型查找策略 */
+    private findStrategyByNode(node: ParsedNode): CommandLinkStrategy | undefined {
+        if (node.kind !== 'argument' || !node.type) { return undefined; }
         for (const strategy of this.commandStrategies.values()) {
-            if (strategy.matchRegex.test(commandText)) {
+            if (strategy.argumentType === node.type) {
                 return strategy;
             }
         }
-
         return undefined;
     }
 
-    /** 获取活跃命令信息（增强异常捕获） */
-    private getActiveCommandInfo(tokens: string[]): ActiveCommandInfo | null {
-        try {
-            const activeCommand = MainCompletionProvider.instance?.findActiveCommand(tokens);
-            if (!activeCommand) {return null;}
-
-            return {
-                currentCommands: activeCommand.currentCommands || [],
-                isExecute: activeCommand.isExecute || false,
-                isComplete: activeCommand.isComplete || false
-            };
-        } catch (err) {
-            if (LinkProvider.DEBUG_MODE) {
-                console.error('获取活跃命令失败', err);
-            }
-            return null;
-        }
-    }
-
-    /** 查找命令在令牌数组中的起始索引 */
-    private findCommandStartIndex(tokens: TokenWithPosition[], command: string): number {
-        const lowerCommand = command.toLowerCase();
-        return tokens.findIndex(token => token.value.toLowerCase() === lowerCommand);
-    }
-
     /** 根据命令名获取策略 */
     public getStrategyByCommand(command: string): CommandLinkStrategy | undefined {
         return this.commandStrategies.get(command.toLowerCase());
@@ -0,0 +1,181 @@
+import * as vscode from 'vscode';
+import { ParsedCommand } from './CommandParser';
+import { DocumentManager } from './DocumentManager';
+import { FileLineIdleSearchProcessor } from './FileLineIdleSearchProcessor';
+import { MinecraftUtils } from '../utils/MinecraftUtils';
+import { SelectorParser } from '../utils/SelectorParser';
+import { JsonTextParser } from '../utils/JsonTextParser';
+import { JsonTextValidator } from '../utils/JsonTextValidator';
+
+/**
+ * 行内的计分板引用
+ */
+export interface ObjectiveOccurrence {
+    name: string;
+    /** 计分板名在行文本中的起止列（end 不含） */
+    start: number;
+    end: number;
+    /** 是否为 scoreboard objectives add 定义 */
+    definition: boolean;
+    /** 是否读取分数（选择器 score_、players test、operation 的来源、JSON score 组件、setdisplay 显示） */
+    reads: boolean;
+    /** 是否写入分数（players set/add/remove/reset/enable、operation 的目标、stats、trigger） */
+    writes: boolean;
+}
+
+/** 写入分数的命令（players enable 允许玩家通过 trigger 写入） */
+const WRITING_COMMANDS = [
+    ['scoreboard', 'players', 'set'],
+    ['scoreboard', 'players', 'add'],
+    ['scoreboard', 'players', 'remove'],
+    ['scoreboard', 'players', 'reset'],
+    ['scoreboard', 'players', 'enable'],
+    ['stats'],
+    ['trigger']
+];
+
+/** 既不读取也不写入分数的命令 */
+const NEUTRAL_COMMANDS = [
+    ['scoreboard', 'objectives', 'add'],
+    ['scoreboard', 'objectives', 'remove']
+];
+
+/**
+ * 计分板引用查找
+ * 覆盖计分板参数（players、operation、stats、trigger 等）、选择器 score_ 参数与 JSON 文本的 score 组件
+ */
+export class ObjectiveReferences {
+    private constructor() { }
+
+    /**
+     * 收集一行命令中的计分板引用
+     * @param parsed 整行解析树
+     * @returns 计分板引用
+     */
+    public static collect(parsed: ParsedCommand): ObjectiveOccurrence[] {
+        const occurrences: ObjectiveOccurrence[] = [];
+        for (const command of parsed.chain()) {
+            const defining = command.matches('scoreboard', 'objectives', 'add');
+            for (const node of command.getArgumentsByType('objective')) {
+                if (!node.value) { continue; }
+                occurrences.push({
+                    name: node.value,
+                    start: node.start,
+                    end: node.end,
+                    definition: defining && node.name === 'objective',
+                    ...this.getArgumentAccess(command, node.name)
+                });
+            }
+
+            for (const node of command.getArgumentsByType('selector')) {
+                for (const argument of SelectorParser.parse(node.value)?.arguments ?? []) {
+                    const score = SelectorParser.parseScoreKey(argument.key);
+                    if (!score) { continue; }
+                    const start = node.start + argument.keyStart + 'score_'.length;
+                    occurrences.push({
+                        name: score.objective,
+                        start,
+                        end: start + score.objective.length,
+                        definition: false,
+                        reads: true,
+                        writes: false
+                    });
+                }
+            }
+
+            for (const node of command.getArgumentsByType('json')) {
+                const { root } = JsonTextParser.parse(node.value);
+                if (!root) { continue; }
+                for (const { objective } of JsonTextValidator.analyze(root).scores) {
+                    // 计分板名不含转义字符，引号内即为原文
+                    occurrences.push({
+                        name: objective.value as string,
+                        start: node.start + objective.start + 1,
+                        end: node.start + objective.end - 1,
+                        definition: false,
+                        reads: true,
+                        writes: false
+                    });
+                }
+            }
+        }
+        return occurrences;
+    }
+
+    /**
+     * 判断计分板参数对分数的读写
+     * operation 的来源只读取；目标除赋值 = 外都要先读取原分数再写入，交换运算符 >< 两侧均读写
+     * @param command 命令解析树
+     * @param argument 参数名
+     * @returns 是否读取、写入
+     */
+    private static getArgumentAccess(command: ParsedCommand, argument: string): { reads: boolean, writes: boolean } {
+        if (NEUTRAL_COMMANDS.some(path => command.matches(...path))) {
+            return { reads: false, writes: false };
+        }
+        if (WRITING_COMMANDS.some(path => command.matches(...path))) {
+            return { reads: false, writes: true };
+        }
+        if (command.matches('scoreboard', 'players', 'operation')) {
+            const operator = command.getArgument('operator')?.value;
+            if (argument === 'sourceObjective') {
+                return { reads: true, writes: operator === '><' };
+            }
+            return { reads: operator !== '=', writes: true };
+        }
+        return { reads: true, writes: false };
+    }
+
+    /**
+     * 查找指定列上的计分板引用
+     * @param parsed 整行解析树
+     * @param column 列号
+     * @returns 计分板引用（不在计分板名上时返回undefined）
+     */
+    public static findAt(parsed: ParsedCommand, column: number): ObjectiveOccurrence | undefined {
+        return this.collect(parsed).find(occurrence => occurrence.start <= column && column <= occurrence.end);
+    }
+
+    /**
+     * 查找计分板的定义位置（scoreboard objectives add 所在行）
+     * 全局扫描已记录每个计分板的定义文件，只需在该文件中查找
+     * @param name 计分板名
+     * @returns 定义位置（未定义时返回undefined）
+     */
+    public static async findDefinition(name: string): Promise<vscode.Location | undefined> {
+        const uri = FileLineIdleSearchProcessor.SCOREBOARDS.get(name)?.[2];
+        if (!uri) { return undefined; }
+        const document = await vscode.workspace.openTextDocument(uri);
+        for (let line = 0; line < document.lineCount; line++) {
+            if (!document.lineAt(line).text.includes(name)) { continue; }
+            const parsed = DocumentManager.getInstance().getParsedLine(document, line);
+            const definition = this.collect(parsed).find(occurrence => occurrence.definition && occurrence.name === name);
+            if (definition) {
+                return new vscode.Location(uri, new vscode.Range(line, definition.start, line, definition.end));
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * 查找工作区中指定计分板的全部引用
+     * @param name 计分板名
+     * @returns 引用位置（含定义）
+     */
+    public static async findInWorkspace(name: string): Promise<vscode.Location[]> {
+        const locations: vscode.Location[] = [];
+        for (const uri of await MinecraftUtils.getAllFunctionPaths()) {
+            const document = await vscode.workspace.openTextDocument(uri);
+            for (let line = 0; line < document.lineCount; line++) {
+                // 先按文本粗筛，避免解析无关行
+                if (!document.lineAt(line).text.includes(name)) { continue; }
+                const parsed = DocumentManager.getInstance().getParsedLine(document, line);
+                for (const occurrence of this.collect(parsed)) {
+                    if (occurrence.name !== name) { continue; }
+                    locations.push(new vscode.Location(uri, new vscode.Range(line, occurrence.start, line, occurrence.end)));
+                }
+            }
+        }
+        return locations;
+    }
+}
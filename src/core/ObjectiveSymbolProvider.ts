@@ -0,0 +1,59 @@
+import * as vscode from 'vscode';
+import { DocumentManager } from './DocumentManager';
+import { ObjectiveReferences } from './ObjectiveReferences';
+
+/**
+ * 计分板的定义跳转与引用查找
+ * 从任意计分板引用跳转到其 scoreboard objectives add 所在行，并列出工作区中的全部引用
+ */
+export class ObjectiveSymbolProvider implements vscode.DefinitionProvider, vscode.ReferenceProvider, vscode.Disposable {
+    private static instance: ObjectiveSymbolProvider | undefined;
+    private readonly disposables: vscode.Disposable[] = [];
+
+    public static getInstance(): ObjectiveSymbolProvider {
+        if (!ObjectiveSymbolProvider.instance) {
+            ObjectiveSymbolProvider.instance = new ObjectiveSymbolProvider();
+        }
+        return ObjectiveSymbolProvider.instance;
+    }
+
+    private constructor() {
+        const selector: vscode.DocumentSelector = { language: 'mcfunction' };
+        this.disposables.push(
+            vscode.languages.registerDefinitionProvider(selector, this),
+            vscode.languages.registerReferenceProvider(selector, this)
+        );
+    }
+
+    public async provideDefinition(
+        document: vscode.TextDocument,
+        position: vscode.Position
+    ): Promise<vscode.Location | undefined> {
+        const parsed = DocumentManager.getInstance().getParsedLine(document, position.line);
+        const occurrence = ObjectiveReferences.findAt(parsed, position.character);
+        if (!occurrence) { return undefined; }
+        return ObjectiveReferences.findDefinition(occurrence.name);
+    }
+
+    public async provideReferences(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        context: vscode.ReferenceContext
+    ): Promise<vscode.Location[]> {
+        const parsed = DocumentManager.getInstance().getParsedLine(document, position.line);
+        const occurrence = ObjectiveReferences.findAt(parsed, position.character);
+        if (!occurrence) { return []; }
+
+        const locations = await ObjectiveReferences.findInWorkspace(occurrence.name);
+        if (context.includeDeclaration) { return locations; }
+        const definition = await ObjectiveReferences.findDefinition(occurrence.name);
+        return definition
+            ? locations.filter(location => !(location.uri.toString() === definition.uri.toString() && location.range.isEqual(definition.range)))
+            : locations;
+    }
+
+    public dispose(): void {
+        ObjectiveSymbolProvider.instance = undefined;
+        this.disposables.forEach(disposable => disposable.dispose());
+    }
+}
@@ -0,0 +1,277 @@
+import * as vscode from 'vscode';
+import { DocumentManager } from './DocumentManager';
+import { FileLineIdleSearchProcessor } from './FileLineIdleSearchProcessor';
+import { ObjectiveReferences } from './ObjectiveReferences';
+import { MinecraftUtils } from '../utils/MinecraftUtils';
+
+/**
+ * 计分板使用问题
+ * - unused：已定义但从未读取或写入
+ * - neverWritten：被读取但从未写入（分数始终为空）
+ * - neverRead：被写入但从未读取
+ * - undefined：被使用但未定义
+ */
+type ObjectiveIssue = 'unused' | 'neverWritten' | 'neverRead' | 'undefined';
+
+/** 单个计分板在工作区中的定义、读取与写入位置 */
+interface ObjectiveUsage {
+    name: string;
+    definitions: vscode.Location[];
+    reads: vscode.Location[];
+    writes: vscode.Location[];
+    /** 其余引用（如 objectives remove） */
+    others: vscode.Location[];
+}
+
+type ObjectiveUsageNode = { kind: 'issue', issue: ObjectiveIssue } | { kind: 'objective', issue: ObjectiveIssue, usage: ObjectiveUsage };
+
+/** 问题的视图标题、诊断信息，以及报告到问题面板时的等级与位置 */
+interface IssueInfo {
+    label: string;
+    message: string;
+    severity?: vscode.DiagnosticSeverity;
+    sites?: (usage: ObjectiveUsage) => vscode.Location[];
+}
+
+const ISSUES: Record<ObjectiveIssue, IssueInfo> = {
+    unused: {
+        label: '已定义但从未使用',
+        severity: vscode.DiagnosticSeverity.Warning,
+        sites: usage => usage.definitions,
+        message: '已定义但从未读取或写入'
+    },
+    neverWritten: {
+        label: '读取但从未写入',
+        severity: vscode.DiagnosticSeverity.Warning,
+        sites: usage => usage.reads,
+        message: '从未被写入，读取到的分数始终为空'
+    },
+    neverRead: {
+        label: '写入但从未读取',
+        severity: vscode.DiagnosticSeverity.Information,
+        sites: usage => usage.writes,
+        message: '已写入但从未被读取'
+    },
+    // 未定义的计分板已由逐行诊断报告，此处只在视图中汇总
+    undefined: {
+        label: '使用但未定义',
+        message: '未定义'
+    }
+};
+
+/**
+ * 计分板使用分析
+ * 扫描工作区中全部计分板的定义、读取与写入，将已定义但未使用、读取但从未写入、写入但从未读取的计分板
+ * 报告到问题面板，并在资源管理器的“计分板使用情况”视图中按问题分类汇总；分析后随函数文件的变化自动重新分析
+ */
+export class ObjectiveUsageTreeProvider implements vscode.TreeDataProvider<ObjectiveUsageNode>, vscode.Disposable {
+    private static instance: ObjectiveUsageTreeProvider | undefined;
+    private readonly disposables: vscode.Disposable[] = [];
+    private readonly changeEmitter = new vscode.EventEmitter<void>();
+    public readonly onDidChangeTreeData = this.changeEmitter.event;
+    private readonly diagnosticCollection: vscode.DiagnosticCollection;
+    /** 分析结果（未分析时为undefined，视图显示欢迎内容） */
+    private issues: Map<ObjectiveIssue, ObjectiveUsage[]> | undefined;
+    private refreshTimer: NodeJS.Timeout | undefined;
+
+    private static readonly VIEW_ID = 'mcfunction.objectiveUsage';
+    private static readonly ANALYZE_COMMAND = 'mcfunction.analyzeObjectives';
+    /** 计分板参数只出现在含这些文本的行中，用于跳过无关行 */
+    private static readonly LINE_FILTER = /score|stats|trigger/;
+    /** 函数文件变化后重新分析的延迟（毫秒） */
+    private static readonly REFRESH_DELAY = 1000;
+
+    public static getInstance(): ObjectiveUsageTreeProvider {
+        if (!ObjectiveUsageTreeProvider.instance) {
+            ObjectiveUsageTreeProvider.instance = new ObjectiveUsageTreeProvider();
+        }
+        return ObjectiveUsageTreeProvider.instance;
+    }
+
+    private constructor() {
+        this.diagnosticCollection = vscode.languages.createDiagnosticCollection('mcfunction-objective-usage');
+        const watcher = vscode.workspace.createFileSystemWatcher('**/*.mcfunction', false, true, false);
+        this.disposables.push(
+            this.changeEmitter,
+            this.diagnosticCollection,
+            vscode.window.registerTreeDataProvider(ObjectiveUsageTreeProvider.VIEW_ID, this),
+            vscode.commands.registerCommand(ObjectiveUsageTreeProvider.ANALYZE_COMMAND, this.analyze, this),
+            vscode.workspace.onDidChangeTextDocument(event => {
+                if (event.document.languageId === 'mcfunction') { this.scheduleRefresh(); }
+            }),
+            watcher,
+            watcher.onDidCreate(() => this.scheduleRefresh()),
+            watcher.onDidDelete(() => this.scheduleRefresh()),
+            FileLineIdleSearchProcessor.getInstance().onDidCompleteScan(() => this.scheduleRefresh())
+        );
+    }
+
+    public getTreeItem(node: ObjectiveUsageNode): vscode.TreeItem {
+        if (node.kind === 'issue') {
+            const item = new vscode.TreeItem(ISSUES[node.issue].label, vscode.TreeItemCollapsibleState.Expanded);
+            item.description = `${this.issues!.get(node.issue)!.length} 个`;
+            item.iconPath = new vscode.ThemeIcon(node.issue === 'neverRead' ? 'info' : 'warning');
+            return item;
+        }
+
+        const { usage } = node;
+        const item = new vscode.TreeItem(usage.name, vscode.TreeItemCollapsibleState.None);
+        item.description = `定义 ${usage.definitions.length} · 读取 ${usage.reads.length} · 写入 ${usage.writes.length}`;
+        item.iconPath = new vscode.ThemeIcon('symbol-variable');
+        const location = [...usage.definitions, ...usage.reads, ...usage.writes, ...usage.others][0];
+        if (location) {
+            item.tooltip = `${vscode.workspace.asRelativePath(location.uri)}:${location.range.start.line + 1}`;
+            item.command = {
+                command: 'vscode.open',
+                title: '打开',
+                arguments: [location.uri, { selection: location.range }]
+            };
+        }
+        return item;
+    }
+
+    public getChildren(node?: ObjectiveUsageNode): ObjectiveUsageNode[] {
+        if (!this.issues) { return []; }
+        if (!node) {
+            return (Object.keys(ISSUES) as ObjectiveIssue[])
+                .filter(issue => this.issues!.has(issue))
+                .map(issue => ({ kind: 'issue', issue }));
+        }
+        if (node.kind === 'issue') {
+            return this.issues.get(node.issue)!.map(usage => ({ kind: 'objective', issue: node.issue, usage }));
+        }
+        return [];
+    }
+
+    /**
+     * 分析工作区的计分板使用情况，更新问题面板与视图
+     */
+    private async analyze(): Promise<void> {
+        if (!FileLineIdleSearchProcessor.isScanCompleted) {
+            vscode.window.showWarningMessage('函数索引未完成，请稍后再试');
+            return;
+        }
+        const analyzed = await vscode.window.withProgress(
+            { location: vscode.ProgressLocation.Window, title: '正在分析计分板使用情况' },
+            () => this.refresh()
+        );
+        await vscode.commands.executeCommand(`${ObjectiveUsageTreeProvider.VIEW_ID}.focus`);
+
+        const total = Array.from(this.issues!.values()).reduce((count, list) => count + list.length, 0);
+        vscode.window.showInformationMessage(
+            total ? `分析了 ${analyzed} 个计分板，发现 ${total} 个问题` : `分析了 ${analyzed} 个计分板，未发现问题`
+        );
+    }
+
+    /**
+     * 重新收集计分板使用情况并更新问题面板与视图
+     * @returns 分析的计分板数量
+     */
+    private async refresh(): Promise<number> {
+        const usages = await this.collectUsages();
+        this.issues = new Map();
+        for (const usage of usages.values()) {
+            const issue = this.getIssue(usage);
+            if (issue) {
+                this.issues.set(issue, [...this.issues.get(issue) ?? [], usage]);
+            }
+        }
+        this.issues.forEach(list => list.sort((a, b) => a.name.localeCompare(b.name)));
+        this.updateDiagnostics();
+        this.changeEmitter.fire();
+        return usages.size;
+    }
+
+    /**
+     * 分析过后，函数文件变化或重新扫描完成时延迟重新分析，避免问题面板保留过时的诊断
+     */
+    private scheduleRefresh(): void {
+        if (!this.issues) { return; }
+        if (this.refreshTimer) {
+            clearTimeout(this.refreshTimer);
+        }
+        this.refreshTimer = setTimeout(async () => {
+            this.refreshTimer = undefined;
+            if (!FileLineIdleSearchProcessor.isScanCompleted) { return; }
+            try {
+                await this.refresh();
+            } catch (error) {
+                console.error('计分板使用分析出错:', error);
+            }
+        }, ObjectiveUsageTreeProvider.REFRESH_DELAY);
+    }
+
+    /**
+     * 收集工作区中每个计分板的定义、读取与写入位置
+     */
+    private async collectUsages(): Promise<Map<string, ObjectiveUsage>> {
+        const usages = new Map<string, ObjectiveUsage>();
+        for (const uri of await MinecraftUtils.getAllFunctionPaths()) {
+            const document = await vscode.workspace.openTextDocument(uri);
+            for (let line = 0; line < document.lineCount; line++) {
+                const text = document.lineAt(line).text;
+                if (text.trim().startsWith('#') || !ObjectiveUsageTreeProvider.LINE_FILTER.test(text)) { continue; }
+                const parsed = DocumentManager.getInstance().getParsedLine(document, line);
+                for (const occurrence of ObjectiveReferences.collect(parsed)) {
+                    const usage = usages.get(occurrence.name) ?? { name: occurrence.name, definitions: [], reads: [], writes: [], others: [] };
+                    const location = new vscode.Location(uri, new vscode.Range(line, occurrence.start, line, occurrence.end));
+                    if (occurrence.definition) { usage.definitions.push(location); }
+                    if (occurrence.reads) { usage.reads.push(location); }
+                    if (occurrence.writes) { usage.writes.push(location); }
+                    if (!occurrence.definition && !occurrence.reads && !occurrence.writes) { usage.others.push(location); }
+                    usages.set(occurrence.name, usage);
+                }
+            }
+        }
+        return usages;
+    }
+
+    /**
+     * 判断计分板的使用问题
+     * 准则不是 dummy 的计分板由游戏（或玩家通过 trigger）写入，视为已写入
+     */
+    private getIssue(usage: ObjectiveUsage): ObjectiveIssue | undefined {
+        if (!usage.definitions.length) {
+            return 'undefined';
+        }
+        const criteria = FileLineIdleSearchProcessor.SCOREBOARDS.get(usage.name)?.[0];
+        const written = usage.writes.length > 0 || (criteria !== undefined && criteria !== 'dummy');
+        if (!usage.reads.length && !usage.writes.length) {
+            // 由游戏写入的计分板可能只在计分板侧边栏等处查看
+            return written ? undefined : 'unused';
+        }
+        if (!written) { return 'neverWritten'; }
+        if (!usage.reads.length) { return 'neverRead'; }
+        return undefined;
+    }
+
+    /**
+     * 将分析结果写入问题面板
+     */
+    private updateDiagnostics(): void {
+        const diagnostics = new Map<string, [vscode.Uri, vscode.Diagnostic[]]>();
+        this.issues!.forEach((usages, issue) => {
+            const { severity, sites, message } = ISSUES[issue];
+            if (severity === undefined || !sites) { return; }
+            for (const usage of usages) {
+                for (const location of sites(usage)) {
+                    const diagnostic = new vscode.Diagnostic(location.range, `计分板 "${usage.name}" ${message}`, severity);
+                    diagnostic.code = `objective${issue[0].toUpperCase()}${issue.slice(1)}`;
+                    const entry = diagnostics.get(location.uri.toString()) ?? [location.uri, []];
+                    entry[1].push(diagnostic);
+                    diagnostics.set(location.uri.toString(), entry);
+                }
+            }
+        });
+        this.diagnosticCollection.clear();
+        diagnostics.forEach(([uri, list]) => this.diagnosticCollection.set(uri, list));
+    }
+
+    public dispose(): void {
+        ObjectiveUsageTreeProvider.instance = undefined;
+        if (this.refreshTimer) {
+            clearTimeout(this.refreshTimer);
+        }
+        this.disposables.forEach(disposable => disposable.dispose());
+    }
+}
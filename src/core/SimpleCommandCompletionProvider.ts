@@ -0,0 +1,141 @@
+import * as vscode from 'vscode';
+import { MinecraftCommandCompletionProvider } from './CommandCompletionProvider';
+import { CommandRegistry } from './CommandRegistry';
+import { ParsedCommand } from './CommandParser';
+
+/**
+ * 简单命令的参数定义
+ * - options：固定取值（含数字ID等别名）
+ * - player：玩家名称
+ * - hint：仅给出参数占位提示
+ * - command：根命令名称（用于 help）
+ */
+type SimpleArgument =
+    | { kind: 'options', options: { name: string, desc: string }[], when?: string[] }
+    | { kind: 'player', when?: string[] }
+    | { kind: 'hint', label: string, desc: string, when?: string[] }
+    | { kind: 'command', when?: string[] };
+
+/**
+ * 简单命令定义
+ * args 按参数位置排列，when 表示仅当上一个参数为指定值时才补全
+ */
+interface SimpleCommandDefinition {
+    name: string;
+    args: SimpleArgument[];
+}
+
+const REASON_HINT: SimpleArgument = { kind: 'hint', label: '<reason>', desc: '原因（可选）' };
+
+/**
+ * 简单命令表
+ * 服务器管理与世界类命令，参数均为固定取值或单个名称
+ */
+const SIMPLE_COMMANDS: SimpleCommandDefinition[] = [
+    {
+        name: 'difficulty',
+        args: [{
+            kind: 'options', options: [
+                { name: 'peaceful', desc: '和平' }, { name: 'easy', desc: '简单' },
+                { name: 'normal', desc: '普通' }, { name: 'hard', desc: '困难' },
+                { name: '0', desc: '和平（数字ID）' }, { name: '1', desc: '简单（数字ID）' },
+                { name: '2', desc: '普通（数字ID）' }, { name: '3', desc: '困难（数字ID）' },
+                { name: 'p', desc: '和平（缩写）' }, { name: 'e', desc: '简单（缩写）' },
+                { name: 'n', desc: '普通（缩写）' }, { name: 'h', desc: '困难（缩写）' }
+            ]
+        }]
+    },
+    { name: 'seed', args: [] },
+    { name: 'reload', args: [] },
+    {
+        name: 'help',
+        args: [{ kind: 'command' }]
+    },
+    { name: 'kick', args: [{ kind: 'player' }, REASON_HINT] },
+    { name: 'op', args: [{ kind: 'player' }] },
+    { name: 'deop', args: [{ kind: 'player' }] },
+    { name: 'ban', args: [{ kind: 'player' }, REASON_HINT] },
+    { name: 'ban-ip', args: [{ kind: 'hint', label: '<address>', desc: 'IP地址或在线玩家名' }, REASON_HINT] },
+    { name: 'pardon', args: [{ kind: 'player' }] },
+    { name: 'pardon-ip', args: [{ kind: 'hint', label: '<address>', desc: 'IP地址' }] },
+    {
+        name: 'banlist',
+        args: [{
+            kind: 'options', options: [
+                { name: 'players', desc: '玩家封禁列表' },
+                { name: 'ips', desc: 'IP封禁列表' }
+            ]
+        }]
+    },
+    {
+        name: 'whitelist',
+        args: [
+            {
+                kind: 'options', options: [
+                    { name: 'on', desc: '开启白名单' }, { name: 'off', desc: '关闭白名单' },
+                    { name: 'list', desc: '列出白名单玩家' }, { name: 'reload', desc: '重新加载白名单' },
+                    { name: 'add', desc: '添加玩家' }, { name: 'remove', desc: '移除玩家' }
+                ]
+            },
+            { kind: 'player', when: ['add', 'remove'] }
+        ]
+    },
+    {
+        name: 'save-all',
+        args: [{ kind: 'options', options: [{ name: 'flush', desc: '立即将所有区块写入磁盘' }] }]
+    },
+    { name: 'save-on', args: [] },
+    { name: 'save-off', args: [] },
+    { name: 'setidletimeout', args: [{ kind: 'hint', label: '<minutes>', desc: '挂机多少分钟后踢出（0 为不限制）' }] }
+];
+
+/**
+ * 简单命令补全提供者
+ * 以 SIMPLE_COMMANDS 表驱动，为多个参数简单的命令共用同一个提供者
+ */
+export class SimpleCommandCompletionProvider extends MinecraftCommandCompletionProvider {
+    private static readonly definitions = new Map(SIMPLE_COMMANDS.map(def => [def.name, def]));
+
+    /**
+     * 将表中的所有命令注册到 CommandRegistry
+     */
+    public static registerAll(): void {
+        const provider = new SimpleCommandCompletionProvider();
+        SIMPLE_COMMANDS.forEach(def => CommandRegistry.register(def.name, provider));
+    }
+
+    public provideCommandCompletions(command: ParsedCommand): vscode.CompletionItem[] {
+        const definition = SimpleCommandCompletionProvider.definitions.get(command.name.toLowerCase());
+        if (!definition) { return []; }
+
+        // 当前正在输入的参数下标（不含命令名），末尾的文本参数只占一个节点
+        const argIndex = command.nodes.length - 2;
+        const arg = definition.args[argIndex];
+        if (!arg) { return []; }
+        if (arg.when && !arg.when.includes(command.previous?.value.toLowerCase() ?? '')) { return []; }
+
+        const nextArg = definition.args[argIndex + 1];
+        switch (arg.kind) {
+            case 'options':
+                return arg.options.map(option => {
+                    // 仅当该取值后还有参数时才追加空格并触发下一级补全
+                    const hasNext = !!nextArg && (!nextArg.when || nextArg.when.includes(option.name));
+                    return this.createCompletionItem(
+                        option.name,
+                        option.desc,
+                        option.name + (hasNext ? MinecraftCommandCompletionProvider.global_sufiix : ''),
+                        hasNext,
+                        vscode.CompletionItemKind.EnumMember
+                    );
+                });
+            case 'player':
+                return [this.createCompletionItem('<player>', '玩家名称', '', false, vscode.CompletionItemKind.Variable)];
+            case 'hint':
+                return [this.createCompletionItem(arg.label, arg.desc, '', false, vscode.CompletionItemKind.Value)];
+            case 'command':
+                return CommandRegistry.getRootCommands().map(command =>
+                    this.createCompletionItem(command, `查看 ${command} 的帮助`, command, false, vscode.CompletionItemKind.Function)
+                );
+        }
+    }
+}
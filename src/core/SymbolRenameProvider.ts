@@ -0,0 +1,110 @@
+import * as vscode from 'vscode';
+import { DocumentManager } from './DocumentManager';
+import { FileLineIdleSearchProcessor } from './FileLineIdleSearchProcessor';
+import { ObjectiveReferences } from './ObjectiveReferences';
+import { TagReferences } from './TagReferences';
+import { FileLineCorrection } from '../correction/FileLineCorrection';
+
+/** 可重命名的符号 */
+interface RenameTarget {
+    kind: 'objective' | 'tag';
+    name: string;
+    range: vscode.Range;
+}
+
+/**
+ * 计分板与实体标签的重命名
+ * 按语法位置定位引用（计分板参数、选择器 score_ 与 tag=、Tags NBT、JSON score 组件），不会误改同名的普通文本
+ */
+export class SymbolRenameProvider implements vscode.RenameProvider, vscode.Disposable {
+    private static instance: SymbolRenameProvider | undefined;
+    private readonly disposable: vscode.Disposable;
+
+    public static getInstance(): SymbolRenameProvider {
+        if (!SymbolRenameProvider.instance) {
+            SymbolRenameProvider.instance = new SymbolRenameProvider();
+        }
+        return SymbolRenameProvider.instance;
+    }
+
+    private constructor() {
+        this.disposable = vscode.languages.registerRenameProvider({ language: 'mcfunction' }, this);
+    }
+
+    public prepareRename(
+        document: vscode.TextDocument,
+        position: vscode.Position
+    ): { range: vscode.Range, placeholder: string } {
+        const target = this.findTarget(document, position);
+        if (!target) {
+            throw new Error('只能重命名计分板或实体标签');
+        }
+        return { range: target.range, placeholder: target.name };
+    }
+
+    public async provideRenameEdits(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        newName: string
+    ): Promise<vscode.WorkspaceEdit | undefined> {
+        const target = this.findTarget(document, position);
+        if (!target || newName === target.name) { return undefined; }
+        this.validateName(target.kind, newName);
+
+        const locations = target.kind === 'objective'
+            ? await ObjectiveReferences.findInWorkspace(target.name)
+            : await TagReferences.findInWorkspace(target.name);
+        const edit = new vscode.WorkspaceEdit();
+        locations.forEach(location => edit.replace(location.uri, location.range, newName));
+        return edit;
+    }
+
+    /**
+     * 查找光标处的计分板或标签
+     */
+    private findTarget(document: vscode.TextDocument, position: vscode.Position): RenameTarget | undefined {
+        const parsed = DocumentManager.getInstance().getParsedLine(document, position.line);
+        const toRange = (start: number, end: number) => new vscode.Range(position.line, start, position.line, end);
+
+        const objective = ObjectiveReferences.findAt(parsed, position.character);
+        if (objective) {
+            return { kind: 'objective', name: objective.name, range: toRange(objective.start, objective.end) };
+        }
+        const tag = TagReferences.findAt(parsed, position.character);
+        if (tag) {
+            return { kind: 'tag', name: tag.name, range: toRange(tag.start, tag.end) };
+        }
+        return undefined;
+    }
+
+    /**
+     * 校验新名称，不合法时抛出错误（由编辑器显示）
+     * 计分板名受 16 字符限制；标签名需能直接写在选择器与 NBT 中
+     */
+    private validateName(kind: RenameTarget['kind'], newName: string): void {
+        if (kind === 'objective') {
+            const maxLength = FileLineCorrection.MAX_SCOREBOARD_NAME_LENGTH;
+            if (!/^\S+$/.test(newName)) {
+                throw new Error('计分板名不能为空或包含空格');
+            }
+            if (newName.length > maxLength) {
+                throw new Error(`计分板名过长（${newName.length}字符），最大允许${maxLength}字符`);
+            }
+            if (FileLineIdleSearchProcessor.SCOREBOARDS.has(newName)) {
+                throw new Error(`计分板 "${newName}" 已存在`);
+            }
+            return;
+        }
+        if (!/^[A-Za-z0-9_.+-]+$/.test(newName)) {
+            throw new Error('标签名只能包含字母、数字与 _ . + -');
+        }
+        if (FileLineIdleSearchProcessor.TAGS.has(newName)) {
+            throw new Error(`标签 "${newName}" 已存在`);
+        }
+    }
+
+    public dispose(): void {
+        SymbolRenameProvider.instance = undefined;
+        this.disposable.dispose();
+    }
+}
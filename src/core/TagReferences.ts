@@ -0,0 +1,183 @@
+import * as vscode from 'vscode';
+import { ParsedCommand } from './CommandParser';
+import { DocumentManager } from './DocumentManager';
+import { MinecraftUtils } from '../utils/MinecraftUtils';
+import { SelectorParser } from '../utils/SelectorParser';
+import { JsonTextParser } from '../utils/JsonTextParser';
+import { JsonTextValidator } from '../utils/JsonTextValidator';
+import { NBTSchemas } from '../utils/NBTSchema';
+import { NBTNode, SNBTParser } from '../utils/SNBTParser';
+
+/**
+ * 行内的实体标签引用
+ * - add：scoreboard players tag add，以及 NBT 中会写入实体的 Tags（summon、entitydata 的实体，
+ *   刷怪笼 SpawnData/SpawnPotentials、刷怪蛋 EntityTag 等方块实体或物品中的实体）
+ * - remove：scoreboard players tag remove
+ * - test：选择器（含 JSON 文本 selector 组件）的 tag=、tag=!，以及 testfor 等命令中用于筛选实体的 Tags
+ */
+export interface TagOccurrence {
+    name: string;
+    /** 标签名在行文本中的起止列（end 不含） */
+    start: number;
+    end: number;
+    kind: 'add' | 'remove' | 'test';
+}
+
+/**
+ * 工作区中的标签引用位置
+ */
+export interface TagSite {
+    location: vscode.Location;
+    kind: TagOccurrence['kind'];
+}
+
+/** 根实体 NBT 会写入实体的命令（testfor、scoreboard players 的实体 NBT 用于筛选实体） */
+const ENTITY_WRITING_COMMANDS = ['summon', 'entitydata'];
+
+/**
+ * 实体标签引用查找
+ * 覆盖 scoreboard players tag 的标签参数、选择器与 JSON 文本 selector 组件的 tag= 参数、实体 NBT 中的 Tags 列表
+ */
+export class TagReferences {
+    private constructor() { }
+
+    /**
+     * 收集一行命令中的标签引用
+     * @param parsed 整行解析树
+     * @returns 标签引用
+     */
+    public static collect(parsed: ParsedCommand): TagOccurrence[] {
+        return parsed.chain().flatMap(command => this.collectCommand(command));
+    }
+
+    /**
+     * 收集单条命令（不含 execute 嵌套的子命令）中的标签引用
+     * @param command 命令解析树
+     * @returns 标签引用
+     */
+    public static collectCommand(command: ParsedCommand): TagOccurrence[] {
+        const occurrences: TagOccurrence[] = [];
+        // scoreboard players tag <target> add|remove <tag>
+        const removing = command.nodes.some(node => node.kind === 'literal' && node.name === 'remove');
+        for (const node of command.getArgumentsByType('tag')) {
+            if (!node.value) { continue; }
+            const kind = removing ? 'remove' : 'add';
+            occurrences.push({ name: node.value, start: node.start, end: node.end, kind });
+        }
+
+        for (const node of command.getArgumentsByType('selector')) {
+            this.collectSelectorTags(node.value, node.start, occurrences);
+        }
+
+        for (const node of command.getArgumentsByType('json')) {
+            const { root } = JsonTextParser.parse(node.value);
+            if (!root) { continue; }
+            for (const selector of JsonTextValidator.analyze(root).selectors) {
+                // 含转义字符的选择器无法直接对应到原文位置，跳过
+                const raw = node.value.slice(selector.start + 1, selector.end - 1);
+                if (raw !== selector.value) { continue; }
+                this.collectSelectorTags(raw, node.start + selector.start + 1, occurrences);
+            }
+        }
+
+        const spec = NBTSchemas.forCommand(command);
+        if (spec) {
+            // 根实体按命令区分写入与筛选，方块实体或物品 NBT 中的实体都会被生成，视为写入
+            const rootKind = spec.kind === 'entity' && !ENTITY_WRITING_COMMANDS.includes(command.name) ? 'test' : 'add';
+            for (const node of command.getArgumentsByType('nbt')) {
+                const { root } = SNBTParser.parse(node.value);
+                if (root) {
+                    this.collectNBTTags(node.value, root, node.start, rootKind, occurrences);
+                }
+            }
+        }
+        return occurrences;
+    }
+
+    /**
+     * 查找指定列上的标签引用
+     * @param parsed 整行解析树
+     * @param column 列号
+     * @returns 标签引用（不在标签名上时返回undefined）
+     */
+    public static findAt(parsed: ParsedCommand, column: number): TagOccurrence | undefined {
+        return this.collect(parsed).find(occurrence => occurrence.start <= column && column <= occurrence.end);
+    }
+
+    /**
+     * 查找工作区中指定标签的全部引用
+     * @param name 标签名
+     * @returns 引用位置
+     */
+    public static async findInWorkspace(name: string): Promise<vscode.Location[]> {
+        const locations: vscode.Location[] = [];
+        for (const uri of await MinecraftUtils.getAllFunctionPaths()) {
+            const document = await vscode.workspace.openTextDocument(uri);
+            for (let line = 0; line < document.lineCount; line++) {
+                // 先按文本粗筛，避免解析无关行
+                if (!document.lineAt(line).text.includes(name)) { continue; }
+                const parsed = DocumentManager.getInstance().getParsedLine(document, line);
+                for (const occurrence of this.collect(parsed)) {
+                    if (occurrence.name !== name) { continue; }
+                    locations.push(new vscode.Location(uri, new vscode.Range(line, occurrence.start, line, occurrence.end)));
+                }
+            }
+        }
+        return locations;
+    }
+
+    /**
+     * 收集选择器 tag= 参数中的标签
+     * @param text 选择器文本
+     * @param offset 选择器在行中的起始列
+     * @param occurrences 标签引用收集数组
+     */
+    private static collectSelectorTags(text: string, offset: number, occurrences: TagOccurrence[]): void {
+        for (const argument of SelectorParser.parse(text)?.arguments ?? []) {
+            // tag= 与 tag=! 不引用具体标签
+            if (argument.key !== 'tag' || !argument.value) { continue; }
+            occurrences.push({
+                name: argument.value,
+                start: offset + argument.valueStart,
+                end: offset + argument.valueEnd,
+                kind: 'test'
+            });
+        }
+    }
+
+    /**
+     * 递归收集 NBT 中 Tags 列表的标签
+     * 只有经 Passengers 嵌套的实体沿用根实体的引用类型，其余路径下的实体（SpawnData、EntityTag 等）均为写入
+     * @param text NBT 原文
+     * @param node 解析树节点
+     * @param offset NBT 在行中的起始列
+     * @param kind 当前节点所属实体的引用类型
+     * @param occurrences 标签引用收集数组
+     */
+    private static collectNBTTags(
+        text: string,
+        node: NBTNode,
+        offset: number,
+        kind: TagOccurrence['kind'],
+        occurrences: TagOccurrence[]
+    ): void {
+        for (const entry of node.entries ?? []) {
+            if (!entry.value) { continue; }
+            if (entry.key === 'Tags' && entry.value.type === 'list') {
+                for (const item of entry.value.items ?? []) {
+                    if (item.type !== 'string' || !item.value) { continue; }
+                    // 带引号的标签只取引号内的部分
+                    const quoted = text[item.start] === '"' || text[item.start] === "'";
+                    const start = offset + item.start + (quoted ? 1 : 0);
+                    occurrences.push({ name: item.value, start, end: start + item.value.length, kind });
+                }
+                continue;
+            }
+            const childKind = entry.key === 'Passengers' ? kind : 'add';
+            this.collectNBTTags(text, entry.value, offset, childKind, occurrences);
+        }
+        for (const item of node.items ?? []) {
+            this.collectNBTTags(text, item, offset, kind, occurrences);
+        }
+    }
+}
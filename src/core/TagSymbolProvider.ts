@@ -0,0 +1,64 @@
+import * as vscode from 'vscode';
+import { DocumentManager } from './DocumentManager';
+import { TagReferences } from './TagReferences';
+
+/**
+ * 实体标签的定义跳转与引用查找
+ * 标签的“定义”为添加标签的位置（scoreboard players tag add、summon 等写入的 Tags），
+ * 引用包括添加、移除与选择器 tag= 检测
+ */
+export class TagSymbolProvider implements vscode.DefinitionProvider, vscode.ReferenceProvider, vscode.Disposable {
+    private static instance: TagSymbolProvider | undefined;
+    private readonly disposables: vscode.Disposable[] = [];
+
+    public static getInstance(): TagSymbolProvider {
+        if (!TagSymbolProvider.instance) {
+            TagSymbolProvider.instance = new TagSymbolProvider();
+        }
+        return TagSymbolProvider.instance;
+    }
+
+    private constructor() {
+        const selector: vscode.DocumentSelector = { language: 'mcfunction' };
+        this.disposables.push(
+            vscode.languages.registerDefinitionProvider(selector, this),
+            vscode.languages.registerReferenceProvider(selector, this)
+        );
+    }
+
+    public provideDefinition(
+        document: vscode.TextDocument,
+        position: vscode.Position
+    ): vscode.Location[] | undefined {
+        const name = this.findTagAt(document, position);
+        if (!name) { return undefined; }
+        return DocumentManager.getInstance().getTagSites(name)
+            .filter(site => site.kind === 'add')
+            .map(site => site.location);
+    }
+
+    public provideReferences(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        context: vscode.ReferenceContext
+    ): vscode.Location[] {
+        const name = this.findTagAt(document, position);
+        if (!name) { return []; }
+        return DocumentManager.getInstance().getTagSites(name)
+            .filter(site => context.includeDeclaration || site.kind !== 'add')
+            .map(site => site.location);
+    }
+
+    /**
+     * 查找光标处的标签名
+     */
+    private findTagAt(document: vscode.TextDocument, position: vscode.Position): string | undefined {
+        const parsed = DocumentManager.getInstance().getParsedLine(document, position.line);
+        return TagReferences.findAt(parsed, position.character)?.name;
+    }
+
+    public dispose(): void {
+        TagSymbolProvider.instance = undefined;
+        this.disposables.forEach(disposable => disposable.dispose());
+    }
+}
@@ -0,0 +1,237 @@
+import * as vscode from 'vscode';
+import { DataLoader } from '../core/DataLoader';
+import { FileLineIdleSearchProcessor } from '../core/FileLineIdleSearchProcessor';
+import { ObjectiveReferences } from '../core/ObjectiveReferences';
+import { MinecraftUtils } from '../utils/MinecraftUtils';
+import { FileLineCorrection } from './FileLineCorrection';
+
+/**
+ * 命令诊断的快速修复
+ * - 函数不存在：在命名空间路径下创建函数文件，或改为相近的函数名
+ * - 计分板不存在：在选定的初始化函数中添加 scoreboard objectives add，或改为相近的计分板名
+ * - 计分板名过长：截断或重命名，并同步更新工作区中的全部引用
+ */
+export class CorrectionCodeActionProvider implements vscode.CodeActionProvider, vscode.Disposable {
+    private static instance: CorrectionCodeActionProvider | undefined;
+    private readonly disposables: vscode.Disposable[] = [];
+    /** 上次选择的初始化函数（再次添加计分板时排在首位） */
+    private lastInitFunction: vscode.Uri | undefined;
+
+    private static readonly ADD_OBJECTIVE_COMMAND = 'mcfunction.addObjectiveDefinition';
+    private static readonly RENAME_OBJECTIVE_COMMAND = 'mcfunction.renameObjective';
+
+    public static getInstance(): CorrectionCodeActionProvider {
+        if (!CorrectionCodeActionProvider.instance) {
+            CorrectionCodeActionProvider.instance = new CorrectionCodeActionProvider();
+        }
+        return CorrectionCodeActionProvider.instance;
+    }
+
+    private constructor() {
+        this.disposables.push(
+            vscode.languages.registerCodeActionsProvider(
+                { language: 'mcfunction' },
+                this,
+                { providedCodeActionKinds: [vscode.CodeActionKind.QuickFix] }
+            ),
+            vscode.commands.registerCommand(CorrectionCodeActionProvider.ADD_OBJECTIVE_COMMAND, this.addObjectiveDefinition, this),
+            vscode.commands.registerCommand(CorrectionCodeActionProvider.RENAME_OBJECTIVE_COMMAND, this.renameObjective, this)
+        );
+    }
+
+    public provideCodeActions(
+        document: vscode.TextDocument,
+        _range: vscode.Range | vscode.Selection,
+        context: vscode.CodeActionContext
+    ): vscode.CodeAction[] {
+        const ErrorType = FileLineCorrection.ErrorType;
+        const actions: vscode.CodeAction[] = [];
+        for (const diagnostic of context.diagnostics) {
+            const name = document.getText(diagnostic.range);
+            switch (diagnostic.code) {
+                case ErrorType.FunctionNotExists.id:
+                    actions.push(...this.createFunctionFixes(document, diagnostic, name));
+                    break;
+                case ErrorType.ScoreboardNotExists.id:
+                    actions.push(...this.createMissingObjectiveFixes(document, diagnostic, name));
+                    break;
+                case ErrorType.ScoreboardNameTooLong.id:
+                    actions.push(...this.createLongObjectiveFixes(diagnostic, name));
+                    break;
+            }
+        }
+        return actions;
+    }
+
+    /**
+     * 函数不存在：创建函数文件、改为相近的函数
+     */
+    private createFunctionFixes(document: vscode.TextDocument, diagnostic: vscode.Diagnostic, name: string): vscode.CodeAction[] {
+        const actions: vscode.CodeAction[] = [];
+        const uri = MinecraftUtils.buildFunctionUri(name);
+        if (uri) {
+            const action = this.createAction(`创建函数文件 ${vscode.workspace.asRelativePath(uri)}`, diagnostic);
+            action.edit = new vscode.WorkspaceEdit();
+            action.edit.createFile(uri, { ignoreIfExists: true });
+            action.command = { command: 'vscode.open', title: '打开函数文件', arguments: [uri] };
+            action.isPreferred = true;
+            actions.push(action);
+        }
+
+        // 函数路径形如 namespace/sub/func.mcfunction
+        const functions = DataLoader.getFunctionPaths().map(path => path.replace('/', ':').slice(0, -'.mcfunction'.length));
+        const normalized = name.includes(':') ? name : `minecraft:${name}`;
+        for (const similar of MinecraftUtils.findSimilarNames(normalized, functions)) {
+            actions.push(this.createReplaceAction(`改为 ${similar}`, document, diagnostic, similar));
+        }
+        return actions;
+    }
+
+    /**
+     * 计分板不存在：在初始化函数中创建、改为相近的计分板
+     */
+    private createMissingObjectiveFixes(document: vscode.TextDocument, diagnostic: vscode.Diagnostic, name: string): vscode.CodeAction[] {
+        const actions: vscode.CodeAction[] = [];
+        if (name.length <= FileLineCorrection.MAX_SCOREBOARD_NAME_LENGTH) {
+            const action = this.createAction(`在初始化函数中添加 scoreboard objectives add ${name} dummy`, diagnostic);
+            action.command = {
+                command: CorrectionCodeActionProvider.ADD_OBJECTIVE_COMMAND,
+                title: '添加计分板定义',
+                arguments: [name]
+            };
+            actions.push(action);
+        }
+
+        const objectives = FileLineIdleSearchProcessor.SCOREBOARDS.keys();
+        for (const similar of MinecraftUtils.findSimilarNames(name, objectives)) {
+            actions.push(this.createReplaceAction(`改为 ${similar}`, document, diagnostic, similar));
+        }
+        return actions;
+    }
+
+    /**
+     * 计分板名过长：截断、重命名（均同步更新工作区中的引用）
+     */
+    private createLongObjectiveFixes(diagnostic: vscode.Diagnostic, name: string): vscode.CodeAction[] {
+        const actions: vscode.CodeAction[] = [];
+        const truncated = name.slice(0, FileLineCorrection.MAX_SCOREBOARD_NAME_LENGTH);
+        if (!FileLineIdleSearchProcessor.SCOREBOARDS.has(truncated)) {
+            const action = this.createAction(`截断为 ${truncated} 并更新工作区中的引用`, diagnostic);
+            action.command = {
+                command: CorrectionCodeActionProvider.RENAME_OBJECTIVE_COMMAND,
+                title: '截断计分板名',
+                arguments: [name, truncated]
+            };
+            action.isPreferred = true;
+            actions.push(action);
+        }
+
+        const rename = this.createAction('重命名计分板并更新工作区中的引用...', diagnostic);
+        rename.command = {
+            command: CorrectionCodeActionProvider.RENAME_OBJECTIVE_COMMAND,
+            title: '重命名计分板',
+            arguments: [name]
+        };
+        actions.push(rename);
+        return actions;
+    }
+
+    /**
+     * 在选定的初始化函数中添加计分板定义
+     * 已定义过计分板的函数排在前面，插入到其最后一条 scoreboard objectives add 之后
+     * @param name 计分板名
+     */
+    private async addObjectiveDefinition(name: string): Promise<void> {
+        const definingFiles = new Set(
+            Array.from(FileLineIdleSearchProcessor.SCOREBOARDS.values()).map(([, , uri]) => uri.toString())
+        );
+        const rank = (uri: vscode.Uri) => uri.toString() === this.lastInitFunction?.toString() ? 0 : definingFiles.has(uri.toString()) ? 1 : 2;
+        const files = (await MinecraftUtils.getAllFunctionPaths()).sort((a, b) => rank(a) - rank(b));
+        if (!files.length) { return; }
+
+        const picked = await vscode.window.showQuickPick(
+            files.map(uri => ({
+                label: MinecraftUtils.buildFunctionCallByUri(uri) ?? vscode.workspace.asRelativePath(uri),
+                description: definingFiles.has(uri.toString()) ? '已有计分板定义' : rank(uri) === 0 ? '上次选择' : undefined,
+                uri
+            })),
+            { placeHolder: `选择添加计分板 ${name} 的初始化函数` }
+        );
+        if (!picked) { return; }
+        this.lastInitFunction = picked.uri;
+
+        const document = await vscode.workspace.openTextDocument(picked.uri);
+        const definition = `scoreboard objectives add ${name} dummy`;
+        let insertLine = -1;
+        for (let line = 0; line < document.lineCount; line++) {
+            if (/^\s*scoreboard\s+objectives\s+add\s/.test(document.lineAt(line).text)) {
+                insertLine = line;
+            }
+        }
+
+        const edit = new vscode.WorkspaceEdit();
+        if (insertLine !== -1) {
+            edit.insert(picked.uri, document.lineAt(insertLine).range.end, `\n${definition}`);
+        } else {
+            // 没有计分板定义时追加到文件末尾
+            const end = document.lineAt(document.lineCount - 1).range.end;
+            edit.insert(picked.uri, end, document.lineAt(document.lineCount - 1).text ? `\n${definition}` : definition);
+        }
+        await vscode.workspace.applyEdit(edit);
+        await this.recheckActiveDocument();
+        vscode.window.showInformationMessage(`已在 ${picked.label} 中添加计分板 ${name}`);
+    }
+
+    /**
+     * 重命名计分板并更新工作区中的全部引用
+     * @param oldName 原计分板名
+     * @param newName 新计分板名（未提供时弹出输入框）
+     */
+    private async renameObjective(oldName: string, newName?: string): Promise<void> {
+        const maxLength = FileLineCorrection.MAX_SCOREBOARD_NAME_LENGTH;
+        newName ??= await vscode.window.showInputBox({
+            prompt: `重命名计分板 ${oldName}`,
+            value: oldName.slice(0, maxLength),
+            validateInput: value => {
+                if (!/^\S+$/.test(value)) { return '计分板名不能为空或包含空格'; }
+                if (value.length > maxLength) { return `计分板名不能超过${maxLength}个字符`; }
+                if (value !== oldName && FileLineIdleSearchProcessor.SCOREBOARDS.has(value)) { return `计分板 ${value} 已存在`; }
+                return null;
+            }
+        });
+        if (!newName || newName === oldName) { return; }
+
+        const locations = await ObjectiveReferences.findInWorkspace(oldName);
+        const edit = new vscode.WorkspaceEdit();
+        locations.forEach(location => edit.replace(location.uri, location.range, newName!));
+        await vscode.workspace.applyEdit(edit);
+        await this.recheckActiveDocument();
+        vscode.window.showInformationMessage(`已将计分板 ${oldName} 重命名为 ${newName}，更新 ${locations.length} 处引用`);
+    }
+
+    /** 修复后重新检查当前文件（引用的计分板、函数可能已变为存在） */
+    private async recheckActiveDocument(): Promise<void> {
+        const document = vscode.window.activeTextEditor?.document;
+        if (document?.languageId === 'mcfunction') {
+            await FileLineCorrection.instance.checkCurrentFile(document);
+        }
+    }
+
+    private createAction(title: string, diagnostic: vscode.Diagnostic): vscode.CodeAction {
+        const action = new vscode.CodeAction(title, vscode.CodeActionKind.QuickFix);
+        action.diagnostics = [diagnostic];
+        return action;
+    }
+
+    private createReplaceAction(title: string, document: vscode.TextDocument, diagnostic: vscode.Diagnostic, text: string): vscode.CodeAction {
+        const action = this.createAction(title, diagnostic);
+        action.edit = new vscode.WorkspaceEdit();
+        action.edit.replace(document.uri, diagnostic.range, text);
+        return action;
+    }
+
+    public dispose(): void {
+        CorrectionCodeActionProvider.instance = undefined;
+        this.disposables.forEach(disposable => disposable.dispose());
+    }
+}
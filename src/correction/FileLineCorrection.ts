@@ -1,9 +1,17 @@
 import * as vscode from 'vscode';
-import { MainCompletionProvider } from "../core/MainCompletionProvider";
 import { MinecraftUtils } from '../utils/MinecraftUtils';
 import { DataLoader } from '../core/DataLoader';
 import { FileLineIdleSearchProcessor } from '../core/FileLineIdleSearchProcessor';
 import { DocumentManager } from '../core/DocumentManager';
+import { ParsedCommand, ParsedNode } from '../core/CommandParser';
+import { BlockDataValues, Enchantments, EntityNameList, ItemDataValues } from '../utils/EnumLib';
+import { SNBTParser } from '../utils/SNBTParser';
+import { NBTSchemas } from '../utils/NBTSchema';
+import { SelectorArgument, SelectorParser } from '../utils/SelectorParser';
+import { JsonTextParser } from '../utils/JsonTextParser';
+import { JsonTextValidator } from '../utils/JsonTextValidator';
+import { TagReferences } from '../core/TagReferences';
+import { FunctionCallGraph } from '../core/FunctionCallGraph';
 
 /**
  * .mcfunction 文件命令检查器
@@ -20,22 +28,22 @@ export class FileLineCorrection implements vscode.Disposable {
     private currentFilePath: string | null = null;
     // 诊断集合：用于在编辑器中显示错误
     private diagnosticCollection: vscode.DiagnosticCollection;
+    // 函数递归调用诊断：分布在循环经过的各个文件中，与当前文件的逐行诊断分开管理
+    private recursiveCallCollection: vscode.DiagnosticCollection;
     // 防抖定时器
     private debounceTimer: NodeJS.Timeout | null = null;
     // 防抖延迟（平衡响应速度与性能）
     private static readonly DEBOUNCE_DELAY = 300;
 
     // 常量配置
-    private static readonly MAX_SCOREBOARD_NAME_LENGTH = 16;
-    private static readonly COMMAND_PREFIXES = {
-        scoreObjAdd: 'scoreboard objectives add ',
-        scorePlayerAdd: 'scoreboard players add ',
-        scorePlayerSet: 'scoreboard players set ',
-        scorePlayerReset: 'scoreboard players reset ',
-        scorePlayerRemove: 'scoreboard players remove ',
-        scorePlayerOpe: 'scoreboard players operation ',
-        functionCall: 'function '
-    };
+    public static readonly MAX_SCOREBOARD_NAME_LENGTH = 16;
+    private static readonly MAX_CLONE_VOLUME = 32768;
+    /** playsound 音量、音调与最小音量的取值范围 */
+    private static readonly SOUND_ARGUMENT_RANGES = [
+        { name: 'volume', desc: '音量', min: 0, max: Infinity },
+        { name: 'pitch', desc: '音调', min: 0, max: 2 },
+        { name: 'minimumVolume', desc: '最小音量', min: 0, max: 1 }
+    ];
 
     /**
      * 错误类型定义（包含警告等级）
@@ -54,12 +62,70 @@ export class FileLineCorrection implements vscode.Disposable {
         ScoreboardNotExists: {
             id: 'scoreboardNotExists',
             severity: vscode.DiagnosticSeverity.Warning
+        },
+        InvalidArgument: {
+            id: 'invalidArgument',
+            severity: vscode.DiagnosticSeverity.Error
+        },
+        CloneVolumeTooLarge: {
+            id: 'cloneVolumeTooLarge',
+            severity: vscode.DiagnosticSeverity.Error
+        },
+        EnchantLevelTooHigh: {
+            id: 'enchantLevelTooHigh',
+            severity: vscode.DiagnosticSeverity.Error
+        },
+        InvalidBlockData: {
+            id: 'invalidBlockData',
+            severity: vscode.DiagnosticSeverity.Warning
+        },
+        InvalidItemData: {
+            id: 'invalidItemData',
+            severity: vscode.DiagnosticSeverity.Warning
+        },
+        NBTSyntaxError: {
+            id: 'nbtSyntaxError',
+            severity: vscode.DiagnosticSeverity.Error
+        },
+        NBTTypeMismatch: {
+            id: 'nbtTypeMismatch',
+            severity: vscode.DiagnosticSeverity.Warning
+        },
+        InvalidSelectorArgument: {
+            id: 'invalidSelectorArgument',
+            severity: vscode.DiagnosticSeverity.Error
+        },
+        TagNotExists: {
+            id: 'tagNotExists',
+            severity: vscode.DiagnosticSeverity.Warning
+        },
+        TagNeverTested: {
+            id: 'tagNeverTested',
+            severity: vscode.DiagnosticSeverity.Warning
+        },
+        JsonSyntaxError: {
+            id: 'jsonSyntaxError',
+            severity: vscode.DiagnosticSeverity.Error
+        },
+        InvalidJsonText: {
+            id: 'invalidJsonText',
+            severity: vscode.DiagnosticSeverity.Error
+        },
+        IgnoredJsonText: {
+            id: 'ignoredJsonText',
+            severity: vscode.DiagnosticSeverity.Warning
+        },
+        RecursiveFunctionCall: {
+            id: 'recursiveFunctionCall',
+            severity: vscode.DiagnosticSeverity.Warning
         }
     } as const;
 
     /**
      * 命令检查器配置
      * 统一管理所有命令的检查逻辑，便于扩展新命令
+     * 一条命令会执行所有前缀匹配的检查器（如 clone 同时检查数据值与复制体积），
+     * 因此同一检查器登记的前缀不能互相包含，否则同一处问题会被重复报告
      */
     private readonly commandCheckers = [
         {
@@ -90,11 +156,83 @@ export class FileLineCorrection implements vscode.Disposable {
         {
             commandPrefix: ['scoreboard', 'players', 'operation'],
             checker: this.checkScoreboardExists.bind(this)
+        },
+        {
+            commandPrefix: ['testforblock'],
+            checker: this.checkBlockDataValue.bind(this)
+        },
+        {
+            commandPrefix: ['setblock'],
+            checker: this.checkBlockDataValue.bind(this)
+        },
+        {
+            commandPrefix: ['fill'],
+            checker: this.checkBlockDataValue.bind(this)
+        },
+        {
+            commandPrefix: ['execute'],
+            checker: this.checkBlockDataValue.bind(this)
+        },
+        {
+            commandPrefix: ['clone'],
+            checker: this.checkBlockDataValue.bind(this)
+        },
+        {
+            commandPrefix: ['testforblocks'],
+            checker: this.checkLiteralOptions.bind(this)
+        },
+        {
+            commandPrefix: ['clone'],
+            checker: this.checkCloneVolume.bind(this)
+        },
+        {
+            commandPrefix: ['enchant'],
+            checker: this.checkEnchantLevel.bind(this)
+        },
+        {
+            commandPrefix: ['playsound'],
+            checker: this.checkSoundArguments.bind(this)
+        },
+        {
+            commandPrefix: ['give'],
+            checker: this.checkItemStack.bind(this)
+        },
+        {
+            commandPrefix: ['clear'],
+            checker: this.checkItemStack.bind(this)
+        },
+        {
+            commandPrefix: ['replaceitem'],
+            checker: this.checkItemStack.bind(this)
+        },
+        ...['summon', 'entitydata', 'testfor', 'blockdata', 'testforblock', 'setblock', 'fill', 'give', 'clear', 'replaceitem', 'scoreboard']
+            .map(command => ({
+                commandPrefix: [command],
+                checker: this.checkNBT.bind(this)
+            })),
+        {
+            commandPrefix: ['tellraw'],
+            checker: this.checkJsonText.bind(this)
+        },
+        {
+            commandPrefix: ['title'],
+            checker: this.checkJsonText.bind(this)
+        },
+        {
+            // 所有命令的选择器参数
+            commandPrefix: [],
+            checker: this.checkSelectorArguments.bind(this)
+        },
+        {
+            // 所有命令中标签的添加与检测
+            commandPrefix: [],
+            checker: this.checkTagUsage.bind(this)
         }
     ] as const;
 
     private constructor() {
         this.diagnosticCollection = vscode.languages.createDiagnosticCollection('mcfunction-command-check');
+        this.recursiveCallCollection = vscode.languages.createDiagnosticCollection('mcfunction-recursive-call');
         this.initialize();
     }
 
@@ -121,9 +259,14 @@ export class FileLineCorrection implements vscode.Disposable {
                 }
                 // 更新诊断显示
                 this.updateDiagnosticsForCurrentFile();
+                // 调用关系可能变化，重新检查递归调用
+                await this.checkRecursiveCalls();
             });
         });
 
+        // 全量扫描完成后调用关系才完整
+        FileLineIdleSearchProcessor.getInstance().onDidCompleteScan(() => this.checkRecursiveCalls());
+
         // 文档关闭事件
         vscode.workspace.onDidCloseTextDocument(doc => {
             if (doc.languageId === 'mcfunction' && this.currentFilePath === doc.uri.fsPath) {
@@ -238,71 +381,29 @@ export class FileLineCorrection implements vscode.Disposable {
             return;
         }
 
-        // 提取命令并找到活跃命令片段（处理嵌套命令）
-        const commandTokens = DocumentManager.getInstance().getCommandSegments(document, lineNumber);
-        const activeCommand = MainCompletionProvider.instance.findActiveCommand(commandTokens);
-
-        // 空安全处理：活跃命令不存在则返回
-        if (!activeCommand?.currentCommands.length) {
-            this.updateLineErrors(lineNumber, errors);
-            return;
-        }
-
-        // 查找匹配的命令检查器
-        const matchedChecker = this.commandCheckers.find(({ commandPrefix }) =>
-            this.isCommandMatch(activeCommand.currentCommands, commandPrefix)
-        );
+        // 获取整行解析树，逐层检查命令（处理 execute 嵌套命令）
+        const parsed = DocumentManager.getInstance().getParsedLine(document, lineNumber);
+        for (const command of parsed.chain()) {
+            // 执行所有匹配的命令检查器（不同检查器负责不同的问题，不会重复报告）
+            const matchedCheckers = this.commandCheckers.filter(({ commandPrefix }) =>
+                command.matches(...commandPrefix)
+            );
 
-        if (matchedChecker) {
-            // 执行检查逻辑
-            await matchedChecker.checker(lineText, activeCommand.currentCommands, errors);
+            for (const { checker } of matchedCheckers) {
+                await checker(command, errors);
+            }
         }
 
         this.updateLineErrors(lineNumber, errors);
     }
 
     /**
-     * 检查命令是否匹配前缀
-     * @param command 待检查的命令片段
-     * @param prefix 命令前缀
-     * @returns 是否匹配
-     */
-    private isCommandMatch(command: readonly string[] | string[], prefix: readonly string[] | string[]): boolean {
-        // 命令长度不足前缀长度，直接不匹配
-        if (command.length < prefix.length) {return false;}
-
-        // 忽略大小写匹配每个前缀部分
-        return prefix.every((part, index) =>
-            command[index].toLowerCase() === part.toLowerCase()
-        );
-    }
-
-
-    /**
-     * 计算参数在原始行文本中的位置范围
-     * @param lineText 原始行文本
-     * @param commandPrefix 命令前缀
-     * @param paramValue 参数值
+     * 获取解析树节点在行文本中的位置范围
+     * @param node 解析树节点
      * @returns 位置范围 [起始索引, 长度]
      */
-    private calculateParamRange(
-        lineText: string,
-        commandPrefix: string,
-        paramValue: string
-    ): [number, number] | null {
-        // 查找命令前缀位置（忽略前导空格）
-        const prefixIndex = lineText.indexOf(commandPrefix);
-        if (prefixIndex === -1) {return null;}
-
-        // 计算参数起始位置
-        const paramStart = prefixIndex + commandPrefix.length;
-        // 查找参数值在文本中的位置（处理可能的空格）
-        const paramValueIndex = lineText.indexOf(paramValue, paramStart);
-
-        // 未找到参数或参数位置异常
-        if (paramValueIndex === -1 || paramValueIndex < paramStart) {return null;}
-
-        return [paramValueIndex, paramValue.length];
+    private getNodeRange(node: ParsedNode): [number, number] {
+        return [node.start, node.end - node.start];
     }
 
     /**
@@ -383,35 +484,25 @@ export class FileLineCorrection implements vscode.Disposable {
 
     /**
      * 检查计分板名称长度
-     * @param lineText 行文本
-     * @param commandParts 命令片段
+     * @param command 命令解析树
      * @param errors 错误收集数组
      */
     private checkScoreboardNameLength(
-        lineText: string,
-        commandParts: string[],
+        command: ParsedCommand,
         errors: CorrectionError[]
     ): void {
         if (!DataLoader.getConfig()['check-scoreboard-length']) {return;}
-        // 验证命令参数完整性
-        if (commandParts.length < 4) { return; }
+        const objectiveNode = command.getArgument('objective');
+        if (!objectiveNode) { return; }
 
-        const objectiveName = commandParts[3];
+        const objectiveName = objectiveNode.value;
         // 检查名称长度
         if (objectiveName.length <= FileLineCorrection.MAX_SCOREBOARD_NAME_LENGTH) { return; }
 
-        // 计算错误范围（精准定位名称位置）
-        const range = this.calculateParamRange(
-            lineText,
-            FileLineCorrection.COMMAND_PREFIXES.scoreObjAdd,
-            objectiveName
-        );
-        if (!range) { return; }
-
         errors.push({
             type: FileLineCorrection.ErrorType.ScoreboardNameTooLong,
             message: `计分板名称过长（${objectiveName.length}字符），最大允许${FileLineCorrection.MAX_SCOREBOARD_NAME_LENGTH}字符`,
-            range,
+            range: this.getNodeRange(objectiveNode),
             suggestions: [
                 `缩短至${FileLineCorrection.MAX_SCOREBOARD_NAME_LENGTH}字符以内`,
                 `使用缩写: "${objectiveName.substring(0, FileLineCorrection.MAX_SCOREBOARD_NAME_LENGTH)}..."`
@@ -421,37 +512,26 @@ export class FileLineCorrection implements vscode.Disposable {
 
     /**
      * 检查函数是否存在
-     * @param lineText 行文本
-     * @param commandParts 命令片段
+     * @param command 命令解析树
      * @param errors 错误收集数组
      */
     private async checkFunctionExists(
-        lineText: string,
-        commandParts: string[],
+        command: ParsedCommand,
         errors: CorrectionError[]
     ): Promise<void> {
         if (!DataLoader.getConfig()['check-data-exists']) {return;}
-        // 验证命令参数完整性
-        if (commandParts.length < 2) { return; }
-
-        const functionName = commandParts[1];
+        const functionNode = command.getArgument('function');
         // 检查函数是否存在
-        if (!functionName) {return;}
+        if (!functionNode?.value) {return;}
+
+        const functionName = functionNode.value;
         const exists = await MinecraftUtils.isFunctionExists(functionName);
         if (exists) { return; }
 
-        // 计算错误范围（精准定位函数名位置）
-        const range = this.calculateParamRange(
-            lineText,
-            FileLineCorrection.COMMAND_PREFIXES.functionCall,
-            functionName
-        );
-        if (!range) { return; }
-
         errors.push({
             type: FileLineCorrection.ErrorType.FunctionNotExists,
             message: `函数 "${functionName}" 不存在`,
-            range,
+            range: this.getNodeRange(functionNode),
             suggestions: [
                 `检查函数名拼写`,
                 `确保文件存在于对应目录（data/functions/...）`
@@ -459,119 +539,595 @@ export class FileLineCorrection implements vscode.Disposable {
         });
     }
 
+    /**
+     * 检查工作区中的函数递归调用（全局扫描完成后）
+     * 1.12.2 中递归调用会一直执行到 maxCommandChainLength，截断本刻剩余的命令；
+     * 带 if/unless 的条件调用同样计入。循环经过的每一处调用都会给出警告，相关信息中列出整个循环，
+     * 每次重新计算都会替换全部旧诊断，循环在任一文件中被打破后警告随之清除
+     */
+    public async checkRecursiveCalls(): Promise<void> {
+        if (!FileLineIdleSearchProcessor.isScanCompleted) { return; }
+        const nameOf = (uri: vscode.Uri) => MinecraftUtils.buildFunctionCallByUri(uri) ?? vscode.workspace.asRelativePath(uri);
+        const diagnostics = new Map<string, [vscode.Uri, vscode.Diagnostic[]]>();
+
+        for (const cycle of FunctionCallGraph.findRecursiveCalls()) {
+            const [call] = cycle;
+            const document = await vscode.workspace.openTextDocument(call.caller);
+            if (call.line >= document.lineCount) { continue; }
+            const command = DocumentManager.getInstance().getParsedLine(document, call.line).chain()
+                .find(item => item.getArgument('function')?.value);
+            if (!command) { continue; }
+
+            const functionNode = command.getArgument('function')!;
+            const range = new vscode.Range(call.line, functionNode.start, call.line, functionNode.end);
+            const names = [call.caller, ...cycle.map(step => step.callee)].map(nameOf).join(' → ');
+            const conditional = command.nodes.some(node => node.kind === 'literal' && (node.name === 'if' || node.name === 'unless'));
+            const diagnostic = new vscode.Diagnostic(
+                range,
+                `函数递归调用：${names}` + (conditional ? '（条件持续满足时同样会无限递归）' : ''),
+                FileLineCorrection.ErrorType.RecursiveFunctionCall.severity
+            );
+            diagnostic.code = FileLineCorrection.ErrorType.RecursiveFunctionCall.id;
+            diagnostic.relatedInformation = [
+                new vscode.DiagnosticRelatedInformation(
+                    new vscode.Location(call.caller, range),
+                    '递归次数达到 maxCommandChainLength 后，本刻剩余的命令将被截断'
+                ),
+                ...cycle.slice(1).map(step => new vscode.DiagnosticRelatedInformation(
+                    new vscode.Location(step.caller, new vscode.Range(step.line, 0, step.line, 0)),
+                    `${nameOf(step.caller)} 第 ${step.line + 1} 行调用 ${nameOf(step.callee)}`
+                ))
+            ];
+
+            const entry = diagnostics.get(call.caller.toString()) ?? [call.caller, []];
+            entry[1].push(diagnostic);
+            diagnostics.set(call.caller.toString(), entry);
+        }
+
+        this.recursiveCallCollection.clear();
+        diagnostics.forEach(([uri, list]) => this.recursiveCallCollection.set(uri, list));
+    }
 
+    /**
+     * 检查计分板是否已创建
+     * players add/remove/set/reset 检查目标计分板，operation 检查两侧计分板
+     * @param command 命令解析树
+     * @param errors 错误收集数组
+     */
     private checkScoreboardExists(
-        lineText: string,
-        commandParts: string[],
+        command: ParsedCommand,
         errors: CorrectionError[]
     ): void {
         if (!DataLoader.getConfig()['check-data-exists']) {return;}
-        if (commandParts.length < 5) { return; }
-        if (['add', 'remove', 'set','reset'].includes(commandParts[2])) {
-            const scoreboardName = commandParts[4];
-            if (!FileLineIdleSearchProcessor.SCOREBOARDS.has(scoreboardName)) {
-                if (!FileLineIdleSearchProcessor.isScanCompleted) {
-                    return;
-                }
-                let range;
-                if (commandParts[2] === 'add') {
-                    range = this.calculateParamRange(
-                        lineText,
-                        FileLineCorrection.COMMAND_PREFIXES.scorePlayerAdd,
-                        scoreboardName
-                    );
-                }
-                else if (commandParts[2] === 'remove') {
-                    range = this.calculateParamRange(
-                        lineText,
-                        FileLineCorrection.COMMAND_PREFIXES.scorePlayerRemove,
-                        scoreboardName
-                    );
-                }
-                else if (commandParts[2] === 'set') {
-                    range = this.calculateParamRange(
-                        lineText,
-                        FileLineCorrection.COMMAND_PREFIXES.scorePlayerSet,
-                        scoreboardName
-                    );
-                }
-                else if (commandParts[2] === 'reset') {
-                    range = this.calculateParamRange(
-                        lineText,
-                        FileLineCorrection.COMMAND_PREFIXES.scorePlayerReset,
-                        scoreboardName
-                    );
-                }
-                if (!range) {
-                    return;
-                }
+        // 全局扫描未完成时计分板集合不完整，跳过检查避免误报
+        if (!FileLineIdleSearchProcessor.isScanCompleted) {return;}
+
+        const objectiveNodes = [command.getArgument('objective'), command.getArgument('sourceObjective')];
+        for (const objectiveNode of objectiveNodes) {
+            if (!objectiveNode?.value) { continue; }
+            const scoreboardName = objectiveNode.value;
+            if (FileLineIdleSearchProcessor.SCOREBOARDS.has(scoreboardName)) { continue; }
+
+            errors.push({
+                type: FileLineCorrection.ErrorType.ScoreboardNotExists,
+                message: `计分板 "${scoreboardName}" 不存在`,
+                range: this.getNodeRange(objectiveNode),
+                suggestions: [
+                    '检查计分板名拼写',
+                    '确保记分板已被正确创建'
+                ]
+            });
+            // 每条命令只报告第一个不存在的计分板
+            return;
+        }
+    }
+
+
+
+    /**
+     * 检查方块数据值
+     * 已收录于数据值表的方块按表校验，其余方块只校验 0~15 范围
+     * -1 表示匹配任意数据值，setblock 与 fill 的放置数据值不允许使用
+     * @param command 命令解析树
+     * @param errors 错误收集数组
+     */
+    private checkBlockDataValue(
+        command: ParsedCommand,
+        errors: CorrectionError[]
+    ): void {
+        const allowWildcard = !command.matches('setblock') && !command.matches('fill');
+        for (const [blockNode, dataNode] of command.getBlockDataPairs()) {
+            if (!dataNode.value) { continue; }
+            // fill 的 replaceData 用于匹配被替换方块，允许 -1
+            const wildcard = allowWildcard || dataNode.name !== 'data';
+            const data = Number(dataNode.value);
+            if (wildcard && data === -1) { continue; }
+
+            const minData = wildcard ? -1 : 0;
+            if (!Number.isInteger(data) || data < minData || data > 15) {
                 errors.push({
-                    type: FileLineCorrection.ErrorType.ScoreboardNotExists,
-                    message: `计分板 "${scoreboardName}" 不存在`,
-                    range,
-                    suggestions: [
-                        '检查计分板名拼写',
-                        '确保记分板已被正确创建'
-                    ]
+                    type: FileLineCorrection.ErrorType.InvalidArgument,
+                    message: `方块数据值 "${dataNode.value}" 无效，应为 ${minData}~15 的整数`,
+                    range: this.getNodeRange(dataNode),
+                    suggestions: wildcard ? ['使用 -1 匹配任意数据值'] : []
                 });
+                continue;
             }
+
+            const values = BlockDataValues.get(blockNode.value);
+            if (!values || values[String(data)]) { continue; }
+            errors.push({
+                type: FileLineCorrection.ErrorType.InvalidBlockData,
+                message: `方块 "${blockNode.value}" 没有数据值 ${data}，可选值：${Object.keys(values).join('、')}`,
+                range: this.getNodeRange(dataNode),
+                suggestions: Object.entries(values).slice(0, 5).map(([value, desc]) => `${value}：${desc}`)
+            });
         }
-        else if (commandParts[2] === 'operation' && commandParts.length >= 7 && FileLineIdleSearchProcessor.isScanCompleted) {
-            const scoreboardName_pre = commandParts[4];
-            const scoreboardName_suf = commandParts[7];
-            if (!FileLineIdleSearchProcessor.SCOREBOARDS.has(scoreboardName_pre)) {
-                let range;
-                range = this.calculateParamRange(
-                    lineText,
-                    FileLineCorrection.COMMAND_PREFIXES.scorePlayerOpe,
-                    scoreboardName_pre
-                );
-                if (!range) {
-                    return;
-                }
+    }
+
+    /**
+     * 检查只接受固定字面量的参数（如 testforblocks 的 all|masked）
+     * 解析树中未识别的节点若其前一节点只允许字面量，则报告可选值
+     * @param command 命令解析树
+     * @param errors 错误收集数组
+     */
+    private checkLiteralOptions(
+        command: ParsedCommand,
+        errors: CorrectionError[]
+    ): void {
+        const index = command.nodes.findIndex(node => node.kind === 'unknown');
+        if (index <= 0 || !command.nodes[index].value) { return; }
+
+        const options = command.nodes[index - 1].grammar?.children ?? [];
+        if (!options.length || options.some(option => option.kind !== 'literal')) { return; }
+
+        const node = command.nodes[index];
+        errors.push({
+            type: FileLineCorrection.ErrorType.InvalidArgument,
+            message: `无效的参数 "${node.value}"，可选值：${options.map(option => option.name).join('、')}`,
+            range: this.getNodeRange(node)
+        });
+    }
+
+    /**
+     * 检查 clone 源区域体积
+     * 仅当源区域六个坐标均为绝对坐标时才能确定体积
+     * @param command 命令解析树
+     * @param errors 错误收集数组
+     */
+    private checkCloneVolume(
+        command: ParsedCommand,
+        errors: CorrectionError[]
+    ): void {
+        const cornerNodes = ['x1', 'y1', 'z1', 'x2', 'y2', 'z2'].map(name => command.getArgument(name));
+        if (cornerNodes.some(node => !node || !node.value || node.value.startsWith('~'))) { return; }
+
+        const values = cornerNodes.map(node => Number(node!.value));
+        if (values.some(value => Number.isNaN(value))) { return; }
+
+        const [x1, y1, z1, x2, y2, z2] = values.map(Math.floor);
+        const volume = (Math.abs(x2 - x1) + 1) * (Math.abs(y2 - y1) + 1) * (Math.abs(z2 - z1) + 1);
+        if (volume <= FileLineCorrection.MAX_CLONE_VOLUME) { return; }
+
+        const start = cornerNodes[0]!.start;
+        errors.push({
+            type: FileLineCorrection.ErrorType.CloneVolumeTooLarge,
+            message: `复制区域过大（${volume}个方块），最大允许${FileLineCorrection.MAX_CLONE_VOLUME}个方块`,
+            range: [start, cornerNodes[5]!.end - start],
+            suggestions: ['将区域拆分为多条 clone 命令']
+        });
+    }
+
+    /**
+     * 检查附魔等级是否超过该附魔的最高等级
+     * @param command 命令解析树
+     * @param errors 错误收集数组
+     */
+    private checkEnchantLevel(
+        command: ParsedCommand,
+        errors: CorrectionError[]
+    ): void {
+        const enchantmentNode = command.getArgument('enchantment');
+        const levelNode = command.getArgument('level');
+        if (!enchantmentNode?.value || !levelNode?.value) { return; }
+
+        const enchantment = Enchantments.find(enchantmentNode.value);
+        const level = Number(levelNode.value);
+        if (!enchantment || !Number.isInteger(level) || level <= enchantment.maxLevel) { return; }
+
+        errors.push({
+            type: FileLineCorrection.ErrorType.EnchantLevelTooHigh,
+            message: `附魔 "${enchantment.desc}" 的等级 ${level} 超过最高等级 ${enchantment.maxLevel}`,
+            range: this.getNodeRange(levelNode),
+            suggestions: [`使用 1~${enchantment.maxLevel} 之间的等级`]
+        });
+    }
+
+    /**
+     * 检查 playsound 的音量、音调与最小音量是否在取值范围内
+     * 音量不小于 0，音调为 0.0~2.0，最小音量为 0.0~1.0
+     * @param command 命令解析树
+     * @param errors 错误收集数组
+     */
+    private checkSoundArguments(
+        command: ParsedCommand,
+        errors: CorrectionError[]
+    ): void {
+        for (const { name, desc, min, max } of FileLineCorrection.SOUND_ARGUMENT_RANGES) {
+            const node = command.getArgument(name);
+            if (!node?.value) { continue; }
+            const value = Number(node.value);
+            if (Number.isNaN(value) || (value >= min && value <= max)) { continue; }
+
+            const expected = max === Infinity ? `不小于 ${min.toFixed(1)}` : `为 ${min.toFixed(1)}~${max.toFixed(1)}`;
+            errors.push({
+                type: FileLineCorrection.ErrorType.InvalidArgument,
+                message: `${desc} ${node.value} 超出取值范围，应${expected}`,
+                range: this.getNodeRange(node)
+            });
+        }
+    }
+
+    /**
+     * 检查物品数量与数据值
+     * 数量应为 1~64，replaceitem 超过物品最大堆叠数时给出警告；
+     * 有耐久的物品数据值为损耗值，不应超过耐久度；有变种的物品数据值应为已知变种
+     * clear 的数据值允许 -1 匹配任意数据值
+     * @param command 命令解析树
+     * @param errors 错误收集数组
+     */
+    private checkItemStack(
+        command: ParsedCommand,
+        errors: CorrectionError[]
+    ): void {
+        const itemNode = command.getArgument('item');
+        if (!itemNode?.value) { return; }
+
+        const amountNode = command.getArgument('amount');
+        if (amountNode?.value) {
+            const amount = Number(amountNode.value);
+            const maxStackSize = ItemDataValues.getMaxStackSize(itemNode.value);
+            if (!Number.isInteger(amount) || amount < 1 || amount > 64) {
                 errors.push({
-                    type: FileLineCorrection.ErrorType.ScoreboardNotExists,
-                    message: `计分板 "${scoreboardName_pre}" 不存在`,
-                    range,
-                    suggestions: [
-                        '检查计分板名拼写',
-                        '确保记分板已被正确创建' 
-                    ]
+                    type: FileLineCorrection.ErrorType.InvalidArgument,
+                    message: `物品数量 "${amountNode.value}" 无效，应为 1~64 的整数`,
+                    range: this.getNodeRange(amountNode)
+                });
+            } else if (command.matches('replaceitem') && amount > maxStackSize) {
+                errors.push({
+                    type: FileLineCorrection.ErrorType.InvalidItemData,
+                    message: `物品 "${itemNode.value}" 最大堆叠数为 ${maxStackSize}，数量 ${amount} 将产生超量堆叠`,
+                    range: this.getNodeRange(amountNode),
+                    suggestions: [`使用 1~${maxStackSize} 之间的数量`]
                 });
+            }
+        }
+
+        const dataNode = command.getArgument('data');
+        if (!dataNode?.value) { return; }
+        const data = Number(dataNode.value);
+        if (!Number.isInteger(data) || (command.matches('clear') && data === -1)) { return; }
+
+        const maxDamage = ItemDataValues.getMaxDamage(itemNode.value);
+        if (maxDamage !== undefined) {
+            if (data >= 0 && data <= maxDamage) { return; }
+            errors.push({
+                type: FileLineCorrection.ErrorType.InvalidItemData,
+                message: `物品 "${itemNode.value}" 的耐久度为 ${maxDamage}，损耗值 ${data} 超出范围`,
+                range: this.getNodeRange(dataNode),
+                suggestions: [`使用 0~${maxDamage} 之间的损耗值`]
+            });
+            return;
+        }
+
+        const values = ItemDataValues.get(itemNode.value);
+        if (!values || values[String(data)]) { return; }
+        errors.push({
+            type: FileLineCorrection.ErrorType.InvalidItemData,
+            message: `物品 "${itemNode.value}" 没有数据值 ${data}，可选值：${Object.keys(values).join('、')}`,
+            range: this.getNodeRange(dataNode),
+            suggestions: Object.entries(values).slice(0, 5).map(([value, desc]) => `${value}：${desc}`)
+        });
+    }
 
+    /**
+     * 检查 NBT 参数的语法与已知键的值类型
+     * @param command 命令解析树
+     * @param errors 错误收集数组
+     */
+    private checkNBT(
+        command: ParsedCommand,
+        errors: CorrectionError[]
+    ): void {
+        for (const node of command.getArgumentsByType('nbt')) {
+            if (!node.value) { continue; }
+            const { root, errors: syntaxErrors } = SNBTParser.parse(node.value);
+            const toRange = (start: number, end: number): [number, number] => {
+                // 零长度的错误（如未闭合）标记在最后一个字符上
+                const from = end > start ? start : Math.max(0, start - 1);
+                return [node.start + from, Math.max(end - from, 1)];
+            };
+
+            // 语法错误时类型检查意义不大，只报告语法错误
+            if (syntaxErrors.length) {
+                syntaxErrors.forEach(error => errors.push({
+                    type: FileLineCorrection.ErrorType.NBTSyntaxError,
+                    message: `NBT 语法错误：${error.message}`,
+                    range: toRange(error.start, error.end)
+                }));
+                continue;
             }
-            else if (!FileLineIdleSearchProcessor.SCOREBOARDS.has(scoreboardName_suf)) {
-                let range;
-                range = this.calculateParamRange(
-                    lineText,
-                    FileLineCorrection.COMMAND_PREFIXES.scorePlayerOpe,
-                    scoreboardName_suf
+
+            const spec = NBTSchemas.forCommand(command);
+            if (!spec) { continue; }
+            NBTSchemas.validate(spec, root).forEach(error => errors.push({
+                type: FileLineCorrection.ErrorType.NBTTypeMismatch,
+                message: `NBT 类型不匹配：${error.message}`,
+                range: toRange(error.start, error.end)
+            }));
+
+            // 告示牌文本与成书页面是字符串中的 JSON，需要把反转义后的偏移映射回原文
+            for (const text of NBTSchemas.findJsonTexts(spec, root)) {
+                const quote = node.value[text.start];
+                if (quote !== '"' && quote !== "'") { continue; }
+                const rawOffsets = this.mapEscapedOffsets(node.value.slice(text.start + 1, text.end - 1));
+                this.checkJsonComponent(
+                    text.value ?? '',
+                    offset => node.start + text.start + 1 + rawOffsets[Math.min(offset, rawOffsets.length - 1)],
+                    errors
                 );
-                if (!range) {
-                    return;
-                }
+            }
+        }
+    }
+
+    /**
+     * 计算字符串反转义后每个字符在原文中的偏移
+     * @param raw 引号内的原文（如 {\"text\":\"hi\"}）
+     * @returns 偏移数组，末尾附加原文长度
+     */
+    private mapEscapedOffsets(raw: string): number[] {
+        const offsets: number[] = [];
+        for (let index = 0; index < raw.length; index++) {
+            if (raw[index] === '\\') { index++; }
+            offsets.push(Math.min(index, raw.length));
+        }
+        offsets.push(raw.length);
+        return offsets;
+    }
+
+    /**
+     * 检查 tellraw、title 的 JSON 文本参数
+     * @param command 命令解析树
+     * @param errors 错误收集数组
+     */
+    private checkJsonText(
+        command: ParsedCommand,
+        errors: CorrectionError[]
+    ): void {
+        for (const node of command.getArgumentsByType('json')) {
+            if (!node.value) { continue; }
+            this.checkJsonComponent(node.value, offset => node.start + offset, errors);
+        }
+    }
+
+    /**
+     * 检查 JSON 文本组件：语法错误位置、组件结构，以及 score 计分板与 selector 选择器
+     * @param text JSON 文本
+     * @param toColumn 将 JSON 文本中的偏移转换为行内列号
+     * @param errors 错误收集数组
+     */
+    private checkJsonComponent(
+        text: string,
+        toColumn: (offset: number) => number,
+        errors: CorrectionError[]
+    ): void {
+        const toRange = (start: number, end: number): [number, number] => {
+            // 零长度的错误（如文本提前结束）标记在最后一个字符上
+            const from = end > start ? start : Math.max(0, start - 1);
+            const column = toColumn(from);
+            return [column, Math.max(toColumn(Math.max(end, from + 1)) - column, 1)];
+        };
+
+        const { root, error } = JsonTextParser.parse(text);
+        if (!root) {
+            errors.push({
+                type: FileLineCorrection.ErrorType.JsonSyntaxError,
+                message: `JSON 语法错误：${error!.message}`,
+                range: toRange(error!.start, error!.end)
+            });
+            return;
+        }
+
+        const { problems, scores, selectors } = JsonTextValidator.analyze(root);
+        problems.forEach(problem => errors.push({
+            type: problem.severity === 'invalid'
+                ? FileLineCorrection.ErrorType.InvalidJsonText
+                : FileLineCorrection.ErrorType.IgnoredJsonText,
+            message: problem.message,
+            range: toRange(problem.start, problem.end)
+        }));
+
+        const checkReferences = DataLoader.getConfig()['check-data-exists'] && FileLineIdleSearchProcessor.isScanCompleted;
+        if (checkReferences) {
+            for (const { objective } of scores) {
+                const name = objective.value as string;
+                if (FileLineIdleSearchProcessor.SCOREBOARDS.has(name)) { continue; }
                 errors.push({
                     type: FileLineCorrection.ErrorType.ScoreboardNotExists,
-                    message: `计分板 "${scoreboardName_pre}" 不存在`,
-                    range,
-                    suggestions: [
-                        '检查计分板名拼写',
-                        '确保记分板已被正确创建'
-                    ]
+                    message: `计分板 "${name}" 不存在`,
+                    range: toRange(objective.start + 1, objective.end - 1),
+                    suggestions: ['检查计分板名拼写', '确保记分板已被正确创建']
                 });
+            }
+        }
 
+        for (const selector of selectors) {
+            const value = selector.value as string;
+            if (!SelectorParser.parse(value)) {
+                errors.push({
+                    type: FileLineCorrection.ErrorType.IgnoredJsonText,
+                    message: `"${value}" 不是实体选择器，selector 组件将不显示任何内容`,
+                    range: toRange(selector.start, selector.end),
+                    suggestions: ['使用 @a、@e、@p、@r、@s 开头的选择器', '显示玩家名请使用 text 组件']
+                });
+                continue;
             }
+            this.checkSelector(value, toColumn(selector.start + 1), checkReferences, errors);
         }
+    }
 
-        // TODO: 实现检查计分板是否存在的逻辑
+    /**
+     * 检查实体选择器参数
+     * 校验参数名、重复参数、整数取值、游戏模式与实体类型，
+     * 并在全局扫描完成后检查 score_ 计分板是否存在
+     * @param command 命令解析树
+     * @param errors 错误收集数组
+     */
+    private checkSelectorArguments(
+        command: ParsedCommand,
+        errors: CorrectionError[]
+    ): void {
+        const checkReferences = DataLoader.getConfig()['check-data-exists'] && FileLineIdleSearchProcessor.isScanCompleted;
+        for (const node of command.getArgumentsByType('selector')) {
+            this.checkSelector(node.value, node.start, checkReferences, errors);
+        }
     }
 
+    /**
+     * 检查单个选择器的参数
+     * @param text 选择器文本（不是 @ 选择器时跳过）
+     * @param offset 选择器在行中的起始列
+     * @param checkReferences 是否检查计分板存在性
+     * @param errors 错误收集数组
+     */
+    private checkSelector(
+        text: string,
+        offset: number,
+        checkReferences: boolean,
+        errors: CorrectionError[]
+    ): void {
+        const selector = SelectorParser.parse(text);
+        if (!selector) { return; }
+
+        const problems = SelectorParser.validate(selector);
+        problems.forEach(problem => errors.push({
+            type: FileLineCorrection.ErrorType.InvalidSelectorArgument,
+            message: problem.message,
+            range: [offset + problem.start, problem.end - problem.start],
+            suggestions: problem.suggestions
+        }));
+
+        // 语法有误的参数不再检查引用
+        const invalid = new Set(problems.map(problem => problem.argument));
+        for (const argument of selector.arguments) {
+            if (invalid.has(argument)) { continue; }
+            const score = SelectorParser.parseScoreKey(argument.key);
+            const error = score
+                ? this.checkSelectorScore(argument, score.objective, offset, checkReferences)
+                : this.checkSelectorType(argument, offset);
+            if (error) { errors.push(error); }
+        }
+    }
+
+    /**
+     * 检查 score_ 参数中的计分板已创建
+     * @param argument 选择器参数
+     * @param objective 参数名中的计分板名
+     * @param offset 选择器在行中的起始列
+     * @param checkReferences 是否检查计分板存在性
+     * @returns 错误（无错误时返回undefined）
+     */
+    private checkSelectorScore(
+        argument: SelectorArgument,
+        objective: string,
+        offset: number,
+        checkReferences: boolean
+    ): CorrectionError | undefined {
+        if (checkReferences && !FileLineIdleSearchProcessor.SCOREBOARDS.has(objective)) {
+            // 范围仅覆盖参数名中的计分板名部分
+            const objectiveStart = offset + argument.keyStart + 'score_'.length;
+            return {
+                type: FileLineCorrection.ErrorType.ScoreboardNotExists,
+                message: `计分板 "${objective}" 不存在`,
+                range: [objectiveStart, objective.length],
+                suggestions: ['检查计分板名拼写', '确保记分板已被正确创建']
+            };
+        }
+        return undefined;
+    }
+
+    /**
+     * 检查 type= 参数的实体类型
+     * @param argument 选择器参数
+     * @param offset 选择器在行中的起始列
+     * @returns 错误（无错误时返回undefined）
+     */
+    private checkSelectorType(
+        argument: SelectorArgument,
+        offset: number
+    ): CorrectionError | undefined {
+        const { key, value } = argument;
+        // type= 表示任意类型
+        if (key !== 'type' || !value) { return undefined; }
+        // player 不在可生成的实体列表中，但可用于选择器
+        const entityId = value.toLowerCase().replace(/^minecraft:/, '');
+        if (entityId === 'player' || EntityNameList.all.some(entity => entity.name === entityId)) { return undefined; }
+        return {
+            type: FileLineCorrection.ErrorType.InvalidSelectorArgument,
+            message: `未知的实体类型 "${value}"`,
+            range: this.getSelectorValueRange(argument, offset),
+            suggestions: ['检查实体ID拼写']
+        };
+    }
+
+    /**
+     * 检查标签的使用（全局扫描完成后）
+     * 检测了从未添加的标签、添加了却从未检测的标签
+     * @param command 命令解析树
+     * @param errors 错误收集数组
+     */
+    private checkTagUsage(
+        command: ParsedCommand,
+        errors: CorrectionError[]
+    ): void {
+        if (!DataLoader.getConfig()['check-data-exists'] || !FileLineIdleSearchProcessor.isScanCompleted) { return; }
+        const documentManager = DocumentManager.getInstance();
+        for (const { name, start, end, kind } of TagReferences.collectCommand(command)) {
+            if (kind === 'test' && !documentManager.hasTagSite(name, 'add')) {
+                errors.push({
+                    type: FileLineCorrection.ErrorType.TagNotExists,
+                    message: `标签 "${name}" 未在工作区中添加过`,
+                    range: [start, end - start],
+                    suggestions: ['检查标签名拼写', `使用 scoreboard players tag <目标> add ${name} 添加标签`]
+                });
+            } else if (kind === 'add' && !documentManager.hasTagSite(name, 'test')) {
+                errors.push({
+                    type: FileLineCorrection.ErrorType.TagNeverTested,
+                    message: `标签 "${name}" 已添加但从未被检测`,
+                    range: [start, end - start],
+                    suggestions: ['检查标签名拼写', `使用 @e[tag=${name}] 选择带有该标签的实体`]
+                });
+            }
+        }
+    }
 
+    /**
+     * 获取选择器参数取值的范围（取值为空时退回到参数名）
+     * @param argument 选择器参数
+     * @param offset 选择器在行中的起始列
+     * @returns 位置范围 [起始索引, 长度]
+     */
+    private getSelectorValueRange(argument: SelectorArgument, offset: number): [number, number] {
+        return argument.value
+            ? [offset + argument.valueStart, argument.valueEnd - argument.valueStart]
+            : [offset + argument.keyStart, argument.keyEnd - argument.keyStart];
+    }
 
     /** 释放资源 */
     dispose() {
         this.clearCurrentFileErrors();
         this.diagnosticCollection.dispose();
+        this.recursiveCallCollection.dispose();
         if (this.debounceTimer) {
             clearTimeout(this.debounceTimer);
         }
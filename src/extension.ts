@@ -4,17 +4,28 @@ import * as fss from 'fs'; // 导入同步API
 import * as path from 'path';
 import { CommandRegistry } from './core/CommandRegistry';
 import { MainCompletionProvider } from './core/MainCompletionProvider';
+import { SimpleCommandCompletionProvider } from './core/SimpleCommandCompletionProvider';
 import { LinkProvider } from './core/LinkProvider';
 import { DataLoader } from './core/DataLoader';
 import { FileLineIdleSearchProcessor } from './core/FileLineIdleSearchProcessor';
 import { join } from 'path';
 import { LinePreviewManager } from './LineManager/LinePreviewManager';
 import { FileLineCorrection } from './correction/FileLineCorrection';
+import { CorrectionCodeActionProvider } from './correction/CorrectionCodeActionProvider';
+import { ObjectiveSymbolProvider } from './core/ObjectiveSymbolProvider';
+import { TagSymbolProvider } from './core/TagSymbolProvider';
+import { SymbolRenameProvider } from './core/SymbolRenameProvider';
+import { FunctionCallHierarchyProvider } from './core/FunctionCallHierarchyProvider';
+import { CallGraphPanel } from './core/CallGraphPanel';
+import { DeadFunctionTreeProvider } from './core/DeadFunctionTreeProvider';
+import { ObjectiveUsageTreeProvider } from './core/ObjectiveUsageTreeProvider';
 import { MinecraftUtils } from './utils/MinecraftUtils';
 import { LineHoverManager } from './LineManager/LineHoverManager';
 import { FileRenameHandler } from './core/FileRenameHandler';
 import { AdvancementCompletionProvider } from './completionProvider/AdvancementCompletionProvider';
 import { AdvancementHelper } from './core/AdvancemnetHelper';
+import { refreshEnumCache } from './utils/EnumLib';
+import { RegistryLoader } from './utils/RegistryLoader';
 
 
 // 全局定时器引用，用于插件停用时分销
@@ -50,6 +61,19 @@ export async function activate(context: vscode.ExtensionContext) {
     context.subscriptions.push(
         vscode.languages.registerDocumentLinkProvider(selector, LinkProvider.getInstance())
     );
+    // 计分板与标签的定义跳转与引用查找
+    context.subscriptions.push(ObjectiveSymbolProvider.getInstance());
+    context.subscriptions.push(TagSymbolProvider.getInstance());
+    // 计分板与标签重命名
+    context.subscriptions.push(SymbolRenameProvider.getInstance());
+    // 函数调用层次结构
+    context.subscriptions.push(FunctionCallHierarchyProvider.getInstance());
+    // 函数调用图
+    context.subscriptions.push(CallGraphPanel.getInstance());
+    // 未使用函数报告
+    context.subscriptions.push(DeadFunctionTreeProvider.getInstance());
+    // 计分板使用分析
+    context.subscriptions.push(ObjectiveUsageTreeProvider.getInstance());
 
     // 创建文件系统监视器（优化：仅监听函数目录，减少监听范围）
     const functionDir = DataLoader.getfunctionDirectory();
@@ -65,8 +89,20 @@ export async function activate(context: vscode.ExtensionContext) {
     watcher.onDidDelete(uri => fileProcessor(uri, 'delete'));
     watcher.onDidChange(uri => fileProcessor(uri, 'change'));
 
+    // 监听工作区覆盖注册表（registries/*.json），变更后刷新枚举缓存
+    const registryWatcher = vscode.workspace.createFileSystemWatcher(`**/${RegistryLoader.OVERRIDE_DIR}/*.json`);
+    const onRegistryChange = (uri: vscode.Uri) => {
+        if (RegistryLoader.isOverrideFile(uri)) { refreshEnumCache(); }
+    };
+    registryWatcher.onDidCreate(onRegistryChange);
+    registryWatcher.onDidChange(onRegistryChange);
+    registryWatcher.onDidDelete(onRegistryChange);
+    context.subscriptions.push(registryWatcher);
+
     // 自动注册命令提供者（优化：改用异步读取）
     await autoRegisterProviders(context);
+    // 注册表驱动的简单命令（difficulty、whitelist 等）
+    SimpleCommandCompletionProvider.registerAll();
 
     // 初始化FileLine处理器
     const lineProcessor = FileLineIdleSearchProcessor.getInstance();
@@ -85,6 +121,8 @@ export async function activate(context: vscode.ExtensionContext) {
     const lineCorrection = FileLineCorrection.instance;
     lineCorrection.start();
     context.subscriptions.push(lineCorrection);
+    // 诊断的快速修复
+    context.subscriptions.push(CorrectionCodeActionProvider.getInstance());
     // 文件|文件夹重命名
     const fileRenameHandler = new FileRenameHandler();
     fileRenameHandler.init();
@@ -129,6 +167,8 @@ async function handleWorkSpaceChange(uri: vscode.Uri, type: 'create' | 'delete'
             break;
         case 'delete':
             DataLoader.removeFunctionPath(relativePath);
+            // 删除的函数不再参与调用循环
+            await FileLineCorrection.instance.checkRecursiveCalls();
             break;
         case 'change':
             // 仅当文件内容变更时重新扫描（避免元数据变化触发）
@@ -151,6 +191,7 @@ function onReloadFunction(context: vscode.ExtensionContext) {
 
         try {
             await DataLoader.loadAllData(context);
+            refreshEnumCache();
             await FileLineIdleSearchProcessor.getInstance().process();
 
             // 优化反馈信息：分类型显示
@@ -0,0 +1,59 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { CallStep, FunctionCallGraph } from '../core/FunctionCallGraph';
+
+/** 以函数名构造 uri */
+function uri(name: string): vscode.Uri {
+    return vscode.Uri.file(`/data/functions/test/${name}.mcfunction`);
+}
+
+/** 由 [调用者, 行号, 被调用者, 是否为 gameLoopFunction 设置] 构造调用关系 */
+function buildCalls(...calls: [string, number, string, boolean?][]): Map<string, CallStep[]> {
+    const map = new Map<string, CallStep[]>();
+    for (const [caller, line, callee, gameLoop] of calls) {
+        const key = uri(caller).toString();
+        map.set(key, [...map.get(key) ?? [], { caller: uri(caller), line, callee: uri(callee), gameLoop }]);
+        if (!map.has(uri(callee).toString())) { map.set(uri(callee).toString(), []); }
+    }
+    return map;
+}
+
+/** 将循环转换为 调用者:行号->被调用者 的文本，便于比较 */
+function formatCycles(cycles: CallStep[][]): string[][] {
+    const name = (target: vscode.Uri) => target.path.split('/').pop()!.replace('.mcfunction', '');
+    return cycles.map(cycle => cycle.map(step => `${name(step.caller)}:${step.line}->${name(step.callee)}`));
+}
+
+suite('FunctionCallGraph.findCycles', () => {
+    test('调用自身', () => {
+        const calls = buildCalls(['a', 0, 'a'], ['a', 1, 'b']);
+        assert.deepStrictEqual(formatCycles(FunctionCallGraph.findCycles(calls)), [['a:0->a']]);
+    });
+
+    test('两个函数互相调用时两处调用都报告完整循环', () => {
+        const calls = buildCalls(['a', 2, 'b'], ['b', 5, 'a'], ['b', 6, 'c']);
+        assert.deepStrictEqual(formatCycles(FunctionCallGraph.findCycles(calls)), [
+            ['a:2->b', 'b:5->a'],
+            ['b:5->a', 'a:2->b']
+        ]);
+    });
+
+    test('循环中的每一步都报告', () => {
+        const calls = buildCalls(['a', 0, 'b'], ['b', 0, 'c'], ['c', 0, 'a']);
+        assert.deepStrictEqual(formatCycles(FunctionCallGraph.findCycles(calls)), [
+            ['a:0->b', 'b:0->c', 'c:0->a'],
+            ['b:0->c', 'c:0->a', 'a:0->b'],
+            ['c:0->a', 'a:0->b', 'b:0->c']
+        ]);
+    });
+
+    test('gameLoopFunction 设置不构成循环', () => {
+        const calls = buildCalls(['main', 0, 'tick', true], ['tick', 3, 'main'], ['loop', 0, 'loop', true]);
+        assert.deepStrictEqual(FunctionCallGraph.findCycles(calls), []);
+    });
+
+    test('无环的调用链没有结果', () => {
+        const calls = buildCalls(['a', 0, 'b'], ['b', 0, 'c'], ['a', 1, 'c']);
+        assert.deepStrictEqual(FunctionCallGraph.findCycles(calls), []);
+    });
+});
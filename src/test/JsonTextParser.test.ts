@@ -0,0 +1,47 @@
+import * as assert from 'assert';
+import { JsonTextParser } from '../utils/JsonTextParser';
+import { JsonTextValidator } from '../utils/JsonTextValidator';
+
+suite('JsonTextParser', () => {
+    test('解析成功时记录节点位置', () => {
+        const { root, error } = JsonTextParser.parse('{"text":"a"}');
+        assert.strictEqual(error, null);
+        assert.deepStrictEqual(root?.entries?.map(({ key, keyStart, keyEnd, value }) => [key, keyStart, keyEnd, value.start, value.end]), [
+            ['text', 1, 7, 8, 11]
+        ]);
+    });
+
+    test('对象末尾多余的逗号报告在右括号上', () => {
+        assert.deepStrictEqual(JsonTextParser.parse('{"text":"a",}'), {
+            root: null,
+            error: { message: '对象末尾存在多余的逗号', start: 12, end: 13 }
+        });
+    });
+
+    test('缺少冒号报告在键后的字符上', () => {
+        assert.deepStrictEqual(JsonTextParser.parse('{"text" "a"}').error, { message: '键 "text" 后缺少冒号', start: 8, end: 9 });
+    });
+
+    test('文本结束后的多余内容', () => {
+        assert.deepStrictEqual(JsonTextParser.parse('["a"] x').error, { message: 'JSON 文本结束后存在多余内容', start: 6, end: 7 });
+    });
+});
+
+suite('JsonTextValidator', () => {
+    test('问题位置为节点在 JSON 文本中的偏移', () => {
+        const { root } = JsonTextParser.parse('{"text":"a","color":"pink","foo":1}');
+        assert.ok(root);
+        assert.deepStrictEqual(JsonTextValidator.analyze(root).problems, [
+            { severity: 'ignored', message: '无效的颜色 "pink"，将被忽略', start: 20, end: 26 },
+            { severity: 'ignored', message: '未知的文本组件键 "foo"，将被忽略', start: 27, end: 32 }
+        ]);
+    });
+
+    test('收集 selector 组件的取值节点', () => {
+        const { root } = JsonTextParser.parse('[{"selector":"@p"}]');
+        assert.ok(root);
+        assert.deepStrictEqual(JsonTextValidator.analyze(root).selectors.map(({ start, end, value }) => [start, end, value]), [
+            [13, 17, '@p']
+        ]);
+    });
+});
@@ -0,0 +1,50 @@
+import * as assert from 'assert';
+import { SNBTParser } from '../utils/SNBTParser';
+
+suite('SNBTParser', () => {
+    test('多余的逗号报告错误后继续解析后续键', () => {
+        const { root, errors } = SNBTParser.parse('{a:1,,b:2}');
+        assert.deepStrictEqual(errors.map(({ start, end }) => [start, end]), [[5, 6]]);
+        assert.deepStrictEqual(root?.entries?.map(entry => entry.key), ['a', 'b']);
+        assert.strictEqual(root?.entries?.[1].value?.value, '2');
+    });
+
+    test('未闭合的结构返回部分解析树', () => {
+        const { root, errors } = SNBTParser.parse('{a:1b,b:{c:2,d');
+        assert.strictEqual(root?.incomplete, true);
+        assert.strictEqual(root?.entries?.[0].value?.type, 'byte');
+        assert.strictEqual(root?.entries?.[1].value?.entries?.[0].value?.type, 'int');
+        assert.ok(errors.some(error => error.message === 'NBT 标签未闭合'));
+    });
+
+    test('光标上下文包含嵌套列表下标与已输入的键前缀', () => {
+        const { cursor } = SNBTParser.parse('{Inventory:[{tag:{display:{Lo');
+        assert.deepStrictEqual(cursor, {
+            kind: 'key',
+            path: ['Inventory', 0, 'tag', 'display'],
+            prefix: 'Lo',
+            existingKeys: []
+        });
+    });
+
+    test('光标在值上时记录所在的键', () => {
+        const { cursor } = SNBTParser.parse('{CustomName:"a",NoAI:');
+        assert.strictEqual(cursor?.kind, 'value');
+        assert.deepStrictEqual(cursor?.path, ['NoAI']);
+    });
+
+    test('完整结构没有光标上下文', () => {
+        assert.strictEqual(SNBTParser.parse('{a:1}').cursor, null);
+    });
+
+    test('列表元素类型不一致时报告在该元素上', () => {
+        const { root, errors } = SNBTParser.parse('{a:[1,2s],b:3}');
+        assert.deepStrictEqual(errors, [{ message: '列表元素类型不一致：应为 int，实际为 short', start: 6, end: 8 }]);
+        assert.strictEqual(root?.entries?.[1].value?.value, '3');
+    });
+
+    test('数组元素须与数组前缀一致', () => {
+        const { errors } = SNBTParser.parse('{a:[B;1b,2]}');
+        assert.deepStrictEqual(errors, [{ message: '数组元素应为 byte 类型，实际为 int', start: 9, end: 10 }]);
+    });
+});
@@ -0,0 +1,52 @@
+import * as assert from 'assert';
+import { SelectorParser } from '../utils/SelectorParser';
+
+/** 解析并检查选择器，返回问题的信息与位置 */
+function validate(text: string): { message: string, start: number, end: number }[] {
+    const selector = SelectorParser.parse(text);
+    assert.ok(selector);
+    return SelectorParser.validate(selector).map(({ message, start, end }) => ({ message, start, end }));
+}
+
+suite('SelectorParser', () => {
+    test('解析参数的位置与取反', () => {
+        const selector = SelectorParser.parse('@e[type=!zombie, tag=a]');
+        assert.strictEqual(selector?.variable, '@e');
+        assert.strictEqual(selector?.closed, true);
+        assert.deepStrictEqual(selector?.arguments.map(({ key, value, valueStart, negated }) => [key, value, valueStart, negated]), [
+            ['type', 'zombie', 9, true],
+            ['tag', 'a', 21, false]
+        ]);
+    });
+
+    test('不是 @ 选择器时返回undefined', () => {
+        assert.strictEqual(SelectorParser.parse('Steve'), undefined);
+    });
+
+    test('合法的参数没有问题', () => {
+        assert.deepStrictEqual(validate('@a[r=10,m=c,score_kill_min=1,tag=!admin,type=]'), []);
+    });
+
+    test('未知参数报告在参数名上', () => {
+        assert.deepStrictEqual(validate('@e[foo=1]'), [{ message: '未知的选择器参数 "foo"', start: 3, end: 6 }]);
+    });
+
+    test('重复参数只报告后出现的一个', () => {
+        assert.deepStrictEqual(validate('@e[r=2,r=3]'), [{ message: '选择器参数 "r" 重复', start: 7, end: 8 }]);
+    });
+
+    test('数值参数与 score_ 参数的取值须为不取反的整数', () => {
+        assert.deepStrictEqual(validate('@e[c=x,rm=!1,score_k=1.5]'), [
+            { message: '选择器参数 "c" 的取值必须为整数', start: 5, end: 6 },
+            { message: '选择器参数 "rm" 的取值必须为整数', start: 11, end: 12 },
+            { message: '选择器参数 "score_k" 的取值必须为整数', start: 21, end: 24 }
+        ]);
+    });
+
+    test('缺少取值与无效的游戏模式', () => {
+        assert.deepStrictEqual(validate('@a[tag,m=9]'), [
+            { message: '选择器参数 "tag" 缺少取值', start: 3, end: 6 },
+            { message: '无效的游戏模式 "9"', start: 9, end: 10 }
+        ]);
+    });
+});
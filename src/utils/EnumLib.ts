@@ -1,320 +1,36 @@
+import { RegistryLoader } from './RegistryLoader';
+
 /**
  * 延迟加载的Minecraft枚举库
  * 所有枚举数据在首次访问时加载，优化启动性能
+ * 方块、物品、实体、粒子与统计信息从 registries 注册表文件加载（支持工作区覆盖）
  */
 
 const lazyData = {
   BlockNameMap: null as any | null,
+  BlockDataValues: null as any | null,
+  ItemDataValues: null as any | null,
   EntityNameList: null as any | null,
   ItemNameMap: null as any | null,
   MinecraftStats: null as any | null,
   MinecraftStatsDetail: null as any | null,
   ParticleNames: null as any | null,
+  SoundNames: null as any | null,
+  SoundSources: null as any | null,
+  Enchantments: null as any | null,
+  RecipeNames: null as any | null,
+  StructureNames: null as any | null,
 };
 
-
+/** 统一 id 格式：小写并去掉 minecraft: 前缀 */
+function normalizeId(id: string): string {
+  return id.toLowerCase().replace(/^minecraft:/, '');
+}
 
 export const BlockNameMap = {
   get all(): Record<string, string> {
     if (!lazyData.BlockNameMap) {
-      lazyData.BlockNameMap = {
-        "air": "空气",
-        "stone": "石头",
-        "granite": "花岗岩",
-        "polished_granite": "磨制花岗岩",
-        "diorite": "闪长岩",
-        "polished_diorite": "磨制闪长岩",
-        "andesite": "安山岩",
-        "polished_andesite": "磨制安山岩",
-        "grass": "草方块",
-        "dirt": "泥土",
-        "coarse_dirt": "砂土",
-        "podzol": "灰化土",
-        "cobblestone": "圆石",
-        "oak_planks": "橡木木板",
-        "spruce_planks": "云杉木板",
-        "birch_planks": "白桦木板",
-        "jungle_planks": "丛林木板",
-        "acacia_planks": "金合欢木板",
-        "dark_oak_planks": "深色橡木木板",
-        "oak_sapling": "橡树树苗",
-        "spruce_sapling": "云杉树苗",
-        "birch_sapling": "白桦树苗",
-        "jungle_sapling": "丛林树苗",
-        "acacia_sapling": "金合欢树苗",
-        "dark_oak_sapling": "深色橡木树苗",
-        "bedrock": "基岩",
-        "flowing_water": "流动的水",
-        "water": "水",
-        "flowing_lava": "流动的岩浆",
-        "lava": "岩浆",
-        "sand": "沙子",
-        "red_sand": "红沙",
-        "gravel": "砂砾",
-        "gold_ore": "金矿石",
-        "iron_ore": "铁矿石",
-        "coal_ore": "煤矿石",
-        "oak_log": "橡木",
-        "spruce_log": "云杉木",
-        "birch_log": "白桦木",
-        "jungle_log": "丛林木",
-        "acacia_log": "金合欢木",
-        "dark_oak_log": "深色橡木",
-        "oak_leaves": "橡树树叶",
-        "spruce_leaves": "云杉树叶",
-        "birch_leaves": "白桦树叶",
-        "jungle_leaves": "丛林树叶",
-        "acacia_leaves": "金合欢树叶",
-        "dark_oak_leaves": "深色橡木树叶",
-        "sponge": "海绵",
-        "wet_sponge": "湿海绵",
-        "glass": "玻璃",
-        "lapis_ore": "青金石矿石",
-        "lapis_block": "青金石块",
-        "dispenser": "发射器",
-        "sandstone": "沙石",
-        "chiseled_sandstone": "錾制沙石",
-        "cut_sandstone": "切制沙石",
-        "noteblock": "音符盒",
-        "bed": "床",
-        "golden_rail": "充能铁轨",
-        "detector_rail": "探测铁轨",
-        "sticky_piston": "粘性活塞",
-        "web": "蜘蛛网",
-        "tallgrass": "草丛",
-        "deadbush": "枯死的灌木",
-        "piston": "活塞",
-        "piston_head": "活塞头",
-        "wool": "羊毛",
-        "piston_extension": "移动的活塞",
-        "yellow_flower": "蒲公英",
-        "poppy": "罂粟",
-        "blue_orchid": "兰花",
-        "allium": "绒球葱",
-        "azure_bluet": "蓝花美耳草",
-        "red_tulip": "红色郁金香",
-        "orange_tulip": "橙色郁金香",
-        "white_tulip": "白色郁金香",
-        "pink_tulip": "粉红色郁金香",
-        "oxeye_daisy": "滨菊",
-        "brown_mushroom": "棕色蘑菇",
-        "red_mushroom": "红色蘑菇",
-        "gold_block": "金块",
-        "iron_block": "铁块",
-        "double_stone_slab": "双石台阶",
-        "stone_slab": "石台阶",
-        "brick_block": "砖块",
-        "tnt": "TNT",
-        "bookshelf": "书架",
-        "mossy_cobblestone": "苔石",
-        "obsidian": "黑曜石",
-        "torch": "火把",
-        "fire": "火",
-        "mob_spawner": "刷怪笼",
-        "oak_stairs": "橡木楼梯",
-        "chest": "箱子",
-        "redstone_wire": "红石线",
-        "diamond_ore": "钻石矿石",
-        "diamond_block": "钻石块",
-        "crafting_table": "工作台",
-        "wheat": "小麦作物",
-        "farmland": "耕地",
-        "furnace": "熔炉",
-        "lit_furnace": "燃烧的熔炉",
-        "standing_sign": "告示牌",
-        "wooden_door": "橡木门",
-        "ladder": "梯子",
-        "rail": "铁轨",
-        "stone_stairs": "石楼梯",
-        "wall_sign": "墙上的告示牌",
-        "lever": "拉杆",
-        "stone_pressure_plate": "石质压力板",
-        "iron_door": "铁门",
-        "wooden_pressure_plate": "木质压力板",
-        "redstone_ore": "红石矿石",
-        "lit_redstone_ore": "发光的红石矿石",
-        "unlit_redstone_torch": "红石火把",
-        "redstone_torch": "红石火把",
-        "stone_button": "石质按钮",
-        "snow_layer": "雪层",
-        "ice": "冰",
-        "snow": "雪块",
-        "cactus": "仙人掌",
-        "clay": "粘土",
-        "reeds": "甘蔗",
-        "jukebox": "唱片机",
-        "fence": "橡木栅栏",
-        "pumpkin": "南瓜",
-        "netherrack": "地狱岩",
-        "soul_sand": "灵魂沙",
-        "glowstone": "荧石",
-        "portal": "下界传送门",
-        "lit_pumpkin": "南瓜灯",
-        "cake": "蛋糕",
-        "unpowered_repeater": "红石中继器",
-        "powered_repeater": "红石中继器",
-        "stained_glass": "染色玻璃",
-        "trapdoor": "活板门",
-        "monster_egg": "怪物蛋",
-        "stonebrick": "石砖",
-        "brown_mushroom_block": "棕色蘑菇方块",
-        "red_mushroom_block": "红色蘑菇方块",
-        "iron_bars": "铁栏杆",
-        "glass_pane": "玻璃板",
-        "melon_block": "西瓜",
-        "pumpkin_stem": "南瓜茎",
-        "melon_stem": "西瓜茎",
-        "vine": "藤蔓",
-        "fence_gate": "橡木栅栏门",
-        "brick_stairs": "砖楼梯",
-        "stone_brick_stairs": "石砖楼梯",
-        "mycelium": "菌丝",
-        "waterlily": "睡莲",
-        "nether_brick": "下界砖块",
-        "nether_brick_fence": "下界砖栅栏",
-        "nether_brick_stairs": "下界砖楼梯",
-        "nether_wart": "下界疣",
-        "enchanting_table": "附魔台",
-        "brewing_stand": "酿造台",
-        "cauldron": "炼药锅",
-        "end_portal": "末地传送门",
-        "end_portal_frame": "末地传送门框架",
-        "end_stone": "末地石",
-        "dragon_egg": "龙蛋",
-        "redstone_lamp": "红石灯",
-        "lit_redstone_lamp": "红石灯",
-        "double_wooden_slab": "双木台阶",
-        "wooden_slab": "木台阶",
-        "cocoa": "可可果",
-        "sandstone_stairs": "沙石楼梯",
-        "emerald_ore": "绿宝石矿石",
-        "ender_chest": "末影箱",
-        "tripwire_hook": "绊线钩",
-        "tripwire": "绊线",
-        "emerald_block": "绿宝石块",
-        "spruce_stairs": "云杉木楼梯",
-        "birch_stairs": "白桦木楼梯",
-        "jungle_stairs": "丛林木楼梯",
-        "command_block": "命令方块",
-        "beacon": "信标",
-        "cobblestone_wall": "圆石墙",
-        "flower_pot": "花盆",
-        "carrots": "胡萝卜作物",
-        "potatoes": "马铃薯作物",
-        "wooden_button": "木质按钮",
-        "skull": "生物头颅",
-        "anvil": "铁砧",
-        "trapped_chest": "陷阱箱",
-        "light_weighted_pressure_plate": "轻质测重压力板",
-        "heavy_weighted_pressure_plate": "重质测重压力板",
-        "unpowered_comparator": "红石比较器",
-        "powered_comparator": "红石比较器",
-        "daylight_detector": "阳光传感器",
-        "redstone_block": "红石块",
-        "quartz_ore": "下界石英矿石",
-        "hopper": "漏斗",
-        "quartz_block": "石英块",
-        "quartz_stairs": "石英楼梯",
-        "activator_rail": "激活铁轨",
-        "dropper": "投掷器",
-        "stained_hardened_clay": "染色陶瓦",
-        "stained_glass_pane": "染色玻璃板",
-        "leaves2": "金合欢树叶",
-        "log2": "金合欢木",
-        "acacia_stairs": "金合欢木楼梯",
-        "dark_oak_stairs": "深色橡木楼梯",
-        "slime": "粘液块",
-        "barrier": "屏障",
-        "iron_trapdoor": "铁活板门",
-        "prismarine": "海晶石",
-        "sea_lantern": "海晶灯",
-        "hay_block": "干草块",
-        "carpet": "地毯",
-        "hardened_clay": "陶瓦",
-        "coal_block": "煤炭块",
-        "packed_ice": "浮冰",
-        "double_plant": "大型植物",
-        "standing_banner": "旗帜",
-        "wall_banner": "墙上的旗帜",
-        "daylight_detector_inverted": "反向阳光传感器",
-        "red_sandstone": "红沙石",
-        "chiseled_red_sandstone": "錾制红沙石",
-        "cut_red_sandstone": "切制红沙石",
-        "red_sandstone_stairs": "红沙石楼梯",
-        "double_stone_slab2": "双红沙石台阶",
-        "stone_slab2": "红沙石台阶",
-        "spruce_fence_gate": "云杉木栅栏门",
-        "birch_fence_gate": "白桦木栅栏门",
-        "jungle_fence_gate": "丛林木栅栏门",
-        "dark_oak_fence_gate": "深色橡木栅栏门",
-        "acacia_fence_gate": "金合欢木栅栏门",
-        "spruce_fence": "云杉木栅栏",
-        "birch_fence": "白桦木栅栏",
-        "jungle_fence": "丛林木栅栏",
-        "dark_oak_fence": "深色橡木栅栏",
-        "acacia_fence": "金合欢木栅栏",
-        "spruce_door": "云杉木门",
-        "birch_door": "白桦木门",
-        "jungle_door": "丛林木门",
-        "acacia_door": "金合欢木门",
-        "dark_oak_door": "深色橡木门",
-        "end_rod": "末地烛",
-        "chorus_plant": "紫颂植物",
-        "chorus_flower": "紫颂花",
-        "purpur_block": "紫珀块",
-        "purpur_pillar": "紫珀柱",
-        "purpur_stairs": "紫珀楼梯",
-        "purpur_double_slab": "双紫珀台阶",
-        "purpur_slab": "紫珀台阶",
-        "end_bricks": "末地石砖",
-        "beetroots": "甜菜根作物",
-        "grass_path": "草径",
-        "end_gateway": "末地折跃门",
-        "repeating_command_block": "循环型命令方块",
-        "chain_command_block": "连锁型命令方块",
-        "frosted_ice": "霜冰",
-        "magma": "岩浆块",
-        "nether_wart_block": "下界疣块",
-        "red_nether_brick": "红色下界砖块",
-        "bone_block": "骨块",
-        "structure_void": "结构空位",
-        "observer": "侦测器",
-        "white_shulker_box": "白色潜影盒",
-        "orange_shulker_box": "橙色潜影盒",
-        "magenta_shulker_box": "品红色潜影盒",
-        "light_blue_shulker_box": "淡蓝色潜影盒",
-        "yellow_shulker_box": "黄色潜影盒",
-        "lime_shulker_box": "黄绿色潜影盒",
-        "pink_shulker_box": "粉红色潜影盒",
-        "gray_shulker_box": "灰色潜影盒",
-        "silver_shulker_box": "淡灰色潜影盒",
-        "cyan_shulker_box": "青色潜影盒",
-        "purple_shulker_box": "紫色潜影盒",
-        "blue_shulker_box": "蓝色潜影盒",
-        "brown_shulker_box": "棕色潜影盒",
-        "green_shulker_box": "绿色潜影盒",
-        "red_shulker_box": "红色潜影盒",
-        "black_shulker_box": "黑色潜影盒",
-        "white_glazed_terracotta": "白色带釉陶瓦",
-        "orange_glazed_terracotta": "橙色带釉陶瓦",
-        "magenta_glazed_terracotta": "品红色带釉陶瓦",
-        "light_blue_glazed_terracotta": "淡蓝色带釉陶瓦",
-        "yellow_glazed_terracotta": "黄色带釉陶瓦",
-        "lime_glazed_terracotta": "黄绿色带釉陶瓦",
-        "pink_glazed_terracotta": "粉红色带釉陶瓦",
-        "gray_glazed_terracotta": "灰色带釉陶瓦",
-        "silver_glazed_terracotta": "淡灰色带釉陶瓦",
-        "cyan_glazed_terracotta": "青色带釉陶瓦",
-        "purple_glazed_terracotta": "紫色带釉陶瓦",
-        "blue_glazed_terracotta": "蓝色带釉陶瓦",
-        "brown_glazed_terracotta": "棕色带釉陶瓦",
-        "green_glazed_terracotta": "绿色带釉陶瓦",
-        "red_glazed_terracotta": "红色带釉陶瓦",
-        "black_glazed_terracotta": "黑色带釉陶瓦",
-        "concrete": "混凝土",
-        "concrete_powder": "混凝土粉末",
-        "structure_block": "结构方块"
-      };
+      lazyData.BlockNameMap = RegistryLoader.loadMap('blocks');
     }
     return { ...lazyData.BlockNameMap }; // 返回副本避免外部修改
   },
@@ -338,95 +54,38 @@ export const BlockNameMap = {
   }
 };
 
+export const BlockDataValues = {
+  get all(): Record<string, Record<string, string>> {
+    if (!lazyData.BlockDataValues) {
+      lazyData.BlockDataValues = RegistryLoader.loadMap<Record<string, string>>('block_data');
+    }
+    return { ...lazyData.BlockDataValues }; // 返回副本避免外部修改
+  },
+
+  /**
+   * 获取方块的数据值表（方块id可带 minecraft: 前缀）
+   * @param block 方块id
+   * @returns 数据值 → 含义（未收录的方块返回undefined）
+   */
+  get(block: string): Record<string, string> | undefined {
+    return this.all[normalizeId(block)];
+  },
+
+  /**
+   * 获取方块某个数据值的含义
+   * @param block 方块id
+   * @param value 数据值
+   * @returns 含义（方块未收录或数据值无效返回undefined）
+   */
+  getDescription(block: string, value: string | number): string | undefined {
+    return this.get(block)?.[String(value)];
+  }
+};
+
 export const EntityNameList = {
   get all(): Array<{ name: string; desc: string }> {
     if (!lazyData.EntityNameList) {
-      lazyData.EntityNameList = [
-        { name: 'area_effect_cloud', desc: '区域效果云' },
-        { name: 'armor_stand', desc: '盔甲架' },
-        { name: 'arrow', desc: '箭' },
-        { name: 'bat', desc: '蝙蝠' },
-        { name: 'blaze', desc: '烈焰人' },
-        { name: 'boat', desc: '船' },
-        { name: 'cave_spider', desc: '洞穴蜘蛛' },
-        { name: 'chest_minecart', desc: '箱子矿车' },
-        { name: 'chicken', desc: '鸡' },
-        { name: 'commandblock_minecart', desc: '命令方块矿车' },
-        { name: 'cow', desc: '牛' },
-        { name: 'creeper', desc: '苦力怕' },
-        { name: 'donkey', desc: '驴' },
-        { name: 'dragon_fireball', desc: '龙火球' },
-        { name: 'egg', desc: '鸡蛋' },
-        { name: 'elder_guardian', desc: '远古守卫者' },
-        { name: 'ender_crystal', desc: '末影水晶' },
-        { name: 'ender_dragon', desc: '末影龙' },
-        { name: 'ender_pearl', desc: '末影珍珠' },
-        { name: 'enderman', desc: '末影人' },
-        { name: 'endermite', desc: '末影螨' },
-        { name: 'evocation_fangs', desc: '唤魔者的尖牙' },
-        { name: 'evocation_illager', desc: '唤魔者' },
-        { name: 'eye_of_ender_signal', desc: '末影之眼信号' },
-        { name: 'falling_block', desc: '下落的方块' },
-        { name: 'fireball', desc: '火球' },
-        { name: 'fireworks_rocket', desc: '烟花火箭' },
-        { name: 'furnace_minecart', desc: '熔炉矿车' },
-        { name: 'ghast', desc: '恶魂' },
-        { name: 'giant', desc: '巨人' },
-        { name: 'guardian', desc: '守卫者' },
-        { name: 'hopper_minecart', desc: '漏斗矿车' },
-        { name: 'horse', desc: '马' },
-        { name: 'husk', desc: '尸壳' },
-        { name: 'illusion_illager', desc: '幻术师' },
-        { name: 'item', desc: '物品实体' },
-        { name: 'item_frame', desc: '物品展示框' },
-        { name: 'leash_knot', desc: '拴绳结' },
-        { name: 'lightning_bolt', desc: '闪电' },
-        { name: 'llama', desc: ' llama' },
-        { name: 'llama_spit', desc: ' llama spit' },
-        { name: 'magma_cube', desc: '岩浆怪' },
-        { name: 'minecart', desc: '矿车' },
-        { name: 'mooshroom', desc: '蘑菇牛（哞菇）' },
-        { name: 'mule', desc: '骡' },
-        { name: 'ocelot', desc: '豹猫' },
-        { name: 'painting', desc: '画' },
-        { name: 'parrot', desc: '鹦鹉' },
-        { name: 'pig', desc: '猪' },
-        { name: 'polar_bear', desc: '北极熊' },
-        { name: 'potion', desc: '药水' },
-        { name: 'rabbit', desc: '兔子' },
-        { name: 'sheep', desc: '羊' },
-        { name: 'shulker', desc: '潜影贝' },
-        { name: 'shulker_bullet', desc: '潜影贝子弹' },
-        { name: 'silverfish', desc: '蠹虫' },
-        { name: 'skeleton', desc: '骷髅' },
-        { name: 'skeleton_horse', desc: '骷髅马' },
-        { name: 'slime', desc: '史莱姆' },
-        { name: 'small_fireball', desc: '小火球' },
-        { name: 'snowball', desc: '雪球' },
-        { name: 'snowman', desc: '雪傀儡' },
-        { name: 'spawner_minecart', desc: '刷怪笼矿车' },
-        { name: 'spectral_arrow', desc: ' spectral arrow' },
-        { name: 'spider', desc: '蜘蛛' },
-        { name: 'squid', desc: '鱿鱼' },
-        { name: 'stray', desc: '流浪者' },
-        { name: 'tnt', desc: 'TNT' },
-        { name: 'tnt_minecart', desc: 'TNT矿车' },
-        { name: 'vex', desc: '恼鬼' },
-        { name: 'villager', desc: '村民' },
-        { name: 'villager_golem', desc: '铁傀儡' },
-        { name: 'vindication_illager', desc: '卫道士' },
-        { name: 'witch', desc: '女巫' },
-        { name: 'wither', desc: '凋零' },
-        { name: 'wither_skeleton', desc: '凋零骷髅' },
-        { name: 'wither_skull', desc: '凋零头颅' },
-        { name: 'wolf', desc: '狼' },
-        { name: 'xp_bottle', desc: '经验瓶' },
-        { name: 'xp_orb', desc: '经验球' },
-        { name: 'zombie', desc: '僵尸' },
-        { name: 'zombie_horse', desc: '僵尸马' },
-        { name: 'zombie_pigman', desc: '僵尸猪人' },
-        { name: 'zombie_villager', desc: '僵尸村民' }
-      ];
+      lazyData.EntityNameList = RegistryLoader.loadList('entities');
     }
     return [...lazyData.EntityNameList]; // 返回副本避免外部修改
   },
@@ -442,419 +101,7 @@ export const EntityNameList = {
 export const ItemNameMap = {
   get all(): Record<string, string> {
     if (!lazyData.ItemNameMap) {
-      lazyData.ItemNameMap = {
-        "acacia_boat": "金合欢木船",
-        "acacia_door": "金合欢木门",
-        "acacia_fence": "金合欢木栅栏",
-        "acacia_fence_gate": "金合欢木栅栏门",
-        "acacia_stairs": "金合欢木楼梯",
-        "activator_rail": "激活铁轨",
-        "air": "空气",
-        "anvil": "铁砧",
-        "apple": "苹果",
-        "armor_stand": "盔甲架",
-        "arrow": "箭",
-        "baked_potato": "烤马铃薯",
-        "banner": "旗帜",
-        "barrier": "屏障",
-        "beacon": "信标",
-        "bed": "床",
-        "bedrock": "基岩",
-        "beef": "生牛肉",
-        "beetroot": "甜菜根",
-        "beetroot_seeds": "甜菜种子",
-        "beetroot_soup": "甜菜汤",
-        "birch_boat": "白桦木船",
-        "birch_door": "白桦木门",
-        "birch_fence": "白桦木栅栏",
-        "birch_fence_gate": "白桦木栅栏门",
-        "birch_stairs": "白桦木楼梯",
-        "black_glazed_terracotta": "黑色带釉陶瓦",
-        "black_shulker_box": "黑色潜影盒",
-        "blaze_powder": "烈焰粉",
-        "blaze_rod": "烈焰棒",
-        "blue_glazed_terracotta": "蓝色带釉陶瓦",
-        "blue_shulker_box": "蓝色潜影盒",
-        "boat": "船",
-        "bone": "骨头",
-        "bone_block": "骨块",
-        "book": "书",
-        "bookshelf": "书架",
-        "bow": "弓",
-        "bowl": "碗",
-        "bread": "面包",
-        "brewing_stand": "酿造台",
-        "brick": "红砖",
-        "brick_block": "红砖块",
-        "brick_stairs": "红砖楼梯",
-        "brown_glazed_terracotta": "棕色带釉陶瓦",
-        "brown_mushroom": "棕色蘑菇",
-        "brown_mushroom_block": "棕色蘑菇块",
-        "brown_shulker_box": "棕色潜影盒",
-        "bucket": "桶",
-        "cactus": "仙人掌",
-        "cake": "蛋糕",
-        "carpet": "地毯",
-        "carrot": "胡萝卜",
-        "carrot_on_a_stick": "胡萝卜钓竿",
-        "cauldron": "炼药锅",
-        "chain_command_block": "连锁型命令方块",
-        "chainmail_boots": "锁链靴子",
-        "chainmail_chestplate": "锁链胸甲",
-        "chainmail_helmet": "锁链头盔",
-        "chainmail_leggings": "锁链护腿",
-        "chest": "箱子",
-        "chest_minecart": "运输矿车",
-        "chicken": "生鸡肉",
-        "chorus_flower": "紫颂花",
-        "chorus_fruit": "紫颂果",
-        "chorus_fruit_popped": "爆裂紫颂果",
-        "chorus_plant": "紫颂植物",
-        "clay": "粘土",
-        "clay_ball": "粘土球",
-        "clock": "时钟",
-        "coal": "煤炭",
-        "coal_block": "煤炭块",
-        "coal_ore": "煤矿石",
-        "cobblestone": "圆石",
-        "cobblestone_wall": "圆石墙",
-        "command_block": "命令方块",
-        "command_block_minecart": "命令方块矿车",
-        "comparator": "红石比较器",
-        "compass": "指南针",
-        "concrete": "混凝土",
-        "concrete_powder": "混凝土粉末",
-        "cooked_beef": "牛排",
-        "cooked_chicken": "熟鸡肉",
-        "cooked_fish": "熟鱼",
-        "cooked_mutton": "熟羊肉",
-        "cooked_porkchop": "熟猪排",
-        "cooked_rabbit": "熟兔肉",
-        "cookie": "曲奇",
-        "crafting_table": "工作台",
-        "cyan_glazed_terracotta": "青色带釉陶瓦",
-        "cyan_shulker_box": "青色潜影盒",
-        "dark_oak_boat": "深色橡木船",
-        "dark_oak_door": "深色橡木门",
-        "dark_oak_fence": "深色橡木栅栏",
-        "dark_oak_fence_gate": "深色橡木栅栏门",
-        "dark_oak_stairs": "深色橡木楼梯",
-        "daylight_detector": "阳光探测器",
-        "deadbush": "枯灌木",
-        "detector_rail": "探测铁轨",
-        "diamond": "钻石",
-        "diamond_axe": "钻石斧",
-        "diamond_block": "钻石块",
-        "diamond_boots": "钻石靴子",
-        "diamond_chestplate": "钻石胸甲",
-        "diamond_helmet": "钻石头盔",
-        "diamond_hoe": "钻石锄",
-        "diamond_horse_armor": "钻石马铠",
-        "diamond_leggings": "钻石护腿",
-        "diamond_ore": "钻石矿石",
-        "diamond_pickaxe": "钻石镐",
-        "diamond_shovel": "钻石锹",
-        "diamond_sword": "钻石剑",
-        "dirt": "泥土",
-        "dispenser": "发射器",
-        "double_plant": "双层植物",
-        "dragon_breath": "龙息",
-        "dragon_egg": "龙蛋",
-        "dropper": "投掷器",
-        "dye": "染料",
-        "egg": "鸡蛋",
-        "elytra": "鞘翅",
-        "emerald": "绿宝石",
-        "emerald_block": "绿宝石块",
-        "emerald_ore": "绿宝石矿石",
-        "enchanted_book": "附魔书",
-        "enchanting_table": "附魔台",
-        "end_bricks": "末地石砖",
-        "end_crystal": "末地水晶",
-        "end_portal_frame": "末地传送门框架",
-        "end_rod": "末地烛",
-        "end_stone": "末地石",
-        "ender_chest": "末影箱",
-        "ender_eye": "末影之眼",
-        "ender_pearl": "末影珍珠",
-        "experience_bottle": "经验瓶",
-        "farmland": "耕地",
-        "feather": "羽毛",
-        "fence": "栅栏",
-        "fence_gate": "栅栏门",
-        "fermented_spider_eye": "发酵蛛眼",
-        "filled_map": "地图",
-        "fire_charge": "火焰弹",
-        "firework_charge": "烟火之星",
-        "fireworks": "烟花火箭",
-        "fish": "鱼",
-        "fishing_rod": "钓鱼竿",
-        "flint": "燧石",
-        "flint_and_steel": "打火石",
-        "flower_pot": "花盆",
-        "furnace": "熔炉",
-        "furnace_minecart": "动力矿车",
-        "ghast_tear": "恶魂之泪",
-        "glass": "玻璃",
-        "glass_bottle": "玻璃瓶",
-        "glass_pane": "玻璃板",
-        "glowstone": "荧石",
-        "glowstone_dust": "荧石粉",
-        "gold_block": "金块",
-        "gold_ingot": "金锭",
-        "gold_nugget": "金粒",
-        "gold_ore": "金矿石",
-        "golden_apple": "金苹果",
-        "golden_axe": "金斧",
-        "golden_boots": "金靴子",
-        "golden_carrot": "金胡萝卜",
-        "golden_chestplate": "金胸甲",
-        "golden_helmet": "金头盔",
-        "golden_hoe": "金锄",
-        "golden_horse_armor": "金马铠",
-        "golden_leggings": "金护腿",
-        "golden_pickaxe": "金镐",
-        "golden_rail": "充能铁轨",
-        "golden_shovel": "金锹",
-        "golden_sword": "金剑",
-        "grass": "草",
-        "grass_path": "草径",
-        "gravel": "沙砾",
-        "gray_glazed_terracotta": "灰色带釉陶瓦",
-        "gray_shulker_box": "灰色潜影盒",
-        "green_glazed_terracotta": "绿色带釉陶瓦",
-        "green_shulker_box": "绿色潜影盒",
-        "gunpowder": "火药",
-        "hardened_clay": "硬化粘土",
-        "hay_block": "干草块",
-        "heavy_weighted_pressure_plate": "重质测重压力板",
-        "hopper": "漏斗",
-        "hopper_minecart": "漏斗矿车",
-        "ice": "冰",
-        "iron_axe": "铁斧",
-        "iron_bars": "铁栏杆",
-        "iron_block": "铁块",
-        "iron_boots": "铁靴子",
-        "iron_chestplate": "铁胸甲",
-        "iron_door": "铁门",
-        "iron_helmet": "铁头盔",
-        "iron_hoe": "铁锄",
-        "iron_horse_armor": "铁马铠",
-        "iron_ingot": "铁锭",
-        "iron_leggings": "铁护腿",
-        "iron_nugget": "铁粒",
-        "iron_ore": "铁矿石",
-        "iron_pickaxe": "铁镐",
-        "iron_shovel": "铁锹",
-        "iron_sword": "铁剑",
-        "iron_trapdoor": "铁活板门",
-        "item_frame": "物品展示框",
-        "jukebox": "唱片机",
-        "jungle_boat": "丛林木船",
-        "jungle_door": "丛林木门",
-        "jungle_fence": "丛林木栅栏",
-        "jungle_fence_gate": "丛林木栅栏门",
-        "jungle_stairs": "丛林木楼梯",
-        "knowledge_book": "知识之书",
-        "ladder": "梯子",
-        "lapis_block": "青金石块",
-        "lapis_ore": "青金石矿石",
-        "lava_bucket": "熔岩桶",
-        "lead": "栓绳",
-        "leather": "皮革",
-        "leather_boots": "皮革靴子",
-        "leather_chestplate": "皮革外套",
-        "leather_helmet": "皮革帽子",
-        "leather_leggings": "皮革裤子",
-        "leaves": "树叶",
-        "leaves2": "树叶2",
-        "lever": "拉杆",
-        "light_blue_glazed_terracotta": "淡蓝色带釉陶瓦",
-        "light_blue_shulker_box": "淡蓝色潜影盒",
-        "light_weighted_pressure_plate": "轻质测重压力板",
-        "lime_glazed_terracotta": "黄绿色带釉陶瓦",
-        "lime_shulker_box": "黄绿色潜影盒",
-        "lingering_potion": "滞留药水",
-        "lit_pumpkin": "南瓜灯",
-        "log": "原木",
-        "log2": "原木2",
-        "magenta_glazed_terracotta": "品红色带釉陶瓦",
-        "magenta_shulker_box": "品红色潜影盒",
-        "magma": "岩浆块",
-        "magma_cream": "岩浆膏",
-        "map": "地图",
-        "melon": "西瓜片",
-        "melon_block": "西瓜",
-        "melon_seeds": "西瓜种子",
-        "milk_bucket": "奶桶",
-        "minecart": "矿车",
-        "mob_spawner": "刷怪笼",
-        "monster_egg": "蠹虫方块",
-        "mossy_cobblestone": "苔石",
-        "mushroom_stew": "蘑菇煲",
-        "mutton": "生羊肉",
-        "mycelium": "菌丝",
-        "name_tag": "命名牌",
-        "nether_brick": "下界砖",
-        "nether_brick_fence": "下界砖栅栏",
-        "nether_brick_stairs": "下界砖楼梯",
-        "nether_star": "下界之星",
-        "nether_wart": "下界疣",
-        "nether_wart_block": "下界疣块",
-        "netherbrick": "下界砖",
-        "netherrack": "下界岩",
-        "noteblock": "音符盒",
-        "oak_stairs": "橡木楼梯",
-        "observer": "侦测器",
-        "obsidian": "黑曜石",
-        "orange_glazed_terracotta": "橙色带釉陶瓦",
-        "orange_shulker_box": "橙色潜影盒",
-        "packed_ice": "浮冰",
-        "painting": "画",
-        "paper": "纸",
-        "pink_glazed_terracotta": "粉红色带釉陶瓦",
-        "pink_shulker_box": "粉红色潜影盒",
-        "piston": "活塞",
-        "planks": "木板",
-        "poisonous_potato": "毒马铃薯",
-        "porkchop": "生猪排",
-        "potato": "马铃薯",
-        "potion": "药水",
-        "prismarine": "海晶石",
-        "prismarine_crystals": "海晶砂粒",
-        "prismarine_shard": "海晶碎片",
-        "pumpkin": "南瓜",
-        "pumpkin_pie": "南瓜派",
-        "pumpkin_seeds": "南瓜种子",
-        "purple_glazed_terracotta": "紫色带釉陶瓦",
-        "purple_shulker_box": "紫色潜影盒",
-        "purpur_block": "紫珀块",
-        "purpur_pillar": "紫珀柱",
-        "purpur_slab": "紫珀台阶",
-        "purpur_stairs": "紫珀楼梯",
-        "quartz": "下界石英",
-        "quartz_block": "石英块",
-        "quartz_ore": "下界石英矿石",
-        "quartz_stairs": "石英楼梯",
-        "rabbit": "生兔肉",
-        "rabbit_foot": "兔子脚",
-        "rabbit_hide": "兔子皮",
-        "rabbit_stew": "兔肉煲",
-        "rail": "铁轨",
-        "record_11": "11号唱片",
-        "record_13": "13号唱片",
-        "record_blocks": "blocks唱片",
-        "record_cat": "cat唱片",
-        "record_chirp": "chirp唱片",
-        "record_far": "far唱片",
-        "record_mall": "mall唱片",
-        "record_mellohi": "mellohi唱片",
-        "record_stal": "stal唱片",
-        "record_strad": "strad唱片",
-        "record_wait": "wait唱片",
-        "record_ward": "ward唱片",
-        "red_flower": "红色花",
-        "red_glazed_terracotta": "红色带釉陶瓦",
-        "red_mushroom": "红色蘑菇",
-        "red_mushroom_block": "红色蘑菇块",
-        "red_nether_brick": "红色下界砖",
-        "red_sandstone": "红砂岩",
-        "red_sandstone_stairs": "红砂岩楼梯",
-        "red_shulker_box": "红色潜影盒",
-        "redstone": "红石粉",
-        "redstone_block": "红石块",
-        "redstone_lamp": "红石灯",
-        "redstone_ore": "红石矿石",
-        "redstone_torch": "红石火把",
-        "reeds": "甘蔗",
-        "repeater": "红石中继器",
-        "repeating_command_block": "循环型命令方块",
-        "rotten_flesh": "腐肉",
-        "saddle": "鞍",
-        "sand": "沙子",
-        "sandstone": "砂岩",
-        "sandstone_stairs": "砂岩楼梯",
-        "sapling": "树苗",
-        "sea_lantern": "海晶灯",
-        "shears": "剪刀",
-        "shield": "盾牌",
-        "shulker_shell": "潜影壳",
-        "sign": "告示牌",
-        "silver_glazed_terracotta": "银色带釉陶瓦",
-        "silver_shulker_box": "银色潜影盒",
-        "skull": "头颅",
-        "slime": "粘液块",
-        "slime_ball": "粘液球",
-        "snow": "雪块",
-        "snow_layer": "雪层",
-        "snowball": "雪球",
-        "soul_sand": "灵魂沙",
-        "spawn_egg": "刷怪蛋",
-        "speckled_melon": "闪烁的西瓜",
-        "spectral_arrow": "光灵箭",
-        "spider_eye": "蜘蛛眼",
-        "splash_potion": "喷溅药水",
-        "sponge": "海绵",
-        "spruce_boat": "云杉木船",
-        "spruce_door": "云杉木门",
-        "spruce_fence": "云杉木栅栏",
-        "spruce_fence_gate": "云杉木栅栏门",
-        "spruce_stairs": "云杉木楼梯",
-        "stained_glass": "染色玻璃",
-        "stained_glass_pane": "染色玻璃板",
-        "stained_hardened_clay": "染色硬化粘土",
-        "stick": "木棍",
-        "sticky_piston": "粘性活塞",
-        "stone": "石头",
-        "stone_axe": "石斧",
-        "stone_brick_stairs": "石砖楼梯",
-        "stone_button": "石质按钮",
-        "stone_hoe": "石锄",
-        "stone_pickaxe": "石镐",
-        "stone_pressure_plate": "石质压力板",
-        "stone_shovel": "石锹",
-        "stone_slab": "石台阶",
-        "stone_slab2": "台阶",
-        "stone_stairs": "石楼梯",
-        "stone_sword": "石剑",
-        "stonebrick": "石砖",
-        "string": "线",
-        "structure_block": "结构方块",
-        "structure_void": "结构空位",
-        "sugar": "糖",
-        "tallgrass": "高草",
-        "tipped_arrow": "药箭",
-        "tnt": "TNT",
-        "tnt_minecart": "TNT矿车",
-        "torch": "火把",
-        "totem_of_undying": "不死图腾",
-        "trapdoor": "活板门",
-        "trapped_chest": "陷阱箱",
-        "tripwire_hook": "绊线钩",
-        "vine": "藤蔓",
-        "water_bucket": "水桶",
-        "waterlily": "睡莲",
-        "web": "蜘蛛网",
-        "wheat": "小麦",
-        "wheat_seeds": "小麦种子",
-        "white_glazed_terracotta": "白色带釉陶瓦",
-        "white_shulker_box": "白色潜影盒",
-        "wooden_axe": "木斧",
-        "wooden_button": "木质按钮",
-        "wooden_door": "木门",
-        "wooden_hoe": "木锄",
-        "wooden_pickaxe": "木镐",
-        "wooden_pressure_plate": "木质压力板",
-        "wooden_shovel": "木锹",
-        "wooden_slab": "木台阶",
-        "wooden_sword": "木剑",
-        "wool": "羊毛",
-        "writable_book": "书与笔",
-        "written_book": "成书",
-        "yellow_flower": "黄色花",
-        "yellow_glazed_terracotta": "黄色带釉陶瓦",
-        "yellow_shulker_box": "黄色潜影盒"
-      };
+      lazyData.ItemNameMap = RegistryLoader.loadMap('items');
     }
     return { ...lazyData.ItemNameMap }; // 返回副本避免外部修改
   },
@@ -877,25 +124,65 @@ export const ItemNameMap = {
     return this.all[key] || key;
   }
 };
+export const ItemDataValues = {
+  get all(): {
+    values: Record<string, Record<string, string>>;
+    maxStackSize: Record<string, number>;
+    maxDamage: Record<string, number>;
+    hints: Record<string, string>;
+  } {
+    if (!lazyData.ItemDataValues) {
+      lazyData.ItemDataValues = {
+        values: RegistryLoader.loadMap<Record<string, string>>('item_data'),
+        maxStackSize: RegistryLoader.loadMap<number>('item_data', 'maxStackSize'),
+        maxDamage: RegistryLoader.loadMap<number>('item_data', 'maxDamage'),
+        hints: RegistryLoader.loadMap('item_data', 'hints')
+      };
+    }
+    return lazyData.ItemDataValues;
+  },
+
+  /**
+   * 获取物品的数据值变种表（物品id可带 minecraft: 前缀）
+   * @param item 物品id
+   * @returns 数据值 → 变种名称（未收录的物品返回undefined）
+   */
+  get(item: string): Record<string, string> | undefined {
+    return this.all.values[normalizeId(item)];
+  },
+
+  /**
+   * 获取物品最大堆叠数（未收录的物品为 64）
+   * @param item 物品id
+   * @returns 最大堆叠数
+   */
+  getMaxStackSize(item: string): number {
+    return this.all.maxStackSize[normalizeId(item)] ?? 64;
+  },
+
+  /**
+   * 获取物品耐久度（数据值表示损耗值）
+   * @param item 物品id
+   * @returns 耐久度（无耐久的物品返回undefined）
+   */
+  getMaxDamage(item: string): number | undefined {
+    return this.all.maxDamage[normalizeId(item)];
+  },
+
+  /**
+   * 获取物品数据值的补充说明（如药水种类由 NBT 决定）
+   * @param item 物品id
+   * @returns 说明（没有则返回undefined）
+   */
+  getHint(item: string): string | undefined {
+    return this.all.hints[normalizeId(item)];
+  }
+};
+
 export const MinecraftStats = {
   get all(): Array<{ name: string; desc: string }> {
     if (!lazyData.MinecraftStats) {
-      lazyData.MinecraftStats = [
-        { name: "air", desc: "玩家氧气值" },
-        { name: "armor", desc: "玩家护甲值" },
-        { name: "dummy", desc: "（只能通过命令改变）" },
-        { name: "deathCount", desc: "死亡次数" },
-        { name: "food", desc: "食物值" },
-        { name: "health", desc: "生命数（正常满血是20）" },
-        { name: "killedByTeam.**", desc: "被**队击杀次数（**为队伍颜色）" },
-        { name: "level", desc: "等级数" },
-        { name: "playerKillCount", desc: "玩家击杀数" },
-        { name: "stat.**", desc: "统计信息（详见具体子项）" },
-        { name: "teamkill.**", desc: "击杀**队伍的次数（**为队伍颜色）" },
-        { name: "totalKillCount", desc: "总击杀数" },
-        { name: "trigger", desc: "普通玩家可使用trigger命令设置自己的分数（详见上面目录，可以快速跳转）" },
-        { name: "xp", desc: "玩家经验数" }
-      ];
+      lazyData.MinecraftStats = RegistryLoader.loadList('stats', 'criteria');
     }
     return [...lazyData.MinecraftStats]; // 返回副本避免外部修改
   },
@@ -911,64 +198,7 @@ export const MinecraftStats = {
 export const MinecraftStatsDetail = {
   get all(): Array<{ name: string; desc: string }> {
     if (!lazyData.MinecraftStatsDetail) {
-      lazyData.MinecraftStatsDetail = [
-        { name: "stat.animalsBred", desc: "动物繁殖次数" },
-        { name: "stat.armorCleaned", desc: "在炼药锅中洗掉装备颜色的次数" },
-        { name: "stat.aviateOneCm", desc: "滑翔1cm加1分" },
-        { name: "stat.bannerCleaned", desc: "在炼药锅洗掉旗帜颜色的次数" },
-        { name: "stat.beaconInteraction", desc: "与信标交互次数" },
-        { name: "stat.boatOneCm", desc: "划船每1cm加1分" },
-        { name: "stat.breakItem.minecraft.**", desc: "用坏**工具/装备的次数（**为工具/装备名称）" },
-        { name: "stat.brewingstandInteraction", desc: "与酿造台交互的次数" },
-        { name: "stat.cakeSlicesEaten", desc: "吃掉的蛋糕片数" },
-        { name: "stat.cauldronFilled", desc: "炼药锅装水次数" },
-        { name: "stat.cauldronUsed", desc: "炼药锅用水次数" },
-        { name: "stat.chestOpened", desc: "打开箱子次数" },
-        { name: "stat.climbOneCm", desc: "攀爬1cm（攀爬藤蔓或者梯子）" },
-        { name: "stat.craftItem.minecraft.**", desc: "合成出**物品" },
-        { name: "stat.crouchOneCm", desc: "潜行每1cm加1分" },
-        { name: "stat.damageDealt", desc: "造成的伤害总和 * 10" },
-        { name: "stat.damageTaken", desc: "受到的伤害总和 * 10" },
-        { name: "stat.deaths", desc: "死亡次数" },
-        { name: "stat.dispenserInspected", desc: "打开发射器GUI的次数" },
-        { name: "stat.peOneCm", desc: "水下移动每1cm加1分" },
-        { name: "stat.drop.minecraft.**", desc: "丢弃|掉落**物品（**为物品名）" },
-        { name: "stat.dropperInspected", desc: "打开投掷器GUI的次数" },
-        { name: "stat.enderchestOpened", desc: "打开末影箱次数" },
-        { name: "stat.entityKilledBy.**", desc: "被**生物击杀的次数（**为生物名）" },
-        { name: "stat.fallOneCm", desc: "摔落每1cm加1分" },
-        { name: "stat.fishCaught", desc: "钓到鱼的次数" },
-        { name: "stat.flowerPotted", desc: "在花盆中种花的次数" },
-        { name: "stat.flyOneCm", desc: "飞行1cm加一分" },
-        { name: "stat.furnaceInteraction", desc: "与熔炉交互的次数" },
-        { name: "stat.hopperInspected", desc: "与漏斗交互次数" },
-        { name: "stat.horseOneCm", desc: "骑马每1cm加1分" },
-        { name: "stat.itemEnchanted", desc: "物品被附魔" },
-        { name: "stat.jump", desc: "跳跃次数" },
-        { name: "stat.killEntity.**", desc: "击杀**生物次数（**为生物名）" },
-        { name: "stat.leaveGame", desc: "离开游戏次数" },
-        { name: "stat.mineBlock.minecraft.**", desc: "采掘**方块次数（**为方块名）" },
-        { name: "stat.minecartOneCm", desc: "坐矿车每1cm加1分" },
-        { name: "stat.mobKills", desc: "击杀生物次数" },
-        { name: "stat.noteblockPlayed", desc: "击打音符盒次数" },
-        { name: "stat.noteblockTuned", desc: "给音符盒调音次数" },
-        { name: "stat.pickup.minecraft.**", desc: "捡起**物品次数（**为物品名）" },
-        { name: "stat.pigOneCm", desc: "骑猪每1cm加1分" },
-        { name: "stat.playOneMinute", desc: "玩家游玩游戏刻（每秒加20）" },
-        { name: "stat.playerKills", desc: "击杀玩家次数" },
-        { name: "stat.recordPlayed", desc: "播放CD次数" },
-        { name: "stat.shulkerBoxOpened", desc: "打开潜影箱次数" },
-        { name: "stat.sleepInBed", desc: "在床上睡觉次数" },
-        { name: "stat.sneakTime", desc: "潜行时间" },
-        { name: "stat.sprintOneCm", desc: "疾跑每1cm加1分" },
-        { name: "stat.swimOneCm", desc: "游泳每1cm加1分" },
-        { name: "stat.talkedToVillager", desc: "打开与村民的交易框次数" },
-        { name: "stat.timeSinceDeath", desc: "自从上次死亡以来的时间" },
-        { name: "stat.tradedWithVillager", desc: "与村民进行交易的次数" },
-        { name: "stat.trappedChestTriggered", desc: "陷阱箱被触发的次数" },
-        { name: "stat.useItem.minecraft.**", desc: "使用**物品的次数（**为方块或物品名）" },
-        { name: "stat.walkOneCm", desc: "行走每1cm加1分" },
-      ];
+      lazyData.MinecraftStatsDetail = RegistryLoader.loadList('stats', 'statistics');
     }
     return [...lazyData.MinecraftStatsDetail]; // 返回副本避免外部修改
   },
@@ -984,57 +214,7 @@ export const MinecraftStatsDetail = {
 export const ParticleNames = {
   get all(): Array<{ name: string; desc: string }> {
     if (!lazyData.ParticleNames) {
-      lazyData.ParticleNames = [
-        { name: "angryVillager", desc: "愤怒的村民" },
-        { name: "barrier", desc: "屏障" },
-        { name: "blockcrack", desc: "方块破裂" },
-        { name: "blockdust", desc: "方块粉尘" },
-        { name: "bubble", desc: "气泡" },
-        { name: "cloud", desc: "云朵" },
-        { name: "crit", desc: "暴击" },
-        { name: "damageIndicator", desc: "伤害指示器" },
-        { name: "depthsuspend", desc: "深海悬浮" },
-        { name: "dragonbreath", desc: "龙息" },
-        { name: "dripLava", desc: "熔岩滴落" },
-        { name: "dripWater", desc: "水滴落" },
-        { name: "droplet", desc: "小水滴" },
-        { name: "enchantmenttable", desc: "附魔台" },
-        { name: "endRod", desc: "末地烛" },
-        { name: "explode", desc: "爆炸" },
-        { name: "fallingdust", desc: "下落粉尘" },
-        { name: "fireworksSpark", desc: "烟花火花" },
-        { name: "flame", desc: "火焰" },
-        { name: "footstep", desc: "脚步声" },
-        { name: "happyVillager", desc: "快乐的村民" },
-        { name: "heart", desc: "爱心" },
-        { name: "hugeexplosion", desc: "巨大爆炸" },
-        { name: "iconcrack", desc: "图标破裂" },
-        { name: "instantSpell", desc: "瞬间法术" },
-        { name: "largeexplode", desc: "大型爆炸" },
-        { name: "largesmoke", desc: "大量烟雾" },
-        { name: "lava", desc: "熔岩" },
-        { name: "magicCrit", desc: "魔法暴击" },
-        { name: "mobSpell", desc: "生物法术" },
-        { name: "mobSpellAmbient", desc: "生物环境法术" },
-        { name: "mobappearance", desc: "生物出现" },
-        { name: "note", desc: "音符" },
-        { name: "portal", desc: "传送门" },
-        { name: "reddust", desc: "红色粉尘" },
-        { name: "slime", desc: "史莱姆" },
-        { name: "smoke", desc: "烟雾" },
-        { name: "snowballpoof", desc: "雪球噗声" },
-        { name: "snowshovel", desc: "雪铲" },
-        { name: "spell", desc: "法术" },
-        { name: "spit", desc: "吐息" },
-        { name: "splash", desc: "飞溅" },
-        { name: "suspended", desc: "悬浮" },
-        { name: "sweepAttack", desc: "横扫攻击" },
-        { name: "take", desc: "获取" },
-        { name: "totem", desc: "图腾" },
-        { name: "townaura", desc: "村庄光环" },
-        { name: "wake", desc: "波纹" },
-        { name: "witchMagic", desc: "女巫魔法" }
-      ];
+      lazyData.ParticleNames = RegistryLoader.loadList('particles');
     }
     return [...lazyData.ParticleNames]; // 返回副本避免外部修改
   },
@@ -1049,11 +229,354 @@ export const ParticleNames = {
 };
 
 
+/** 音效事件后缀的中文说明（未收录的后缀直接显示原名） */
+const SOUND_EVENT_DESC: Record<string, string> = {
+  ambient: "环境音", death: "死亡", hurt: "受伤", step: "脚步", break: "破坏", place: "放置",
+  fall: "摔落", hit: "击打", open: "打开", close: "关闭", shoot: "射击", throw: "投掷",
+  attack: "攻击", jump: "跳跃", eat: "进食", angry: "愤怒", click: "点击", click_on: "按下",
+  click_off: "弹起", use: "使用", splash: "溅水", swim: "游泳", teleport: "传送", squish: "挤压"
+};
+
+export const SoundNames = {
+  get all(): Array<{ name: string; desc: string }> {
+    if (!lazyData.SoundNames) {
+      const groups: Array<{ prefix: string; desc: string; events: string[] }> = [
+        { prefix: "ambient.cave", desc: "洞穴环境音", events: [""] },
+        { prefix: "block.anvil", desc: "铁砧", events: ["break", "destroy", "fall", "hit", "land", "place", "step", "use"] },
+        { prefix: "block.brewing_stand", desc: "酿造台", events: ["brew"] },
+        { prefix: "block.chest", desc: "箱子", events: ["close", "locked", "open"] },
+        { prefix: "block.chorus_flower", desc: "紫颂花", events: ["death", "grow"] },
+        { prefix: "block.cloth", desc: "羊毛", events: ["break", "fall", "hit", "place", "step"] },
+        { prefix: "block.comparator", desc: "红石比较器", events: ["click"] },
+        { prefix: "block.dispenser", desc: "发射器", events: ["dispense", "fail", "launch"] },
+        { prefix: "block.enchantment_table", desc: "附魔台", events: ["use"] },
+        { prefix: "block.end_gateway", desc: "末地折跃门", events: ["spawn"] },
+        { prefix: "block.end_portal", desc: "末地传送门", events: ["spawn"] },
+        { prefix: "block.end_portal_frame", desc: "末地传送门框架", events: ["fill"] },
+        { prefix: "block.enderchest", desc: "末影箱", events: ["close", "open"] },
+        { prefix: "block.fence_gate", desc: "栅栏门", events: ["close", "open"] },
+        { prefix: "block.fire", desc: "火", events: ["ambient", "extinguish"] },
+        { prefix: "block.furnace", desc: "熔炉", events: ["fire_crackle"] },
+        { prefix: "block.glass", desc: "玻璃", events: ["break", "fall", "hit", "place", "step"] },
+        { prefix: "block.grass", desc: "草", events: ["break", "fall", "hit", "place", "step"] },
+        { prefix: "block.gravel", desc: "沙砾", events: ["break", "fall", "hit", "place", "step"] },
+        { prefix: "block.iron_door", desc: "铁门", events: ["close", "open"] },
+        { prefix: "block.iron_trapdoor", desc: "铁活板门", events: ["close", "open"] },
+        { prefix: "block.ladder", desc: "梯子", events: ["break", "fall", "hit", "place", "step"] },
+        { prefix: "block.lava", desc: "熔岩", events: ["ambient", "extinguish", "pop"] },
+        { prefix: "block.lever", desc: "拉杆", events: ["click"] },
+        { prefix: "block.metal", desc: "金属方块", events: ["break", "fall", "hit", "place", "step"] },
+        { prefix: "block.metal_pressureplate", desc: "金属压力板", events: ["click_off", "click_on"] },
+        { prefix: "block.note", desc: "音符盒", events: ["basedrum", "bass", "bell", "chime", "flute", "guitar", "harp", "hat", "pling", "snare", "xylophone"] },
+        { prefix: "block.piston", desc: "活塞", events: ["contract", "extend"] },
+        { prefix: "block.portal", desc: "下界传送门", events: ["ambient", "travel", "trigger"] },
+        { prefix: "block.redstone_torch", desc: "红石火把", events: ["burnout"] },
+        { prefix: "block.sand", desc: "沙子", events: ["break", "fall", "hit", "place", "step"] },
+        { prefix: "block.shulker_box", desc: "潜影盒", events: ["close", "open"] },
+        { prefix: "block.slime", desc: "粘液块", events: ["break", "fall", "hit", "place", "step"] },
+        { prefix: "block.snow", desc: "雪", events: ["break", "fall", "hit", "place", "step"] },
+        { prefix: "block.stone", desc: "石头", events: ["break", "fall", "hit", "place", "step"] },
+        { prefix: "block.stone_button", desc: "石按钮", events: ["click_off", "click_on"] },
+        { prefix: "block.stone_pressureplate", desc: "石压力板", events: ["click_off", "click_on"] },
+        { prefix: "block.tripwire", desc: "绊线", events: ["attach", "click_off", "click_on", "detach"] },
+        { prefix: "block.water", desc: "水", events: ["ambient"] },
+        { prefix: "block.waterlily", desc: "睡莲", events: ["place"] },
+        { prefix: "block.wood", desc: "木头", events: ["break", "fall", "hit", "place", "step"] },
+        { prefix: "block.wood_button", desc: "木按钮", events: ["click_off", "click_on"] },
+        { prefix: "block.wood_pressureplate", desc: "木压力板", events: ["click_off", "click_on"] },
+        { prefix: "block.wooden_door", desc: "木门", events: ["close", "open"] },
+        { prefix: "block.wooden_trapdoor", desc: "木活板门", events: ["close", "open"] },
+        { prefix: "enchant.thorns", desc: "荆棘附魔", events: ["hit"] },
+        { prefix: "entity.armorstand", desc: "盔甲架", events: ["break", "fall", "hit", "place"] },
+        { prefix: "entity.arrow", desc: "箭", events: ["hit", "hit_player", "shoot"] },
+        { prefix: "entity.bat", desc: "蝙蝠", events: ["ambient", "death", "hurt", "loop", "takeoff"] },
+        { prefix: "entity.blaze", desc: "烈焰人", events: ["ambient", "burn", "death", "hurt", "shoot"] },
+        { prefix: "entity.boat", desc: "船", events: ["paddle_land", "paddle_water"] },
+        { prefix: "entity.bobber", desc: "浮漂", events: ["retrieve", "splash", "throw"] },
+        { prefix: "entity.cat", desc: "猫", events: ["ambient", "death", "hiss", "hurt", "purr", "purreow"] },
+        { prefix: "entity.chicken", desc: "鸡", events: ["ambient", "death", "egg", "hurt", "step"] },
+        { prefix: "entity.cow", desc: "牛", events: ["ambient", "death", "hurt", "milk", "step"] },
+        { prefix: "entity.creeper", desc: "苦力怕", events: ["death", "hurt", "primed"] },
+        { prefix: "entity.donkey", desc: "驴", events: ["ambient", "angry", "chest", "death", "hurt"] },
+        { prefix: "entity.egg", desc: "鸡蛋", events: ["throw"] },
+        { prefix: "entity.elder_guardian", desc: "远古守卫者", events: ["ambient", "ambient_land", "curse", "death", "death_land", "flop", "hurt", "hurt_land"] },
+        { prefix: "entity.enderdragon", desc: "末影龙", events: ["ambient", "death", "flap", "growl", "hurt", "shoot"] },
+        { prefix: "entity.enderdragon_fireball", desc: "末影龙火球", events: ["explode"] },
+        { prefix: "entity.endereye", desc: "末影之眼", events: ["death", "launch"] },
+        { prefix: "entity.endermen", desc: "末影人", events: ["ambient", "death", "hurt", "scream", "stare", "teleport"] },
+        { prefix: "entity.endermite", desc: "末影螨", events: ["ambient", "death", "hurt", "step"] },
+        { prefix: "entity.enderpearl", desc: "末影珍珠", events: ["throw"] },
+        { prefix: "entity.evocation_fangs", desc: "唤魔者尖牙", events: ["attack"] },
+        { prefix: "entity.evocation_illager", desc: "唤魔者", events: ["ambient", "cast_spell", "death", "hurt", "prepare_attack", "prepare_summon", "prepare_wololo"] },
+        { prefix: "entity.experience_bottle", desc: "附魔之瓶", events: ["throw"] },
+        { prefix: "entity.experience_orb", desc: "经验球", events: ["pickup"] },
+        { prefix: "entity.firework", desc: "烟花", events: ["blast", "blast_far", "large_blast", "large_blast_far", "launch", "shoot", "twinkle", "twinkle_far"] },
+        { prefix: "entity.generic", desc: "通用实体", events: ["big_fall", "burn", "death", "drink", "eat", "explode", "extinguish_fire", "hurt", "small_fall", "splash", "swim"] },
+        { prefix: "entity.ghast", desc: "恶魂", events: ["ambient", "death", "hurt", "scream", "shoot", "warn"] },
+        { prefix: "entity.guardian", desc: "守卫者", events: ["ambient", "ambient_land", "attack", "death", "death_land", "flop", "hurt", "hurt_land"] },
+        { prefix: "entity.horse", desc: "马", events: ["ambient", "angry", "armor", "breathe", "death", "eat", "gallop", "hurt", "jump", "land", "saddle", "step", "step_wood"] },
+        { prefix: "entity.hostile", desc: "敌对生物", events: ["big_fall", "death", "hurt", "small_fall", "splash", "swim"] },
+        { prefix: "entity.husk", desc: "尸壳", events: ["ambient", "death", "hurt", "step"] },
+        { prefix: "entity.illusion_illager", desc: "幻术师", events: ["ambient", "cast_spell", "death", "hurt", "mirror_move", "prepare_blindness", "prepare_mirror"] },
+        { prefix: "entity.irongolem", desc: "铁傀儡", events: ["attack", "death", "hurt", "step"] },
+        { prefix: "entity.item", desc: "物品", events: ["break", "pickup"] },
+        { prefix: "entity.itemframe", desc: "物品展示框", events: ["add_item", "break", "place", "remove_item", "rotate_item"] },
+        { prefix: "entity.leashknot", desc: "拴绳结", events: ["break", "place"] },
+        { prefix: "entity.lightning", desc: "闪电", events: ["impact", "thunder"] },
+        { prefix: "entity.lingeringpotion", desc: "滞留药水", events: ["throw"] },
+        { prefix: "entity.llama", desc: "羊驼", events: ["ambient", "angry", "chest", "death", "eat", "hurt", "spit", "step", "swag"] },
+        { prefix: "entity.magmacube", desc: "岩浆怪", events: ["death", "hurt", "jump", "squish"] },
+        { prefix: "entity.minecart", desc: "矿车", events: ["inside", "riding"] },
+        { prefix: "entity.mooshroom", desc: "哞菇", events: ["shear"] },
+        { prefix: "entity.mule", desc: "骡", events: ["ambient", "chest", "death", "hurt"] },
+        { prefix: "entity.painting", desc: "画", events: ["break", "place"] },
+        { prefix: "entity.parrot", desc: "鹦鹉", events: ["ambient", "death", "eat", "fly", "hurt", "step"] },
+        { prefix: "entity.parrot.imitate", desc: "鹦鹉模仿", events: ["blaze", "creeper", "elder_guardian", "enderdragon", "enderman", "endermite", "evocation_illager", "ghast", "husk", "illusion_illager", "magmacube", "polar_bear", "shulker", "silverfish", "skeleton", "slime", "spider", "stray", "vex", "vindication_illager", "witch", "wither", "wither_skeleton", "wolf", "zombie", "zombie_pigman", "zombie_villager"] },
+        { prefix: "entity.pig", desc: "猪", events: ["ambient", "death", "hurt", "saddle", "step"] },
+        { prefix: "entity.player", desc: "玩家", events: ["big_fall", "breath", "burp", "death", "hurt", "levelup", "small_fall", "splash", "swim"] },
+        { prefix: "entity.player.attack", desc: "玩家攻击", events: ["crit", "knockback", "nodamage", "strong", "sweep", "weak"] },
+        { prefix: "entity.polar_bear", desc: "北极熊", events: ["ambient", "baby_ambient", "death", "hurt", "step", "warning"] },
+        { prefix: "entity.rabbit", desc: "兔子", events: ["ambient", "attack", "death", "hurt", "jump"] },
+        { prefix: "entity.sheep", desc: "羊", events: ["ambient", "death", "hurt", "shear", "step"] },
+        { prefix: "entity.shulker", desc: "潜影贝", events: ["ambient", "close", "death", "hurt", "hurt_closed", "open", "shoot", "teleport"] },
+        { prefix: "entity.shulker_bullet", desc: "潜影弹", events: ["hit", "hurt"] },
+        { prefix: "entity.silverfish", desc: "蠹虫", events: ["ambient", "death", "hurt", "step"] },
+        { prefix: "entity.skeleton", desc: "骷髅", events: ["ambient", "death", "hurt", "shoot", "step"] },
+        { prefix: "entity.skeleton_horse", desc: "骷髅马", events: ["ambient", "death", "hurt"] },
+        { prefix: "entity.slime", desc: "史莱姆", events: ["attack", "death", "hurt", "jump", "squish"] },
+        { prefix: "entity.small_magmacube", desc: "小岩浆怪", events: ["death", "hurt", "squish"] },
+        { prefix: "entity.small_slime", desc: "小史莱姆", events: ["death", "hurt", "jump", "squish"] },
+        { prefix: "entity.snowball", desc: "雪球", events: ["throw"] },
+        { prefix: "entity.snowman", desc: "雪傀儡", events: ["ambient", "death", "hurt", "shoot"] },
+        { prefix: "entity.spider", desc: "蜘蛛", events: ["ambient", "death", "hurt", "step"] },
+        { prefix: "entity.splash_potion", desc: "喷溅药水", events: ["break", "throw"] },
+        { prefix: "entity.squid", desc: "鱿鱼", events: ["ambient", "death", "hurt"] },
+        { prefix: "entity.stray", desc: "流浪者", events: ["ambient", "death", "hurt", "step"] },
+        { prefix: "entity.tnt", desc: "TNT", events: ["primed"] },
+        { prefix: "entity.vex", desc: "恼鬼", events: ["ambient", "charge", "death", "hurt"] },
+        { prefix: "entity.villager", desc: "村民", events: ["ambient", "death", "hurt", "no", "trading", "yes"] },
+        { prefix: "entity.vindication_illager", desc: "卫道士", events: ["ambient", "death", "hurt"] },
+        { prefix: "entity.witch", desc: "女巫", events: ["ambient", "death", "drink", "hurt", "throw"] },
+        { prefix: "entity.wither", desc: "凋灵", events: ["ambient", "break_block", "death", "hurt", "shoot", "spawn"] },
+        { prefix: "entity.wither_skeleton", desc: "凋灵骷髅", events: ["ambient", "death", "hurt", "step"] },
+        { prefix: "entity.wolf", desc: "狼", events: ["ambient", "death", "growl", "howl", "hurt", "pant", "shake", "step", "whine"] },
+        { prefix: "entity.zombie", desc: "僵尸", events: ["ambient", "attack_door_wood", "attack_iron_door", "break_door_wood", "death", "hurt", "infect", "step"] },
+        { prefix: "entity.zombie_horse", desc: "僵尸马", events: ["ambient", "death", "hurt"] },
+        { prefix: "entity.zombie_pig", desc: "僵尸猪人", events: ["ambient", "angry", "death", "hurt"] },
+        { prefix: "entity.zombie_villager", desc: "僵尸村民", events: ["ambient", "converted", "cure", "death", "hurt", "step"] },
+        { prefix: "item.armor", desc: "穿戴盔甲", events: ["equip_chain", "equip_diamond", "equip_elytra", "equip_generic", "equip_gold", "equip_iron", "equip_leather"] },
+        { prefix: "item.bottle", desc: "玻璃瓶", events: ["empty", "fill", "fill_dragonbreath"] },
+        { prefix: "item.bucket", desc: "桶", events: ["empty", "empty_lava", "fill", "fill_lava"] },
+        { prefix: "item.chorus_fruit", desc: "紫颂果", events: ["teleport"] },
+        { prefix: "item.elytra", desc: "鞘翅", events: ["flying"] },
+        { prefix: "item.firecharge", desc: "火焰弹", events: ["use"] },
+        { prefix: "item.flintandsteel", desc: "打火石", events: ["use"] },
+        { prefix: "item.hoe", desc: "锄", events: ["till"] },
+        { prefix: "item.shield", desc: "盾牌", events: ["block", "break"] },
+        { prefix: "item.shovel", desc: "锹", events: ["flatten"] },
+        { prefix: "item.totem", desc: "不死图腾", events: ["use"] },
+        { prefix: "music", desc: "音乐", events: ["creative", "credits", "dragon", "end", "game", "hell", "menu"] },
+        { prefix: "record", desc: "唱片", events: ["11", "13", "blocks", "cat", "chirp", "far", "mall", "mellohi", "stal", "strad", "wait", "ward"] },
+        { prefix: "ui.button", desc: "界面按钮", events: ["click"] },
+        { prefix: "ui.toast", desc: "界面提示", events: ["challenge_complete", "in", "out"] },
+        { prefix: "weather", desc: "天气", events: ["rain", "rain.above"] }
+      ];
+      lazyData.SoundNames = groups.flatMap(group => group.events.map(event => ({
+        name: event ? `${group.prefix}.${event}` : group.prefix,
+        desc: event ? `${group.desc} - ${SOUND_EVENT_DESC[event] ?? event}` : group.desc
+      })));
+    }
+    return [...lazyData.SoundNames]; // 返回副本避免外部修改
+  },
+
+  // 按前缀过滤枚举项
+  filterByPrefix(prefix: string): Array<{ name: string; desc: string }> {
+    const lowerPrefix = prefix.toLowerCase();
+    return this.all.filter(item =>
+      item.name.toLowerCase().startsWith(lowerPrefix)
+    );
+  }
+};
+export const SoundSources = {
+  get all(): Array<{ name: string; desc: string }> {
+    if (!lazyData.SoundSources) {
+      lazyData.SoundSources = [
+        { name: "master", desc: "主音量" },
+        { name: "music", desc: "音乐" },
+        { name: "record", desc: "唱片机/音符盒" },
+        { name: "weather", desc: "天气" },
+        { name: "block", desc: "方块" },
+        { name: "hostile", desc: "敌对生物" },
+        { name: "neutral", desc: "友好生物" },
+        { name: "player", desc: "玩家" },
+        { name: "ambient", desc: "环境" },
+        { name: "voice", desc: "声音/语音" }
+      ];
+    }
+    return [...lazyData.SoundSources]; // 返回副本避免外部修改
+  }
+};
+
+export const Enchantments = {
+  get all(): Array<{ name: string; id: number; maxLevel: number; desc: string }> {
+    if (!lazyData.Enchantments) {
+      lazyData.Enchantments = [
+        { name: "protection", id: 0, maxLevel: 4, desc: "保护" },
+        { name: "fire_protection", id: 1, maxLevel: 4, desc: "火焰保护" },
+        { name: "feather_falling", id: 2, maxLevel: 4, desc: "摔落保护" },
+        { name: "blast_protection", id: 3, maxLevel: 4, desc: "爆炸保护" },
+        { name: "projectile_protection", id: 4, maxLevel: 4, desc: "弹射物保护" },
+        { name: "respiration", id: 5, maxLevel: 3, desc: "水下呼吸" },
+        { name: "aqua_affinity", id: 6, maxLevel: 1, desc: "水下速掘" },
+        { name: "thorns", id: 7, maxLevel: 3, desc: "荆棘" },
+        { name: "depth_strider", id: 8, maxLevel: 3, desc: "深海探索者" },
+        { name: "frost_walker", id: 9, maxLevel: 2, desc: "冰霜行者" },
+        { name: "binding_curse", id: 10, maxLevel: 1, desc: "绑定诅咒" },
+        { name: "sharpness", id: 16, maxLevel: 5, desc: "锋利" },
+        { name: "smite", id: 17, maxLevel: 5, desc: "亡灵杀手" },
+        { name: "bane_of_arthropods", id: 18, maxLevel: 5, desc: "节肢杀手" },
+        { name: "knockback", id: 19, maxLevel: 2, desc: "击退" },
+        { name: "fire_aspect", id: 20, maxLevel: 2, desc: "火焰附加" },
+        { name: "looting", id: 21, maxLevel: 3, desc: "抢夺" },
+        { name: "sweeping", id: 22, maxLevel: 3, desc: "横扫之刃" },
+        { name: "efficiency", id: 32, maxLevel: 5, desc: "效率" },
+        { name: "silk_touch", id: 33, maxLevel: 1, desc: "精准采集" },
+        { name: "unbreaking", id: 34, maxLevel: 3, desc: "耐久" },
+        { name: "fortune", id: 35, maxLevel: 3, desc: "时运" },
+        { name: "power", id: 48, maxLevel: 5, desc: "力量" },
+        { name: "punch", id: 49, maxLevel: 2, desc: "冲击" },
+        { name: "flame", id: 50, maxLevel: 1, desc: "火矢" },
+        { name: "infinity", id: 51, maxLevel: 1, desc: "无限" },
+        { name: "luck_of_the_sea", id: 61, maxLevel: 3, desc: "海之眷顾" },
+        { name: "lure", id: 62, maxLevel: 3, desc: "饵钓" },
+        { name: "mending", id: 70, maxLevel: 1, desc: "经验修补" },
+        { name: "vanishing_curse", id: 71, maxLevel: 1, desc: "消失诅咒" }
+      ];
+    }
+    return [...lazyData.Enchantments]; // 返回副本避免外部修改
+  },
+
+  /**
+   * 按数字ID或名称（可带 minecraft: 前缀）查找附魔
+   * @param key 附魔ID或名称
+   * @returns 附魔信息（不存在则返回undefined）
+   */
+  find(key: string): { name: string; id: number; maxLevel: number; desc: string } | undefined {
+    const name = key.toLowerCase().replace(/^minecraft:/, '');
+    return this.all.find(item => item.name === name || String(item.id) === name);
+  }
+};
+export const RecipeNames = {
+  get all(): Array<{ name: string; desc: string }> {
+    if (!lazyData.RecipeNames) {
+      const colors = ["white", "orange", "magenta", "light_blue", "yellow", "lime", "pink", "gray",
+        "silver", "cyan", "purple", "blue", "brown", "green", "red", "black"];
+      const woods = ["spruce", "birch", "jungle", "acacia", "dark_oak"];
+      const names: string[] = [
+        // 木制品（橡木配方沿用旧名）
+        "boat", "wooden_door", "fence", "fence_gate", "oak_planks", "oak_wooden_slab", "oak_stairs",
+        ...woods.flatMap(wood => [`${wood}_boat`, `${wood}_door`, `${wood}_fence`, `${wood}_fence_gate`,
+          `${wood}_planks`, `${wood}_wooden_slab`, `${wood}_stairs`]),
+        // 染色方块
+        ...colors.flatMap(color => [`${color}_banner`, `${color}_bed`, `${color}_carpet`, `${color}_concrete_powder`,
+          `${color}_stained_glass`, `${color}_stained_glass_pane`, `${color}_stained_hardened_clay`, `${color}_shulker_box`]),
+        ...colors.filter(color => color !== "white").flatMap(color => [`${color}_wool`, `${color}_bed_from_white_bed`]),
+        // 工具与盔甲
+        ...["wooden", "stone", "iron", "golden", "diamond"].flatMap(material =>
+          ["axe", "hoe", "pickaxe", "shovel", "sword"].map(tool => `${material}_${tool}`)),
+        ...["leather", "iron", "golden", "diamond"].flatMap(material =>
+          ["helmet", "chestplate", "leggings", "boots"].map(armor => `${material}_${armor}`)),
+        // 其它
+        "activator_rail", "andesite", "anvil", "armor_stand", "arrow", "beacon", "beetroot_soup", "blaze_powder",
+        "bone_block", "bone_meal_from_block", "bone_meal_from_bone", "book", "bookshelf", "bow",
+        "bowl", "bread", "brewing_stand", "brick_block", "brick_slab", "brick_stairs", "bucket", "cake",
+        "carrot_on_a_stick", "cauldron", "chest", "chest_minecart", "chiseled_quartz_block", "chiseled_red_sandstone",
+        "chiseled_sandstone", "chiseled_stonebrick", "clay", "clock", "coal", "coal_block", "coarse_dirt",
+        "cobblestone_slab", "cobblestone_wall", "comparator", "compass", "cookie", "crafting_table",
+        "dark_prismarine", "daylight_detector", "detector_rail", "diamond", "diamond_block", "diorite",
+        "dispenser", "dropper", "emerald", "emerald_block", "enchanting_table", "end_bricks", "end_crystal",
+        "end_rod", "ender_chest", "ender_eye", "fermented_spider_eye", "fire_charge", "fishing_rod",
+        "flint_and_steel", "flower_pot", "furnace", "furnace_minecart", "glass_bottle", "glass_pane", "glowstone",
+        "gold_block", "gold_ingot_from_block", "gold_ingot_from_nuggets", "gold_nugget", "golden_apple",
+        "golden_carrot", "granite", "hay_block", "heavy_weighted_pressure_plate", "hopper",
+        "hopper_minecart", "iron_bars", "iron_block", "iron_door", "iron_ingot_from_block",
+        "iron_ingot_from_nuggets", "iron_nugget", "iron_trapdoor", "item_frame", "jack_o_lantern", "jukebox",
+        "ladder", "lapis_block", "lapis_lazuli", "lead", "leather", "lever", "light_weighted_pressure_plate",
+        "magma", "magma_cream", "map", "melon_block",
+        "melon_seeds", "minecart", "mossy_cobblestone", "mossy_cobblestone_wall", "mossy_stonebrick",
+        "mushroom_stew", "nether_brick", "nether_brick_fence", "nether_brick_slab", "nether_brick_stairs",
+        "nether_wart_block", "noteblock", "observer", "painting", "paper", "pillar_quartz_block",
+        "piston", "polished_andesite", "polished_diorite", "polished_granite", "prismarine",
+        "prismarine_bricks", "pumpkin_pie", "pumpkin_seeds", "purpur_block", "purpur_pillar",
+        "purpur_slab", "purpur_stairs", "quartz_block", "quartz_slab", "quartz_stairs",
+        "rabbit_stew_from_brown_mushroom", "rabbit_stew_from_red_mushroom", "rail", "red_nether_brick",
+        "red_sandstone", "red_sandstone_slab", "red_sandstone_stairs", "redstone", "redstone_block",
+        "redstone_lamp", "redstone_torch", "repeater", "sandstone", "sandstone_slab", "sandstone_stairs",
+        "sea_lantern", "shears", "shield", "sign", "slime", "slime_ball", "smooth_red_sandstone",
+        "smooth_sandstone", "snow", "snow_layer", "speckled_melon", "spectral_arrow", "stick", "sticky_piston",
+        "stone_brick_slab", "stone_brick_stairs", "stone_button", "stone_pressure_plate", "stone_slab",
+        "stone_stairs", "stonebrick", "sugar", "tipped_arrow", "tnt", "tnt_minecart", "torch", "trapdoor",
+        "trapped_chest", "tripwire_hook", "wheat", "wooden_button", "wooden_pressure_plate", "writable_book",
+        // 染料
+        "cyan_dye", "gray_dye", "lime_dye", "purple_dye", "light_blue_dye_from_blue_orchid",
+        "light_blue_dye_from_lapis_white", "light_gray_dye_from_azure_bluet", "light_gray_dye_from_black_white_dye",
+        "light_gray_dye_from_gray_white_dye", "light_gray_dye_from_oxeye_daisy", "light_gray_dye_from_white_tulip",
+        "magenta_dye_from_allium", "magenta_dye_from_lapis_red_pink", "magenta_dye_from_lilac",
+        "magenta_dye_from_purple_and_pink", "orange_dye_from_orange_tulip", "orange_dye_from_red_yellow",
+        "pink_dye_from_peony", "pink_dye_from_pink_tulip", "pink_dye_from_red_white_dye", "red_dye_from_beetroot",
+        "red_dye_from_poppy", "red_dye_from_rose_bush", "red_dye_from_tulip", "yellow_dye_from_dandelion",
+        "yellow_dye_from_sunflower"
+      ];
+      // ItemNameMap.all 每次读取都会复制整张表，只取一次
+      const itemNames = ItemNameMap.all;
+      lazyData.RecipeNames = names.map(name => ({
+        name,
+        desc: itemNames[name] ?? "合成配方"
+      }));
+    }
+    return [...lazyData.RecipeNames]; // 返回副本避免外部修改
+  },
+
+  // 按前缀过滤枚举项
+  filterByPrefix(prefix: string): Array<{ name: string; desc: string }> {
+    const lowerPrefix = prefix.toLowerCase();
+    return this.all.filter(item =>
+      item.name.toLowerCase().startsWith(lowerPrefix)
+    );
+  }
+};
+export const StructureNames = {
+  get all(): Array<{ name: string; desc: string }> {
+    if (!lazyData.StructureNames) {
+      lazyData.StructureNames = [
+        { name: "Village", desc: "村庄" },
+        { name: "Mansion", desc: "林地府邸" },
+        { name: "Temple", desc: "神殿（沙漠神殿、丛林神殿、女巫小屋、雪屋）" },
+        { name: "Monument", desc: "海底神殿" },
+        { name: "Stronghold", desc: "要塞" },
+        { name: "Mineshaft", desc: "废弃矿井" },
+        { name: "Fortress", desc: "下界要塞" },
+        { name: "EndCity", desc: "末地城" }
+      ];
+    }
+    return [...lazyData.StructureNames]; // 返回副本避免外部修改
+  }
+};
+
+
 export function refreshEnumCache() {
+  lazyData.BlockNameMap = null;
+  lazyData.BlockDataValues = null;
+  lazyData.ItemDataValues = null;
   lazyData.EntityNameList = null;
   lazyData.ItemNameMap = null;
   lazyData.MinecraftStats = null;
   lazyData.MinecraftStatsDetail = null;
   lazyData.ParticleNames = null;
+  lazyData.SoundNames = null;
+  lazyData.SoundSources = null;
+  lazyData.Enchantments = null;
+  lazyData.RecipeNames = null;
+  lazyData.StructureNames = null;
 }
 
@@ -0,0 +1,241 @@
+/**
+ * JSON 解析树节点
+ * start/end 为节点在原始文本中的偏移（end 不含）
+ */
+export interface JsonNode {
+    type: 'object' | 'array' | 'string' | 'number' | 'boolean' | 'null';
+    start: number;
+    end: number;
+    /** 基本类型的值（字符串为反转义后的内容） */
+    value?: string | number | boolean | null;
+    /** 对象的键值对 */
+    entries?: JsonEntry[];
+    /** 数组的元素 */
+    items?: JsonNode[];
+}
+
+/**
+ * 对象中的键值对
+ */
+export interface JsonEntry {
+    key: string;
+    keyStart: number;
+    keyEnd: number;
+    value: JsonNode;
+}
+
+/**
+ * JSON 语法错误
+ */
+export interface JsonSyntaxError {
+    message: string;
+    start: number;
+    end: number;
+}
+
+/**
+ * JSON 解析结果（语法错误时 root 为null）
+ */
+export interface JsonParseResult {
+    root: JsonNode | null;
+    error: JsonSyntaxError | null;
+}
+
+/** 字符串转义字符 */
+const ESCAPES: Record<string, string> = {
+    '"': '"', '\\': '\\', '/': '/', b: '\b', f: '\f', n: '\n', r: '\r', t: '\t'
+};
+
+/**
+ * 解析失败时抛出，由 parse 统一捕获
+ */
+class JsonParseFailure {
+    constructor(public readonly error: JsonSyntaxError) { }
+}
+
+/**
+ * 带位置的 JSON 解析器
+ * 与游戏一致按严格 JSON 解析，遇到第一个语法错误即停止并给出位置，
+ * 供 tellraw、title 与告示牌、成书中的 JSON 文本诊断使用
+ */
+export class JsonTextParser {
+    private pos = 0;
+
+    private constructor(private readonly text: string) { }
+
+    /**
+     * 解析 JSON 文本
+     * @param text JSON 文本
+     * @returns 解析结果
+     */
+    public static parse(text: string): JsonParseResult {
+        const parser = new JsonTextParser(text);
+        try {
+            const root = parser.parseValue();
+            parser.skipWhitespace();
+            if (parser.pos < text.length) {
+                parser.fail('JSON 文本结束后存在多余内容', parser.pos, text.length);
+            }
+            return { root, error: null };
+        } catch (signal) {
+            if (signal instanceof JsonParseFailure) {
+                return { root: null, error: signal.error };
+            }
+            throw signal;
+        }
+    }
+
+    private parseValue(): JsonNode {
+        this.skipWhitespace();
+        const char = this.text[this.pos];
+        switch (char) {
+            case '{':
+                return this.parseObject();
+            case '[':
+                return this.parseArray();
+            case '"':
+                return this.parseString();
+            case undefined:
+                return this.fail('JSON 文本不完整，缺少值');
+            default:
+                return this.parseLiteral();
+        }
+    }
+
+    /** 解析对象 { "key": value, ... } */
+    private parseObject(): JsonNode {
+        const node: JsonNode = { type: 'object', start: this.pos, end: this.pos, entries: [] };
+        this.pos++; // 跳过 {
+        this.skipWhitespace();
+        if (this.text[this.pos] === '}') {
+            node.end = ++this.pos;
+            return node;
+        }
+
+        while (true) {
+            this.skipWhitespace();
+            if (this.text[this.pos] === '}') {
+                this.fail('对象末尾存在多余的逗号');
+            }
+            if (this.text[this.pos] !== '"') {
+                this.fail(this.pos < this.text.length ? '键名必须使用双引号' : 'JSON 对象未闭合');
+            }
+            const keyNode = this.parseString();
+            this.skipWhitespace();
+            if (this.text[this.pos] !== ':') {
+                this.fail(`键 "${keyNode.value}" 后缺少冒号`);
+            }
+            this.pos++;
+            node.entries!.push({
+                key: keyNode.value as string,
+                keyStart: keyNode.start,
+                keyEnd: keyNode.end,
+                value: this.parseValue()
+            });
+
+            this.skipWhitespace();
+            const separator = this.text[this.pos];
+            if (separator === '}') {
+                node.end = ++this.pos;
+                return node;
+            }
+            if (separator !== ',') {
+                this.fail(separator === undefined ? 'JSON 对象未闭合' : `应为 , 或 }，实际为 "${separator}"`);
+            }
+            this.pos++;
+        }
+    }
+
+    /** 解析数组 [value, ...] */
+    private parseArray(): JsonNode {
+        const node: JsonNode = { type: 'array', start: this.pos, end: this.pos, items: [] };
+        this.pos++; // 跳过 [
+        this.skipWhitespace();
+        if (this.text[this.pos] === ']') {
+            node.end = ++this.pos;
+            return node;
+        }
+
+        while (true) {
+            this.skipWhitespace();
+            if (this.text[this.pos] === ']') {
+                this.fail('数组末尾存在多余的逗号');
+            }
+            node.items!.push(this.parseValue());
+            this.skipWhitespace();
+            const separator = this.text[this.pos];
+            if (separator === ']') {
+                node.end = ++this.pos;
+                return node;
+            }
+            if (separator !== ',') {
+                this.fail(separator === undefined ? 'JSON 数组未闭合' : `应为 , 或 ]，实际为 "${separator}"`);
+            }
+            this.pos++;
+        }
+    }
+
+    /** 解析双引号字符串 */
+    private parseString(): JsonNode {
+        const start = this.pos;
+        this.pos++; // 跳过 "
+        let value = '';
+        while (this.pos < this.text.length) {
+            const char = this.text[this.pos];
+            if (char === '"') {
+                this.pos++;
+                return { type: 'string', start, end: this.pos, value };
+            }
+            if (char === '\\') {
+                const escape = this.text[this.pos + 1];
+                if (escape === 'u' && /^[0-9a-fA-F]{4}$/.test(this.text.slice(this.pos + 2, this.pos + 6))) {
+                    value += String.fromCharCode(parseInt(this.text.slice(this.pos + 2, this.pos + 6), 16));
+                    this.pos += 6;
+                    continue;
+                }
+                if (escape === undefined || !(escape in ESCAPES)) {
+                    this.fail(`无效的转义字符 "\\${escape ?? ''}"`, this.pos, this.pos + 2);
+                }
+                value += ESCAPES[escape];
+                this.pos += 2;
+                continue;
+            }
+            value += char;
+            this.pos++;
+        }
+        return this.fail('字符串缺少结束引号', start, this.text.length);
+    }
+
+    /** 解析数字、true、false、null */
+    private parseLiteral(): JsonNode {
+        const start = this.pos;
+        const literal = /^[^\s,:{}[\]"]+/.exec(this.text.slice(start))?.[0] ?? this.text[start];
+        this.pos += literal.length;
+        if (literal === 'true' || literal === 'false') {
+            return { type: 'boolean', start, end: this.pos, value: literal === 'true' };
+        }
+        if (literal === 'null') {
+            return { type: 'null', start, end: this.pos, value: null };
+        }
+        if (/^-?(0|[1-9]\d*)(\.\d+)?([eE][-+]?\d+)?$/.test(literal)) {
+            return { type: 'number', start, end: this.pos, value: Number(literal) };
+        }
+        return this.fail(`无效的值 "${literal}"，字符串需要使用双引号`, start, this.pos);
+    }
+
+    private skipWhitespace(): void {
+        while (this.pos < this.text.length && /\s/.test(this.text[this.pos])) {
+            this.pos++;
+        }
+    }
+
+    /**
+     * 抛出语法错误
+     * @param message 错误信息
+     * @param start 错误起始位置（默认为当前位置）
+     * @param end 错误结束位置（默认为起始位置后一个字符）
+     */
+    private fail(message: string, start = this.pos, end = start + 1): never {
+        throw new JsonParseFailure({ message, start, end });
+    }
+}
@@ -0,0 +1,200 @@
+import { JsonNode } from './JsonTextParser';
+
+/**
+ * JSON 文本组件问题
+ * - invalid：游戏无法解析整个文本（命令执行失败）
+ * - ignored：游戏会忽略该键或取值
+ */
+export interface JsonTextProblem {
+    severity: 'invalid' | 'ignored';
+    message: string;
+    start: number;
+    end: number;
+}
+
+/**
+ * JSON 文本组件分析结果
+ * scores/selectors 为 score 组件的计分板与 selector 组件的取值节点，供引用检查与跳转使用
+ */
+export interface JsonTextAnalysis {
+    problems: JsonTextProblem[];
+    scores: { objective: JsonNode, name?: JsonNode }[];
+    selectors: JsonNode[];
+}
+
+/** 组件内容键（至少需要其中一个） */
+const CONTENT_KEYS = ['text', 'translate', 'score', 'selector', 'keybind'];
+
+/** 1.12.2 文本组件的全部键 */
+const COMPONENT_KEYS = [
+    ...CONTENT_KEYS, 'with', 'extra', 'color', 'bold', 'italic', 'underlined', 'strikethrough', 'obfuscated',
+    'insertion', 'clickEvent', 'hoverEvent'
+];
+
+const STYLE_FLAGS = ['bold', 'italic', 'underlined', 'strikethrough', 'obfuscated'];
+
+/** 文本颜色 */
+const TEXT_COLORS = [
+    'black', 'dark_blue', 'dark_green', 'dark_aqua', 'dark_red', 'dark_purple', 'gold', 'gray',
+    'dark_gray', 'blue', 'green', 'aqua', 'red', 'light_purple', 'yellow', 'white', 'reset'
+];
+
+/** 1.12.2 可在聊天中使用的点击事件（open_file 只由游戏内部生成） */
+const CLICK_ACTIONS = ['open_url', 'run_command', 'suggest_command', 'change_page'];
+
+/** 1.12.2 悬停事件（show_achievement 已随成就系统移除） */
+const HOVER_ACTIONS = ['show_text', 'show_item', 'show_entity'];
+
+/**
+ * JSON 文本组件校验器
+ * 按 1.12.2 的文本组件结构检查解析树：未知键、无效颜色、点击/悬停事件，
+ * 并收集 score 与 selector 组件供工作区引用检查
+ */
+export class JsonTextValidator {
+    private readonly analysis: JsonTextAnalysis = { problems: [], scores: [], selectors: [] };
+
+    private constructor() { }
+
+    /**
+     * 分析 JSON 文本组件
+     * @param root JSON 解析树根节点
+     * @returns 分析结果（位置为节点在 JSON 文本中的偏移）
+     */
+    public static analyze(root: JsonNode): JsonTextAnalysis {
+        const validator = new JsonTextValidator();
+        validator.checkComponent(root);
+        return validator.analysis;
+    }
+
+    /**
+     * 检查文本组件：字符串、数字、布尔值直接作为文本，数组为组件列表
+     */
+    private checkComponent(node: JsonNode): void {
+        switch (node.type) {
+            case 'array':
+                if (!node.items!.length) {
+                    this.report('invalid', '组件数组不能为空', node);
+                }
+                node.items!.forEach(item => this.checkComponent(item));
+                return;
+            case 'object':
+                this.checkObject(node);
+                return;
+            case 'null':
+                this.report('invalid', '文本组件不能为 null', node);
+                return;
+            default:
+                return;
+        }
+    }
+
+    /**
+     * 检查对象形式的文本组件
+     */
+    private checkObject(node: JsonNode): void {
+        const entries = node.entries!;
+        if (!entries.some(entry => CONTENT_KEYS.includes(entry.key))) {
+            this.report('invalid', `文本组件缺少内容，需要 ${CONTENT_KEYS.join('、')} 之一`, node);
+        }
+
+        for (const { key, keyStart, keyEnd, value } of entries) {
+            if (!COMPONENT_KEYS.includes(key)) {
+                this.report('ignored', `未知的文本组件键 "${key}"，将被忽略`, { start: keyStart, end: keyEnd });
+                continue;
+            }
+            if (STYLE_FLAGS.includes(key)) {
+                // 游戏按字符串 "true" 解析布尔值，其余取值均视为 false
+                if (value.type !== 'boolean' && !(value.type === 'string' && ['true', 'false'].includes(value.value as string))) {
+                    this.report('ignored', `"${key}" 应为 true 或 false`, value);
+                }
+                continue;
+            }
+            switch (key) {
+                case 'color':
+                    if (value.type !== 'string' || !TEXT_COLORS.includes(value.value as string)) {
+                        this.report('ignored', `无效的颜色 ${this.describe(value)}，将被忽略`, value);
+                    }
+                    break;
+                case 'with':
+                case 'extra':
+                    if (value.type !== 'array') {
+                        this.report('invalid', `"${key}" 应为组件数组`, value);
+                    } else if (key === 'extra' && !value.items!.length) {
+                        this.report('invalid', 'extra 不能为空数组', value);
+                    }
+                    value.items?.forEach(item => this.checkComponent(item));
+                    break;
+                case 'score':
+                    this.checkScore(value);
+                    break;
+                case 'selector':
+                    if (value.type === 'string') {
+                        this.analysis.selectors.push(value);
+                    } else {
+                        this.report('invalid', 'selector 应为字符串', value);
+                    }
+                    break;
+                case 'clickEvent':
+                    this.checkEvent(value, 'clickEvent', CLICK_ACTIONS);
+                    break;
+                case 'hoverEvent':
+                    this.checkEvent(value, 'hoverEvent', HOVER_ACTIONS);
+                    break;
+            }
+        }
+    }
+
+    /**
+     * 检查 score 组件 {"name": "@p", "objective": "kills"}
+     */
+    private checkScore(node: JsonNode): void {
+        if (node.type !== 'object') {
+            this.report('invalid', 'score 应为包含 name 与 objective 的对象', node);
+            return;
+        }
+        const name = node.entries!.find(entry => entry.key === 'name')?.value;
+        const objective = node.entries!.find(entry => entry.key === 'objective')?.value;
+        if (!name || !objective) {
+            this.report('invalid', `score 缺少 ${name ? 'objective' : 'name'}`, node);
+        }
+        for (const { key, keyStart, keyEnd } of node.entries!) {
+            if (!['name', 'objective', 'value'].includes(key)) {
+                this.report('ignored', `score 中未知的键 "${key}"，将被忽略`, { start: keyStart, end: keyEnd });
+            }
+        }
+        if (objective?.type === 'string') {
+            this.analysis.scores.push({ objective, name: name?.type === 'string' ? name : undefined });
+        }
+    }
+
+    /**
+     * 检查点击/悬停事件 {"action": "...", "value": ...}
+     * 动作无效或缺少取值时整个事件被忽略
+     */
+    private checkEvent(node: JsonNode, key: string, actions: string[]): void {
+        if (node.type !== 'object') {
+            this.report('ignored', `${key} 应为包含 action 与 value 的对象`, node);
+            return;
+        }
+        const action = node.entries!.find(entry => entry.key === 'action')?.value;
+        const value = node.entries!.find(entry => entry.key === 'value')?.value;
+        if (!action || !value) {
+            this.report('ignored', `${key} 缺少 ${action ? 'value' : 'action'}，将被忽略`, node);
+        }
+        if (action && (action.type !== 'string' || !actions.includes(action.value as string))) {
+            this.report('ignored', `1.12.2 不支持的 ${key} 动作 ${this.describe(action)}，可用: ${actions.join(', ')}`, action);
+        }
+        // show_text 的取值同样是文本组件
+        if (value && key === 'hoverEvent' && action?.value === 'show_text') {
+            this.checkComponent(value);
+        }
+    }
+
+    private describe(node: JsonNode): string {
+        return node.type === 'string' ? `"${node.value}"` : String(node.value ?? node.type);
+    }
+
+    private report(severity: JsonTextProblem['severity'], message: string, range: { start: number, end: number }): void {
+        this.analysis.problems.push({ severity, message, start: range.start, end: range.end });
+    }
+}
@@ -331,4 +331,42 @@ export class MinecraftUtils {
             return null;
         }
     }
-}
\ No newline at end of file
+
+    /**
+     * 按编辑距离查找相近的名称（用于拼写错误时的修正建议）
+     * @param name 输入的名称
+     * @param candidates 候选名称
+     * @param limit 最多返回的数量
+     * @returns 相近名称（按距离从近到远）
+     */
+    public static findSimilarNames(name: string, candidates: Iterable<string>, limit = 3): string[] {
+        // 允许的最大距离随名称长度增加，至少为 2
+        const maxDistance = Math.max(2, Math.floor(name.length / 3));
+        return Array.from(new Set(candidates))
+            .filter(candidate => candidate !== name)
+            .map(candidate => ({ candidate, distance: this.editDistance(name.toLowerCase(), candidate.toLowerCase()) }))
+            .filter(({ distance }) => distance <= maxDistance)
+            .sort((a, b) => a.distance - b.distance)
+            .slice(0, limit)
+            .map(({ candidate }) => candidate);
+    }
+
+    /**
+     * 计算两个字符串的编辑距离（Levenshtein）
+     */
+    private static editDistance(a: string, b: string): number {
+        let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+        for (let i = 1; i <= a.length; i++) {
+            const current = [i];
+            for (let j = 1; j <= b.length; j++) {
+                current[j] = Math.min(
+                    previous[j] + 1,
+                    current[j - 1] + 1,
+                    previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+                );
+            }
+            previous = current;
+        }
+        return previous[b.length];
+    }
+}
@@ -0,0 +1,735 @@
+import { ParsedCommand } from '../core/CommandParser';
+import { NBTNode, NBTSyntaxError, NBTTagType } from './SNBTParser';
+
+/**
+ * 取值来源（补全时从对应枚举或工作区索引读取）
+ */
+export type NBTValueSource = 'entity' | 'item' | 'block' | 'particle' | 'team' | 'tag';
+
+/**
+ * NBT 结构定义
+ * - children：复合标签的子键
+ * - item：列表元素的结构
+ * - ref：由运行时上下文决定的结构（实体类型取自同级 id，物品标签取自所属物品 id）
+ */
+export interface NBTSchema {
+    type: NBTTagType;
+    desc: string;
+    children?: Record<string, NBTSchema>;
+    item?: NBTSchema;
+    /** byte 类型是否表示布尔值（0b/1b） */
+    boolean?: boolean;
+    /** 字符串是否为 JSON 文本组件（告示牌文本、成书页面） */
+    json?: boolean;
+    /** 可选取值或取值来源 */
+    values?: string[] | NBTValueSource;
+    ref?: 'entity' | 'blockEntity' | 'item' | 'itemTag';
+}
+
+/**
+ * NBT 根结构
+ * - entity：实体 NBT（summon、entitydata、testfor 等），id 为实体类型
+ * - blockEntity：方块实体 NBT（blockdata、setblock 等），id 为方块
+ * - itemTag：物品 tag（give、clear、replaceitem），id 为物品
+ */
+export interface NBTRootSpec {
+    kind: 'entity' | 'blockEntity' | 'itemTag';
+    id?: string;
+}
+
+/** 类型错误提示中的取值示例 */
+const NBT_TYPE_EXAMPLES: Partial<Record<NBTTagType, string>> = {
+    byte: '（如 1b）',
+    short: '（如 1s）',
+    int: '（如 1）',
+    long: '（如 1L）',
+    float: '（如 1.0f）',
+    double: '（如 1.0d）',
+    string: '（如 "文本"）',
+    compound: '（如 {}）',
+    list: '（如 []）',
+    int_array: '（如 [I;1,2]）'
+};
+
+const bool = (desc: string): NBTSchema => ({ type: 'byte', desc, boolean: true });
+const byte = (desc: string): NBTSchema => ({ type: 'byte', desc });
+const short = (desc: string): NBTSchema => ({ type: 'short', desc });
+const int = (desc: string): NBTSchema => ({ type: 'int', desc });
+const long = (desc: string): NBTSchema => ({ type: 'long', desc });
+const float = (desc: string): NBTSchema => ({ type: 'float', desc });
+const double = (desc: string): NBTSchema => ({ type: 'double', desc });
+const str = (desc: string, values?: NBTSchema['values']): NBTSchema => ({ type: 'string', desc, values });
+const jsonText = (desc: string): NBTSchema => ({ type: 'string', desc, json: true });
+const compound = (desc: string, children: Record<string, NBTSchema>): NBTSchema => ({ type: 'compound', desc, children });
+const list = (desc: string, item: NBTSchema): NBTSchema => ({ type: 'list', desc, item });
+const ref = (desc: string, target: NBTSchema['ref']): NBTSchema => ({ type: 'compound', desc, ref: target });
+
+/** 状态效果 */
+const EFFECT = compound('状态效果', {
+    Id: byte('效果ID'),
+    Amplifier: byte('效果等级（0 为 I 级）'),
+    Duration: int('持续时间（刻）'),
+    Ambient: bool('是否由信标产生'),
+    ShowParticles: bool('是否显示粒子')
+});
+
+/** 属性修饰符 */
+const MODIFIER_FIELDS: Record<string, NBTSchema> = {
+    Name: str('修饰符名称'),
+    Amount: double('修饰数值'),
+    Operation: int('运算方式（0 加、1 乘基础值、2 乘总值）'),
+    UUIDMost: long('UUID最高位'),
+    UUIDLeast: long('UUID最低位')
+};
+
+const ATTRIBUTE_NAMES = [
+    'generic.maxHealth', 'generic.followRange', 'generic.knockbackResistance', 'generic.movementSpeed',
+    'generic.attackDamage', 'generic.attackSpeed', 'generic.armor', 'generic.armorToughness', 'generic.luck',
+    'generic.flyingSpeed', 'horse.jumpStrength', 'zombie.spawnReinforcements'
+];
+
+/** 所有实体共有的标签 */
+const ENTITY_COMMON: Record<string, NBTSchema> = {
+    id: str('实体类型id [命名空间:名称]', 'entity'),
+    Pos: list('实体坐标(X,Y,Z)', double('坐标')),
+    Motion: list('实体的移动速度(X,Y,Z)', double('速度')),
+    Rotation: list('实体的旋转角度(偏航,俯仰)', float('角度')),
+    FallDistance: float('实体坠落的距离'),
+    Fire: short('实体着火剩余时间(刻)'),
+    Air: short('实体在水中的剩余氧气时间(刻)'),
+    OnGround: bool('实体是否在地面上'),
+    NoGravity: bool('实体是否无重力'),
+    Dimension: int('实体所在维度'),
+    Invulnerable: bool('实体不会受到伤害'),
+    PortalCooldown: int('实体进入传送门冷却时间(刻)'),
+    UUIDMost: long('实体的UUID最高位'),
+    UUIDLeast: long('实体的UUID最低位'),
+    CustomName: str('实体显示的自定义名称'),
+    CustomNameVisible: bool('始终显示自定义名称'),
+    Silent: bool('实体不会发出声音'),
+    Glowing: bool('实体是否发光'),
+    Tags: list('实体的标签列表', str('标签', 'tag')),
+    Passengers: list('实体的乘客列表', ref('乘客', 'entity')),
+    CommandStats: compound('命令统计', {
+        SuccessCountName: str('成功次数记录者'), SuccessCountObjective: str('成功次数计分板'),
+        AffectedBlocksName: str('影响方块数记录者'), AffectedBlocksObjective: str('影响方块数计分板'),
+        AffectedEntitiesName: str('影响实体数记录者'), AffectedEntitiesObjective: str('影响实体数计分板'),
+        AffectedItemsName: str('影响物品数记录者'), AffectedItemsObjective: str('影响物品数计分板'),
+        QueryResultName: str('查询结果记录者'), QueryResultObjective: str('查询结果计分板')
+    })
+};
+
+/** 生物共有的标签 */
+const MOB_COMMON: Record<string, NBTSchema> = {
+    Health: float('实体当前生命值: <= 1024'),
+    AbsorptionAmount: float('实体当前吸收生命值'),
+    HurtTime: short('实体上一次受伤的时间(刻) <= 10'),
+    HurtByTimestamp: int('上次受到攻击的时间'),
+    DeathTime: short('死亡动画已播放的时间(刻)'),
+    FallFlying: bool('是否正在鞘翅滑翔'),
+    Attributes: list('实体的属性列表', compound('属性', {
+        Name: str('属性名称', ATTRIBUTE_NAMES),
+        Base: double('基础值'),
+        Modifiers: list('属性修饰符', compound('修饰符', MODIFIER_FIELDS))
+    })),
+    ActiveEffects: list('实体的状态效果', EFFECT),
+    HandItems: list('实体手持的物品列表(主手,副手)', ref('物品', 'item')),
+    ArmorItems: list('实体的盔甲物品列表(脚,腿,胸,头)', ref('物品', 'item')),
+    HandDropChances: list('手持物品掉落概率', float('概率')),
+    ArmorDropChances: list('实体的盔甲掉落概率列表', float('概率')),
+    DeathLootTable: str('战利品表路径'),
+    DeathLootTableSeed: long('战利品表种子'),
+    CanPickUpLoot: bool('实体是否可以拾取战利品'),
+    NoAI: bool('禁用实体AI'),
+    PersistenceRequired: bool('不会自然消失'),
+    LeftHanded: bool('是否为左撇子'),
+    Team: str('实体所属的队伍名称', 'team'),
+    Leashed: bool('是否被拴住'),
+    Leash: compound('拴绳连接对象', { UUIDMost: long('UUID最高位'), UUIDLeast: long('UUID最低位'), X: int('X'), Y: int('Y'), Z: int('Z') })
+};
+
+const TAMEABLE: Record<string, NBTSchema> = {
+    Owner: str('主人UUID'),
+    Sitting: bool('是否坐下')
+};
+
+const HORSE: Record<string, NBTSchema> = {
+    Tame: bool('是否已驯服'),
+    Temper: int('驯服度'),
+    Bred: bool('是否已繁殖'),
+    OwnerUUID: str('主人UUID'),
+    SaddleItem: ref('马鞍', 'item'),
+    Age: int('年龄（负数为幼年）')
+};
+
+/** 非生物实体（不含生物共有标签） */
+const NON_LIVING = new Set([
+    'area_effect_cloud', 'arrow', 'boat', 'chest_minecart', 'commandblock_minecart', 'dragon_fireball', 'egg',
+    'ender_crystal', 'ender_pearl', 'evocation_fangs', 'eye_of_ender_signal', 'falling_block', 'fireball',
+    'fireworks_rocket', 'furnace_minecart', 'hopper_minecart', 'item', 'item_frame', 'leash_knot', 'lightning_bolt',
+    'llama_spit', 'minecart', 'painting', 'potion', 'shulker_bullet', 'small_fireball', 'snowball', 'spawner_minecart',
+    'spectral_arrow', 'tnt', 'tnt_minecart', 'wither_skull', 'xp_bottle', 'xp_orb'
+]);
+
+/** 各实体特有的标签 */
+const ENTITY_SPECIFIC: Record<string, Record<string, NBTSchema>> = {
+    player: {
+        Inventory: list('玩家背包', ref('物品', 'item')),
+        EnderItems: list('末影箱物品', ref('物品', 'item')),
+        SelectedItem: ref('玩家手持物品', 'item'),
+        SelectedItemSlot: int('玩家选择快捷栏槽位(0-8)'),
+        playerGameType: int('游戏模式(0-3)'),
+        XpLevel: int('经验等级'),
+        XpP: float('当前等级经验进度(0-1)'),
+        XpTotal: int('总经验'),
+        Score: int('死亡界面显示的分数'),
+        foodLevel: int('饥饿值'),
+        foodSaturationLevel: float('饱和度'),
+        Sleeping: bool('是否在睡觉'),
+        SpawnX: int('出生点X'), SpawnY: int('出生点Y'), SpawnZ: int('出生点Z'),
+        abilities: compound('能力', {
+            flying: bool('是否在飞行'), mayfly: bool('是否可以飞行'), instabuild: bool('是否可以瞬间破坏'),
+            invulnerable: bool('是否无敌'), mayBuild: bool('是否可以放置/破坏方块'),
+            flySpeed: float('飞行速度'), walkSpeed: float('行走速度')
+        })
+    },
+    armor_stand: {
+        Marker: bool('实体是否为标记'),
+        Invisible: bool('是否隐形'),
+        NoBasePlate: bool('不显示底座'),
+        ShowArms: bool('显示手臂'),
+        Small: bool('小型盔甲架'),
+        DisabledSlots: int('禁用的槽位（位掩码）'),
+        Pose: compound('姿势', Object.fromEntries(
+            ['Body', 'LeftArm', 'RightArm', 'LeftLeg', 'RightLeg', 'Head'].map(part => [part, list(`${part} 旋转角度(X,Y,Z)`, float('角度'))])
+        ))
+    },
+    item: {
+        Age: short('存在时间(刻)，达到 6000 时消失'),
+        Health: short('生命值'),
+        PickupDelay: short('拾取冷却(刻)，32767 为永不可拾取'),
+        Owner: str('拾取者名称'),
+        Thrower: str('丢出者名称'),
+        Item: ref('物品', 'item')
+    },
+    xp_orb: {
+        Age: short('存在时间(刻)'),
+        Value: short('经验值')
+    },
+    falling_block: {
+        Block: str('方块id', 'block'),
+        Data: byte('方块数据值'),
+        Time: int('下落时间(刻)'),
+        DropItem: bool('无法放置时是否掉落物品'),
+        HurtEntities: bool('是否伤害实体'),
+        FallHurtMax: int('最大伤害'),
+        FallHurtAmount: float('每格下落伤害'),
+        TileEntityData: ref('方块实体数据', 'blockEntity')
+    },
+    tnt: { Fuse: short('引爆倒计时(刻)') },
+    fireworks_rocket: {
+        Life: int('已飞行时间(刻)'),
+        LifeTime: int('爆炸时间(刻)'),
+        FireworksItem: ref('烟花物品', 'item')
+    },
+    area_effect_cloud: {
+        Age: int('存在时间(刻)'),
+        Duration: int('持续时间(刻)'),
+        WaitTime: int('生效前等待时间(刻)'),
+        ReapplicationDelay: int('重复施加间隔(刻)'),
+        Radius: float('半径'),
+        RadiusOnUse: float('每次施加后半径变化'),
+        RadiusPerTick: float('每刻半径变化'),
+        Particle: str('粒子', 'particle'),
+        Color: int('粒子颜色'),
+        Potion: str('药水类型'),
+        Effects: list('状态效果', EFFECT)
+    },
+    ender_crystal: {
+        ShowBottom: bool('显示底座'),
+        BeamTarget: compound('光束目标', { X: int('X'), Y: int('Y'), Z: int('Z') })
+    },
+    item_frame: {
+        Item: ref('展示的物品', 'item'),
+        ItemDropChance: float('物品掉落概率'),
+        ItemRotation: byte('物品旋转(0-7)'),
+        Facing: byte('朝向')
+    },
+    villager: {
+        Profession: int('职业'),
+        Career: int('具体职业'),
+        CareerLevel: int('职业等级'),
+        Riches: int('已获得的绿宝石数'),
+        Willing: bool('是否愿意繁殖'),
+        Age: int('年龄（负数为幼年）'),
+        Inventory: list('物品栏', ref('物品', 'item')),
+        Offers: compound('交易', {
+            Recipes: list('交易列表', compound('交易项', {
+                buy: ref('收购物品', 'item'),
+                buyB: ref('第二收购物品', 'item'),
+                sell: ref('出售物品', 'item'),
+                rewardExp: bool('交易是否给予经验'),
+                uses: int('已使用次数'),
+                maxUses: int('最大使用次数')
+            }))
+        })
+    },
+    zombie: { IsBaby: bool('是否为幼年'), CanBreakDoors: bool('是否能破门') },
+    husk: { IsBaby: bool('是否为幼年'), CanBreakDoors: bool('是否能破门') },
+    zombie_villager: { IsBaby: bool('是否为幼年'), Profession: int('职业'), ConversionTime: int('转化剩余时间(刻)') },
+    zombie_pigman: { IsBaby: bool('是否为幼年'), Anger: short('愤怒时间(刻)'), HurtBy: str('激怒者UUID') },
+    creeper: {
+        powered: bool('是否为闪电苦力怕'),
+        ExplosionRadius: byte('爆炸半径'),
+        Fuse: short('引爆时间(刻)'),
+        ignited: bool('是否已被点燃')
+    },
+    slime: { Size: int('大小（0 为最小）') },
+    magma_cube: { Size: int('大小（0 为最小）') },
+    enderman: { carried: short('手持方块数字ID'), carriedData: short('手持方块数据值') },
+    sheep: { Color: byte('羊毛颜色(0-15)'), Sheared: bool('是否已剪毛'), Age: int('年龄（负数为幼年）') },
+    pig: { Saddle: bool('是否装备鞍'), Age: int('年龄（负数为幼年）') },
+    cow: { Age: int('年龄（负数为幼年）') },
+    chicken: { Age: int('年龄（负数为幼年）'), IsChickenJockey: bool('是否为鸡骑士'), EggLayTime: int('下蛋倒计时(刻)') },
+    wolf: { ...TAMEABLE, Angry: bool('是否愤怒'), CollarColor: byte('项圈颜色(0-15)'), Age: int('年龄（负数为幼年）') },
+    ocelot: { ...TAMEABLE, CatType: int('猫的种类(0-3)'), Age: int('年龄（负数为幼年）') },
+    parrot: { ...TAMEABLE, Variant: int('颜色(0-4)') },
+    rabbit: { RabbitType: int('兔子种类'), MoreCarrotTicks: int('吃胡萝卜冷却') },
+    horse: { ...HORSE, Variant: int('颜色与花纹'), ArmorItem: ref('马铠', 'item') },
+    donkey: { ...HORSE, ChestedHorse: bool('是否装备箱子'), Items: list('箱子物品', ref('物品', 'item')) },
+    mule: { ...HORSE, ChestedHorse: bool('是否装备箱子'), Items: list('箱子物品', ref('物品', 'item')) },
+    llama: { ...HORSE, Variant: int('颜色(0-3)'), Strength: int('力量(1-5)'), DecorItem: ref('地毯', 'item'), ChestedHorse: bool('是否装备箱子'), Items: list('箱子物品', ref('物品', 'item')) },
+    skeleton_horse: { ...HORSE, SkeletonTrap: bool('是否为陷阱'), SkeletonTrapTime: int('陷阱存在时间(刻)') },
+    zombie_horse: { ...HORSE },
+    villager_golem: { PlayerCreated: bool('是否由玩家建造') },
+    snowman: { Pumpkin: bool('是否戴南瓜') },
+    shulker: { Color: byte('颜色(0-15)'), Peek: byte('开壳程度'), AttachFace: byte('附着面') },
+    bat: { BatFlags: byte('是否倒挂') },
+    ghast: { ExplosionPower: int('火球爆炸威力') },
+    vex: { BoundX: int('活动中心X'), BoundY: int('活动中心Y'), BoundZ: int('活动中心Z'), LifeTicks: int('剩余存活时间(刻)') },
+    wither: { Invul: int('无敌时间(刻)') },
+    ender_dragon: { DragonPhase: int('行为阶段') },
+    polar_bear: { Age: int('年龄（负数为幼年）') },
+    mooshroom: { Age: int('年龄（负数为幼年）') },
+    minecart: { CustomDisplayTile: bool('显示自定义方块'), DisplayTile: str('显示的方块', 'block'), DisplayData: int('方块数据值'), DisplayOffset: int('方块偏移') },
+    commandblock_minecart: { Command: str('命令'), SuccessCount: int('成功次数'), LastOutput: str('上次输出'), TrackOutput: bool('是否记录输出') },
+    chest_minecart: { Items: list('物品', ref('物品', 'item')), LootTable: str('战利品表路径') },
+    hopper_minecart: { Items: list('物品', ref('物品', 'item')), TransferCooldown: int('传输冷却'), Enabled: bool('是否启用') },
+    tnt_minecart: { TNTFuse: int('引爆倒计时(刻)') },
+    arrow: { pickup: byte('能否拾取(0-2)'), damage: double('伤害'), crit: bool('是否暴击'), Color: int('药箭颜色') },
+    spectral_arrow: { pickup: byte('能否拾取(0-2)'), damage: double('伤害'), Duration: int('发光时间(刻)') },
+    potion: { Potion: ref('药水物品', 'item') },
+    fireball: { direction: list('方向', double('分量')), ExplosionPower: int('爆炸威力') }
+};
+
+/** 物品共有字段（Items、HandItems 等列表中的元素） */
+const ITEM_FIELDS: Record<string, NBTSchema> = {
+    id: str('物品id', 'item'),
+    Count: byte('数量'),
+    Damage: short('数据值/损耗值'),
+    Slot: byte('槽位'),
+    tag: ref('物品标签', 'itemTag')
+};
+
+const ENCHANTMENT = compound('附魔', { id: short('附魔ID'), lvl: short('等级') });
+
+const FIREWORK_EXPLOSION = compound('烟花之星', {
+    Flicker: bool('闪烁'),
+    Trail: bool('拖尾'),
+    Type: byte('形状(0-4)'),
+    Colors: { type: 'int_array', desc: '颜色' },
+    FadeColors: { type: 'int_array', desc: '淡化颜色' }
+});
+
+/** 所有物品通用的 tag 字段 */
+const ITEM_TAG_COMMON: Record<string, NBTSchema> = {
+    display: compound('显示属性', {
+        Name: str('物品名称'),
+        LocName: str('本地化名称键'),
+        Lore: list('物品描述', str('描述行')),
+        color: int('皮革颜色(RGB)')
+    }),
+    ench: list('附魔列表', ENCHANTMENT),
+    Unbreakable: bool('无法破坏'),
+    HideFlags: int('隐藏提示信息（位掩码）'),
+    CanDestroy: list('冒险模式下可破坏的方块', str('方块id', 'block')),
+    CanPlaceOn: list('冒险模式下可放置于的方块', str('方块id', 'block')),
+    AttributeModifiers: list('属性修饰符', compound('修饰符', {
+        AttributeName: str('属性名称', ATTRIBUTE_NAMES),
+        Slot: str('生效槽位', ['mainhand', 'offhand', 'feet', 'legs', 'chest', 'head']),
+        ...MODIFIER_FIELDS
+    })),
+    RepairCost: int('修复花费'),
+    EntityTag: ref('生成实体的数据', 'entity'),
+    BlockEntityTag: ref('放置方块实体的数据', 'blockEntity')
+};
+
+/** 特定物品的 tag 字段 */
+const ITEM_TAG_SPECIFIC: Record<string, Record<string, NBTSchema>> = {
+    enchanted_book: { StoredEnchantments: list('储存的附魔', ENCHANTMENT) },
+    written_book: {
+        title: str('标题'),
+        author: str('作者'),
+        generation: int('副本代数(0-3)'),
+        resolved: bool('是否已解析'),
+        pages: list('页面（JSON文本）', jsonText('页面'))
+    },
+    writable_book: { pages: list('页面', str('页面')) },
+    skull: { SkullOwner: str('头颅所属玩家') },
+    fireworks: { Fireworks: compound('烟花', { Flight: byte('飞行时间'), Explosions: list('烟花之星', FIREWORK_EXPLOSION) }) },
+    firework_charge: { Explosion: FIREWORK_EXPLOSION },
+    filled_map: { map_is_scaling: bool('是否缩放'), Decorations: list('地图标记', compound('标记', { id: str('标记id'), type: byte('类型'), x: double('X'), z: double('Z'), rot: double('旋转') })) }
+};
+const POTION_TAG: Record<string, NBTSchema> = {
+    Potion: str('药水类型'),
+    CustomPotionEffects: list('自定义状态效果', EFFECT),
+    CustomPotionColor: int('药水颜色(RGB)')
+};
+['potion', 'splash_potion', 'lingering_potion', 'tipped_arrow'].forEach(id => ITEM_TAG_SPECIFIC[id] = POTION_TAG);
+
+const CONTAINER: Record<string, NBTSchema> = {
+    CustomName: str('方块实体显示的自定义名称'),
+    Lock: str('用于锁定容器的密码'),
+    Items: list('容器中的物品', ref('物品', 'item')),
+    LootTable: str('战利品表路径'),
+    LootTableSeed: long('战利品表种子')
+};
+
+const COMMAND_BLOCK: Record<string, NBTSchema> = {
+    CustomName: str('名称'),
+    Command: str('命令'),
+    auto: bool('无需红石'),
+    powered: bool('是否被激活'),
+    conditionMet: bool('条件是否满足'),
+    TrackOutput: bool('是否记录输出'),
+    SuccessCount: int('成功次数'),
+    LastOutput: str('上次输出')
+};
+
+const SIGN: Record<string, NBTSchema> = {
+    Text1: jsonText('告示牌第一行文本（JSON文本）'),
+    Text2: jsonText('告示牌第二行文本（JSON文本）'),
+    Text3: jsonText('告示牌第三行文本（JSON文本）'),
+    Text4: jsonText('告示牌第四行文本（JSON文本）')
+};
+
+const BANNER: Record<string, NBTSchema> = {
+    Base: int('底色(0-15)'),
+    Patterns: list('图案', compound('图案', { Color: int('颜色(0-15)'), Pattern: str('图案代码') }))
+};
+
+/** 各方块的方块实体字段（键为方块id） */
+const BLOCK_ENTITY_SPECIFIC: Record<string, Record<string, NBTSchema>> = {
+    chest: CONTAINER,
+    trapped_chest: CONTAINER,
+    dispenser: CONTAINER,
+    dropper: CONTAINER,
+    hopper: { ...CONTAINER, TransferCooldown: int('传输冷却(刻)') },
+    furnace: { ...CONTAINER, BurnTime: short('剩余燃烧时间(刻)'), CookTime: short('已烧炼时间(刻)'), CookTimeTotal: short('烧炼所需时间(刻)') },
+    lit_furnace: { ...CONTAINER, BurnTime: short('剩余燃烧时间(刻)'), CookTime: short('已烧炼时间(刻)'), CookTimeTotal: short('烧炼所需时间(刻)') },
+    brewing_stand: { ...CONTAINER, BrewTime: short('酿造剩余时间(刻)'), Fuel: byte('剩余燃料') },
+    standing_sign: SIGN,
+    wall_sign: SIGN,
+    command_block: COMMAND_BLOCK,
+    repeating_command_block: COMMAND_BLOCK,
+    chain_command_block: COMMAND_BLOCK,
+    mob_spawner: {
+        SpawnData: ref('下一个生成的实体', 'entity'),
+        SpawnPotentials: list('可能生成的实体', compound('生成项', { Entity: ref('实体', 'entity'), Weight: int('权重') })),
+        SpawnCount: short('每次生成数量'),
+        SpawnRange: short('生成范围'),
+        Delay: short('下次生成倒计时(刻)'),
+        MinSpawnDelay: short('最小生成间隔(刻)'),
+        MaxSpawnDelay: short('最大生成间隔(刻)'),
+        MaxNearbyEntities: short('附近最大实体数'),
+        RequiredPlayerRange: short('激活所需玩家距离')
+    },
+    skull: {
+        SkullType: byte('头颅类型(0-5)'),
+        Rot: byte('朝向(0-15)'),
+        Owner: compound('头颅所属玩家', { Id: str('UUID'), Name: str('玩家名') })
+    },
+    standing_banner: BANNER,
+    wall_banner: BANNER,
+    beacon: { Levels: int('金字塔层数'), Primary: int('主效果ID'), Secondary: int('副效果ID'), Lock: str('密码') },
+    noteblock: { note: byte('音高(0-24)'), powered: bool('是否被激活') },
+    jukebox: { RecordItem: ref('唱片', 'item') },
+    flower_pot: { Item: str('花盆中的物品', 'item'), Data: int('物品数据值') },
+    enchanting_table: { CustomName: str('自定义名称') },
+    end_gateway: { Age: long('存在时间(刻)'), ExactTeleport: bool('精确传送'), ExitPortal: compound('出口位置', { X: int('X'), Y: int('Y'), Z: int('Z') }) },
+    structure_block: {
+        name: str('结构名称'),
+        author: str('作者'),
+        metadata: str('数据模式的元数据'),
+        mode: str('模式', ['SAVE', 'LOAD', 'CORNER', 'DATA']),
+        posX: int('相对X'), posY: int('相对Y'), posZ: int('相对Z'),
+        sizeX: int('X大小'), sizeY: int('Y大小'), sizeZ: int('Z大小'),
+        rotation: str('旋转', ['NONE', 'CLOCKWISE_90', 'CLOCKWISE_180', 'COUNTERCLOCKWISE_90']),
+        mirror: str('镜像', ['NONE', 'LEFT_RIGHT', 'FRONT_BACK']),
+        ignoreEntities: bool('忽略实体'),
+        showboundingbox: bool('显示边框'),
+        powered: bool('是否被激活'),
+        integrity: float('完整度(0-1)'),
+        seed: long('完整度种子')
+    },
+    bed: { color: int('颜色(0-15)') },
+    unpowered_comparator: { OutputSignal: int('输出信号强度') },
+    powered_comparator: { OutputSignal: int('输出信号强度') }
+};
+['white', 'orange', 'magenta', 'light_blue', 'yellow', 'lime', 'pink', 'gray', 'silver', 'cyan', 'purple', 'blue', 'brown', 'green', 'red', 'black']
+    .forEach(color => BLOCK_ENTITY_SPECIFIC[`${color}_shulker_box`] = CONTAINER);
+
+/** 未知方块时提供的常用方块实体字段 */
+const BLOCK_ENTITY_FALLBACK: Record<string, NBTSchema> = { ...CONTAINER, ...SIGN, ...COMMAND_BLOCK };
+
+/**
+ * NBT 结构库
+ * 按实体类型、方块、物品提供 NBT 结构，并沿解析树路径解析出光标处的结构
+ */
+export class NBTSchemas {
+    /**
+     * 获取实体的 NBT 结构
+     * @param id 实体类型（未知时提供实体与生物的通用字段）
+     */
+    public static entity(id?: string): NBTSchema {
+        const name = id ? normalizeId(id) : undefined;
+        const living = !name || !NON_LIVING.has(name);
+        return compound('实体', {
+            ...ENTITY_COMMON,
+            ...(living ? MOB_COMMON : {}),
+            ...(name ? ENTITY_SPECIFIC[name] ?? {} : {})
+        });
+    }
+
+    /**
+     * 获取方块实体的 NBT 结构
+     * @param id 方块id（未知时提供常用方块实体字段）
+     */
+    public static blockEntity(id?: string): NBTSchema {
+        const specific = id ? BLOCK_ENTITY_SPECIFIC[normalizeId(id)] : undefined;
+        return compound('方块实体', specific ?? BLOCK_ENTITY_FALLBACK);
+    }
+
+    /** 获取物品（含 id、Count、Damage、tag）的 NBT 结构 */
+    public static item(): NBTSchema {
+        return compound('物品', ITEM_FIELDS);
+    }
+
+    /**
+     * 获取物品 tag 的 NBT 结构
+     * @param id 物品id（未知时只提供通用字段）
+     */
+    public static itemTag(id?: string): NBTSchema {
+        const specific = id ? ITEM_TAG_SPECIFIC[normalizeId(id)] : undefined;
+        return compound('物品标签', { ...ITEM_TAG_COMMON, ...(specific ?? {}) });
+    }
+
+    /**
+     * 获取根结构
+     * @param spec 根结构说明
+     */
+    public static root(spec: NBTRootSpec): NBTSchema {
+        switch (spec.kind) {
+            case 'entity':
+                return this.entity(spec.id);
+            case 'blockEntity':
+                return this.blockEntity(spec.id);
+            case 'itemTag':
+                return this.itemTag(spec.id);
+        }
+    }
+
+    /**
+     * 根据命令确定 NBT 参数的根结构
+     * @param command 命令解析树
+     * @returns 根结构说明（未知命令返回undefined）
+     */
+    public static forCommand(command: ParsedCommand): NBTRootSpec | undefined {
+        switch (command.name) {
+            case 'summon':
+                return { kind: 'entity', id: command.getArgument('entity')?.value };
+            case 'entitydata':
+            case 'testfor':
+            case 'scoreboard':
+                return { kind: 'entity', id: this.targetEntityType(command.getArgument('target')?.value ?? '') };
+            case 'blockdata':
+                return { kind: 'blockEntity' };
+            case 'testforblock':
+            case 'setblock':
+            case 'fill':
+                return { kind: 'blockEntity', id: command.getArgument('block')?.value };
+            case 'give':
+            case 'clear':
+            case 'replaceitem':
+                return { kind: 'itemTag', id: command.getArgument('item')?.value };
+            default:
+                return undefined;
+        }
+    }
+
+    /**
+     * 推断实体选择器/玩家名对应的实体类型
+     * 优先取 type= 参数；@a、@p、@r 与玩家名为玩家
+     * @param target 选择器或玩家名
+     * @returns 实体类型（无法确定时返回undefined）
+     */
+    public static targetEntityType(target: string): string | undefined {
+        const type = /[[,]\s*type\s*=\s*([\w:]+)/.exec(target)?.[1];
+        if (type) { return type; }
+        if (/^@[apr]/.test(target) || /^[\w-]+$/.test(target)) { return 'player'; }
+        return undefined;
+    }
+
+    /**
+     * 沿路径解析结构
+     * 引用结构按解析树中的同级 id 展开（如 Passengers 中的实体、Items 中物品的 tag）
+     * @param spec 根结构说明
+     * @param root 解析树根节点
+     * @param path 路径（键名或列表下标）
+     * @returns 路径处的结构（路径不在结构内时返回undefined）
+     */
+    public static resolve(spec: NBTRootSpec, root: NBTNode | null, path: (string | number)[]): NBTSchema | undefined {
+        let schema: NBTSchema | undefined = this.root(spec);
+        let node: NBTNode | null | undefined = root;
+        // 最近一个物品的 id，用于展开其 tag
+        let itemId = spec.kind === 'itemTag' ? spec.id : undefined;
+
+        for (const part of path) {
+            if (!schema) { return undefined; }
+            if (typeof part === 'number') {
+                schema = schema.item;
+                node = node?.items?.[part];
+            } else {
+                schema = schema.children?.[part];
+                node = node?.entries?.find(entry => entry.key === part)?.value;
+            }
+            if (schema?.ref) {
+                if (schema.ref === 'item') {
+                    itemId = this.readId(node);
+                }
+                schema = this.expand(schema, node, itemId);
+            }
+        }
+        return schema;
+    }
+
+    /**
+     * 展开引用结构
+     * @param schema 引用结构
+     * @param node 对应的解析树节点
+     * @param itemId 所属物品 id
+     * @returns 具体结构
+     */
+    public static expand(schema: NBTSchema, node: NBTNode | null | undefined, itemId?: string): NBTSchema {
+        switch (schema.ref) {
+            case 'entity':
+                return { ...this.entity(this.readId(node)), desc: schema.desc };
+            case 'blockEntity':
+                // 方块实体 id（如 minecraft:chest）与方块 id 基本一致，物品的 BlockEntityTag 以物品 id 为准
+                return { ...this.blockEntity(this.readId(node) ?? itemId), desc: schema.desc };
+            case 'item':
+                return { ...this.item(), desc: schema.desc };
+            case 'itemTag':
+                return { ...this.itemTag(itemId), desc: schema.desc };
+            default:
+                return schema;
+        }
+    }
+
+    /**
+     * 按结构检查解析树中已知键的值类型
+     * 未收录的键不检查；数值类型须带正确后缀（如 byte 为 1b），列表元素逐个检查
+     * @param spec 根结构说明
+     * @param root 解析树根节点
+     * @returns 类型错误（位置为值节点在 NBT 文本中的偏移）
+     */
+    public static validate(spec: NBTRootSpec, root: NBTNode | null): NBTSyntaxError[] {
+        const errors: NBTSyntaxError[] = [];
+        this.walk(spec, root, (schema, node, name) => {
+            if (node.type === schema.type) { return true; }
+            const example = schema.boolean ? '（如 1b）' : NBT_TYPE_EXAMPLES[schema.type] ?? '';
+            errors.push({
+                message: `"${name}" 应为 ${schema.type} 类型${example}，实际为 ${node.type}`,
+                start: node.start,
+                end: node.end
+            });
+            return false;
+        });
+        return errors;
+    }
+
+    /**
+     * 查找解析树中按结构应为 JSON 文本的字符串（告示牌 Text1~4、成书 pages）
+     * @param spec 根结构说明
+     * @param root 解析树根节点
+     * @returns 字符串节点
+     */
+    public static findJsonTexts(spec: NBTRootSpec, root: NBTNode | null): NBTNode[] {
+        const texts: NBTNode[] = [];
+        this.walk(spec, root, (schema, node) => {
+            if (schema.json && node.type === 'string') {
+                texts.push(node);
+            }
+            return node.type === schema.type;
+        });
+        return texts;
+    }
+
+    /**
+     * 按结构遍历解析树中的已知键（展开引用结构）
+     * @param spec 根结构说明
+     * @param root 解析树根节点
+     * @param visit 访问回调，返回 false 时不再深入该节点
+     */
+    private static walk(
+        spec: NBTRootSpec,
+        root: NBTNode | null,
+        visit: (schema: NBTSchema, node: NBTNode, name: string) => boolean
+    ): void {
+        if (root) {
+            this.walkNode(this.root(spec), root, spec.kind === 'itemTag' ? spec.id : undefined, '', visit);
+        }
+    }
+
+    private static walkNode(
+        schema: NBTSchema,
+        node: NBTNode,
+        itemId: string | undefined,
+        name: string,
+        visit: (schema: NBTSchema, node: NBTNode, name: string) => boolean
+    ): void {
+        if (schema.ref) {
+            if (schema.ref === 'item') {
+                itemId = this.readId(node);
+            }
+            schema = this.expand(schema, node, itemId);
+        }
+        if (!visit(schema, node, name)) { return; }
+        if (schema.children && node.entries) {
+            for (const entry of node.entries) {
+                const child = schema.children[entry.key];
+                if (child && entry.value) {
+                    this.walkNode(child, entry.value, itemId, entry.key, visit);
+                }
+            }
+        }
+        if (schema.item && node.items) {
+            node.items.forEach((element, index) =>
+                this.walkNode(schema.item!, element, itemId, `${name}[${index}]`, visit)
+            );
+        }
+    }
+
+    /**
+     * 读取复合标签中的 id 字段
+     * @param node 复合标签节点
+     */
+    private static readId(node: NBTNode | null | undefined): string | undefined {
+        return node?.entries?.find(entry => entry.key === 'id')?.value?.value;
+    }
+}
+
+/** 统一 id 格式：小写并去掉 minecraft: 前缀 */
+function normalizeId(id: string): string {
+    return id.toLowerCase().replace(/^minecraft:/, '');
+}
@@ -1,127 +1,186 @@
 import * as vscode from 'vscode';
-import { MinecraftCommandCompletionProvider } from '../core/CommandCompletionProvider';
+import { FileLineIdleSearchProcessor } from '../core/FileLineIdleSearchProcessor';
+import { BlockNameMap, EntityNameList, ItemNameMap, ParticleNames } from './EnumLib';
+import { NBTRootSpec, NBTSchema, NBTSchemas, NBTValueSource } from './NBTSchema';
+import { NBTCursorContext, SNBTParser } from './SNBTParser';
 
 /**
- * 实体NBT补全项定义接口
+ * 补全项创建函数（与 MinecraftCommandCompletionProvider.createCompletionItem 签名一致）
  */
-interface EntityNBTDefinition {
-    label: string;
-    detail: string;
-    insertText: string;
-}
+type CompletionItemFactory = (
+    label: string,
+    detail: string,
+    insertText: string,
+    triggerNext: boolean,
+    kind: vscode.CompletionItemKind,
+    range?: vscode.Range
+) => vscode.CompletionItem;
 
-/**
- * 方块NBT补全项定义接口
- */
-interface BlockNBTDefinition {
-    label: string;
-    description: string;
-    insertText: string;
-    isOptional: boolean;
-}
+/** 数值类型的 SNBT 后缀 */
+const NUMBER_SUFFIX: Partial<Record<NBTSchema['type'], string>> = {
+    byte: 'b',
+    short: 's',
+    long: 'L',
+    float: 'f',
+    double: 'd'
+};
 
 /**
  * NBT工具类
- * 提供实体和方块的NBT标签补全功能
+ * 解析光标前的 SNBT 文本，按实体、方块实体、物品的 NBT 结构提供嵌套键与取值补全
  */
 export class NBTUtils {
     /**
-     * 实体NBT补全项定义表
+     * 提供 NBT 补全项
+     * 例如 `{Inventory:[{tag:{display:{` 会补全 display 下的 Name、Lore 等键
+     * @param text 光标前的 NBT 文本（以 { 开头）
+     * @param spec 根结构说明（实体/方块实体/物品标签及其 id）
+     * @param position 光标位置（用于计算替换范围）
+     * @param createCompletionItem 补全项创建函数
+     * @returns 补全项数组
      */
-    private static readonly ENTITY_NBT_DEFINITIONS: EntityNBTDefinition[] = [
-        // 通用实体NBT标签
-        { label: 'CustomName', detail: '实体显示的自定义名称 : string', insertText: 'CustomName:"${1:}"'},
-        { label: 'CustomNameVisible', detail: '始终显示自定义名称 : bool', insertText: 'CustomNameVisible:${1|0,1|}b'},
-        { label: 'NoAI', detail: '禁用实体AI : bool', insertText: 'NoAI:${1|0,1|}b'},
-        { label: 'Silent', detail: '实体不会发出声音: bool', insertText: 'Silent${1|0,1|}b'},
-        { label: 'Invulnerable', detail: '实体不会受到伤害: bool', insertText: 'Invulnerable:${1|0,1|}b'},
-        { label: 'PersistenceRequired', detail: '不会自然刷新: bool', insertText: 'PersistenceRequired:${1|0,1|}b'},
-        { label: 'Tags', detail: '实体的标签列表', insertText: 'Tags:["${1:}"]'},
-        { label: 'UUIDMost', detail: '实体的UUID最高位', insertText: 'UUIDMost:${1:}'},
-        { label: 'UUIDLeast', detail: '实体的UUID最低位', insertText: 'UUIDLeast:${1:}'},
-        { label: 'id', detail: '生物的类型id [命名空间:名称]', insertText: 'id:"${1:}"'},
-        { label: 'Team', detail: '实体所属的团队名称', insertText: 'Team:"${1:}"'},
-        
-        // 生物相关NBT标签
-        { label: 'Health', detail: '实体当前生命值: <= 1024', insertText: 'Health:${1:}'},
-        { label: 'AbsorptionAmount', detail: '实体当前吸收生命值', insertText: 'AbsorptionAmount:${1:}'},
-        { label: 'FallDistance', detail: '实体坠落的距离', insertText: 'FallDistance:${1:}'},
-        { label: 'Fire', detail: '实体着火剩余时间(刻)', insertText: 'Fire:${1:}'},
-        { label: 'Air', detail: '实体在水中的剩余氧气时间(刻)', insertText: 'Air:${1:}'},
-        { label: 'OnGround', detail: '实体是否在地面上', insertText: 'OnGround:${1|0,1|}b'},
-        { label: 'Dimension', detail: '实体所在维度', insertText: 'Dimension:${1|0,-1,1|}'},
-        { label: 'PortalCooldown', detail: '实体进入传送门冷却时间(刻)', insertText: 'PortalCooldown:${1:}'},
-        { label: 'Rotation', detail: '实体的旋转角度(0-360)', insertText: 'Rotation:${1:}f'},
-        { label: 'Motion', detail: '实体的移动速度(X,Y,Z)', insertText: 'Motion:[${1:}d,${2:}d,${3:}d]'},
-        { label: 'OnFire', detail: '实体是否着火', insertText: 'OnFire:${1|0,1|}b'},
-        { label: 'NoGravity', detail: '实体是否无重力', insertText: 'NoGravity:${1|0,1|}b'},
-        { label: 'CanPickUpLoot', detail: '实体是否可以拾取战利品', insertText: 'CanPickUpLoot:${1|0,1|}b'},
-        { label: 'Glowing', detail: '实体是否发光', insertText: 'Glowing:${1|0,1|}b'},
-        { label: 'HurtTime', detail: '实体上一次受伤的时间(刻) <= 10', insertText: 'HurtTime:${1:}s'},
-        { label: 'Marker', detail: '实体是否为标记[Armor]', insertText: 'Marker:${1|0,1|}b'},
-        { label: 'Passengers', detail: '实体的乘客列表', insertText: 'Passengers:[{}]'},
-        { label: 'Attributes', detail: '实体的属性列表', insertText: 'Attributes:[${1:}]'},
-        { label: 'DeathLootTable', detail: '战利品表路径', insertText: 'DeathLootTable:"${1:}"'},
-        // 装备相关NBT标签
-        { label: 'ArmorItems', detail: '实体的盔甲物品列表', insertText: 'ArmorItems:[{Slot:${1:},id:"${2:}",Count:${3:},Damage:${4:}}]'},
-        { label: 'HandItems', detail: '实体手持的物品列表', insertText: 'HandItems:[{},{}]'},
-        { label: 'ArmorDropChances', detail: '实体的盔甲掉落概率列表', insertText: 'ArmorDropChances:[${1:}f,${2:}f,${3:}f,${4:}f]'}
-    ];
+    static provideNBTCompletions(
+        text: string,
+        spec: NBTRootSpec,
+        position: vscode.Position,
+        createCompletionItem: CompletionItemFactory
+    ): vscode.CompletionItem[] {
+        const { root, cursor } = SNBTParser.parse(text);
+        if (!cursor) { return []; }
+
+        // 替换光标前已输入的部分键名/取值
+        const range = new vscode.Range(position.line, position.character - cursor.prefix.length, position.line, position.character);
+        const schema = NBTSchemas.resolve(spec, root, cursor.path);
+        if (cursor.kind === 'key') {
+            return this.provideKeyCompletions(schema, cursor, range, createCompletionItem);
+        }
+        return schema ? this.provideValueCompletions(schema, range, createCompletionItem) : [];
+    }
 
     /**
-     * 方块NBT补全项定义表
+     * 提供复合标签的键补全（跳过已存在的键）
      */
-    private static readonly BLOCK_NBT_DEFINITIONS: BlockNBTDefinition[] = [
-        // 通用方块实体NBT标签
-        { label: 'CustomName', description: '方块实体显示的自定义名称', insertText: '"${1:名称}"', isOptional: false},
-        { label: 'Lock', description: '用于锁定容器的密码', insertText: '"${1:密码}"', isOptional: false},
-        
-        // 容器相关NBT标签(箱子、熔炉等)
-        { label: 'Items', description: '容器中的物品', insertText: '[{Slot:${1:槽位},id:"${2:物品ID}",Count:${3:数量},Damage:${4:耐久}}]', isOptional: false},
-        { label: 'LootTable', description: '战利品表路径', insertText: '"${1:战利品表路径}"', isOptional: false},
-        
-        // 特殊方块NBT标签
-        { label: 'Text1', description: '告示牌第一行文本', insertText: '"${1:文本}"', isOptional: false},
-        { label: 'Text2', description: '告示牌第二行文本', insertText: '"${1:文本}"', isOptional: false},
-        { label: 'Text3', description: '告示牌第三行文本', insertText: '"${1:文本}"', isOptional: false},
-        { label: 'Text4', description: '告示牌第四行文本', insertText: '"${1:文本}"', isOptional: false}
-    ];
+    private static provideKeyCompletions(
+        schema: NBTSchema | undefined,
+        cursor: NBTCursorContext,
+        range: vscode.Range,
+        createCompletionItem: CompletionItemFactory
+    ): vscode.CompletionItem[] {
+        if (!schema?.children) { return []; }
+        return Object.entries(schema.children)
+            .filter(([key]) => !cursor.existingKeys.includes(key))
+            .map(([key, child]) => createCompletionItem(
+                key,
+                `${child.desc} : ${this.describeType(child)}`,
+                // 有可选值的字符串只插入键名，由取值补全插入带引号的值
+                `${key}:${child.values ? '' : this.valueSnippet(child)}`,
+                this.shouldTriggerNext(child),
+                vscode.CompletionItemKind.Property,
+                range
+            ));
+    }
 
     /**
-     * 提供实体NBT补全项
-     * @param createCompletionItem 补全项创建函数
-     * @returns 实体NBT补全项数组
+     * 提供值补全
      */
-    static provideEntityNBTCompletions(
-        createCompletionItem: (
-            label: string,
-            detail: string,
-            insertText: string,
-            triggerNext: boolean,
-            kind: vscode.CompletionItemKind
-        ) => vscode.CompletionItem
+    private static provideValueCompletions(
+        schema: NBTSchema,
+        range: vscode.Range,
+        createCompletionItem: CompletionItemFactory
     ): vscode.CompletionItem[] {
-        return this.ENTITY_NBT_DEFINITIONS.map(def => 
-            createCompletionItem(def.label, def.detail, def.insertText, false, vscode.CompletionItemKind.Property)
-        );
+        if (schema.boolean) {
+            return [
+                createCompletionItem('1b', '是', '1b', false, vscode.CompletionItemKind.Value, range),
+                createCompletionItem('0b', '否', '0b', false, vscode.CompletionItemKind.Value, range)
+            ];
+        }
+        if (schema.values) {
+            return this.resolveValues(schema.values).map(({ name, desc }) => {
+                const item = createCompletionItem(name, desc, `"${name}"`, false, vscode.CompletionItemKind.EnumMember, range);
+                // 已输入的前缀可能带引号
+                item.filterText = `"${name}"`;
+                return item;
+            });
+        }
+        return [createCompletionItem(
+            `<${this.describeType(schema)}>`,
+            schema.desc,
+            this.valueSnippet(schema),
+            this.shouldTriggerNext(schema),
+            vscode.CompletionItemKind.Value,
+            range
+        )];
     }
 
     /**
-     * 提供方块NBT补全项
-     * @param createCompletionItem 补全项创建函数
-     * @returns 方块NBT补全项数组
+     * 按取值来源列出可选值
+     * @param values 固定取值或取值来源
+     * @returns 取值与描述
      */
-    static provideBlockNBTCompletions(
-        createCompletionItem: (
-            label: string,
-            description: string,
-            insertText: string,
-            isOptional: boolean,
-            kind: vscode.CompletionItemKind
-        ) => vscode.CompletionItem
-    ): vscode.CompletionItem[] {
-        return this.BLOCK_NBT_DEFINITIONS.map(def => 
-            createCompletionItem(def.label, def.description, def.insertText, def.isOptional, vscode.CompletionItemKind.Property)
-        );
+    private static resolveValues(values: string[] | NBTValueSource): { name: string, desc: string }[] {
+        if (Array.isArray(values)) {
+            return values.map(value => ({ name: value, desc: value }));
+        }
+        switch (values) {
+            case 'entity':
+                return EntityNameList.all.map(entity => ({ name: `minecraft:${entity.name}`, desc: entity.desc }));
+            case 'item':
+                return Object.entries(ItemNameMap.all).map(([item, desc]) => ({ name: `minecraft:${item}`, desc }));
+            case 'block':
+                return Object.entries(BlockNameMap.all).map(([block, desc]) => ({ name: `minecraft:${block}`, desc }));
+            case 'particle':
+                return ParticleNames.all.map(particle => ({ name: particle.name, desc: particle.desc }));
+            case 'team':
+                return Array.from(FileLineIdleSearchProcessor.getTeams().entries())
+                    .map(([team, [displayName]]) => ({ name: team, desc: displayName || '队伍' }));
+            case 'tag':
+                return Array.from(FileLineIdleSearchProcessor.getTags().keys()).map(tag => ({ name: tag, desc: '实体标签' }));
+        }
     }
-}
\ No newline at end of file
+
+    /**
+     * 生成值的插入片段
+     * 例如 bool → ${1|0,1|}b，复合标签列表 → [{$1}]
+     */
+    private static valueSnippet(schema: NBTSchema): string {
+        if (schema.boolean) {
+            return '${1|0,1|}b';
+        }
+        switch (schema.type) {
+            case 'string':
+                return '"${1:}"';
+            case 'compound':
+                return '{${1:}}';
+            case 'list':
+                if (schema.item?.type === 'compound') { return '[{${1:}}]'; }
+                if (schema.item?.type === 'string') { return '["${1:}"]'; }
+                return '[${1:}]';
+            case 'byte_array':
+                return '[B;${1:}]';
+            case 'int_array':
+                return '[I;${1:}]';
+            case 'long_array':
+                return '[L;${1:}]';
+            default:
+                return '${1:}' + (NUMBER_SUFFIX[schema.type] ?? '');
+        }
+    }
+
+    /**
+     * 插入后是否继续触发补全（进入复合标签或有可选值时）
+     */
+    private static shouldTriggerNext(schema: NBTSchema): boolean {
+        return schema.type === 'compound'
+            || (schema.type === 'list' && schema.item?.type === 'compound')
+            || (!!schema.values && schema.type === 'string');
+    }
+
+    /**
+     * 类型描述，如 bool、list<compound>
+     */
+    private static describeType(schema: NBTSchema): string {
+        if (schema.boolean) { return 'bool'; }
+        if (schema.type === 'list' && schema.item) { return `list<${schema.item.type}>`; }
+        return schema.type;
+    }
+}
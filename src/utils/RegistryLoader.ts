@@ -0,0 +1,107 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+
+/** 注册表对应的游戏版本（扩展内置注册表目录名） */
+export const REGISTRY_VERSION = '1.12.2';
+
+/** 注册表文件名（不含扩展名） */
+export type RegistryName = 'blocks' | 'items' | 'entities' | 'particles' | 'stats' | 'block_data' | 'item_data';
+
+/** 名称-描述枚举项 */
+export interface RegistryEntry {
+    name: string;
+    desc: string;
+}
+
+/**
+ * 注册表加载器
+ * 从扩展内置的 registries/<版本>/<名称>.json 读取枚举数据，
+ * 再合并工作区 registries/<名称>.json 中的覆盖项（用于模组新增的方块、物品、实体等）
+ *
+ * 注册表文件格式：
+ * { "version": "1.12.2", "values": { "id": "描述" } }            // 映射表（blocks、items）
+ * { "version": "1.12.2", "values": [{ "name": "id", "desc": "描述" }] } // 列表（entities、particles）
+ * stats.json 以 criteria / statistics 两个字段代替 values
+ * block_data.json 的 values 为 { "方块id": { "数据值": "含义" } }
+ * item_data.json 另有 maxStackSize、maxDamage（物品id → 数值）与 hints（物品id → 数据值说明）字段
+ */
+export class RegistryLoader {
+    /** 扩展内置注册表目录（编译后位于 out/utils，向上两级为扩展根目录） */
+    private static readonly BUILTIN_DIR = path.join(__dirname, '..', '..', 'registries', REGISTRY_VERSION);
+    /** 工作区覆盖注册表目录名 */
+    public static readonly OVERRIDE_DIR = 'registries';
+
+    /**
+     * 加载映射表类型的注册表（id → 描述）
+     * 工作区覆盖项与内置项同名时整项覆盖
+     * @param name 注册表名称
+     * @param section 数据字段名
+     * @returns 合并后的映射表
+     */
+    public static loadMap<T = string>(name: RegistryName, section: string = 'values'): Record<string, T> {
+        return {
+            ...this.readSection<Record<string, T>>(this.getBuiltinPath(name), section),
+            ...this.readSection<Record<string, T>>(this.getOverridePath(name), section)
+        };
+    }
+
+    /**
+     * 加载列表类型的注册表（[{ name, desc }]）
+     * 工作区覆盖项与内置项同名时覆盖描述，新名称追加到末尾
+     * @param name 注册表名称
+     * @param section 数据字段名
+     * @returns 合并后的列表
+     */
+    public static loadList(name: RegistryName, section: string = 'values'): RegistryEntry[] {
+        const merged = new Map<string, RegistryEntry>();
+        const sources = [this.getBuiltinPath(name), this.getOverridePath(name)];
+        for (const filePath of sources) {
+            const entries = this.readSection<RegistryEntry[]>(filePath, section);
+            if (!Array.isArray(entries)) { continue; }
+            entries
+                .filter(entry => typeof entry?.name === 'string')
+                .forEach(entry => merged.set(entry.name, { name: entry.name, desc: entry.desc ?? entry.name }));
+        }
+        return Array.from(merged.values());
+    }
+
+    /**
+     * 判断文件是否为工作区覆盖注册表（用于监听变更后刷新缓存）
+     * @param uri 文件uri
+     * @returns 是否为覆盖注册表
+     */
+    public static isOverrideFile(uri: vscode.Uri): boolean {
+        const root = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+        if (!root) { return false; }
+        return path.dirname(uri.fsPath) === path.join(root, this.OVERRIDE_DIR) && uri.fsPath.endsWith('.json');
+    }
+
+    private static getBuiltinPath(name: RegistryName): string {
+        return path.join(this.BUILTIN_DIR, `${name}.json`);
+    }
+
+    private static getOverridePath(name: RegistryName): string | null {
+        const root = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+        return root ? path.join(root, this.OVERRIDE_DIR, `${name}.json`) : null;
+    }
+
+    /**
+     * 读取注册表文件中的数据字段
+     * 文件不存在时静默返回空，格式错误时提示用户
+     * @param filePath 文件路径
+     * @param section 数据字段名
+     * @returns 字段数据（读取失败返回undefined）
+     */
+    private static readSection<T>(filePath: string | null, section: string): T | undefined {
+        if (!filePath || !fs.existsSync(filePath)) { return undefined; }
+        try {
+            const data = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+            return data?.[section] as T | undefined;
+        } catch (error) {
+            vscode.window.showWarningMessage(`读取注册表失败：${path.basename(filePath)}，原因：${(error as Error).message}`);
+            console.error(`读取注册表 ${filePath} 异常：`, error);
+            return undefined;
+        }
+    }
+}
@@ -0,0 +1,411 @@
+/**
+ * NBT 标签类型
+ */
+export type NBTTagType =
+    | 'byte' | 'short' | 'int' | 'long' | 'float' | 'double' | 'string'
+    | 'compound' | 'list' | 'byte_array' | 'int_array' | 'long_array';
+
+/**
+ * SNBT 解析树节点
+ * start/end 为节点在原始文本中的偏移（end 不含）
+ */
+export interface NBTNode {
+    type: NBTTagType;
+    start: number;
+    end: number;
+    /** 基本类型的原始文本（字符串为去掉引号并反转义后的内容） */
+    value?: string;
+    /** 复合标签的键值对 */
+    entries?: NBTEntry[];
+    /** 列表/数组的元素 */
+    items?: NBTNode[];
+    /** 是否在闭合前到达文本末尾 */
+    incomplete?: boolean;
+}
+
+/**
+ * 复合标签中的键值对
+ */
+export interface NBTEntry {
+    key: string;
+    keyStart: number;
+    keyEnd: number;
+    /** 值节点（缺少值时为null） */
+    value: NBTNode | null;
+}
+
+/**
+ * SNBT 语法错误
+ */
+export interface NBTSyntaxError {
+    message: string;
+    start: number;
+    end: number;
+}
+
+/**
+ * 文本末尾（光标）所处的 NBT 上下文
+ * - key：正在输入复合标签的键
+ * - value：正在输入某个键或列表元素的值
+ */
+export interface NBTCursorContext {
+    kind: 'key' | 'value';
+    /** 光标所在值的路径，如 ['Inventory', 0, 'tag', 'display', 'Lore'] */
+    path: (string | number)[];
+    /** 已输入的部分文本 */
+    prefix: string;
+    /** 所在复合标签中已存在的键（kind 为 key 时） */
+    existingKeys: string[];
+}
+
+/**
+ * SNBT 解析结果
+ */
+export interface NBTParseResult {
+    root: NBTNode | null;
+    errors: NBTSyntaxError[];
+    /** 文本在结构内部结束时的光标上下文（结构完整时为null） */
+    cursor: NBTCursorContext | null;
+}
+
+/** 未加引号的字符串/键允许的字符 */
+const UNQUOTED_CHAR = /[A-Za-z0-9._+-]/;
+
+/**
+ * 基本类型的识别规则（按顺序匹配，均不匹配时视为字符串）
+ */
+const PRIMITIVE_PATTERNS: { type: NBTTagType, pattern: RegExp }[] = [
+    { type: 'byte', pattern: /^[-+]?\d+b$/i },
+    { type: 'short', pattern: /^[-+]?\d+s$/i },
+    { type: 'long', pattern: /^[-+]?\d+l$/i },
+    { type: 'float', pattern: /^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?f$/i },
+    { type: 'double', pattern: /^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?d$/i },
+    { type: 'double', pattern: /^[-+]?(\d+\.\d*|\.\d+)(e[-+]?\d+)?$/i },
+    { type: 'int', pattern: /^[-+]?\d+$/ },
+    { type: 'byte', pattern: /^(true|false)$/ }
+];
+
+/** 数组前缀与元素类型 */
+const ARRAY_TYPES: Record<string, { type: NBTTagType, element: NBTTagType }> = {
+    B: { type: 'byte_array', element: 'byte' },
+    I: { type: 'int_array', element: 'int' },
+    L: { type: 'long_array', element: 'long' }
+};
+
+/**
+ * 文本在结构内部结束时抛出，携带光标上下文，由 parse 统一捕获
+ */
+class EndOfInput {
+    constructor(public readonly cursor: NBTCursorContext) { }
+}
+
+/**
+ * SNBT（字符串化 NBT）解析器
+ * 容错解析命令中的 NBT 文本，生成带位置的解析树与语法错误；
+ * 文本在未闭合的结构内结束时（如补全时光标前的文本），记录光标所在的键路径
+ *
+ * 例如 `{Inventory:[{tag:{display:{Lo` 的光标上下文为
+ * { kind: 'key', path: ['Inventory', 0, 'tag', 'display'], prefix: 'Lo' }
+ */
+export class SNBTParser {
+    private pos = 0;
+    private readonly errors: NBTSyntaxError[] = [];
+    /** 当前正在解析的结构路径 */
+    private readonly path: (string | number)[] = [];
+    /** 根节点（文本提前结束时用于返回部分解析树） */
+    private root: NBTNode | null = null;
+
+    private constructor(private readonly text: string) { }
+
+    /**
+     * 解析 SNBT 文本
+     * @param text SNBT 文本（应以 { 开头）
+     * @returns 解析结果
+     */
+    public static parse(text: string): NBTParseResult {
+        return new SNBTParser(text).parseRoot();
+    }
+
+    private parseRoot(): NBTParseResult {
+        this.skipWhitespace();
+        if (this.text[this.pos] !== '{') {
+            this.error('NBT 标签应以 { 开头', this.pos, Math.max(this.pos + 1, this.text.length));
+            return { root: null, errors: this.errors, cursor: null };
+        }
+        try {
+            const root = this.parseCompound(node => this.root = node);
+            this.skipWhitespace();
+            if (this.pos < this.text.length) {
+                this.error('NBT 标签结束后存在多余内容', this.pos, this.text.length);
+            }
+            return { root, errors: this.errors, cursor: null };
+        } catch (signal) {
+            if (signal instanceof EndOfInput) {
+                this.error('NBT 标签未闭合', this.text.length, this.text.length);
+                return { root: this.root, errors: this.errors, cursor: signal.cursor };
+            }
+            throw signal;
+        }
+    }
+
+    /**
+     * 解析复合标签 { key: value, ... }
+     * 节点在解析开始时即挂到父结构上，使文本提前结束时仍能得到部分解析树
+     * @param attach 将节点挂到父结构的回调
+     */
+    private parseCompound(attach: (node: NBTNode) => void): NBTNode {
+        const node: NBTNode = { type: 'compound', start: this.pos, end: this.pos, entries: [], incomplete: true };
+        attach(node);
+        this.pos++; // 跳过 {
+        const entries = node.entries!;
+        const existingKeys = () => entries.map(entry => entry.key);
+
+        this.skipWhitespace();
+        if (this.peek() === '}') {
+            return this.close(node);
+        }
+
+        while (true) {
+            // 键
+            this.skipWhitespace();
+            this.checkEnd({ kind: 'key', path: [...this.path], prefix: '', existingKeys: existingKeys() });
+            const keyStart = this.pos;
+            const key = this.readKey(existingKeys());
+            const keyEnd = this.pos;
+            this.skipWhitespace();
+            this.checkEnd({ kind: 'key', path: [...this.path], prefix: key, existingKeys: existingKeys() });
+            if (!key) {
+                this.error(`应为键名，实际为 "${this.peek()}"`, this.pos, this.pos + 1);
+                if (!this.recover(node)) { return node; }
+                continue;
+            }
+
+            const entry: NBTEntry = { key, keyStart, keyEnd, value: null };
+            entries.push(entry);
+
+            // 分隔符
+            if (this.peek() !== ':') {
+                this.error(`键 "${key}" 后缺少冒号`, keyStart, keyEnd);
+                if (!this.recover(node)) { return node; }
+                continue;
+            }
+            this.pos++;
+
+            // 值
+            this.path.push(key);
+            this.parseValue(value => entry.value = value);
+            this.path.pop();
+            if (!entry.value) {
+                this.error(`键 "${key}" 缺少值`, keyStart, keyEnd);
+            }
+
+            // 下一项或结束
+            this.skipWhitespace();
+            this.checkEnd({ kind: 'key', path: [...this.path], prefix: '', existingKeys: existingKeys() });
+            const next = this.peek();
+            if (next === ',') {
+                this.pos++;
+                continue;
+            }
+            if (next === '}') {
+                return this.close(node);
+            }
+            this.error(`应为 , 或 }，实际为 "${next}"`, this.pos, this.pos + 1);
+            if (!this.recover(node)) { return node; }
+        }
+    }
+
+    /**
+     * 解析列表 [a, b, ...] 或数组 [B; 1b, 2b]
+     * 1.12.2 要求列表元素类型一致
+     * @param attach 将节点挂到父结构的回调
+     */
+    private parseList(attach: (node: NBTNode) => void): NBTNode {
+        const start = this.pos;
+        this.pos++; // 跳过 [
+        const node: NBTNode = { type: 'list', start, end: start, items: [], incomplete: true };
+        attach(node);
+        const items = node.items!;
+
+        // 数组前缀
+        const arrayMatch = /^([BIL]);/.exec(this.text.substring(this.pos));
+        let elementType: NBTTagType | undefined;
+        if (arrayMatch) {
+            node.type = ARRAY_TYPES[arrayMatch[1]].type;
+            elementType = ARRAY_TYPES[arrayMatch[1]].element;
+            this.pos += 2;
+        }
+
+        this.skipWhitespace();
+        if (this.peek() === ']') {
+            return this.close(node);
+        }
+
+        while (true) {
+            this.skipWhitespace();
+            this.path.push(items.length);
+            const value = this.parseValue(item => items.push(item));
+            this.path.pop();
+            if (value) {
+                if (elementType && value.type !== elementType) {
+                    this.error(`数组元素应为 ${elementType} 类型，实际为 ${value.type}`, value.start, value.end);
+                } else if (!elementType && items[0].type !== value.type) {
+                    this.error(`列表元素类型不一致：应为 ${items[0].type}，实际为 ${value.type}`, value.start, value.end);
+                }
+            } else {
+                this.error('列表元素缺少值', this.pos, this.pos + 1);
+            }
+
+            this.skipWhitespace();
+            this.checkEnd({ kind: 'value', path: [...this.path, items.length], prefix: '', existingKeys: [] });
+            const next = this.peek();
+            if (next === ',') {
+                this.pos++;
+                continue;
+            }
+            if (next === ']') {
+                return this.close(node);
+            }
+            this.error(`应为 , 或 ]，实际为 "${next}"`, this.pos, this.pos + 1);
+            if (!this.recover(node)) { return node; }
+        }
+    }
+
+    /**
+     * 解析任意值，缺少值时返回null
+     * @param attach 将节点挂到父结构的回调
+     */
+    private parseValue(attach: (node: NBTNode) => void): NBTNode | null {
+        this.skipWhitespace();
+        this.checkEnd({ kind: 'value', path: [...this.path], prefix: '', existingKeys: [] });
+        const char = this.peek();
+        if (char === '{') {
+            return this.parseCompound(attach);
+        }
+        if (char === '[') {
+            return this.parseList(attach);
+        }
+        if (char === '"') {
+            const node = this.parseQuotedString({ kind: 'value', path: [...this.path], prefix: '', existingKeys: [] });
+            attach(node);
+            return node;
+        }
+
+        const start = this.pos;
+        while (this.pos < this.text.length && UNQUOTED_CHAR.test(this.text[this.pos])) {
+            this.pos++;
+        }
+        const raw = this.text.substring(start, this.pos);
+        this.checkEnd({ kind: 'value', path: [...this.path], prefix: raw, existingKeys: [] });
+        if (!raw) { return null; }
+        const type = PRIMITIVE_PATTERNS.find(({ pattern }) => pattern.test(raw))?.type ?? 'string';
+        const node: NBTNode = { type, start, end: this.pos, value: raw };
+        attach(node);
+        return node;
+    }
+
+    /**
+     * 解析双引号字符串（1.12.2 仅支持双引号）
+     * @param cursor 字符串未闭合时的光标上下文（prefix 由此处填入）
+     */
+    private parseQuotedString(cursor: NBTCursorContext): NBTNode {
+        const start = this.pos;
+        this.pos++; // 跳过 "
+        let value = '';
+        while (this.pos < this.text.length) {
+            const char = this.text[this.pos];
+            if (char === '\\' && this.pos + 1 < this.text.length) {
+                value += this.text[this.pos + 1];
+                this.pos += 2;
+                continue;
+            }
+            if (char === '"') {
+                this.pos++;
+                return { type: 'string', start, end: this.pos, value };
+            }
+            value += char;
+            this.pos++;
+        }
+        // 字符串未闭合：视为正在输入
+        throw new EndOfInput({ ...cursor, prefix: this.text.substring(start) });
+    }
+
+    /**
+     * 读取键名（未加引号或双引号包裹）
+     * @param existingKeys 所在复合标签中已存在的键
+     */
+    private readKey(existingKeys: string[]): string {
+        if (this.peek() === '"') {
+            return this.parseQuotedString({ kind: 'key', path: [...this.path], prefix: '', existingKeys }).value ?? '';
+        }
+        const start = this.pos;
+        while (this.pos < this.text.length && UNQUOTED_CHAR.test(this.text[this.pos])) {
+            this.pos++;
+        }
+        return this.text.substring(start, this.pos);
+    }
+
+    /**
+     * 出错后跳到下一个 , 或当前结构的结束符继续解析
+     * @param node 当前结构节点
+     * @returns 是否可以继续解析当前结构（遇到结束符时返回false）
+     */
+    private recover(node: NBTNode): boolean {
+        const closing = node.type === 'compound' ? '}' : ']';
+        let depth = 0;
+        let inQuotes = false;
+        while (this.pos < this.text.length) {
+            const char = this.text[this.pos];
+            if (char === '"' && this.text[this.pos - 1] !== '\\') {
+                inQuotes = !inQuotes;
+            } else if (!inQuotes) {
+                if (char === '{' || char === '[') {
+                    depth++;
+                } else if (char === '}' || char === ']') {
+                    if (depth === 0) {
+                        if (char === closing) {
+                            this.close(node);
+                        }
+                        return false;
+                    }
+                    depth--;
+                } else if (char === ',' && depth === 0) {
+                    this.pos++;
+                    return true;
+                }
+            }
+            this.pos++;
+        }
+        throw new EndOfInput({ kind: node.type === 'compound' ? 'key' : 'value', path: [...this.path], prefix: '', existingKeys: [] });
+    }
+
+    private close(node: NBTNode): NBTNode {
+        this.pos++; // 跳过结束符
+        node.end = this.pos;
+        delete node.incomplete;
+        return node;
+    }
+
+    /**
+     * 到达文本末尾时以给定的光标上下文结束解析
+     */
+    private checkEnd(cursor: NBTCursorContext): void {
+        if (this.pos >= this.text.length) {
+            throw new EndOfInput(cursor);
+        }
+    }
+
+    private peek(): string {
+        return this.text[this.pos] ?? '';
+    }
+
+    private skipWhitespace(): void {
+        while (this.pos < this.text.length && /\s/.test(this.text[this.pos])) {
+            this.pos++;
+        }
+    }
+
+    private error(message: string, start: number, end: number): void {
+        this.errors.push({ message, start, end: Math.max(end, start) });
+    }
+}
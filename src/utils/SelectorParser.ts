@@ -0,0 +1,202 @@
+/**
+ * 选择器参数（key=value）
+ * 偏移均相对于选择器文本，end 不含
+ */
+export interface SelectorArgument {
+    key: string;
+    keyStart: number;
+    keyEnd: number;
+    /** 取值（不含取反符号 !） */
+    value: string;
+    valueStart: number;
+    valueEnd: number;
+    /** 取值是否以 ! 取反 */
+    negated: boolean;
+    /** 是否缺少 = 号 */
+    missingValue: boolean;
+}
+
+/**
+ * 选择器解析结果
+ */
+export interface ParsedSelector {
+    /** 目标变量，如 @e */
+    variable: string;
+    arguments: SelectorArgument[];
+    /** 参数列表是否以 ] 闭合 */
+    closed: boolean;
+}
+
+/**
+ * 选择器参数的语法问题
+ * 偏移均相对于选择器文本，end 不含
+ */
+export interface SelectorProblem {
+    argument: SelectorArgument;
+    message: string;
+    start: number;
+    end: number;
+    suggestions?: string[];
+}
+
+/**
+ * 1.12.2 实体选择器解析器
+ * 将 @e[type=zombie,score_kill_min=1] 拆分为带位置的参数，供诊断、跳转、重命名使用
+ */
+export class SelectorParser {
+    /** 取整数值的参数 */
+    public static readonly NUMERIC_KEYS: readonly string[] = [
+        'x', 'y', 'z', 'r', 'rm', 'dx', 'dy', 'dz', 'rx', 'rxm', 'ry', 'rym', 'c', 'l', 'lm'
+    ];
+
+    /** 除 score_ 外的全部参数名 */
+    public static readonly KNOWN_KEYS: readonly string[] = [
+        ...SelectorParser.NUMERIC_KEYS, 'm', 'team', 'name', 'type', 'tag'
+    ];
+
+    /** m= 可用的游戏模式取值 */
+    public static readonly GAME_MODES: readonly string[] = [
+        '0', '1', '2', '3', 's', 'c', 'a', 'sp', 'survival', 'creative', 'adventure', 'spectator'
+    ];
+
+    private constructor() {}
+
+    /**
+     * 解析选择器文本
+     * @param text 选择器文本，如 @a[tag=admin]
+     * @returns 解析结果（不是 @ 选择器时返回undefined）
+     */
+    public static parse(text: string): ParsedSelector | undefined {
+        const match = /^@[aeprs]/.exec(text);
+        if (!match) { return undefined; }
+
+        const selector: ParsedSelector = { variable: match[0], arguments: [], closed: true };
+        if (text[2] !== '[') { return selector; }
+
+        const closeIndex = text.indexOf(']', 3);
+        selector.closed = closeIndex !== -1;
+        const end = selector.closed ? closeIndex : text.length;
+
+        let offset = 3;
+        for (const part of text.slice(3, end).split(',')) {
+            const argument = this.parseArgument(part, offset);
+            if (argument) { selector.arguments.push(argument); }
+            offset += part.length + 1;
+        }
+        return selector;
+    }
+
+    /**
+     * 解析 score_ 参数名
+     * @param key 参数名，如 score_kill_min
+     * @returns 计分板名与是否为下限（不是 score_ 参数或缺少计分板名时返回undefined）
+     */
+    public static parseScoreKey(key: string): { objective: string, min: boolean } | undefined {
+        if (!key.startsWith('score_')) { return undefined; }
+        const min = key.endsWith('_min');
+        const objective = key.slice('score_'.length, min ? -'_min'.length : undefined);
+        return objective ? { objective, min } : undefined;
+    }
+
+    /**
+     * 检查选择器参数的语法：参数名、重复参数、缺少取值、整数取值与游戏模式
+     * 计分板是否存在、实体类型是否有效等依赖工作区数据的检查由调用方完成
+     * @param selector 解析结果
+     * @returns 问题（每个参数最多一个）
+     */
+    public static validate(selector: ParsedSelector): SelectorProblem[] {
+        const problems: SelectorProblem[] = [];
+        const seenKeys = new Set<string>();
+        for (const argument of selector.arguments) {
+            const problem = this.validateArgument(argument, seenKeys);
+            if (problem) { problems.push(problem); }
+        }
+        return problems;
+    }
+
+    /**
+     * 检查单个参数
+     * @param argument 选择器参数
+     * @param seenKeys 已出现的参数名
+     */
+    private static validateArgument(argument: SelectorArgument, seenKeys: Set<string>): SelectorProblem | undefined {
+        const { key, keyStart, keyEnd, value, negated } = argument;
+        const score = this.parseScoreKey(key);
+        if (!score && !this.KNOWN_KEYS.includes(key)) {
+            return {
+                argument,
+                message: `未知的选择器参数 "${key}"`,
+                start: keyStart,
+                end: keyEnd,
+                suggestions: [`可用参数: ${this.KNOWN_KEYS.join(', ')}, score_<计分板>, score_<计分板>_min`]
+            };
+        }
+        if (seenKeys.has(key)) {
+            return { argument, message: `选择器参数 "${key}" 重复`, start: keyStart, end: keyEnd, suggestions: ['删除重复的参数'] };
+        }
+        seenKeys.add(key);
+        if (argument.missingValue) {
+            return { argument, message: `选择器参数 "${key}" 缺少取值`, start: keyStart, end: keyEnd };
+        }
+
+        // 取值为空时范围退回到参数名
+        const [start, end] = value ? [argument.valueStart, argument.valueEnd] : [keyStart, keyEnd];
+        if (score || this.NUMERIC_KEYS.includes(key)) {
+            if (negated || !/^-?\d+$/.test(value)) {
+                return { argument, message: `选择器参数 "${key}" 的取值必须为整数`, start, end };
+            }
+            return undefined;
+        }
+        if (key === 'm' && !this.GAME_MODES.includes(value.toLowerCase())) {
+            return {
+                argument,
+                message: `无效的游戏模式 "${value}"`,
+                start,
+                end,
+                suggestions: [`可用取值: ${this.GAME_MODES.join(', ')}`]
+            };
+        }
+        // type=! 不合法，type= 表示任意类型
+        if (key === 'type' && !value && negated) {
+            return { argument, message: '缺少实体类型', start, end };
+        }
+        return undefined;
+    }
+
+    /**
+     * 解析单个参数
+     * @param part 逗号间的参数文本
+     * @param offset 参数在选择器文本中的偏移
+     */
+    private static parseArgument(part: string, offset: number): SelectorArgument | undefined {
+        const leading = part.length - part.trimStart().length;
+        const trimmed = part.trim();
+        if (!trimmed) { return undefined; }
+
+        const keyStart = offset + leading;
+        const equalIndex = trimmed.indexOf('=');
+        if (equalIndex === -1) {
+            const keyEnd = keyStart + trimmed.length;
+            return { key: trimmed, keyStart, keyEnd, value: '', valueStart: keyEnd, valueEnd: keyEnd, negated: false, missingValue: true };
+        }
+
+        const key = trimmed.slice(0, equalIndex).trimEnd();
+        let valueStart = keyStart + equalIndex + 1;
+        let value = trimmed.slice(equalIndex + 1);
+        const negated = value.startsWith('!');
+        if (negated) {
+            value = value.slice(1);
+            valueStart++;
+        }
+        return {
+            key,
+            keyStart,
+            keyEnd: keyStart + key.length,
+            value,
+            valueStart,
+            valueEnd: valueStart + value.length,
+            negated,
+            missingValue: false
+        };
+    }
+}